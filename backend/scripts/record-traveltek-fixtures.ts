@@ -0,0 +1,52 @@
+/**
+ * Record Traveltek cruise files from the live FTP server as local fixtures.
+ *
+ * Usage: tsx scripts/record-traveltek-fixtures.ts <lineId> [--limit 20] [--ship 123] [--out tests/fixtures/traveltek]
+ *
+ * Files keep the FTP layout ([year]/[month]/[lineid]/[shipid]/[codetocruiseid].json)
+ * and have credentials stripped, so they can be replayed with
+ * WEBHOOK_PIPELINE_SOURCE=local or LocalFtpClient in jest.
+ */
+
+import { FtpClient } from '../src/services/traveltek/ftp-client';
+import { TraveltekFixtureRecorder } from '../src/services/traveltek/fixture-recorder';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const lineId = parseInt(args[0]);
+
+  if (!lineId) {
+    console.error(
+      'Usage: tsx scripts/record-traveltek-fixtures.ts <lineId> [--limit N] [--ship ID] [--out DIR]'
+    );
+    process.exit(1);
+  }
+
+  const limit = parseInt(option(args, 'limit') || '20');
+  const shipId = option(args, 'ship') ? parseInt(option(args, 'ship')) : undefined;
+  const outputDir = option(args, 'out') || 'tests/fixtures/traveltek';
+
+  const client = new FtpClient({ maxConnections: 2 });
+  try {
+    await client.connect();
+    const recorder = new TraveltekFixtureRecorder(client, outputDir);
+    const result = await recorder.recordLine(lineId, { limit, shipId });
+
+    console.log(`✅ Recorded ${result.recorded.length} files for line ${lineId} into ${outputDir}`);
+    for (const failure of result.failed) {
+      console.log(`❌ ${failure.path}: ${failure.error}`);
+    }
+  } finally {
+    await client.disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Fixture recording failed:', error);
+  process.exit(1);
+});
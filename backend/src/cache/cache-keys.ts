@@ -24,7 +24,7 @@ export const CACHE_KEYS = {
 
 export const CacheKeys = {
   // Search-related cache keys
-  search: (params: string) => `search:${Buffer.from(params).toString('base64').slice(0, 32)}`,
+  search: (key: string) => `search:query:${key}`,
   searchFilters: () => 'search:filters',
   searchSuggestions: (query: string, limit: number) => `search:suggestions:${query}:${limit}`,
   popularCruises: (limit: number) => `search:popular:${limit}`,
@@ -1,6 +1,11 @@
 import { searchCache, cruiseCache } from './cache-manager';
-import { searchService } from '../services/search.service';
 import { cruiseService } from '../services/cruise.service';
+import {
+  searchService,
+  createSearchQuery,
+  type SearchQuery,
+} from '../services/search';
+import { searchAnalyticsService } from '../services/search-analytics.service';
 import { cacheLogger } from '../config/logger';
 import { eq, desc, asc, sql } from 'drizzle-orm';
 import { db } from '../db/connection';
@@ -90,7 +95,7 @@ export class CacheWarmingService {
       }
 
       // Fetch and cache search filters
-      const filters = await searchService.getSearchFilters();
+      const filters = await searchService.getSearchFacets();
       await searchCache.setSearchFilters(filters);
       
       cacheLogger.debug('Search filters warmed successfully');
@@ -101,17 +106,19 @@ export class CacheWarmingService {
   }
 
   /**
-   * Warm popular cruise searches
+   * Run a popular search and cache its first page, so the next visitor
+   * running it is served from cache
    */
-  private async warmSearchQuery(query: {
-    filters: any;
-    options: any;
-  }): Promise<void> {
+  private async warmSearchQuery(query: SearchQuery): Promise<void> {
     try {
-      const results = await searchService.searchCruises(query.filters, query.options);
-      cacheLogger.debug('Search query warmed', { 
-        filters: query.filters, 
-        resultCount: results.cruises.length 
+      // Refresh the cached response and keep it until the next warming run
+      const results = await searchService.search(query, {
+        refresh: true,
+        ttl: this.warmingInterval / 1000,
+      });
+      cacheLogger.debug('Search query warmed', {
+        filters: query.filters,
+        resultCount: results.results.length,
       });
     } catch (error) {
       cacheLogger.error('Failed to warm search query', { query, error });
@@ -170,39 +177,24 @@ export class CacheWarmingService {
   }
 
   /**
-   * Get popular search queries (placeholder - would be replaced with analytics data)
+   * The searches run most in the last week, from search analytics. Falls back
+   * to a few broad searches until there's enough traffic recorded.
    */
-  private async getPopularSearchQueries(): Promise<Array<{
-    filters: any;
-    options: any;
-  }>> {
-    // In a real implementation, this would fetch from analytics/tracking data
+  private async getPopularSearchQueries(): Promise<SearchQuery[]> {
+    try {
+      const recorded = await searchAnalyticsService.getPopularQueries(10);
+      if (recorded.length > 0) return recorded;
+    } catch (error) {
+      cacheLogger.warn('Failed to load popular searches, using defaults', { error });
+    }
+
     return [
-      // Caribbean cruises
-      {
-        filters: { destination: 'Caribbean' },
-        options: { limit: 20, sortBy: 'price' }
-      },
-      // Mediterranean cruises
-      {
-        filters: { destination: 'Mediterranean' },
-        options: { limit: 20, sortBy: 'price' }
-      },
-      // Alaska cruises
-      {
-        filters: { destination: 'Alaska' },
-        options: { limit: 20, sortBy: 'date' }
-      },
+      createSearchQuery({}, { sortBy: 'date' }),
+      createSearchQuery({}, { sortBy: 'price' }),
       // 7-night cruises
-      {
-        filters: { nights: { min: 6, max: 8 } },
-        options: { limit: 20, sortBy: 'price' }
-      },
+      createSearchQuery({ minNights: 6, maxNights: 8 }, { sortBy: 'price' }),
       // Budget cruises under $1000
-      {
-        filters: { price: { max: 1000 } },
-        options: { limit: 20, sortBy: 'price' }
-      },
+      createSearchQuery({ maxPrice: 1000 }, { sortBy: 'price' }),
     ];
   }
 
@@ -71,3 +71,26 @@ export const CRUISE_LINE_NAMES: Record<number, string> = {
   22: 'Royal Caribbean', // In our database
   // Add more as needed
 };
+
+/**
+ * Short names and abbreviations customers type for a cruise line (database
+ * line ID -> aliases). Used by search autocomplete.
+ */
+export const CRUISE_LINE_ALIASES: Record<number, string[]> = {
+  1: ['P&O', 'P and O', 'PO Cruises'],
+  3: ['Celebrity', 'X Cruises'],
+  5: ['Cunard Line'],
+  8: ['Carnival', 'CCL'],
+  9: ['Costa'],
+  15: ['Holland America', 'HAL'],
+  17: ['NCL', 'Norwegian', 'Norwegian Cruise Line'],
+  21: ['Virgin', 'Virgin Voyages'],
+  22: ['Royal', 'RCL', 'RCCL', 'RCI', 'Royal Caribbean International'],
+};
+
+/**
+ * Aliases for a database cruise line ID
+ */
+export function getCruiseLineAliases(databaseLineId: number): string[] {
+  return CRUISE_LINE_ALIASES[databaseLineId] || [];
+}
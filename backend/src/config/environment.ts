@@ -36,6 +36,30 @@ const envSchema = z.object({
   TRAVELTEK_FTP_USER: z.string().min(1).optional(),
   TRAVELTEK_FTP_PASSWORD: z.string().min(1).optional(),
 
+  // Webhook pipeline stage selection
+  WEBHOOK_PIPELINE_SOURCE: z.enum(['ftp', 'local']).optional().default('ftp'),
+  WEBHOOK_PIPELINE_LOCAL_DIR: z.string().optional(),
+  WEBHOOK_PIPELINE_DIFF: z.enum(['fields', 'checksum', 'always']).optional().default('fields'),
+  WEBHOOK_PIPELINE_SNAPSHOT: z.enum(['price-history', 'none']).optional().default('price-history'),
+  WEBHOOK_PIPELINE_PUBLISH: z.enum(['alerts', 'none']).optional().default('alerts'),
+  WEBHOOK_PIPELINE_NOTIFY: z.enum(['slack', 'log']).optional().default('slack'),
+  WEBHOOK_PIPELINE_FTP_CONNECTIONS: z.string().transform(Number).optional().default('10'),
+  WEBHOOK_PIPELINE_FILES_PER_JOB: z.string().transform(Number).optional().default('200'),
+  WEBHOOK_PIPELINE_CONCURRENCY: z.string().transform(Number).optional().default('35'),
+  WEBHOOK_PIPELINE_FILE_ATTEMPTS: z.string().transform(Number).optional().default('3'),
+  WEBHOOK_PIPELINE_EVENT_ATTEMPTS: z.string().transform(Number).optional().default('3'),
+  WEBHOOK_PIPELINE_RETRY_BASE_MS: z.string().transform(Number).optional().default('30000'),
+
+  // Reconciliation of active cruises against the FTP feed
+  CRUISE_RECONCILIATION_GRACE_HOURS: z.string().transform(Number).optional().default('48'),
+  CRUISE_RECONCILIATION_MAX_MISSING_RATIO: z.string().transform(Number).optional().default('0.5'),
+
+  // Exchange rates for normalizing non-USD prices
+  EXCHANGE_RATE_PROVIDER: z.enum(['static', 'http']).optional().default('static'),
+  EXCHANGE_RATE_STATIC_FILE: z.string().optional(),
+  EXCHANGE_RATE_API_URL: z.string().url().optional(),
+  EXCHANGE_RATE_API_KEY: z.string().optional(),
+
   // Traveltek Live Booking API
   TRAVELTEK_API_USERNAME: z.string().min(1).optional(),
   TRAVELTEK_API_PASSWORD: z.string().min(1).optional(),
@@ -61,6 +85,7 @@ const envSchema = z.object({
   // Security
   JWT_SECRET: z.string().min(1).optional(),
   WEBHOOK_SECRET: z.string().min(1).optional(),
+  ALERT_LINK_SECRET: z.string().min(16).optional(), // Signs price alert unsubscribe/pause links
 
   // Slack
   SLACK_WEBHOOK_URL: z.string().url().optional(),
@@ -74,6 +99,9 @@ const envSchema = z.object({
   CACHE_TTL_CRUISE_DETAILS: z.string().transform(Number).default('21600'),
   CACHE_TTL_PRICING: z.string().transform(Number).default('900'),
 
+  // Search ranking (JSON weights for sortBy=recommended)
+  RECOMMENDED_SORT_WEIGHTS: z.string().optional(),
+
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('900000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
@@ -110,6 +138,26 @@ export const env = parseResult.success
       TRAVELTEK_FTP_HOST: process.env.TRAVELTEK_FTP_HOST || 'ftpeu1prod.traveltek.net',
       TRAVELTEK_FTP_USER: process.env.TRAVELTEK_FTP_USER,
       TRAVELTEK_FTP_PASSWORD: process.env.TRAVELTEK_FTP_PASSWORD,
+      WEBHOOK_PIPELINE_SOURCE: (process.env.WEBHOOK_PIPELINE_SOURCE as any) || 'ftp',
+      WEBHOOK_PIPELINE_LOCAL_DIR: process.env.WEBHOOK_PIPELINE_LOCAL_DIR,
+      WEBHOOK_PIPELINE_DIFF: (process.env.WEBHOOK_PIPELINE_DIFF as any) || 'fields',
+      WEBHOOK_PIPELINE_SNAPSHOT: (process.env.WEBHOOK_PIPELINE_SNAPSHOT as any) || 'price-history',
+      WEBHOOK_PIPELINE_PUBLISH: (process.env.WEBHOOK_PIPELINE_PUBLISH as any) || 'alerts',
+      WEBHOOK_PIPELINE_NOTIFY: (process.env.WEBHOOK_PIPELINE_NOTIFY as any) || 'slack',
+      WEBHOOK_PIPELINE_FTP_CONNECTIONS: Number(process.env.WEBHOOK_PIPELINE_FTP_CONNECTIONS) || 10,
+      WEBHOOK_PIPELINE_FILES_PER_JOB: Number(process.env.WEBHOOK_PIPELINE_FILES_PER_JOB) || 200,
+      WEBHOOK_PIPELINE_CONCURRENCY: Number(process.env.WEBHOOK_PIPELINE_CONCURRENCY) || 35,
+      WEBHOOK_PIPELINE_FILE_ATTEMPTS: Number(process.env.WEBHOOK_PIPELINE_FILE_ATTEMPTS) || 3,
+      WEBHOOK_PIPELINE_EVENT_ATTEMPTS: Number(process.env.WEBHOOK_PIPELINE_EVENT_ATTEMPTS) || 3,
+      WEBHOOK_PIPELINE_RETRY_BASE_MS: Number(process.env.WEBHOOK_PIPELINE_RETRY_BASE_MS) || 30000,
+      CRUISE_RECONCILIATION_GRACE_HOURS:
+        Number(process.env.CRUISE_RECONCILIATION_GRACE_HOURS) || 48,
+      CRUISE_RECONCILIATION_MAX_MISSING_RATIO:
+        Number(process.env.CRUISE_RECONCILIATION_MAX_MISSING_RATIO) || 0.5,
+      EXCHANGE_RATE_PROVIDER: (process.env.EXCHANGE_RATE_PROVIDER as any) || 'static',
+      EXCHANGE_RATE_STATIC_FILE: process.env.EXCHANGE_RATE_STATIC_FILE,
+      EXCHANGE_RATE_API_URL: process.env.EXCHANGE_RATE_API_URL,
+      EXCHANGE_RATE_API_KEY: process.env.EXCHANGE_RATE_API_KEY,
       TRAVELTEK_API_USERNAME: process.env.TRAVELTEK_API_USERNAME,
       TRAVELTEK_API_PASSWORD: process.env.TRAVELTEK_API_PASSWORD,
       TRAVELTEK_API_BASE_URL: process.env.TRAVELTEK_API_BASE_URL,
@@ -120,12 +168,14 @@ export const env = parseResult.success
       TEAM_NOTIFICATION_EMAIL: process.env.TEAM_NOTIFICATION_EMAIL || 'win@zipsea.com',
       JWT_SECRET: process.env.JWT_SECRET,
       WEBHOOK_SECRET: process.env.WEBHOOK_SECRET,
+      ALERT_LINK_SECRET: process.env.ALERT_LINK_SECRET,
       SLACK_WEBHOOK_URL: process.env.SLACK_WEBHOOK_URL,
       CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:3000',
       FRONTEND_URL: process.env.FRONTEND_URL || 'https://zipsea.com',
       CACHE_TTL_SEARCH: Number(process.env.CACHE_TTL_SEARCH) || 3600,
       CACHE_TTL_CRUISE_DETAILS: Number(process.env.CACHE_TTL_CRUISE_DETAILS) || 21600,
       CACHE_TTL_PRICING: Number(process.env.CACHE_TTL_PRICING) || 900,
+      RECOMMENDED_SORT_WEIGHTS: process.env.RECOMMENDED_SORT_WEIGHTS,
       RATE_LIMIT_WINDOW_MS: Number(process.env.RATE_LIMIT_WINDOW_MS) || 900000,
       RATE_LIMIT_MAX_REQUESTS: Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 100,
       LOG_LEVEL: (process.env.LOG_LEVEL as any) || 'info',
@@ -294,4 +344,41 @@ export const traveltekConfig = {
   },
 };
 
+// Webhook pipeline configuration (which stage implementations to use)
+export const webhookPipelineConfig = {
+  source: env.WEBHOOK_PIPELINE_SOURCE,
+  localDir: env.WEBHOOK_PIPELINE_LOCAL_DIR || 'tests/fixtures/traveltek',
+  diff: env.WEBHOOK_PIPELINE_DIFF,
+  snapshot: env.WEBHOOK_PIPELINE_SNAPSHOT,
+  publish: env.WEBHOOK_PIPELINE_PUBLISH,
+  notify: env.WEBHOOK_PIPELINE_NOTIFY,
+  ftpConnections: env.WEBHOOK_PIPELINE_FTP_CONNECTIONS,
+  filesPerJob: env.WEBHOOK_PIPELINE_FILES_PER_JOB,
+  concurrency: env.WEBHOOK_PIPELINE_CONCURRENCY,
+  fileAttempts: env.WEBHOOK_PIPELINE_FILE_ATTEMPTS,
+  eventAttempts: env.WEBHOOK_PIPELINE_EVENT_ATTEMPTS,
+  retryBaseMs: env.WEBHOOK_PIPELINE_RETRY_BASE_MS,
+};
+
+export type WebhookPipelineConfig = typeof webhookPipelineConfig;
+
+// Withdrawal of sailings that disappear from the FTP feed
+export const cruiseReconciliationConfig = {
+  gracePeriodHours: env.CRUISE_RECONCILIATION_GRACE_HOURS,
+  // Skip a month directory when more than this share of its sailings look missing
+  maxMissingRatio: env.CRUISE_RECONCILIATION_MAX_MISSING_RATIO,
+};
+
+export type CruiseReconciliationConfig = typeof cruiseReconciliationConfig;
+
+// Exchange-rate provider selection
+export const exchangeRateConfig = {
+  provider: env.EXCHANGE_RATE_PROVIDER,
+  staticFile: env.EXCHANGE_RATE_STATIC_FILE || 'data/exchange-rates.json',
+  apiUrl: env.EXCHANGE_RATE_API_URL,
+  apiKey: env.EXCHANGE_RATE_API_KEY,
+};
+
+export type ExchangeRateConfig = typeof exchangeRateConfig;
+
 export default env;
@@ -0,0 +1,40 @@
+/**
+ * Gratuity policies by cruise line
+ *
+ * Most lines add a daily service charge per guest to the onboard account;
+ * some include gratuities in the fare. Rates are per guest per night in USD.
+ * When Traveltek quotes a prepaid gratuity on the fare itself, that amount
+ * is used instead of these rates.
+ */
+
+export interface GratuityPolicy {
+  type: 'daily' | 'included';
+  dailyRate?: number;
+  suiteDailyRate?: number;
+}
+
+export const GRATUITY_POLICIES: Record<number, GratuityPolicy> = {
+  3: { type: 'daily', dailyRate: 18, suiteDailyRate: 23 }, // Celebrity Cruises
+  5: { type: 'daily', dailyRate: 16.5, suiteDailyRate: 18.5 }, // Cunard
+  8: { type: 'daily', dailyRate: 16, suiteDailyRate: 18 }, // Carnival Cruise Line
+  9: { type: 'daily', dailyRate: 16 }, // Costa Cruises
+  10: { type: 'included' }, // Crystal Cruises
+  15: { type: 'daily', dailyRate: 17, suiteDailyRate: 19.5 }, // Holland America Line
+  17: { type: 'daily', dailyRate: 20, suiteDailyRate: 25 }, // Norwegian Cruise Line
+  21: { type: 'included' }, // Virgin Voyages
+  22: { type: 'daily', dailyRate: 18, suiteDailyRate: 20.5 }, // Royal Caribbean
+};
+
+// Used for lines we have no policy for yet
+export const DEFAULT_GRATUITY_POLICY: GratuityPolicy = { type: 'daily', dailyRate: 16 };
+
+/**
+ * Get the gratuity policy for a database cruise line ID
+ */
+export function getGratuityPolicy(cruiseLineId: number): {
+  policy: GratuityPolicy;
+  known: boolean;
+} {
+  const policy = GRATUITY_POLICIES[cruiseLineId];
+  return policy ? { policy, known: true } : { policy: DEFAULT_GRATUITY_POLICY, known: false };
+}
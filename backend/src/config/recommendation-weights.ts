@@ -0,0 +1,61 @@
+/**
+ * Weights for the "recommended" search sort
+ *
+ * Each factor scores a sailing from 0 to 1 and the recommendation score is
+ * their weighted average, so only the ratios between weights matter. Override
+ * any of them without a deploy by setting RECOMMENDED_SORT_WEIGHTS to JSON,
+ * e.g. {"price": 0.5, "conversion": 0.1}.
+ */
+
+import { env } from './environment';
+import { logger } from './logger';
+
+export interface RecommendationWeights {
+  price: number; // Price against the sailing's own history and its ship's other sailings
+  onboardCredit: number; // Onboard credit from active promotions, as a share of the fare
+  daysToSail: number; // Sooner sailings score higher
+  starRating: number; // Ship star rating
+  conversion: number; // Quotes and bookings per click for the ship's sailings
+}
+
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  price: 0.35,
+  onboardCredit: 0.15,
+  daysToSail: 0.1,
+  starRating: 0.15,
+  conversion: 0.25,
+};
+
+/**
+ * The default weights with any valid overrides from RECOMMENDED_SORT_WEIGHTS
+ */
+export function getRecommendationWeights(
+  overrides: string | undefined = env.RECOMMENDED_SORT_WEIGHTS
+): RecommendationWeights {
+  const weights = { ...DEFAULT_RECOMMENDATION_WEIGHTS };
+  if (!overrides) return weights;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(overrides);
+  } catch {
+    logger.warn('RECOMMENDED_SORT_WEIGHTS is not valid JSON, using default weights');
+    return weights;
+  }
+
+  for (const [factor, weight] of Object.entries(parsed || {})) {
+    if (!(factor in weights)) {
+      logger.warn(`Ignoring unknown recommendation factor ${factor}`);
+    } else if (typeof weight !== 'number' || !(weight >= 0)) {
+      logger.warn(`Ignoring recommendation weight ${factor}=${weight}, must be a number from 0`);
+    } else {
+      weights[factor as keyof RecommendationWeights] = weight;
+    }
+  }
+
+  if (Object.values(weights).every(weight => weight === 0)) {
+    logger.warn('RECOMMENDED_SORT_WEIGHTS sets every weight to 0, using default weights');
+    return { ...DEFAULT_RECOMMENDATION_WEIGHTS };
+  }
+  return weights;
+}
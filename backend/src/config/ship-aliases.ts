@@ -0,0 +1,42 @@
+/**
+ * Names customers use for ships other than the one in our data: former names
+ * from before a transfer or rename, and common nicknames. Keyed by the ship
+ * name as Traveltek sends it. Used by the ship-and-date sailing resolver.
+ */
+export const SHIP_ALIASES: Record<string, string[]> = {
+  'Carnival Venezia': ['Costa Venezia'],
+  'Carnival Firenze': ['Costa Firenze'],
+  'Carnival Luminosa': ['Costa Luminosa'],
+  'Carnival Adventure': ['Pacific Adventure'],
+  'Carnival Encounter': ['Pacific Encounter'],
+  'Queen Anne': ['Cunard Queen Anne'],
+  'Queen Mary 2': ['QM2', 'Queen Mary'],
+  'Queen Elizabeth': ['QE'],
+  'Queen Victoria': ['QV'],
+};
+
+// "Wonder of the Seas" is "Wonder OTS" on cruise forums
+const OF_THE_SEAS = / of the seas$/i;
+
+/**
+ * Every other name a ship goes by: configured aliases, the "OTS" short form
+ * and the name without a leading cruise line name ("Norwegian Prima" ->
+ * "Prima")
+ */
+export function getShipAliases(shipName: string, lineNames: string[] = []): string[] {
+  const aliases = [...(SHIP_ALIASES[shipName] || [])];
+
+  if (OF_THE_SEAS.test(shipName)) {
+    aliases.push(shipName.replace(OF_THE_SEAS, ' OTS'));
+  }
+
+  const lower = shipName.toLowerCase();
+  for (const lineName of lineNames) {
+    const prefix = `${lineName.toLowerCase()} `;
+    if (lower.startsWith(prefix) && shipName.length > prefix.length) {
+      aliases.push(shipName.slice(prefix.length));
+    }
+  }
+
+  return Array.from(new Set(aliases));
+}
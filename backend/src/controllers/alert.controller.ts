@@ -6,6 +6,7 @@ import { logger } from '../config/logger';
 import { userService } from '../services/user.service';
 import { alertMatchingService } from '../services/alert-matching.service';
 import { alertCronService } from '../services/alert-cron.service';
+import { alertDigestService } from '../services/alert-digest.service';
 
 class AlertController {
   /**
@@ -18,8 +19,13 @@ class AlertController {
         name,
         searchCriteria,
         maxBudget,
+        budgetType = 'per_person',
         cabinTypes,
         alertEnabled = true,
+        alertFrequency = 'daily',
+        renotifyDropAmount,
+        renotifyDropPercent,
+        notifyOnExpiry = false,
         adults = 2,
         children = 0,
         childAges = [],
@@ -64,9 +70,13 @@ class AlertController {
           name,
           searchCriteria,
           maxBudget: maxBudget.toString(),
+          budgetType,
           cabinTypes,
           alertEnabled,
-          alertFrequency: 'daily',
+          renotifyDropAmount: renotifyDropAmount?.toString(),
+          renotifyDropPercent: renotifyDropPercent?.toString(),
+          notifyOnExpiry,
+          alertFrequency,
           isActive: true,
           adults,
           children,
@@ -177,11 +187,15 @@ class AlertController {
       // Get all matching cruises (not just new ones)
       const matches = await alertMatchingService.getAllMatches(alertId);
 
+      // What the alert has emailed about each match, and what became of it
+      const history = await alertMatchingService.getMatchHistory(alertId);
+
       res.json({
         success: true,
         data: {
           alert,
           matches,
+          history,
         },
       });
     } catch (error) {
@@ -204,9 +218,14 @@ class AlertController {
         name,
         searchCriteria,
         maxBudget,
+        budgetType,
         cabinTypes,
         alertEnabled,
+        alertFrequency,
         isActive,
+        renotifyDropAmount,
+        renotifyDropPercent,
+        notifyOnExpiry,
         adults,
         children,
         childAges,
@@ -254,9 +273,18 @@ class AlertController {
       if (name !== undefined) updateData.name = name;
       if (searchCriteria !== undefined) updateData.searchCriteria = searchCriteria;
       if (maxBudget !== undefined) updateData.maxBudget = maxBudget.toString();
+      if (budgetType !== undefined) updateData.budgetType = budgetType;
       if (cabinTypes !== undefined) updateData.cabinTypes = cabinTypes;
       if (alertEnabled !== undefined) updateData.alertEnabled = alertEnabled;
+      if (alertFrequency !== undefined) updateData.alertFrequency = alertFrequency;
       if (isActive !== undefined) updateData.isActive = isActive;
+      if (renotifyDropAmount !== undefined) {
+        updateData.renotifyDropAmount = renotifyDropAmount?.toString() ?? null;
+      }
+      if (renotifyDropPercent !== undefined) {
+        updateData.renotifyDropPercent = renotifyDropPercent?.toString() ?? null;
+      }
+      if (notifyOnExpiry !== undefined) updateData.notifyOnExpiry = notifyOnExpiry;
       if (adults !== undefined) updateData.adults = adults;
       if (children !== undefined) updateData.children = children;
       if (childAges !== undefined) updateData.childAges = childAges;
@@ -396,6 +424,65 @@ class AlertController {
       });
     }
   }
+
+  /**
+   * What an emailed pause/unsubscribe link will do, for its confirmation page
+   * GET /api/v1/alerts/unsubscribe?token=...
+   */
+  async getUnsubscribeLink(req: Request, res: Response): Promise<void> {
+    try {
+      const link = await alertDigestService.describeLink(req.query.token as string);
+
+      if (!link) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid or expired link',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: link,
+      });
+    } catch (error) {
+      logger.error('[AlertController] Error reading unsubscribe link:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to read link',
+      });
+    }
+  }
+
+  /**
+   * Pause an alert or unsubscribe from all alerts with an emailed link,
+   * without signing in
+   * POST /api/v1/alerts/unsubscribe
+   */
+  async unsubscribe(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await alertDigestService.applyLink(req.body?.token);
+
+      if (!result) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid or expired link',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('[AlertController] Error applying unsubscribe link:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update alerts',
+      });
+    }
+  }
 }
 
 export const alertController = new AlertController();
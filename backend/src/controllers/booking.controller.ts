@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { traveltekBookingService } from '../services/traveltek-booking.service';
 import { traveltekSessionService } from '../services/traveltek-session.service';
 import { traveltekApiService } from '../services/traveltek-api.service';
+import { toCabinCategory } from '../utils/party-pricing';
 
 /**
  * Booking Controller
@@ -103,6 +104,7 @@ class BookingController {
         cruiseId: sessionData.cruiseId,
         isHoldBooking: sessionData.isHoldBooking,
         selectedCabin: sessionData.selectedCabinGrade?.description,
+        cabinType: toCabinCategory(sessionData.selectedCabinGrade?.cabinType),
         cabinName: sessionData.selectedCabinGrade?.description,
         cabinCode: sessionData.selectedCabinGrade?.cabinCode,
         roomNumber: sessionData.selectedCabinGrade?.roomNumber,
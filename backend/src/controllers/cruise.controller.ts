@@ -1,8 +1,16 @@
 import { Request, Response } from 'express';
 import { cruiseService } from '../services/cruise.service';
-import { searchService } from '../services/search.service';
-import { searchHotfixService } from '../services/search-hotfix.service';
+import {
+  searchService,
+  parseSearchParams,
+  toLegacyRow,
+  SearchQueryError,
+} from '../services/search';
+import { cruiseChangeLogService } from '../services/cruise-change-log.service';
+import { totalCostService } from '../services/total-cost.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
 import { logger } from '../config/logger';
+import { parsePartyParams, validateParty } from '../utils/party-pricing';
 import { db } from '../db/connection';
 import {
   sql,
@@ -23,154 +31,39 @@ import { parseCruiseSlug, isValidCruiseSlug } from '../utils/slug.utils';
 class CruiseController {
   async listCruises(req: Request, res: Response): Promise<void> {
     try {
-      const page = req.query.page ? Number(req.query.page) : 1;
-      const limit = req.query.limit ? Number(req.query.limit) : 20;
-      const offset = (page - 1) * limit;
-
-      // Extract filter parameters (including cruiseLine added by live booking filter middleware)
-      const { shipId, shipName, departureDate, cruiseLine } = req.query;
-
-      // If no filters are provided (except cruiseLine which may be auto-added by middleware), use the original hotfix service
-      if (!shipId && !shipName && !departureDate) {
-        // Parse cruise line IDs if provided by middleware
-        const cruiseLineIds = cruiseLine
-          ? (Array.isArray(cruiseLine) ? cruiseLine : [cruiseLine]).map(Number)
-          : undefined;
-
-        const results = await searchHotfixService.getSimpleCruiseList(limit, offset, cruiseLineIds);
-
-        // Map the results to ensure consistent field names
-        const formattedCruises = results.cruises.map((cruise: any) => ({
-          id: cruise.id,
-          name: cruise.name,
-          sailing_date: cruise.sailingDate, // Map sailingDate to sailing_date
-          nights: cruise.nights,
-          cruise_line_name: cruise.cruiseLine?.name,
-          ship_name: cruise.ship?.name,
-          embark_port_name: cruise.embarkPort?.name,
-          disembark_port_name: cruise.disembarkPort?.name,
-          cheapest_price: cruise.price?.amount,
-        }));
-
-        res.json({
-          success: true,
-          data: {
-            cruises: formattedCruises,
-            meta: results.meta,
-          },
-        });
-        return;
-      }
-
-      // Build filtered query when filters are provided
-      const conditions = [];
-      const params = [];
-
-      // Add base conditions
-      conditions.push(`c.is_active = true`);
-      conditions.push(`c.sailing_date >= CURRENT_DATE + INTERVAL '14 days'`);
-
-      if (shipId) {
-        conditions.push(`c.ship_id = $${params.length + 1}`);
-        params.push(shipId);
-      }
-
-      if (shipName) {
-        conditions.push(`LOWER(s.name) LIKE LOWER($${params.length + 1})`);
-        params.push(`%${shipName}%`);
-      }
-
-      if (departureDate) {
-        conditions.push(`c.sailing_date = $${params.length + 1}`);
-        params.push(departureDate);
-      }
+      // Filters include the cruiseLine list added by the live booking filter middleware
+      const query = parseSearchParams(req.query);
+      // The list shows every upcoming sailing, priced or not
+      query.filters.includeUnavailable = true;
 
-      const whereClause = conditions.join(' AND ');
-
-      // Query for filtered results
-      const query = `
-        SELECT
-          c.id,
-          c.cruise_id,
-          c.name,
-          c.voyage_code,
-          c.sailing_date,
-          c.nights,
-          cl.name as cruise_line_name,
-          s.name as ship_name,
-          p1.name as embark_port_name,
-          p2.name as disembark_port_name,
-          c.port_ids,
-          c.region_ids,
-          cp.cheapest_price,
-          cp.interior_price,
-          cp.oceanview_price,
-          cp.balcony_price,
-          cp.suite_price
-        FROM cruises c
-        LEFT JOIN cruise_lines cl ON c.cruise_line_id = cl.id
-        LEFT JOIN ships s ON c.ship_id = s.id
-        LEFT JOIN ports p1 ON c.embarkation_port_id = p1.id
-        LEFT JOIN ports p2 ON c.disembarkation_port_id = p2.id
-        LEFT JOIN cheapest_pricing cp ON cp.cruise_id = c.id
-        WHERE ${whereClause}
-        ORDER BY c.sailing_date ASC
-        LIMIT $${params.length + 1}
-        OFFSET $${params.length + 2}
-      `;
-
-      params.push(limit, offset);
-      // TODO: Fix this to use Drizzle ORM
-      const results: any[] = []; // await sql.unsafe(query, params);
-
-      // Get total count for filtered results
-      const countQuery = `
-        SELECT COUNT(*) as count
-        FROM cruises c
-        LEFT JOIN ships s ON c.ship_id = s.id
-        WHERE ${whereClause}
-      `;
-
-      const countParams = params.slice(0, -2); // Remove limit and offset
-      // TODO: Fix this to use Drizzle ORM
-      const countResult: any[] = [{ count: 0 }]; // await sql.unsafe(countQuery, countParams);
-      const total = Number(countResult[0]?.count || 0);
-
-      // Format results similar to the working /search/by-ship endpoint
-      const formattedResults = results.map((row: any) => ({
-        id: row.id,
-        cruise_id: row.cruise_id,
-        name: row.name,
-        voyage_code: row.voyage_code,
-        sailing_date: row.sailing_date,
-        nights: row.nights,
-        cruise_line_name: row.cruise_line_name,
-        ship_name: row.ship_name,
-        embark_port_name: row.embark_port_name,
-        disembark_port_name: row.disembark_port_name,
-        port_ids: row.port_ids,
-        region_ids: row.region_ids,
-        cheapest_price: row.cheapest_price,
-        interior_price: row.interior_price,
-        oceanview_price: row.oceanview_price,
-        balcony_price: row.balcony_price,
-        suite_price: row.suite_price,
-      }));
+      const { results, pagination } = await searchService.search(query);
+      const offset = (pagination.page - 1) * pagination.limit;
 
       res.json({
         success: true,
         data: {
-          cruises: formattedResults,
+          cruises: results.map(toLegacyRow),
           meta: {
-            total,
-            limit,
+            total: pagination.total,
+            limit: pagination.limit,
             offset,
-            page: Math.floor(offset / limit) + 1,
-            totalPages: Math.ceil(total / limit),
+            page: pagination.page,
+            totalPages: pagination.totalPages,
+            nextCursor: pagination.nextCursor,
           },
         },
       });
     } catch (error) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid search query',
+            details: error.details,
+          },
+        });
+        return;
+      }
       logger.error('List cruises failed:', error);
       res.status(500).json({
         success: false,
@@ -186,6 +79,9 @@ class CruiseController {
     try {
       const cruiseId = Number(req.params.id);
       const comprehensive = req.query.comprehensive === 'true';
+      const displayCurrency = req.query.displayCurrency
+        ? String(req.query.displayCurrency).toUpperCase()
+        : undefined;
 
       if (isNaN(cruiseId)) {
         res.status(400).json({
@@ -198,6 +94,17 @@ class CruiseController {
         return;
       }
 
+      if (displayCurrency && !(await exchangeRateService.isSupportedCurrency(displayCurrency))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Unsupported display currency',
+            details: `No exchange rate for ${displayCurrency}`,
+          },
+        });
+        return;
+      }
+
       // If comprehensive data is requested, use the comprehensive service method
       if (comprehensive) {
         const comprehensiveData = await cruiseService.getComprehensiveCruiseData(cruiseId);
@@ -213,9 +120,19 @@ class CruiseController {
           return;
         }
 
+        const cruise = comprehensiveData.cruise;
         res.json({
           success: true,
-          data: comprehensiveData,
+          data: {
+            ...comprehensiveData,
+            ...(displayCurrency && {
+              displayPricing: await this.getDisplayPricing(
+                cruise,
+                cruise.raw?.currency || 'USD',
+                displayCurrency
+              ),
+            }),
+          },
           meta: {
             dataVersion: 'comprehensive',
             note: 'Comprehensive data includes all database fields and related records',
@@ -240,7 +157,16 @@ class CruiseController {
 
       res.json({
         success: true,
-        data: cruiseDetails,
+        data: {
+          ...cruiseDetails,
+          ...(displayCurrency && {
+            displayPricing: await this.getDisplayPricing(
+              cruiseDetails,
+              cruiseDetails.currency || 'USD',
+              displayCurrency
+            ),
+          }),
+        },
         meta: {
           dataVersion: 'standard',
           note: 'Add ?comprehensive=true for complete database fields',
@@ -258,6 +184,37 @@ class CruiseController {
     }
   }
 
+  /**
+   * Headline prices converted to the requested display currency
+   */
+  private async getDisplayPricing(
+    cruise: {
+      interiorPrice?: any;
+      oceanviewPrice?: any;
+      balconyPrice?: any;
+      suitePrice?: any;
+      cheapestPrice?: any;
+    },
+    currency: string,
+    displayCurrency: string
+  ) {
+    const prices = await exchangeRateService.convertPrices(
+      {
+        interior: cruise.interiorPrice,
+        oceanview: cruise.oceanviewPrice,
+        balcony: cruise.balconyPrice,
+        suite: cruise.suitePrice,
+        cheapest: cruise.cheapestPrice,
+      },
+      currency,
+      displayCurrency
+    );
+
+    return prices
+      ? { ...prices, currency: displayCurrency, originalCurrency: currency }
+      : { currency, originalCurrency: currency, unavailable: true };
+  }
+
   async getCruisePricing(req: Request, res: Response): Promise<void> {
     try {
       const cruiseId = Number(req.params.id);
@@ -413,6 +370,121 @@ class CruiseController {
     }
   }
 
+  async getQuoteEstimate(req: Request, res: Response): Promise<void> {
+    try {
+      const cruiseId = Number(req.params.id);
+
+      if (isNaN(cruiseId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid cruise ID',
+            details: 'Cruise ID must be a number',
+          },
+        });
+        return;
+      }
+
+      const party = parsePartyParams(req.query) || { adults: 2, children: 0 };
+      const invalid = validateParty(party);
+      if (invalid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid party',
+            details: invalid,
+          },
+        });
+        return;
+      }
+
+      const estimate = await cruiseService.getQuoteEstimate(cruiseId, party);
+
+      res.json({
+        success: true,
+        data: estimate,
+      });
+    } catch (error) {
+      logger.error(`Get quote estimate failed for cruise ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Failed to estimate quote',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    }
+  }
+
+  async getTotalCost(req: Request, res: Response): Promise<void> {
+    try {
+      const cruiseId = Number(req.params.id);
+      const cabinType = req.query.cabinType as string;
+
+      if (isNaN(cruiseId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid cruise ID',
+            details: 'Cruise ID must be a number',
+          },
+        });
+        return;
+      }
+
+      if (!cabinType) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Cabin type is required',
+            details: 'cabinType must be interior, oceanview, balcony or suite',
+          },
+        });
+        return;
+      }
+
+      const party = parsePartyParams(req.query) || { adults: 2, children: 0 };
+      const invalid = validateParty(party);
+      if (invalid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid party',
+            details: invalid,
+          },
+        });
+        return;
+      }
+
+      const totalCost = await totalCostService.calculate(String(cruiseId), cabinType, party);
+
+      if (!totalCost) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'No pricing available',
+            details: `No ${cabinType} pricing found for cruise ${cruiseId}`,
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: totalCost,
+      });
+    } catch (error) {
+      logger.error(`Get total cost failed for cruise ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Failed to calculate total cost',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    }
+  }
+
   async getShipDetails(req: Request, res: Response): Promise<void> {
     try {
       // For now, get ship details through cruise details
@@ -495,6 +567,63 @@ class CruiseController {
     }
   }
 
+  async getCruiseChanges(req: Request, res: Response): Promise<void> {
+    try {
+      const cruiseId = Number(req.params.id);
+
+      if (isNaN(cruiseId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid cruise ID',
+            details: 'Cruise ID must be a number',
+          },
+        });
+        return;
+      }
+
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const offset = Number(req.query.offset) || 0;
+      const changeTypes = req.query.type ? String(req.query.type).split(',') : undefined;
+      const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+
+      if (since && isNaN(since.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid since date',
+            details: 'since must be an ISO date',
+          },
+        });
+        return;
+      }
+
+      const { changes, total } = await cruiseChangeLogService.getChanges(String(cruiseId), {
+        changeTypes,
+        since,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          changes,
+          pagination: { total, limit, offset, hasMore: offset + changes.length < total },
+        },
+      });
+    } catch (error) {
+      logger.error(`Get cruise changes failed for ID ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Failed to get cruise changes',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    }
+  }
+
   async getCruiseBySlug(req: Request, res: Response): Promise<void> {
     try {
       const slug = req.params.slug;
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { logger } from '../config/logger';
+import { userService } from '../services/user.service';
+import { sailingWatchService } from '../services/sailing-watch.service';
+
+/**
+ * The signed-in user's record, or null after responding 404
+ */
+async function getSignedInUser(req: Request, res: Response) {
+  const user = await userService.getByClerkId(req.user!.id);
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: 'User not found',
+    });
+  }
+  return user;
+}
+
+class SailingWatchController {
+  /**
+   * Watch a sailing's cabin type or cabin code for price drops
+   * POST /api/v1/alerts/watches
+   */
+  async createWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await getSignedInUser(req, res);
+      if (!user) return;
+
+      const { cruiseId, cabinType, cabinCode, dropAmount, dropPercent } = req.body;
+      const watch = await sailingWatchService.createWatch(user.id, {
+        cruiseId,
+        cabinType,
+        cabinCode,
+        dropAmount,
+        dropPercent,
+      });
+
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          error: 'Sailing not found or has already departed',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: watch,
+      });
+    } catch (error) {
+      logger.error('[SailingWatchController] Error creating watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create watch',
+      });
+    }
+  }
+
+  /**
+   * Get the user's sailing watches
+   * GET /api/v1/alerts/watches
+   */
+  async getUserWatches(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await getSignedInUser(req, res);
+      if (!user) return;
+
+      const watches = await sailingWatchService.getUserWatches(user.id);
+
+      res.json({
+        success: true,
+        data: watches,
+      });
+    } catch (error) {
+      logger.error('[SailingWatchController] Error getting watches:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get watches',
+      });
+    }
+  }
+
+  /**
+   * Change a watch's thresholds or pause it
+   * PUT /api/v1/alerts/watches/:id
+   */
+  async updateWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await getSignedInUser(req, res);
+      if (!user) return;
+
+      const { dropAmount, dropPercent, isActive } = req.body;
+      const watch = await sailingWatchService.updateWatch(user.id, req.params.id, {
+        dropAmount,
+        dropPercent,
+        isActive,
+      });
+
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          error: 'Watch not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: watch,
+      });
+    } catch (error) {
+      logger.error('[SailingWatchController] Error updating watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update watch',
+      });
+    }
+  }
+
+  /**
+   * Stop watching a sailing
+   * DELETE /api/v1/alerts/watches/:id
+   */
+  async deleteWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await getSignedInUser(req, res);
+      if (!user) return;
+
+      const deleted = await sailingWatchService.deleteWatch(user.id, req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Watch not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Watch deleted successfully',
+      });
+    } catch (error) {
+      logger.error('[SailingWatchController] Error deleting watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete watch',
+      });
+    }
+  }
+}
+
+export const sailingWatchController = new SailingWatchController();
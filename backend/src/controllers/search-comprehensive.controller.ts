@@ -4,14 +4,22 @@
  */
 
 import { Request, Response } from 'express';
-import { comprehensiveSearchService } from '../services/search-comprehensive.service';
-import type {
-  ComprehensiveSearchFilters,
-  SearchOptions,
-} from '../services/search-comprehensive.service';
+import { searchService, parseSearchParams, SearchQueryError } from '../services/search';
+import { searchAnalyticsService } from '../services/search-analytics.service';
 import logger from '../config/logger';
 import env from '../config/environment';
 
+/**
+ * Cruise lines that can be booked instantly
+ */
+function liveBookingLineIds(): number[] {
+  return env.TRAVELTEK_LIVE_BOOKING_LINE_IDS
+    ? env.TRAVELTEK_LIVE_BOOKING_LINE_IDS.split(',')
+        .map(id => parseInt(id.trim(), 10))
+        .filter(id => !isNaN(id))
+    : [];
+}
+
 class SearchComprehensiveController {
   /**
    * Main search endpoint with all filters
@@ -26,217 +34,16 @@ class SearchComprehensiveController {
         url: req.url,
       });
 
-      // Parse filters from query params
-      const filters: ComprehensiveSearchFilters = {
-        // Text search
-        q: req.query.q as string,
-
-        // Date filters - handle multiple months
-        // Support both 'departureMonth' and 'months' parameter names
-        departureMonth: (() => {
-          const param = req.query.departureMonth || req.query.months;
-          if (!param) return undefined;
-          return Array.isArray(param) ? (param as string[]) : [param as string];
-        })(),
-        startDate: req.query.startDate as string,
-        endDate: req.query.endDate as string,
-
-        // Location filters - support both single and array values
-        // Support both 'cruiseLineId' and 'cruiseLines' parameter names
-        cruiseLineId: (() => {
-          const param = req.query.cruiseLineId || req.query.cruiseLines;
-          console.log(
-            'Raw cruiseLineId param:',
-            param,
-            'Type:',
-            typeof param,
-            'IsArray:',
-            Array.isArray(param)
-          );
-
-          let userSelectedLines: number[] | number | undefined;
-          if (!param) {
-            userSelectedLines = undefined;
-          } else if (Array.isArray(param)) {
-            userSelectedLines = param.map(Number).filter(n => !isNaN(n));
-          } else {
-            const num = Number(param);
-            userSelectedLines = !isNaN(num) ? num : undefined;
-          }
-
-          // If instant booking filter is active, restrict to live-bookable cruise lines
-          if (req.query.instantBooking === 'true') {
-            // Parse live booking line IDs from environment variable
-            logger.info('🔍 Instant booking filter active', {
-              envVariable: env.TRAVELTEK_LIVE_BOOKING_LINE_IDS,
-              envType: typeof env.TRAVELTEK_LIVE_BOOKING_LINE_IDS,
-            });
-
-            const liveBookableLines = env.TRAVELTEK_LIVE_BOOKING_LINE_IDS
-              ? env.TRAVELTEK_LIVE_BOOKING_LINE_IDS.split(',')
-                  .map(id => parseInt(id.trim(), 10))
-                  .filter(id => !isNaN(id))
-              : [];
-
-            logger.info('📋 Live bookable cruise lines:', {
-              liveBookableLines,
-              count: liveBookableLines.length,
-              userSelectedLines,
-            });
-
-            // If user selected specific cruise lines, only show those that are also live-bookable
-            if (userSelectedLines !== undefined) {
-              const selectedArray = Array.isArray(userSelectedLines)
-                ? userSelectedLines
-                : [userSelectedLines];
-              const intersection = selectedArray.filter(id => liveBookableLines.includes(id));
-
-              logger.info('✂️ Intersection of selected and live-bookable:', {
-                selectedArray,
-                liveBookableLines,
-                intersection,
-              });
-
-              // If user selected cruise lines but none are live-bookable, return empty array (no results)
-              return intersection.length > 0 ? intersection : [];
-            }
-
-            // No user selection - show all live-bookable lines
-            logger.info('✅ Returning all live-bookable lines:', liveBookableLines);
-            return liveBookableLines;
-          }
-
-          // Instant booking off - return user selection or undefined (all cruise lines)
-          logger.info('❌ Instant booking filter OFF', {
-            instantBookingParam: req.query.instantBooking,
-            userSelectedLines,
-            willShowAllLines: userSelectedLines === undefined,
-          });
-          return userSelectedLines;
-        })(),
-        shipId: (() => {
-          const param = req.query.shipId;
-          if (!param) return undefined;
-          if (Array.isArray(param)) {
-            return param.map(Number).filter(n => !isNaN(n));
-          }
-          const num = Number(param);
-          return !isNaN(num) ? num : undefined;
-        })(),
-        departurePortId: (() => {
-          const param = req.query.departurePortId;
-          if (!param) return undefined;
-          if (Array.isArray(param)) {
-            return param.map(Number).filter(n => !isNaN(n));
-          }
-          const num = Number(param);
-          return !isNaN(num) ? num : undefined;
-        })(),
-        arrivalPortId: (() => {
-          const param = req.query.arrivalPortId;
-          if (!param) return undefined;
-          if (Array.isArray(param)) {
-            return param.map(Number).filter(n => !isNaN(n));
-          }
-          const num = Number(param);
-          return !isNaN(num) ? num : undefined;
-        })(),
-        regionId: (() => {
-          const param = req.query.regionId;
-          if (!param) return undefined;
-          if (Array.isArray(param)) {
-            return param.map(Number).filter(n => !isNaN(n));
-          }
-          const num = Number(param);
-          return !isNaN(num) ? num : undefined;
-        })(),
-
-        // Trip characteristics - handle nightRange parameter from frontend
-        minNights: (() => {
-          if (req.query.minNights) return Number(req.query.minNights);
-          if (req.query.nightRange) {
-            const ranges = Array.isArray(req.query.nightRange)
-              ? (req.query.nightRange as string[])
-              : [req.query.nightRange as string];
-            const minValues = ranges.map(range => {
-              if (range === '12+') return 12;
-              const [min] = range.split('-');
-              return parseInt(min);
-            });
-            return Math.min(...minValues);
-          }
-          return undefined;
-        })(),
-        maxNights: (() => {
-          if (req.query.maxNights) return Number(req.query.maxNights);
-          if (req.query.nightRange) {
-            const ranges = Array.isArray(req.query.nightRange)
-              ? (req.query.nightRange as string[])
-              : [req.query.nightRange as string];
-            const maxValues = ranges.map(range => {
-              if (range === '12+') return 999;
-              const parts = range.split('-');
-              return parseInt(parts[1] || parts[0]);
-            });
-            return Math.max(...maxValues);
-          }
-          return undefined;
-        })(),
-        nights: req.query.nights ? Number(req.query.nights) : undefined,
-
-        // Price filters
-        minPrice: req.query.minPrice ? Number(req.query.minPrice) : undefined,
-        maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
-        currency: (req.query.currency as string) || 'USD',
-
-        // Cabin filters
-        cabinType: req.query.cabinType
-          ? Array.isArray(req.query.cabinType)
-            ? (req.query.cabinType as string[])
-            : [req.query.cabinType as string]
-          : undefined,
-
-        // Other
-        passengers: req.query.passengers ? Number(req.query.passengers) : undefined,
-        includeUnavailable: req.query.includeUnavailable === 'true',
-      };
-
-      // Parse options
-      // Handle both page and offset parameters for compatibility
-      const limit = req.query.limit ? Math.min(Number(req.query.limit), 100) : 20;
-      let page = 1;
-
-      if (req.query.page) {
-        page = Number(req.query.page);
-      } else if (req.query.offset) {
-        // If offset is provided instead of page, calculate page from it
-        const offset = Number(req.query.offset);
-        page = Math.floor(offset / limit) + 1;
-        logger.info(`Calculated page ${page} from offset ${offset} and limit ${limit}`);
-      }
-
-      const options: SearchOptions = {
-        page,
-        limit,
-        sortBy: (req.query.sortBy as 'date' | 'price' | 'nights' | 'popularity') || 'date',
-        sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'asc',
-        includeFacets: req.query.includeFacets === 'true',
-      };
-
-      // Remove undefined values from filters
-      Object.keys(filters).forEach(key => {
-        if (filters[key as keyof ComprehensiveSearchFilters] === undefined) {
-          delete filters[key as keyof ComprehensiveSearchFilters];
-        }
+      // Instant booking restricts to live-bookable cruise lines, intersected with any selected
+      const query = parseSearchParams(req.query, {
+        restrictCruiseLineIds:
+          req.query.instantBooking === 'true' ? liveBookingLineIds() : undefined,
       });
+      const { filters } = query;
 
-      // Perform search with detailed logging
-      logger.info('=== COMPREHENSIVE SEARCH DEBUG ===');
-      logger.info('Raw query params:', req.query);
-      logger.info('Parsed filters:', JSON.stringify(filters, null, 2));
-      logger.info('Search options:', JSON.stringify(options, null, 2));
+      logger.info('Parsed search query:', JSON.stringify(query, null, 2));
 
-      const results = await comprehensiveSearchService.searchCruises(filters, options);
+      const results = await searchService.search(query);
 
       logger.info('Search completed:', {
         totalResults: results?.results?.length || 0,
@@ -259,8 +66,7 @@ class SearchComprehensiveController {
       const totalTime = Date.now() - startTime;
       if (totalTime > 1000) {
         logger.warn('Slow comprehensive search request', {
-          filters,
-          options,
+          query,
           totalTime,
           resultCount: results.results.length,
         });
@@ -279,8 +85,24 @@ class SearchComprehensiveController {
         'X-Accel-Expires': '0', // Nginx cache
       });
 
-      res.json(results);
+      // The client sends searchId back when a result is opened
+      const searchId = searchAnalyticsService.recordSearch(
+        'comprehensive',
+        query,
+        results.pagination.total,
+        totalTime
+      );
+
+      res.json({ ...results, meta: { ...results.meta, searchId } });
     } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: 'Invalid search query',
+          message: error.message,
+          details: error.details,
+        });
+        return;
+      }
       logger.error('Comprehensive search failed:', error);
       res.status(500).json({
         error: 'Search failed',
@@ -296,21 +118,9 @@ class SearchComprehensiveController {
   async getFacets(req: Request, res: Response): Promise<void> {
     try {
       // Parse current filters to get contextual facets
-      const filters: ComprehensiveSearchFilters = {
-        cruiseLineId: (() => {
-          const param = req.query.cruiseLineId || req.query.cruiseLines;
-          if (!param) return undefined;
-          return Array.isArray(param) ? param.map(Number) : Number(param);
-        })(),
-        regionId: req.query.regionId
-          ? Array.isArray(req.query.regionId)
-            ? req.query.regionId.map(Number)
-            : Number(req.query.regionId)
-          : undefined,
-        departureMonth: (req.query.departureMonth || req.query.months) as string,
-      };
+      const { filters } = parseSearchParams(req.query);
 
-      const facets = await comprehensiveSearchService.getSearchFacets(filters);
+      const facets = await searchService.getSearchFacets(filters);
 
       res.json(facets);
     } catch (error: any) {
@@ -330,7 +140,7 @@ class SearchComprehensiveController {
     try {
       const limit = req.query.limit ? Math.min(Number(req.query.limit), 50) : 10;
 
-      const cruises = await comprehensiveSearchService.getPopularCruises(limit);
+      const cruises = await searchService.getPopularCruises(limit);
 
       res.json({
         cruises,
@@ -362,7 +172,7 @@ class SearchComprehensiveController {
 
       const limit = req.query.limit ? Math.min(Number(req.query.limit), 20) : 10;
 
-      const suggestions = await comprehensiveSearchService.getSuggestions(query, limit);
+      const suggestions = await searchService.getSuggestions(query, limit);
 
       res.json(suggestions);
     } catch (error: any) {
@@ -1,125 +1,61 @@
 import { Request, Response } from 'express';
-import { searchOptimizedSimpleService } from '../services/search-optimized-simple.service';
-import { searchHotfixService } from '../services/search-hotfix.service';
-import { searchFixedService } from '../services/search-fixed.service';
+import {
+  searchService,
+  parseSearchParams,
+  toLegacyRow,
+  SearchQueryError,
+} from '../services/search';
+import { searchAnalyticsService } from '../services/search-analytics.service';
+import { sharedSearchService } from '../services/shared-search.service';
+import { userService } from '../services/user.service';
 import logger from '../config/logger';
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHARE_CODE_PATTERN = /^[0-9A-Za-z]{4,16}$/;
+
 /**
  * Optimized search controller using raw SQL for performance
  */
 class SearchOptimizedController {
   /**
-   * Main search endpoint - uses optimized service
+   * Main search endpoint. GET reads the query string, POST the body; both
+   * accept the legacy filter names and nested ranges.
    */
   async searchCruises(req: Request, res: Response): Promise<void> {
     try {
       const startTime = Date.now();
 
-      // Parse filters from query params
-      const filters: any = {
-        q: req.query.q as string,
-        destination: req.query.destination as string,
-        departurePort: req.query.departurePort as string,
-        cruiseLine: req.query.cruiseLine
-          ? Array.isArray(req.query.cruiseLine)
-            ? req.query.cruiseLine.map(Number)
-            : Number(req.query.cruiseLine)
-          : undefined,
-        ship: req.query.ship
-          ? Array.isArray(req.query.ship)
-            ? req.query.ship.map(Number)
-            : Number(req.query.ship)
-          : undefined,
-        nights: {
-          min: req.query.minNights ? Number(req.query.minNights) : undefined,
-          max: req.query.maxNights ? Number(req.query.maxNights) : undefined,
-        },
-        price: {
-          min: req.query.minPrice ? Number(req.query.minPrice) : undefined,
-          max: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
-          currency: req.query.priceCurrency as string,
-        },
-        sailingDate: {
-          from: req.query.sailingDateFrom as string,
-          to: req.query.sailingDateTo as string,
-        },
-        cabinType: req.query.cabinType,
-        passengers: req.query.passengers ? Number(req.query.passengers) : undefined,
-        regions: req.query.regions
-          ? Array.isArray(req.query.regions)
-            ? req.query.regions.map(Number)
-            : [Number(req.query.regions)]
-          : undefined,
-        ports: req.query.ports
-          ? Array.isArray(req.query.ports)
-            ? req.query.ports.map(Number)
-            : [Number(req.query.ports)]
-          : undefined,
-      };
-
-      // Parse options
-      const options = {
-        page: req.query.page ? Number(req.query.page) : 1,
-        limit: req.query.limit ? Math.min(Number(req.query.limit), 100) : 20,
-        sortBy: (req.query.sortBy as string) || 'date',
-        sortOrder: (req.query.sortOrder as string) || 'asc',
-        includeUnavailable: req.query.includeUnavailable === 'true',
-        facets: req.query.facets === 'true',
-      };
-
-      // Clean up empty filter values
-      Object.keys(filters).forEach(key => {
-        if (filters[key] === undefined || filters[key] === '') {
-          delete filters[key];
-        }
-        if (typeof filters[key] === 'object') {
-          Object.keys(filters[key]).forEach(subKey => {
-            if (filters[key][subKey] === undefined || filters[key][subKey] === '') {
-              delete filters[key][subKey];
-            }
-          });
-          if (Object.keys(filters[key]).length === 0) {
-            delete filters[key];
-          }
-        }
-      });
-
-      // Use fixed service that works with new schema
-      // Map old filter format to new format for searchFixedService
-      const fixedFilters = {
-        startDate: filters.sailingDate?.from || req.query.startDate || req.body?.startDate,
-        endDate: filters.sailingDate?.to || req.query.endDate || req.body?.endDate,
-        nights: filters.nights?.min === filters.nights?.max ? filters.nights?.min : undefined,
-        minNights: filters.nights?.min,
-        maxNights: filters.nights?.max,
-        cruiseLineIds: Array.isArray(filters.cruiseLine)
-          ? filters.cruiseLine
-          : filters.cruiseLine
-            ? [filters.cruiseLine]
-            : undefined,
-        cruiseLineId: Array.isArray(filters.cruiseLine)
-          ? filters.cruiseLine[0]
-          : filters.cruiseLine,
-        shipId: Array.isArray(filters.ship) ? filters.ship[0] : filters.ship,
-        embarkPortId: filters.departurePort ? Number(filters.departurePort) : undefined,
-        limit: options.limit,
-        offset: (options.page - 1) * options.limit,
-      };
-
-      const result = await searchFixedService.searchCruises(fixedFilters);
+      const query = parseSearchParams(
+        req.method === 'POST' ? { ...req.query, ...req.body } : req.query
+      );
+      const { results, pagination } = await searchService.search(query);
 
       // Log performance
       const totalTime = Date.now() - startTime;
       if (totalTime > 1000) {
         logger.warn('Slow search request', {
-          filters,
-          options,
+          query,
           totalTime,
         });
       }
 
-      res.json(result);
+      res.json({
+        results: results.map(toLegacyRow),
+        pagination: {
+          ...pagination,
+          offset: (pagination.page - 1) * pagination.limit,
+        },
+        searchId: searchAnalyticsService.recordSearch('search', query, pagination.total, totalTime),
+      });
     } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: 'Invalid search query',
+          message: error.message,
+          details: error.details,
+        });
+        return;
+      }
       logger.error('Search failed:', error);
       res.status(500).json({
         error: 'Search failed',
@@ -129,16 +65,193 @@ class SearchOptimizedController {
   }
 
   /**
-   * Simple cruise list - uses hotfix service for simplicity
+   * Record a cruise opened from a page of search results
+   */
+  async recordClick(req: Request, res: Response): Promise<void> {
+    try {
+      const { searchId, cruiseId, position } = req.body || {};
+
+      if (typeof searchId !== 'string' || !UUID_PATTERN.test(searchId) || !cruiseId) {
+        res.status(400).json({
+          error: 'Invalid click',
+          message: 'searchId and cruiseId are required',
+        });
+        return;
+      }
+
+      const recorded = await searchAnalyticsService.recordClick(
+        searchId,
+        String(cruiseId),
+        Number.isInteger(position) && position > 0 ? position : undefined
+      );
+      if (!recorded) {
+        res.status(404).json({ error: 'Search not found', message: `No search ${searchId}` });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error: any) {
+      logger.error('Record search click failed:', error);
+      res.status(500).json({
+        error: 'Failed to record click',
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Store a search under a short code. Takes the same parameters as POST
+   * /search plus an optional name; signed-in users are recorded as the creator.
+   */
+  async shareSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, ...params } = req.body || {};
+
+      if (name !== undefined && (typeof name !== 'string' || name.length > 255)) {
+        res.status(400).json({
+          error: 'Invalid share',
+          message: 'name must be a string of at most 255 characters',
+        });
+        return;
+      }
+
+      const user = req.user ? await userService.getByClerkId(req.user.id) : null;
+      const shared = await sharedSearchService.share(parseSearchParams(params), {
+        name: name?.trim() || undefined,
+        createdBy: user?.id,
+      });
+
+      res.status(201).json({
+        code: shared.code,
+        name: shared.name,
+        query: shared.query,
+        createdAt: shared.createdAt,
+      });
+    } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: 'Invalid search query',
+          message: error.message,
+          details: error.details,
+        });
+        return;
+      }
+      logger.error('Share search failed:', error);
+      res.status(500).json({
+        error: 'Failed to share search',
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * A shared search with a page of its results, in the /search response
+   * shape. Accepts page or cursor to page through them.
+   */
+  async getSharedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const startTime = Date.now();
+      const { code } = req.params;
+
+      const shared = SHARE_CODE_PATTERN.test(code) ? await sharedSearchService.resolve(code) : null;
+      if (!shared) {
+        res.status(404).json({ error: 'Shared search not found', message: `No search ${code}` });
+        return;
+      }
+
+      const page = parseInt(String(req.query.page || ''));
+      const query = sharedSearchService.toSearchQuery(shared, {
+        page: page > 0 ? page : 1,
+        cursor: typeof req.query.cursor === 'string' ? req.query.cursor : undefined,
+      });
+      const { results, pagination } = await searchService.search(query);
+      const totalTime = Date.now() - startTime;
+
+      res.json({
+        code: shared.code,
+        name: shared.name,
+        query: shared.query,
+        createdAt: shared.createdAt,
+        results: results.map(toLegacyRow),
+        pagination: {
+          ...pagination,
+          offset: (pagination.page - 1) * pagination.limit,
+        },
+        searchId: searchAnalyticsService.recordSearch('search', query, pagination.total, totalTime),
+      });
+    } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: 'Invalid search query',
+          message: error.message,
+          details: error.details,
+        });
+        return;
+      }
+      logger.error('Get shared search failed:', error);
+      res.status(500).json({
+        error: 'Failed to get shared search',
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Save a shared search to the signed-in user's saved searches, with alerts
+   * off. Body: { name } to rename it.
+   */
+  async saveSharedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 255) : '';
+
+      const user = await userService.getByClerkId(req.user!.id);
+      if (!user) {
+        res
+          .status(404)
+          .json({ error: 'User not found', message: 'Sign up before saving searches' });
+        return;
+      }
+
+      const shared = SHARE_CODE_PATTERN.test(code) ? await sharedSearchService.resolve(code) : null;
+      if (!shared) {
+        res.status(404).json({ error: 'Shared search not found', message: `No search ${code}` });
+        return;
+      }
+
+      const saved = await sharedSearchService.saveForUser(shared, user.id, name || undefined);
+      res.status(201).json({ success: true, data: saved });
+    } catch (error: any) {
+      logger.error('Save shared search failed:', error);
+      res.status(500).json({
+        error: 'Failed to save shared search',
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Upcoming cruises by sailing date, unfiltered
    */
   async getCruiseList(req: Request, res: Response): Promise<void> {
     try {
       const limit = req.query.limit ? Math.min(Number(req.query.limit), 100) : 20;
       const offset = req.query.offset ? Number(req.query.offset) : 0;
 
-      const result = await searchHotfixService.getSimpleCruiseList(limit, offset);
+      const { results, pagination } = await searchService.search(
+        parseSearchParams({ limit, offset, sortBy: 'date', sortOrder: 'asc' })
+      );
 
-      res.json(result);
+      res.json({
+        cruises: results.map(toLegacyRow),
+        meta: {
+          total: pagination.total,
+          limit: pagination.limit,
+          offset: (pagination.page - 1) * pagination.limit,
+          page: pagination.page,
+          totalPages: pagination.totalPages,
+        },
+      });
     } catch (error: any) {
       logger.error('Get cruise list failed:', error);
       res.status(500).json({
@@ -155,7 +268,7 @@ class SearchOptimizedController {
     try {
       const limit = req.query.limit ? Math.min(Number(req.query.limit), 50) : 10;
 
-      const cruises = await searchOptimizedSimpleService.getPopularCruises(limit);
+      const cruises = await searchService.getPopularCruises(limit);
 
       res.json({
         cruises,
@@ -173,14 +286,15 @@ class SearchOptimizedController {
   }
 
   /**
-   * Get search filters with counts
+   * Get search filters with counts, for the filters already applied
    */
   async getSearchFilters(req: Request, res: Response): Promise<void> {
     try {
-      // Use searchFixedService to get actual filter data
-      const filters = await searchFixedService.getFilters();
+      const { filters } = parseSearchParams(req.query);
+
+      const facets = await searchService.getSearchFacets(filters);
 
-      res.json(filters);
+      res.json(facets);
     } catch (error: any) {
       logger.error('Get search filters failed:', error);
       res.status(500).json({
@@ -204,7 +318,7 @@ class SearchOptimizedController {
 
       const limit = req.query.limit ? Math.min(Number(req.query.limit), 20) : 10;
 
-      const suggestions = await searchOptimizedSimpleService.getSuggestions(query, limit);
+      const suggestions = await searchService.getSuggestions(query, limit);
 
       res.json(suggestions);
     } catch (error: any) {
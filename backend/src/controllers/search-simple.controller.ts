@@ -4,7 +4,15 @@
  */
 
 import { Request, Response } from 'express';
-import { searchFixedService } from '../services/search-fixed.service';
+import {
+  searchService,
+  parseSearchParams,
+  toLegacyRow,
+  SearchQueryError,
+  MAX_SEARCH_LIMIT,
+} from '../services/search';
+import { searchAnalyticsService } from '../services/search-analytics.service';
+import { sailingResolverService, parseSailingLookup } from '../services/sailing-resolver.service';
 import logger from '../config/logger';
 import postgres from 'postgres';
 import { env } from '../config/environment';
@@ -23,78 +31,47 @@ export class SearchSimpleController {
    */
   async findByShipAndDate(req: Request, res: Response): Promise<void> {
     try {
-      const { shipName, departureDate, month, year } = req.query;
-
-      // Build query conditions
-      const conditions = [];
-      const params = [];
-
-      if (shipName) {
-        // Search both in linked ships table AND in cruise's ship_name field
-        conditions.push(
-          `(LOWER(s.name) LIKE LOWER($${params.length + 1}) OR LOWER(c.ship_name) LIKE LOWER($${params.length + 2}))`
-        );
-        params.push(`%${shipName}%`);
-        params.push(`%${shipName}%`);
-      }
-
-      if (departureDate) {
-        conditions.push(`c.sailing_date = $${params.length + 1}`);
-        params.push(departureDate);
-      } else if (month && year) {
-        conditions.push(`EXTRACT(MONTH FROM c.sailing_date) = $${params.length + 1}`);
-        params.push(month);
-        conditions.push(`EXTRACT(YEAR FROM c.sailing_date) = $${params.length + 1}`);
-        params.push(year);
-      }
-
-      if (conditions.length === 0) {
+      const startTime = Date.now();
+      const query = parseSearchParams(req.query);
+      const { filters } = query;
+
+      if (
+        !filters.shipName &&
+        !filters.shipIds &&
+        !filters.sailingDate &&
+        !filters.departureMonths
+      ) {
         res.status(400).json({
           error: 'Please provide shipName and either departureDate or month/year',
         });
         return;
       }
 
-      const whereClause = conditions.join(' AND ');
+      // A ship's sailings are listed whether or not they're priced yet
+      filters.includeUnavailable = true;
+      if (req.query.limit === undefined) query.limit = MAX_SEARCH_LIMIT;
 
-      const query = `
-        SELECT
-          c.id,
-          c.cruise_id,
-          c.name,
-          c.voyage_code,
-          c.sailing_date,
-          c.nights,
-          cl.name as cruise_line_name,
-          COALESCE(s.name, c.ship_name) as ship_name,
-          p1.name as embark_port_name,
-          p2.name as disembark_port_name,
-          c.port_ids,
-          c.region_ids,
-          cp.cheapest_price,
-          cp.interior_price,
-          cp.oceanview_price,
-          cp.balcony_price,
-          cp.suite_price
-        FROM cruises c
-        LEFT JOIN cruise_lines cl ON c.cruise_line_id = cl.id
-        LEFT JOIN ships s ON c.ship_id = s.id
-        LEFT JOIN ports p1 ON c.embarkation_port_id = p1.id
-        LEFT JOIN ports p2 ON c.disembarkation_port_id = p2.id
-        LEFT JOIN cheapest_pricing cp ON cp.cruise_id = c.id
-        WHERE ${whereClause}
-        ORDER BY c.sailing_date ASC
-        LIMIT 100
-      `;
-
-      const results = await sql.unsafe(query, params);
+      const { results, pagination } = await searchService.search(query);
 
       res.json({
         success: true,
         count: results.length,
-        results,
+        results: results.map(toLegacyRow),
+        searchId: searchAnalyticsService.recordSearch(
+          'by-ship',
+          query,
+          pagination.total,
+          Date.now() - startTime
+        ),
       });
     } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: error.message,
+          details: error.details,
+        });
+        return;
+      }
       logger.error('Search by ship and date failed:', error);
       res.status(500).json({
         error: 'Search failed',
@@ -103,6 +80,38 @@ export class SearchSimpleController {
     }
   }
 
+  /**
+   * Find the sailing meant by a pasted ship name and approximate date, e.g.
+   * q="Wonder of the Seas, March 8 2026". Returns candidates ranked by
+   * confidence, best first.
+   */
+  async resolveSailing(req: Request, res: Response): Promise<void> {
+    try {
+      const lookup = parseSailingLookup(req.query);
+      const candidates = await sailingResolverService.resolve(lookup);
+
+      res.json({
+        success: true,
+        lookup,
+        count: candidates.length,
+        candidates,
+      });
+    } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        res.status(400).json({
+          error: error.message,
+          details: error.details,
+        });
+        return;
+      }
+      logger.error('Resolve sailing failed:', error);
+      res.status(500).json({
+        error: 'Failed to resolve sailing',
+        message: error.message,
+      });
+    }
+  }
+
   /**
    * Get all ships with upcoming cruises
    */
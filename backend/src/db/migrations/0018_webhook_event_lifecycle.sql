@@ -0,0 +1,41 @@
+-- Migration: Webhook event lifecycle and dead-letter queue
+-- Date: 2026-10-19
+-- Description: Normalise webhook_events statuses to the pipeline lifecycle
+-- (received → queued → processing → completed/partially_failed/failed → dead_lettered)
+-- and record cruise files that exhausted their retries in webhook_dead_letters
+
+-- Map statuses written by the old processors onto the lifecycle
+UPDATE webhook_events SET status = 'received' WHERE status = 'pending';
+UPDATE webhook_events SET status = 'skipped' WHERE status = 'throttled';
+UPDATE webhook_events SET status = 'failed' WHERE status = 'error';
+UPDATE webhook_events
+SET status = 'failed', error_message = COALESCE(error_message, 'Abandoned before lifecycle migration')
+WHERE status = 'processing' AND received_at < NOW() - INTERVAL '1 day';
+
+ALTER TABLE webhook_events ALTER COLUMN status SET DEFAULT 'received';
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id SERIAL PRIMARY KEY,
+  webhook_event_id INTEGER REFERENCES webhook_events(id) ON DELETE SET NULL,
+  line_id INTEGER NOT NULL,
+  file_path VARCHAR(500),
+  cruise_id VARCHAR(255),
+  stage VARCHAR(50) NOT NULL,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  status VARCHAR(20) NOT NULL DEFAULT 'dead',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_redriven_at TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_status ON webhook_dead_letters(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_event ON webhook_dead_letters(webhook_event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_line ON webhook_dead_letters(line_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_file ON webhook_dead_letters(file_path);
+
+COMMENT ON TABLE webhook_dead_letters IS 'Cruise files (or whole webhook events) that failed after all retries';
+COMMENT ON COLUMN webhook_dead_letters.file_path IS 'FTP path of the failed file, NULL when the event failed before files were processed';
+COMMENT ON COLUMN webhook_dead_letters.stage IS 'Pipeline stage that failed: discover, fetch, parse, diff, upsert, snapshot';
+COMMENT ON COLUMN webhook_dead_letters.status IS 'dead until re-driven successfully, then resolved';
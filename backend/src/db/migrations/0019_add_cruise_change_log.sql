@@ -0,0 +1,25 @@
+-- Migration: Cruise change log
+-- Date: 2026-10-19
+-- Description: Record field-level changes (itinerary, sailing date, ship, cabin categories,
+-- per-cabin-type prices) detected when a cruise is re-synced from Traveltek
+
+CREATE TABLE IF NOT EXISTS cruise_change_log (
+  id SERIAL PRIMARY KEY,
+  cruise_id VARCHAR NOT NULL REFERENCES cruises(id) ON DELETE CASCADE,
+  change_type VARCHAR(50) NOT NULL,
+  field VARCHAR(100) NOT NULL,
+  cabin_type VARCHAR(20),
+  old_value JSONB,
+  new_value JSONB,
+  source VARCHAR(50) NOT NULL,
+  webhook_event_id INTEGER REFERENCES webhook_events(id) ON DELETE SET NULL,
+  detected_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cruise_change_log_cruise ON cruise_change_log(cruise_id, detected_at);
+CREATE INDEX IF NOT EXISTS idx_cruise_change_log_type ON cruise_change_log(change_type);
+CREATE INDEX IF NOT EXISTS idx_cruise_change_log_detected_at ON cruise_change_log(detected_at);
+
+COMMENT ON TABLE cruise_change_log IS 'Field-level changes detected between the stored cruise and incoming Traveltek data';
+COMMENT ON COLUMN cruise_change_log.change_type IS 'itinerary_changed, sailing_date_moved, ship_swapped, nights_changed, cabin_category_added, cabin_category_removed, price_increased, price_decreased, price_added, price_removed';
+COMMENT ON COLUMN cruise_change_log.cabin_type IS 'Cabin type for price changes: interior, oceanview, balcony, suite';
@@ -0,0 +1,20 @@
+-- Migration: Cruise withdrawal tracking
+-- Date: 2026-10-19
+-- Description: Track sailings that disappear from the Traveltek FTP feed. The reconciliation
+-- job stamps missing_from_ftp_since when a sailing's file is first missing from its
+-- line/month directory and withdraws the sailing once the grace period has passed
+
+ALTER TABLE cruises ADD COLUMN IF NOT EXISTS missing_from_ftp_since TIMESTAMP;
+ALTER TABLE cruises ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMP;
+ALTER TABLE cruises ADD COLUMN IF NOT EXISTS withdrawal_reason VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_cruises_missing_from_ftp
+  ON cruises(missing_from_ftp_since) WHERE missing_from_ftp_since IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_cruises_withdrawn_at
+  ON cruises(withdrawn_at) WHERE withdrawn_at IS NOT NULL;
+
+COMMENT ON COLUMN cruises.missing_from_ftp_since IS 'First reconciliation run that did not find the sailing file on FTP';
+COMMENT ON COLUMN cruises.withdrawn_at IS 'When the sailing was withdrawn (is_active and show_cruise set false)';
+COMMENT ON COLUMN cruises.withdrawal_reason IS 'Why the sailing was withdrawn';
+
+COMMENT ON COLUMN cruise_change_log.change_type IS 'itinerary_changed, sailing_date_moved, ship_swapped, nights_changed, cabin_category_added, cabin_category_removed, price_increased, price_decreased, price_added, price_removed, sailing_withdrawn, sailing_reinstated';
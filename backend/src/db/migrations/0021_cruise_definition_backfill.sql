@@ -0,0 +1,174 @@
+-- Migration: Finish the cruise_definitions / cruise_sailings split
+-- Date: 2026-10-19
+-- Description: Key cruise definitions by itinerary (line, ship, nights, embark/disembark
+-- ports and port sequence), backfill definitions and sailings from cruises, link every
+-- cruises row to its definition and rebuild the compatibility views on the new tables.
+-- Sync writers keep all three tables populated from here on.
+
+-- 0004 created the port columns as embark_port_id/disembark_port_id, the schema uses
+-- embarkation_port_id/disembarkation_port_id like the cruises table
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cruise_definitions' AND column_name = 'embark_port_id'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cruise_definitions' AND column_name = 'embarkation_port_id'
+  ) THEN
+    ALTER TABLE cruise_definitions RENAME COLUMN embark_port_id TO embarkation_port_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cruise_definitions' AND column_name = 'disembark_port_id'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cruise_definitions' AND column_name = 'disembarkation_port_id'
+  ) THEN
+    ALTER TABLE cruise_definitions RENAME COLUMN disembark_port_id TO disembarkation_port_id;
+  END IF;
+END $$;
+
+-- Single definition of "same itinerary", used by the backfill and by the sync writers
+CREATE OR REPLACE FUNCTION cruise_itinerary_key(
+  p_cruise_line_id INTEGER,
+  p_ship_id INTEGER,
+  p_nights INTEGER,
+  p_embark_port_id INTEGER,
+  p_disembark_port_id INTEGER,
+  p_port_ids TEXT
+) RETURNS VARCHAR(32) AS $$
+  SELECT md5(concat_ws('|',
+    p_cruise_line_id,
+    p_ship_id,
+    COALESCE(p_nights, 0),
+    COALESCE(p_embark_port_id, 0),
+    COALESCE(p_disembark_port_id, 0),
+    COALESCE(regexp_replace(p_port_ids, '\s', '', 'g'), '')
+  ))::VARCHAR(32);
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Comma-separated id list (cruises.port_ids / region_ids) to a jsonb integer array
+CREATE OR REPLACE FUNCTION id_list_to_jsonb(p_ids TEXT) RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(trim(id)::INTEGER), '[]'::jsonb)
+  FROM unnest(string_to_array(p_ids, ',')) AS id
+  WHERE trim(id) ~ '^\d+$';
+$$ LANGUAGE SQL IMMUTABLE;
+
+ALTER TABLE cruise_definitions ADD COLUMN IF NOT EXISTS itinerary_key VARCHAR(32);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cruise_definitions_itinerary_key
+  ON cruise_definitions(itinerary_key);
+
+-- Definitions: one per itinerary, details taken from its latest sailing
+INSERT INTO cruise_definitions (
+  itinerary_key, traveltek_cruise_id, cruise_line_id, ship_id, name, itinerary_code,
+  voyage_code, nights, sea_days, embarkation_port_id, disembarkation_port_id, region_ids,
+  port_ids, market_id, owner_id, no_fly, depart_uk, show_cruise, is_active
+)
+SELECT DISTINCT ON (itinerary_key)
+  itinerary_key,
+  CASE WHEN cruise_id ~ '^\d+$' THEN cruise_id::INTEGER ELSE id::INTEGER END,
+  cruise_line_id,
+  ship_id,
+  LEFT(COALESCE(name, 'Unknown Cruise'), 255),
+  itinerary_code,
+  voyage_code,
+  COALESCE(nights, 0),
+  sea_days,
+  embarkation_port_id,
+  disembarkation_port_id,
+  id_list_to_jsonb(region_ids),
+  id_list_to_jsonb(port_ids),
+  CASE WHEN market_id ~ '^\d+$' THEN market_id::INTEGER END,
+  CASE WHEN owner_id ~ '^\d+$' THEN owner_id::INTEGER END,
+  COALESCE(no_fly, false),
+  COALESCE(depart_uk, false),
+  COALESCE(show_cruise, true),
+  true
+FROM (
+  SELECT c.*,
+    cruise_itinerary_key(c.cruise_line_id, c.ship_id, c.nights, c.embarkation_port_id,
+      c.disembarkation_port_id, c.port_ids) AS itinerary_key
+  FROM cruises c
+  WHERE c.id ~ '^\d+$'
+) keyed
+ORDER BY itinerary_key, sailing_date DESC
+ON CONFLICT (itinerary_key) DO NOTHING;
+
+-- Sailings: one per cruises row, re-pointing any rows 0004 attached to unkeyed definitions
+INSERT INTO cruise_sailings (
+  cruise_definition_id, code_to_cruise_id, sailing_date, return_date, is_active
+)
+SELECT cd.id, c.id::INTEGER, c.sailing_date, c.return_date, COALESCE(c.is_active, true)
+FROM cruises c
+JOIN cruise_definitions cd ON cd.itinerary_key = cruise_itinerary_key(
+  c.cruise_line_id, c.ship_id, c.nights, c.embarkation_port_id, c.disembarkation_port_id,
+  c.port_ids
+)
+WHERE c.id ~ '^\d+$'
+ON CONFLICT (code_to_cruise_id) DO UPDATE SET
+  cruise_definition_id = EXCLUDED.cruise_definition_id,
+  sailing_date = EXCLUDED.sailing_date,
+  return_date = EXCLUDED.return_date,
+  is_active = EXCLUDED.is_active,
+  updated_at = NOW();
+
+-- Definitions from 0004 that no longer have sailings
+DELETE FROM cruise_definitions cd
+WHERE cd.itinerary_key IS NULL
+  AND NOT EXISTS (SELECT 1 FROM cruise_sailings cs WHERE cs.cruise_definition_id = cd.id)
+  AND NOT EXISTS (SELECT 1 FROM itineraries i WHERE i.cruise_definition_id = cd.id);
+
+ALTER TABLE cruises ADD COLUMN IF NOT EXISTS cruise_definition_id UUID;
+
+DO $$ BEGIN
+  ALTER TABLE cruises ADD CONSTRAINT cruises_cruise_definition_id_cruise_definitions_id_fk
+    FOREIGN KEY (cruise_definition_id) REFERENCES cruise_definitions(id) ON DELETE SET NULL;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+UPDATE cruises c
+SET cruise_definition_id = cs.cruise_definition_id
+FROM cruise_sailings cs
+WHERE c.id ~ '^\d+$' AND cs.code_to_cruise_id = c.id::INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_cruises_cruise_definition_id
+  ON cruises(cruise_definition_id, sailing_date);
+
+-- The 0004 legacy view joined on a cruises column that never existed. Rebuild it from the
+-- normalized tables with the cruises column names so reads can move off the flat table.
+DROP VIEW IF EXISTS cruise_sailings_legacy;
+CREATE VIEW cruise_sailings_legacy AS
+SELECT
+  cs.code_to_cruise_id::VARCHAR AS id,
+  cd.traveltek_cruise_id::VARCHAR AS cruise_id,
+  cd.cruise_line_id,
+  cd.ship_id,
+  cd.name,
+  cd.voyage_code,
+  cd.itinerary_code,
+  cs.sailing_date,
+  cs.return_date,
+  cd.nights,
+  cd.sea_days,
+  cd.embarkation_port_id,
+  cd.disembarkation_port_id,
+  (SELECT string_agg(value, ',') FROM jsonb_array_elements_text(cd.port_ids)) AS port_ids,
+  (SELECT string_agg(value, ',') FROM jsonb_array_elements_text(cd.region_ids)) AS region_ids,
+  cd.market_id::VARCHAR AS market_id,
+  cd.owner_id::VARCHAR AS owner_id,
+  cd.no_fly,
+  cd.depart_uk,
+  cd.show_cruise,
+  cs.is_active,
+  cs.created_at,
+  cs.updated_at,
+  cd.id AS cruise_definition_id,
+  cs.id AS cruise_sailing_id
+FROM cruise_sailings cs
+JOIN cruise_definitions cd ON cd.id = cs.cruise_definition_id;
+
+COMMENT ON VIEW cruise_sailings_legacy IS 'cruises-shaped view over cruise_definitions + cruise_sailings';
+COMMENT ON COLUMN cruise_definitions.itinerary_key IS 'cruise_itinerary_key(line, ship, nights, embark, disembark, port_ids); sailings with the same key are the same itinerary';
+COMMENT ON COLUMN cruises.cruise_definition_id IS 'Definition (itinerary) this sailing belongs to, kept in sync by the sync writers';
@@ -0,0 +1,19 @@
+-- Migration: One pricing row per cruise, rate, cabin and occupancy
+-- Date: 2026-10-19
+-- Description: Sync writers now upsert the full Traveltek prices tree into pricing keyed on
+-- (cruise_id, rate_code, cabin_code, occupancy_code). Drop duplicate rows left by the old
+-- delete-and-insert sync (keeping the most recently updated) and enforce the key.
+
+DELETE FROM pricing p
+USING (
+  SELECT id,
+         ROW_NUMBER() OVER (
+           PARTITION BY cruise_id, rate_code, cabin_code, occupancy_code
+           ORDER BY updated_at DESC, created_at DESC
+         ) AS rn
+  FROM pricing
+) ranked
+WHERE p.id = ranked.id AND ranked.rn > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS pricing_cruise_rate_cabin_occupancy_idx
+  ON pricing (cruise_id, rate_code, cabin_code, occupancy_code);
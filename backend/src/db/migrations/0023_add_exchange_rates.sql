@@ -0,0 +1,66 @@
+-- Migration: Exchange rates and USD-normalized cruise prices
+-- Date: 2026-10-19
+-- Description: Store the latest FX rate per currency (refreshed by the exchange-rate cron job)
+-- and keep USD copies of the cruises price columns so sorting and price filters compare
+-- like with like. A trigger converts prices whenever a writer changes them; the refresh job
+-- re-converts every non-USD cruise after new rates arrive.
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency VARCHAR(3) PRIMARY KEY,
+  rate DECIMAL(18, 8) NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  fetched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN exchange_rates.rate IS 'Units of currency per 1 USD';
+
+INSERT INTO exchange_rates (currency, rate, source)
+VALUES ('USD', 1, 'fixed')
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE cruises
+  ADD COLUMN IF NOT EXISTS interior_price_usd DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS oceanview_price_usd DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS balcony_price_usd DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS suite_price_usd DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS cheapest_price_usd DECIMAL(10, 2);
+
+-- NULL when the currency has no rate yet
+CREATE OR REPLACE FUNCTION to_usd(amount NUMERIC, currency TEXT) RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN amount IS NULL THEN NULL
+    WHEN COALESCE(UPPER(currency), 'USD') = 'USD' THEN amount
+    ELSE ROUND(amount / NULLIF((SELECT er.rate FROM exchange_rates er
+                                WHERE er.currency = UPPER(to_usd.currency)), 0), 2)
+  END
+$$ LANGUAGE SQL STABLE;
+
+CREATE OR REPLACE FUNCTION cruises_set_usd_prices() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.interior_price_usd := to_usd(NEW.interior_price, NEW.currency);
+  NEW.oceanview_price_usd := to_usd(NEW.oceanview_price, NEW.currency);
+  NEW.balcony_price_usd := to_usd(NEW.balcony_price, NEW.currency);
+  NEW.suite_price_usd := to_usd(NEW.suite_price, NEW.currency);
+  NEW.cheapest_price_usd := to_usd(NEW.cheapest_price, NEW.currency);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cruises_usd_prices ON cruises;
+CREATE TRIGGER trg_cruises_usd_prices
+  BEFORE INSERT OR UPDATE OF interior_price, oceanview_price, balcony_price, suite_price,
+    cheapest_price, currency
+  ON cruises
+  FOR EACH ROW EXECUTE FUNCTION cruises_set_usd_prices();
+
+-- Backfill; non-USD rows fill in on the first rate refresh
+UPDATE cruises SET
+  interior_price_usd = to_usd(interior_price, currency),
+  oceanview_price_usd = to_usd(oceanview_price, currency),
+  balcony_price_usd = to_usd(balcony_price, currency),
+  suite_price_usd = to_usd(suite_price, currency),
+  cheapest_price_usd = to_usd(cheapest_price, currency);
+
+CREATE INDEX IF NOT EXISTS idx_cruises_cheapest_price_usd ON cruises (cheapest_price_usd);
@@ -0,0 +1,92 @@
+-- Migration: Normalized cruise to port call table
+-- Date: 2026-10-19
+-- Description: cruises.port_ids is a comma-separated varchar, which can't answer "calls at
+-- Cozumel and Roatán" or "no overnight in port". Store one row per itinerary day in port,
+-- written by the sync writers from the Traveltek itinerary, and a port_days count on cruises
+-- for the port/sea day filters. Existing sailings are backfilled from raw_data.
+
+CREATE TABLE IF NOT EXISTS cruise_port_calls (
+  id SERIAL PRIMARY KEY,
+  cruise_id VARCHAR NOT NULL REFERENCES cruises(id) ON DELETE CASCADE,
+  call_order INTEGER NOT NULL,
+  day_number INTEGER NOT NULL,
+  port_id INTEGER NOT NULL,
+  port_name VARCHAR(255),
+  arrive_time VARCHAR(10),
+  depart_time VARCHAR(10),
+  is_embarkation BOOLEAN NOT NULL DEFAULT false,
+  is_disembarkation BOOLEAN NOT NULL DEFAULT false,
+  is_overnight BOOLEAN NOT NULL DEFAULT false,
+  is_tender BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cruise_port_calls_cruise_order
+  ON cruise_port_calls (cruise_id, call_order);
+CREATE INDEX IF NOT EXISTS idx_cruise_port_calls_port
+  ON cruise_port_calls (port_id, cruise_id);
+
+ALTER TABLE cruises ADD COLUMN IF NOT EXISTS port_days INTEGER;
+
+-- Backfill from the stored Traveltek itinerary (same rules as port-call-extractor.ts)
+WITH port_days AS (
+  SELECT
+    c.id AS cruise_id,
+    COALESCE(NULLIF(d.day->>'day', '')::int, d.ord::int) AS day_number,
+    (d.day->>'portid')::int AS port_id,
+    LEFT(COALESCE(d.day->>'name', d.day->>'itineraryname'), 255) AS port_name,
+    LEFT(COALESCE(d.day->>'arrivetime', d.day->>'arrivaltime'), 10) AS arrive_time,
+    LEFT(COALESCE(d.day->>'departtime', d.day->>'departuretime'), 10) AS depart_time,
+    COALESCE(d.day->>'overnight', '') IN ('Y', 'y', 'true') AS overnight_flag,
+    COALESCE(d.day->>'tender', d.day->>'istender', '') IN ('Y', 'y', 'true') AS is_tender,
+    d.ord
+  FROM cruises c
+  CROSS JOIN LATERAL jsonb_array_elements(c.raw_data->'itinerary') WITH ORDINALITY AS d(day, ord)
+  WHERE jsonb_typeof(c.raw_data->'itinerary') = 'array'
+    AND d.day->>'portid' ~ '^[0-9]+$'
+    AND (d.day->>'portid')::int > 0
+    AND COALESCE(d.day->>'day', '') ~ '^[0-9]*$'
+),
+ordered AS (
+  SELECT
+    *,
+    ROW_NUMBER() OVER (PARTITION BY cruise_id ORDER BY ord) AS call_order,
+    COUNT(*) OVER (PARTITION BY cruise_id) AS call_count,
+    LEAD(port_id) OVER (PARTITION BY cruise_id ORDER BY ord) AS next_port_id,
+    LEAD(day_number) OVER (PARTITION BY cruise_id ORDER BY ord) AS next_day_number
+  FROM port_days
+)
+INSERT INTO cruise_port_calls (
+  cruise_id, call_order, day_number, port_id, port_name, arrive_time, depart_time,
+  is_embarkation, is_disembarkation, is_overnight, is_tender
+)
+SELECT
+  cruise_id,
+  call_order,
+  day_number,
+  port_id,
+  port_name,
+  arrive_time,
+  depart_time,
+  call_order = 1,
+  call_order = call_count AND call_count > 1,
+  call_order < call_count
+    AND (overnight_flag OR (next_port_id = port_id AND next_day_number = day_number + 1)),
+  is_tender
+FROM ordered
+ON CONFLICT (cruise_id, call_order) DO NOTHING;
+
+UPDATE cruises c SET port_days = counts.port_days
+FROM (
+  SELECT cruise_id, COUNT(DISTINCT day_number) FILTER (
+    WHERE NOT is_embarkation AND NOT is_disembarkation
+  ) AS port_days
+  FROM cruise_port_calls
+  GROUP BY cruise_id
+) counts
+WHERE c.id = counts.cruise_id;
+
+-- Sailings without a Traveltek seadays value get the derived count
+UPDATE cruises
+SET sea_days = GREATEST(nights - 1 - port_days, 0)
+WHERE port_days IS NOT NULL AND COALESCE(sea_days, 0) = 0 AND nights IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Migration: Keyset pagination indexes for search
+-- Date: 2026-10-19
+-- Description: Search pages with a cursor holding the last result's sort keys instead of an
+-- offset. Index the date and price sort keys (ending in id, as the query orders by) so each
+-- page is an index range scan however deep it is. The price expression must match
+-- searchSortKeys in services/search/query-builder.ts.
+
+CREATE INDEX IF NOT EXISTS idx_cruises_search_date_keyset
+  ON cruises (sailing_date, id)
+  WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_cruises_search_price_keyset
+  ON cruises ((COALESCE(cheapest_price_usd, 999999999)), sailing_date, id)
+  WHERE is_active = true;
@@ -0,0 +1,33 @@
+-- Migration: Search analytics
+-- Date: 2026-10-19
+-- Description: Record each search served (normalized filters, result count, latency) and
+-- each cruise opened from a results page, for the admin search report and so cache warming
+-- can replay the searches people actually run.
+
+CREATE TABLE IF NOT EXISTS search_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint VARCHAR(50) NOT NULL,
+  query_key VARCHAR(64) NOT NULL,
+  query_text VARCHAR(255),
+  filters JSONB NOT NULL,
+  sort_by VARCHAR(20) NOT NULL,
+  sort_order VARCHAR(4) NOT NULL,
+  page INTEGER NOT NULL,
+  result_count INTEGER NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_events_query_key ON search_events (query_key, created_at);
+CREATE INDEX IF NOT EXISTS idx_search_events_created_at ON search_events (created_at);
+
+CREATE TABLE IF NOT EXISTS search_clicks (
+  id SERIAL PRIMARY KEY,
+  search_event_id UUID NOT NULL REFERENCES search_events(id) ON DELETE CASCADE,
+  cruise_id VARCHAR NOT NULL,
+  position INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_clicks_search_event ON search_clicks (search_event_id);
+CREATE INDEX IF NOT EXISTS idx_search_clicks_cruise ON search_clicks (cruise_id, created_at);
@@ -0,0 +1,13 @@
+-- Migration: Recommended sort signals
+-- Date: 2026-10-19
+-- Description: Per-sailing inputs to sortBy=recommended that are too expensive to compute per
+-- search: price against the sailing's price_history and its ship's other sailings, onboard
+-- credit from active promotions and the ship's quote/booking conversion. Refreshed hourly.
+
+CREATE TABLE IF NOT EXISTS cruise_recommendation_signals (
+  cruise_id VARCHAR PRIMARY KEY REFERENCES cruises(id) ON DELETE CASCADE,
+  price_ratio DECIMAL(8, 4),
+  onboard_credit_share DECIMAL(8, 4),
+  conversion_rate DECIMAL(8, 4),
+  refreshed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
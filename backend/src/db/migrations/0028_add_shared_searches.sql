@@ -0,0 +1,17 @@
+-- Migration: Shared searches
+-- Date: 2026-10-19
+-- Description: Searches stored under a short code for POST /search/share, so an agent can send
+-- a client a link to a result set and signed-in users can save it without enabling an alert.
+
+CREATE TABLE IF NOT EXISTS shared_searches (
+  code VARCHAR(16) PRIMARY KEY,
+  name VARCHAR(255),
+  query JSONB NOT NULL,
+  query_key VARCHAR(64) NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_searches_created_by ON shared_searches (created_by);
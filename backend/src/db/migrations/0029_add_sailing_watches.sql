@@ -0,0 +1,27 @@
+-- Migration: Sailing watches
+-- Date: 2026-10-19
+-- Description: "Watch this sailing" price-drop alerts on one cruise and cabin type or cabin
+-- code. Prices come from price_history as the webhook pipeline writes it; a watch notifies
+-- whenever the price drops by drop_amount or drop_percent below last_notified_price.
+
+CREATE TABLE IF NOT EXISTS sailing_watches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  cruise_id VARCHAR NOT NULL REFERENCES cruises(id) ON DELETE CASCADE,
+  cabin_type VARCHAR(20) NOT NULL,
+  cabin_code VARCHAR(10),
+  drop_amount DECIMAL(10, 2),
+  drop_percent DECIMAL(5, 2),
+  last_notified_price DECIMAL(10, 2),
+  last_notified_at TIMESTAMP,
+  last_price DECIMAL(10, 2),
+  last_checked_at TIMESTAMP,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One watch per user, sailing and cabin; a null cabin_code (the whole category) counts once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sailing_watches_user_cabin
+  ON sailing_watches (user_id, cruise_id, cabin_type, COALESCE(cabin_code, ''));
+CREATE INDEX IF NOT EXISTS idx_sailing_watches_cruise ON sailing_watches (cruise_id);
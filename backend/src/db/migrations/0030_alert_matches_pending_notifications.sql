@@ -0,0 +1,13 @@
+-- Migration: Pending alert match notifications
+-- Date: 2026-10-19
+-- Description: Alert matches are now recorded as soon as a webhook price change matches them
+-- and emailed shortly after, so notified_at stays NULL until the email has gone out. Existing
+-- rows were all emailed and keep their timestamps.
+
+ALTER TABLE alert_matches ALTER COLUMN notified_at DROP NOT NULL;
+ALTER TABLE alert_matches ALTER COLUMN notified_at DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_alert_matches_pending
+  ON alert_matches(alert_id) WHERE notified_at IS NULL;
+
+COMMENT ON COLUMN alert_matches.notified_at IS 'When the match was emailed; NULL while pending';
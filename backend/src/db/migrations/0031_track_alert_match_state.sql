@@ -0,0 +1,49 @@
+-- Migration: Track alert match price and state
+-- Date: 2026-10-19
+-- Description: Alert matches keep their latest and last emailed price and whether the deal is
+-- still on, so a match is emailed again when it drops further and, if the alert asks for it,
+-- when it goes over budget or sells out. alert_match_events keeps the history per match.
+
+ALTER TABLE alert_matches
+ADD COLUMN IF NOT EXISTS current_price DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS last_notified_price DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS state VARCHAR(20) NOT NULL DEFAULT 'active',
+ADD COLUMN IF NOT EXISTS state_changed_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS pending_notification VARCHAR(20);
+
+-- Existing matches: emailed at their recorded price, or still waiting to be emailed
+UPDATE alert_matches SET current_price = price WHERE current_price IS NULL;
+UPDATE alert_matches SET last_notified_price = price
+WHERE last_notified_price IS NULL AND notified_at IS NOT NULL;
+UPDATE alert_matches SET pending_notification = 'matched'
+WHERE pending_notification IS NULL AND notified_at IS NULL;
+
+DROP INDEX IF EXISTS idx_alert_matches_pending;
+CREATE INDEX IF NOT EXISTS idx_alert_matches_pending
+  ON alert_matches(alert_id) WHERE pending_notification IS NOT NULL;
+
+ALTER TABLE saved_searches
+ADD COLUMN IF NOT EXISTS renotify_drop_amount DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS renotify_drop_percent DECIMAL(5, 2),
+ADD COLUMN IF NOT EXISTS notify_on_expiry BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS alert_match_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id UUID NOT NULL REFERENCES alert_matches(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL,
+  price DECIMAL(10, 2),
+  previous_price DECIMAL(10, 2),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_match_events_match ON alert_match_events(match_id, created_at);
+
+-- Existing matches start their history with the original match
+INSERT INTO alert_match_events (match_id, event_type, price, created_at)
+SELECT id, 'matched', price, created_at FROM alert_matches m
+WHERE NOT EXISTS (SELECT 1 FROM alert_match_events e WHERE e.match_id = m.id);
+
+COMMENT ON COLUMN alert_matches.price IS 'Price when first matched';
+COMMENT ON COLUMN alert_matches.state IS 'active, expired (over budget) or sold_out';
+COMMENT ON COLUMN alert_matches.pending_notification IS 'What to email next: matched, price_drop, expired, sold_out; NULL when nothing';
+COMMENT ON COLUMN saved_searches.notify_on_expiry IS 'Email when a matched deal goes over budget or sells out';
@@ -0,0 +1,8 @@
+-- Migration: Per-person or total alert budgets
+-- Date: 2026-10-19
+-- Description: Alerts are matched on the price of their party (adults, children, child ages and
+-- infants) rather than the two-adult headline price, so the budget says whether it is per person
+-- or for the whole party. Existing alerts were set per person.
+
+ALTER TABLE saved_searches
+ADD COLUMN IF NOT EXISTS budget_type VARCHAR(20) NOT NULL DEFAULT 'per_person';
@@ -1,11 +1,12 @@
-import { pgTable, uuid, varchar, decimal, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, decimal, timestamp, index } from 'drizzle-orm/pg-core';
 import { savedSearches } from './saved-searches';
 import { cruises } from './cruises';
 
 /**
  * Alert Matches Table
- * Tracks which cruises have already been notified for each alert
- * Prevents duplicate notifications for the same cruise/cabin combination
+ * One row per cruise/cabin combination an alert has matched, tracking its
+ * price and state so it is emailed when first matched, again when it drops
+ * further, and optionally when the deal is gone
  */
 export const alertMatches = pgTable('alert_matches', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -16,10 +17,38 @@ export const alertMatches = pgTable('alert_matches', {
     .references(() => cruises.id, { onDelete: 'cascade' })
     .notNull(),
   cabinType: varchar('cabin_type', { length: 20 }).notNull(), // interior, oceanview, balcony, suite
-  price: decimal('price', { precision: 10, scale: 2 }).notNull(),
-  notifiedAt: timestamp('notified_at').defaultNow().notNull(),
+  price: decimal('price', { precision: 10, scale: 2 }).notNull(), // Price when first matched
+  currentPrice: decimal('current_price', { precision: 10, scale: 2 }), // Latest price seen; null when sold out
+  lastNotifiedPrice: decimal('last_notified_price', { precision: 10, scale: 2 }),
+  state: varchar('state', { length: 20 }).default('active').notNull(), // active, expired (over budget), sold_out
+  stateChangedAt: timestamp('state_changed_at'),
+  pendingNotification: varchar('pending_notification', { length: 20 }), // What to email next: matched, price_drop, expired, sold_out
+  notifiedAt: timestamp('notified_at'), // Null until the match has been emailed
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+/**
+ * Alert Match Events Table
+ * History of each match: when it matched, dropped, went over budget or sold out
+ */
+export const alertMatchEvents = pgTable(
+  'alert_match_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    matchId: uuid('match_id')
+      .references(() => alertMatches.id, { onDelete: 'cascade' })
+      .notNull(),
+    eventType: varchar('event_type', { length: 20 }).notNull(), // matched, price_drop, expired, sold_out
+    price: decimal('price', { precision: 10, scale: 2 }), // Null when sold out
+    previousPrice: decimal('previous_price', { precision: 10, scale: 2 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    matchIdx: index('idx_alert_match_events_match').on(table.matchId, table.createdAt),
+  })
+);
+
 export type AlertMatch = typeof alertMatches.$inferSelect;
 export type NewAlertMatch = typeof alertMatches.$inferInsert;
+export type AlertMatchEvent = typeof alertMatchEvents.$inferSelect;
+export type NewAlertMatchEvent = typeof alertMatchEvents.$inferInsert;
@@ -0,0 +1,32 @@
+import { pgTable, serial, varchar, jsonb, timestamp, integer, index } from 'drizzle-orm/pg-core';
+import { cruises } from './cruises';
+import { webhookEvents } from './webhook-events';
+
+// Structured, field-level changes detected when a sailing is re-synced from Traveltek
+export const cruiseChangeLog = pgTable(
+  'cruise_change_log',
+  {
+    id: serial('id').primaryKey(),
+    cruiseId: varchar('cruise_id')
+      .references(() => cruises.id, { onDelete: 'cascade' })
+      .notNull(),
+    changeType: varchar('change_type', { length: 50 }).notNull(), // itinerary_changed, price_decreased, ...
+    field: varchar('field', { length: 100 }).notNull(), // Traveltek field or cabin code the change applies to
+    cabinType: varchar('cabin_type', { length: 20 }), // interior, oceanview, balcony, suite for price changes
+    oldValue: jsonb('old_value'),
+    newValue: jsonb('new_value'),
+    source: varchar('source', { length: 50 }).notNull(), // webhook, ftp_sync, reconciliation
+    webhookEventId: integer('webhook_event_id').references(() => webhookEvents.id, {
+      onDelete: 'set null',
+    }),
+    detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  },
+  table => ({
+    cruiseIdx: index('idx_cruise_change_log_cruise').on(table.cruiseId, table.detectedAt),
+    typeIdx: index('idx_cruise_change_log_type').on(table.changeType),
+    detectedAtIdx: index('idx_cruise_change_log_detected_at').on(table.detectedAt),
+  })
+);
+
+export type CruiseChangeLogEntry = typeof cruiseChangeLog.$inferSelect;
+export type NewCruiseChangeLogEntry = typeof cruiseChangeLog.$inferInsert;
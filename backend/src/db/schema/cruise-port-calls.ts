@@ -0,0 +1,44 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  integer,
+  boolean,
+  timestamp,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { cruises } from './cruises';
+
+// One row per itinerary day a sailing spends in port, derived from the Traveltek itinerary.
+// port_id is not a foreign key: the feed references ports we may not have synced yet.
+export const cruisePortCalls = pgTable(
+  'cruise_port_calls',
+  {
+    id: serial('id').primaryKey(),
+    cruiseId: varchar('cruise_id')
+      .references(() => cruises.id, { onDelete: 'cascade' })
+      .notNull(),
+    callOrder: integer('call_order').notNull(), // 1-based position among port days
+    dayNumber: integer('day_number').notNull(), // itinerary[].day
+    portId: integer('port_id').notNull(), // itinerary[].portid
+    portName: varchar('port_name', { length: 255 }),
+    arrivalTime: varchar('arrive_time', { length: 10 }),
+    departureTime: varchar('depart_time', { length: 10 }),
+    isEmbarkation: boolean('is_embarkation').default(false).notNull(),
+    isDisembarkation: boolean('is_disembarkation').default(false).notNull(),
+    isOvernight: boolean('is_overnight').default(false).notNull(), // Ship stays in port overnight
+    isTender: boolean('is_tender').default(false).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    cruiseOrderIdx: uniqueIndex('idx_cruise_port_calls_cruise_order').on(
+      table.cruiseId,
+      table.callOrder
+    ),
+    portIdx: index('idx_cruise_port_calls_port').on(table.portId, table.cruiseId),
+  })
+);
+
+export type CruisePortCall = typeof cruisePortCalls.$inferSelect;
+export type NewCruisePortCall = typeof cruisePortCalls.$inferInsert;
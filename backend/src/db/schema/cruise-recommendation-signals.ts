@@ -0,0 +1,15 @@
+import { pgTable, varchar, decimal, timestamp } from 'drizzle-orm/pg-core';
+import { cruises } from './cruises';
+
+// Slow-moving inputs to the recommended sort, refreshed hourly by RecommendationSignalsService
+export const cruiseRecommendationSignals = pgTable('cruise_recommendation_signals', {
+  cruiseId: varchar('cruise_id')
+    .primaryKey()
+    .references(() => cruises.id, { onDelete: 'cascade' }),
+  priceRatio: decimal('price_ratio', { precision: 8, scale: 4 }), // Current price over its historical/ship average, below 1 is a deal
+  onboardCreditShare: decimal('onboard_credit_share', { precision: 8, scale: 4 }), // Best onboard credit promotion over the fare
+  conversionRate: decimal('conversion_rate', { precision: 8, scale: 4 }), // Quotes and bookings per click for the ship
+  refreshedAt: timestamp('refreshed_at').defaultNow().notNull(),
+});
+
+export type CruiseRecommendationSignals = typeof cruiseRecommendationSignals.$inferSelect;
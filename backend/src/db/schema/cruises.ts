@@ -17,6 +17,7 @@ import { ports } from './ports';
 // New table for cruise definitions (ship + itinerary combination)
 export const cruiseDefinitions = pgTable('cruise_definitions', {
   id: uuid('id').primaryKey().defaultRandom(),
+  itineraryKey: varchar('itinerary_key', { length: 32 }).unique(), // cruise_itinerary_key() of line, ship, nights, ports
   traveltekCruiseId: integer('traveltek_cruise_id').notNull(), // Original cruiseid from Traveltek
   cruiseLineId: integer('cruise_line_id')
     .references(() => cruiseLines.id)
@@ -81,6 +82,7 @@ export const cruises = pgTable('cruises', {
   returnDate: date('return_date'),
   nights: integer('nights'),
   seaDays: integer('sea_days'),
+  portDays: integer('port_days'), // Days in port between embarkation and disembarkation, from cruise_port_calls
   embarkPortId: integer('embarkation_port_id').references(() => ports.id), // Match working code
   disembarkPortId: integer('disembarkation_port_id').references(() => ports.id), // Match working code
   portIds: varchar('port_ids', { length: 500 }), // Comma-separated string from API
@@ -98,11 +100,25 @@ export const cruises = pgTable('cruises', {
   balconyPrice: decimal('balcony_price', { precision: 10, scale: 2 }),
   suitePrice: decimal('suite_price', { precision: 10, scale: 2 }),
   cheapestPrice: decimal('cheapest_price', { precision: 10, scale: 2 }),
+  currency: varchar('currency', { length: 3 }).default('USD'), // Currency of the prices above
+  // The same prices converted to USD via exchange_rates, kept current by a trigger
+  interiorPriceUsd: decimal('interior_price_usd', { precision: 10, scale: 2 }),
+  oceanviewPriceUsd: decimal('oceanview_price_usd', { precision: 10, scale: 2 }),
+  balconyPriceUsd: decimal('balcony_price_usd', { precision: 10, scale: 2 }),
+  suitePriceUsd: decimal('suite_price_usd', { precision: 10, scale: 2 }),
+  cheapestPriceUsd: decimal('cheapest_price_usd', { precision: 10, scale: 2 }),
   rawData: jsonb('raw_data'), // Complete original JSON from Traveltek
+  cruiseDefinitionId: uuid('cruise_definition_id').references(() => cruiseDefinitions.id, {
+    onDelete: 'set null',
+  }), // Other dates of the same itinerary share this
   needsPriceUpdate: boolean('needs_price_update').default(false),
   processingStartedAt: timestamp('processing_started_at'),
   processingCompletedAt: timestamp('processing_completed_at'),
   isActive: boolean('is_active').default(true),
+  // Set by the FTP reconciliation job when the sailing file disappears
+  missingFromFtpSince: timestamp('missing_from_ftp_since'),
+  withdrawnAt: timestamp('withdrawn_at'),
+  withdrawalReason: varchar('withdrawal_reason', { length: 255 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -123,6 +139,7 @@ export const alternativeSailings = pgTable('alternative_sailings', {
 
 // Index definitions for optimal performance
 export const cruiseDefinitionsIndexes = {
+  itineraryKey: 'idx_cruise_definitions_itinerary_key',
   traveltekCruiseId: 'idx_cruise_definitions_traveltek_cruise_id',
   cruiseLineShip: 'idx_cruise_definitions_cruise_line_ship',
   voyageCode: 'idx_cruise_definitions_voyage_code',
@@ -0,0 +1,14 @@
+import { pgTable, varchar, decimal, timestamp } from 'drizzle-orm/pg-core';
+
+// Latest FX rate per currency, quoted as units of currency per 1 USD
+export const exchangeRates = pgTable('exchange_rates', {
+  currency: varchar('currency', { length: 3 }).primaryKey(), // ISO code, e.g. GBP
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(), // 1 USD = rate × currency
+  source: varchar('source', { length: 50 }).notNull(), // Provider that supplied the rate
+  fetchedAt: timestamp('fetched_at').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
@@ -6,13 +6,20 @@ export * from './ports';
 export * from './regions';
 export * from './cruises';
 export * from './itineraries';
+export * from './cruise-port-calls';
 export * from './cabin-categories';
 export * from './pricing';
+export * from './exchange-rates';
 export * from './price-history';
 export * from './quote-requests';
 export * from './saved-searches';
 export * from './alert-matches';
+export * from './sailing-watches';
 export * from './webhook-events';
+export * from './cruise-change-log';
+export * from './search-events';
+export * from './shared-searches';
+export * from './cruise-recommendation-signals';
 export * from './cruise-tags';
 export * from './promotions';
 export * from './booking-sessions';
@@ -54,6 +54,12 @@ export const cruiseDisembarkPortIndex = index('cruises_disembark_port_idx').on(
   cruises.disembarkPortId
 );
 
+// Other dates of the same itinerary
+export const cruiseDefinitionDateIndex = index('idx_cruises_cruise_definition_id').on(
+  cruises.cruiseDefinitionId,
+  cruises.sailingDate
+);
+
 // Composite indexes for complex searches
 export const cruiseDateNightsLineIndex = index('cruises_date_nights_line_idx').on(
   cruises.sailingDate,
@@ -70,6 +76,9 @@ export const cruiseLineShipDateIndex = index('cruises_line_ship_date_idx').on(
   cruises.shipId,
   cruises.sailingDate
 );
+export const cruiseCheapestPriceUsdIndex = index('idx_cruises_cheapest_price_usd').on(
+  cruises.cheapestPriceUsd
+);
 
 // Note: Traveltek file path is stored in cruise_sailings table, not cruises table
 export const cruiseCruiseIdIndex = index('cruises_cruise_id_idx').on(cruises.cruiseId);
@@ -113,6 +122,9 @@ export const pricingCruiseCabinIndex = index('pricing_cruise_cabin_idx').on(
   pricing.cruiseId,
   pricing.cabinCode
 );
+export const pricingOccupancyUniqueIndex = uniqueIndex(
+  'pricing_cruise_rate_cabin_occupancy_idx'
+).on(pricing.cruiseId, pricing.rateCode, pricing.cabinCode, pricing.occupancyCode);
 export const pricingRateCodeIndex = index('pricing_rate_code_idx').on(pricing.rateCode);
 export const pricingAvailableIndex = index('pricing_available_idx').on(pricing.isAvailable);
 export const pricingBasePriceIndex = index('pricing_base_price_idx').on(pricing.basePrice);
@@ -250,6 +262,7 @@ export default {
   cruiseDateActiveIndex,
   cruiseLineShipDateIndex,
   cruiseCruiseIdIndex,
+  cruiseCheapestPriceUsdIndex,
 
   // Alternative sailings indexes
   altSailingsBaseCruiseIndex,
@@ -270,6 +283,7 @@ export default {
   // Pricing indexes
   pricingCruiseIndex,
   pricingCruiseCabinIndex,
+  pricingOccupancyUniqueIndex,
   pricingRateCodeIndex,
   pricingAvailableIndex,
   pricingBasePriceIndex,
@@ -0,0 +1,48 @@
+import { pgTable, uuid, varchar, decimal, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { cruises } from './cruises';
+
+/**
+ * Sailing Watches Table
+ * "Watch this sailing" price-drop alerts on one cruise and cabin type, or one
+ * cabin code. Checked against price_history as the webhook pipeline writes it,
+ * and notified whenever the price falls far enough below the last notified price.
+ */
+export const sailingWatches = pgTable(
+  'sailing_watches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    cruiseId: varchar('cruise_id')
+      .references(() => cruises.id, { onDelete: 'cascade' })
+      .notNull(),
+    cabinType: varchar('cabin_type', { length: 20 }).notNull(), // interior, oceanview, balcony, suite
+    cabinCode: varchar('cabin_code', { length: 10 }), // Specific cabin code; null watches the category
+    // Notify when the price falls by at least either threshold
+    dropAmount: decimal('drop_amount', { precision: 10, scale: 2 }),
+    dropPercent: decimal('drop_percent', { precision: 5, scale: 2 }),
+    // Drops are measured from this; starts as the price when the watch was created
+    lastNotifiedPrice: decimal('last_notified_price', { precision: 10, scale: 2 }),
+    lastNotifiedAt: timestamp('last_notified_at'),
+    lastPrice: decimal('last_price', { precision: 10, scale: 2 }), // Latest price seen
+    lastCheckedAt: timestamp('last_checked_at'), // price_history rows up to here are processed
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => ({
+    // Unique on COALESCE(cabin_code, '') in the migration
+    userCabinIdx: index('idx_sailing_watches_user_cabin').on(
+      table.userId,
+      table.cruiseId,
+      table.cabinType,
+      table.cabinCode
+    ),
+    cruiseIdx: index('idx_sailing_watches_cruise').on(table.cruiseId),
+  })
+);
+
+export type SailingWatch = typeof sailingWatches.$inferSelect;
+export type NewSailingWatch = typeof sailingWatches.$inferInsert;
@@ -26,7 +26,12 @@ export const savedSearches = pgTable('saved_searches', {
   isActive: boolean('is_active').default(true),
   // Price Alert specific fields
   maxBudget: decimal('max_budget', { precision: 10, scale: 2 }), // Maximum price threshold for alerts
+  budgetType: varchar('budget_type', { length: 20 }).default('per_person').notNull(), // per_person or total, for the alert's party
   cabinTypes: text('cabin_types').array(), // Array of cabin types: ['interior', 'oceanview', 'balcony', 'suite']
+  // Email a match again when its price falls this far below the last emailed price
+  renotifyDropAmount: decimal('renotify_drop_amount', { precision: 10, scale: 2 }),
+  renotifyDropPercent: decimal('renotify_drop_percent', { precision: 5, scale: 2 }),
+  notifyOnExpiry: boolean('notify_on_expiry').default(false).notNull(), // Email when a match goes over budget or sells out
   // Passenger information for Traveltek pricing
   adults: integer('adults').default(2).notNull(), // Number of adults
   children: integer('children').default(0).notNull(), // Number of children
@@ -0,0 +1,54 @@
+import {
+  pgTable,
+  uuid,
+  serial,
+  varchar,
+  jsonb,
+  timestamp,
+  integer,
+  index,
+} from 'drizzle-orm/pg-core';
+
+// One row per search request served, with its filters normalized so equal searches group together
+export const searchEvents = pgTable(
+  'search_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    endpoint: varchar('endpoint', { length: 50 }).notNull(), // comprehensive, search, by-ship
+    queryKey: varchar('query_key', { length: 64 }).notNull(), // Filters fingerprint plus sort
+    queryText: varchar('query_text', { length: 255 }), // Normalized free-text query
+    filters: jsonb('filters').notNull(), // Normalized SearchFilters
+    sortBy: varchar('sort_by', { length: 20 }).notNull(),
+    sortOrder: varchar('sort_order', { length: 4 }).notNull(),
+    page: integer('page').notNull(), // Pages after the first don't count as new searches
+    resultCount: integer('result_count').notNull(), // Total matches, not just this page
+    latencyMs: integer('latency_ms').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    queryKeyIdx: index('idx_search_events_query_key').on(table.queryKey, table.createdAt),
+    createdAtIdx: index('idx_search_events_created_at').on(table.createdAt),
+  })
+);
+
+// A cruise opened from a page of search results
+export const searchClicks = pgTable(
+  'search_clicks',
+  {
+    id: serial('id').primaryKey(),
+    searchEventId: uuid('search_event_id')
+      .references(() => searchEvents.id, { onDelete: 'cascade' })
+      .notNull(),
+    cruiseId: varchar('cruise_id').notNull(),
+    position: integer('position'), // 1-based position across all pages
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    searchEventIdx: index('idx_search_clicks_search_event').on(table.searchEventId),
+    cruiseIdx: index('idx_search_clicks_cruise').on(table.cruiseId, table.createdAt),
+  })
+);
+
+export type SearchEvent = typeof searchEvents.$inferSelect;
+export type NewSearchEvent = typeof searchEvents.$inferInsert;
+export type SearchClick = typeof searchClicks.$inferSelect;
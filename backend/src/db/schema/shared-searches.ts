@@ -0,0 +1,23 @@
+import { pgTable, varchar, jsonb, timestamp, integer, uuid, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+// A search stored under a short code so its results can be sent as a link
+export const sharedSearches = pgTable(
+  'shared_searches',
+  {
+    code: varchar('code', { length: 16 }).primaryKey(),
+    name: varchar('name', { length: 255 }), // Optional title shown with the results
+    query: jsonb('query').notNull(), // Normalized SearchQuery: filters, sortBy, sortOrder, limit
+    queryKey: varchar('query_key', { length: 64 }).notNull(), // Filters fingerprint plus sort
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    viewCount: integer('view_count').default(0).notNull(),
+    lastViewedAt: timestamp('last_viewed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    createdByIdx: index('idx_shared_searches_created_by').on(table.createdBy),
+  })
+);
+
+export type SharedSearch = typeof sharedSearches.$inferSelect;
+export type NewSharedSearch = typeof sharedSearches.$inferInsert;
@@ -16,7 +16,7 @@ export const webhookEvents = pgTable(
     id: serial('id').primaryKey(),
     lineId: integer('line_id').notNull(),
     webhookType: varchar('webhook_type', { length: 50 }),
-    status: varchar('status', { length: 50 }).default('pending'),
+    status: varchar('status', { length: 50 }).default('received'),
     receivedAt: timestamp('received_at').defaultNow(),
     processedAt: timestamp('processed_at'),
     metadata: jsonb('metadata'),
@@ -100,6 +100,32 @@ export const webhookProcessingLog = pgTable(
   })
 );
 
+export const webhookDeadLetters = pgTable(
+  'webhook_dead_letters',
+  {
+    id: serial('id').primaryKey(),
+    webhookEventId: integer('webhook_event_id').references(() => webhookEvents.id),
+    lineId: integer('line_id').notNull(),
+    // Null when the whole event (e.g. discovery) failed rather than a single file
+    filePath: varchar('file_path', { length: 500 }),
+    cruiseId: varchar('cruise_id', { length: 255 }),
+    stage: varchar('stage', { length: 50 }).notNull(),
+    errorMessage: text('error_message'),
+    attempts: integer('attempts').default(1).notNull(),
+    status: varchar('status', { length: 20 }).default('dead').notNull(), // dead, resolved
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    lastRedrivenAt: timestamp('last_redriven_at'),
+    resolvedAt: timestamp('resolved_at'),
+  },
+  table => ({
+    statusIdx: index('idx_webhook_dead_letters_status').on(table.status),
+    eventIdx: index('idx_webhook_dead_letters_event').on(table.webhookEventId),
+    lineIdx: index('idx_webhook_dead_letters_line').on(table.lineId),
+    fileIdx: index('idx_webhook_dead_letters_file').on(table.filePath),
+  })
+);
+
 // Type exports for TypeScript
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
 export type NewWebhookEvent = typeof webhookEvents.$inferInsert;
@@ -115,3 +141,6 @@ export type NewSyncLock = typeof syncLocks.$inferInsert;
 
 export type WebhookProcessingLogEntry = typeof webhookProcessingLog.$inferSelect;
 export type NewWebhookProcessingLogEntry = typeof webhookProcessingLog.$inferInsert;
+
+export type WebhookDeadLetter = typeof webhookDeadLetters.$inferSelect;
+export type NewWebhookDeadLetter = typeof webhookDeadLetters.$inferInsert;
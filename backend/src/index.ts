@@ -1,7 +1,8 @@
 import app from './app';
 import { env } from './config/environment';
 import logger from './config/logger';
-import { WebhookProcessorOptimizedV2 } from './services/webhook-processor-optimized-v2.service';
+import { getWebhookPipelineQueue } from './services/webhook-pipeline';
+import { alertEventQueue } from './services/alert-event-queue.service';
 
 const PORT = env.PORT || 3001;
 
@@ -23,12 +24,14 @@ const server = app.listen(PORT, () => {
     sentry: env.SENTRY_DSN ? 'configured' : 'not configured',
   });
 
-  // Initialize webhook processor worker on startup
+  // Initialize webhook pipeline worker on startup
   // This ensures the worker is running to process any queued jobs
-  if (env.REDIS_URL || env.REDIS_HOST) {
-    logger.info('Initializing webhook processor worker...');
-    const webhookProcessor = new WebhookProcessorOptimizedV2();
-    logger.info('Webhook processor worker initialized and ready to process jobs');
+  if (getWebhookPipelineQueue().isEnabled) {
+    logger.info('Initializing webhook pipeline worker...');
+    getWebhookPipelineQueue().initialize();
+    logger.info('Webhook pipeline worker initialized and ready to process jobs');
+    // Matches price alerts as the pipeline publishes price changes
+    alertEventQueue.initialize();
   } else {
     logger.warn('Redis not configured, webhook processor worker not started');
   }
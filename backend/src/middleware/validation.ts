@@ -152,7 +152,12 @@ export const userSchemas = {
         sms: z.boolean().default(false),
         deals: z.boolean().default(true),
         reminders: z.boolean().default(true),
+        quietHours: z.object({
+          start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+          end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+        }).optional(),
       }).optional(),
+      timezone: z.string().max(64).optional(),
     }).optional(),
   }),
 
@@ -8,10 +8,15 @@ import {
   cruiseLines,
   cruiseTags,
   cruiseNameTags,
+  exchangeRates,
 } from '../db/schema';
 import { emailService } from '../services/email.service';
 import { logger } from '../config/logger';
 import { quoteController } from '../controllers/quote.controller';
+import { getWebhookPipelineQueue, webhookDeadLetterStore } from '../services/webhook-pipeline';
+import { getCruiseReconciliationService } from '../services/cruise-reconciliation.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
+import { searchAnalyticsService } from '../services/search-analytics.service';
 
 const router = Router();
 
@@ -461,4 +466,170 @@ router.delete('/cruise-tags/remove', async (req, res) => {
   }
 });
 
+// List dead-lettered webhook files/events
+router.get('/webhooks/dead-letters', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const status = req.query.status === 'resolved' ? 'resolved' : 'dead';
+
+    const { deadLetters, total } = await webhookDeadLetterStore.list({
+      status,
+      lineId: req.query.lineId ? parseInt(req.query.lineId as string) : undefined,
+      webhookEventId: req.query.webhookEventId
+        ? parseInt(req.query.webhookEventId as string)
+        : undefined,
+      limit,
+      offset,
+    });
+
+    res.json({ deadLetters, pagination: { total, limit, offset } });
+  } catch (error: any) {
+    console.error('[ADMIN] Error fetching webhook dead letters:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letters', message: error.message });
+  }
+});
+
+// Re-drive a single dead letter
+router.post('/webhooks/dead-letters/:id/redrive', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid dead letter ID' });
+    }
+
+    const result = await getWebhookPipelineQueue().redrive(id);
+    const statusCode = result.status === 'not_found' ? 404 : 200;
+    res.status(statusCode).json(result);
+  } catch (error: any) {
+    console.error('[ADMIN] Error re-driving dead letter:', error);
+    res.status(500).json({ error: 'Failed to re-drive dead letter', message: error.message });
+  }
+});
+
+// Re-drive dead letters in bulk, by ids or everything open for a line
+router.post('/webhooks/dead-letters/redrive', async (req, res) => {
+  try {
+    const { ids, lineId, limit = 50 } = req.body;
+
+    let deadLetterIds: number[] = Array.isArray(ids) ? ids.map(Number).filter(Boolean) : [];
+    if (deadLetterIds.length === 0 && lineId) {
+      const { deadLetters } = await webhookDeadLetterStore.list({
+        lineId: parseInt(lineId),
+        limit: Math.min(parseInt(limit) || 50, 200),
+      });
+      deadLetterIds = deadLetters.map(deadLetter => deadLetter.id);
+    }
+
+    if (deadLetterIds.length === 0) {
+      return res.status(400).json({ error: 'Provide ids or a lineId with open dead letters' });
+    }
+
+    const queue = getWebhookPipelineQueue();
+    const results = [];
+    for (const id of deadLetterIds) {
+      results.push(await queue.redrive(id));
+    }
+
+    res.json({
+      total: results.length,
+      resolved: results.filter(result => result.status === 'resolved').length,
+      requeued: results.filter(result => result.status === 'requeued').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results,
+    });
+  } catch (error: any) {
+    console.error('[ADMIN] Error re-driving dead letters:', error);
+    res.status(500).json({ error: 'Failed to re-drive dead letters', message: error.message });
+  }
+});
+
+// List sailings that are missing from FTP or have been withdrawn
+router.get('/cruises/withdrawn', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const lineId = req.query.lineId ? parseInt(req.query.lineId as string) : null;
+    const pendingOnly = req.query.status === 'missing';
+
+    const rows = await db.execute(sql`
+      SELECT id, cruise_line_id, ship_id, name, sailing_date,
+             missing_from_ftp_since, withdrawn_at, withdrawal_reason
+      FROM cruises
+      WHERE ${pendingOnly ? sql`withdrawn_at IS NULL AND missing_from_ftp_since IS NOT NULL` : sql`withdrawn_at IS NOT NULL`}
+        ${lineId ? sql`AND cruise_line_id = ${lineId}` : sql``}
+      ORDER BY COALESCE(withdrawn_at, missing_from_ftp_since) DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `);
+
+    res.json({ cruises: rows, pagination: { limit, offset } });
+  } catch (error: any) {
+    console.error('[ADMIN] Error fetching withdrawn cruises:', error);
+    res.status(500).json({ error: 'Failed to fetch withdrawn cruises', message: error.message });
+  }
+});
+
+// Run FTP reconciliation now, for one line or every line with upcoming sailings
+router.post('/cruises/reconcile', async (req, res) => {
+  try {
+    const service = getCruiseReconciliationService();
+    const lineId = req.body?.lineId ? parseInt(req.body.lineId) : null;
+
+    if (lineId !== null && isNaN(lineId)) {
+      return res.status(400).json({ error: 'Invalid line ID' });
+    }
+
+    const results = lineId
+      ? [await service.reconcileLine(lineId)]
+      : await service.reconcileAllLines();
+
+    res.json({
+      lines: results.length,
+      withdrawn: results.reduce((sum, result) => sum + result.withdrawn.length, 0),
+      reinstated: results.reduce((sum, result) => sum + result.reinstated.length, 0),
+      notified: results.reduce((sum, result) => sum + result.notified, 0),
+      results,
+    });
+  } catch (error: any) {
+    console.error('[ADMIN] Error reconciling cruises:', error);
+    res.status(500).json({ error: 'Failed to reconcile cruises', message: error.message });
+  }
+});
+
+// Current exchange rates (units per 1 USD)
+router.get('/exchange-rates', async (req, res) => {
+  try {
+    const rates = await db.select().from(exchangeRates).orderBy(exchangeRates.currency);
+    res.json({ rates });
+  } catch (error: any) {
+    console.error('[ADMIN] Error fetching exchange rates:', error);
+    res.status(500).json({ error: 'Failed to fetch exchange rates', message: error.message });
+  }
+});
+
+// Refresh exchange rates from the configured provider now
+router.post('/exchange-rates/refresh', async (req, res) => {
+  try {
+    const result = await exchangeRateService.refreshRates();
+    res.json(result);
+  } catch (error: any) {
+    console.error('[ADMIN] Error refreshing exchange rates:', error);
+    res.status(500).json({ error: 'Failed to refresh exchange rates', message: error.message });
+  }
+});
+
+// Top and zero-result searches with click-through and conversion to quote/booking
+router.get('/search-analytics', async (req, res) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const report = await searchAnalyticsService.getReport(days, limit);
+    res.json(report);
+  } catch (error: any) {
+    console.error('[ADMIN] Error building search analytics report:', error);
+    res.status(500).json({ error: 'Failed to build search analytics', message: error.message });
+  }
+});
+
 export default router;
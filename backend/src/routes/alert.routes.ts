@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { alertController } from '../controllers/alert.controller';
+import { sailingWatchController } from '../controllers/sailing-watch.controller';
 import { validate } from '../middleware/validation';
 import { authenticateToken } from '../middleware/auth';
 import { z } from 'zod';
@@ -18,8 +19,15 @@ const createAlertSchema = z.object({
       maxNights: z.number().optional(),
     }),
     maxBudget: z.number().positive(),
+    // Whether maxBudget is per person or for the whole party
+    budgetType: z.enum(['per_person', 'total']).optional(),
     cabinTypes: z.array(z.enum(['interior', 'oceanview', 'balcony', 'suite'])).min(1),
     alertEnabled: z.boolean().optional(),
+    alertFrequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+    // Re-notify threshold below the last emailed price, and whether to email when a deal ends
+    renotifyDropAmount: z.number().positive().optional(),
+    renotifyDropPercent: z.number().positive().max(100).optional(),
+    notifyOnExpiry: z.boolean().optional(),
     // Passenger information for Traveltek pricing
     adults: z.number().int().min(1).max(9).default(2),
     children: z.number().int().min(0).max(9).default(0),
@@ -41,9 +49,14 @@ const updateAlertSchema = z.object({
       })
       .optional(),
     maxBudget: z.number().positive().optional(),
+    budgetType: z.enum(['per_person', 'total']).optional(),
     cabinTypes: z.array(z.enum(['interior', 'oceanview', 'balcony', 'suite'])).optional(),
     alertEnabled: z.boolean().optional(),
+    alertFrequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
     isActive: z.boolean().optional(),
+    renotifyDropAmount: z.number().positive().nullable().optional(),
+    renotifyDropPercent: z.number().positive().max(100).nullable().optional(),
+    notifyOnExpiry: z.boolean().optional(),
     // Passenger information for Traveltek pricing
     adults: z.number().int().min(1).max(9).optional(),
     children: z.number().int().min(0).max(9).optional(),
@@ -52,6 +65,30 @@ const updateAlertSchema = z.object({
   }),
 });
 
+const createWatchSchema = z.object({
+  body: z.object({
+    cruiseId: z.string().min(1).max(50),
+    cabinType: z.enum(['interior', 'oceanview', 'balcony', 'suite']),
+    // A specific cabin code (e.g. "4D") instead of the whole category
+    cabinCode: z.string().min(1).max(10).optional(),
+    // Notify when the price drops by this much, or this percentage, since the last email
+    dropAmount: z.number().positive().optional(),
+    dropPercent: z.number().positive().max(100).optional(),
+  }),
+});
+
+const updateWatchSchema = z.object({
+  body: z.object({
+    dropAmount: z.number().positive().nullable().optional(),
+    dropPercent: z.number().positive().max(100).nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const unsubscribeTokenSchema = z.object({
+  token: z.string().min(1).max(1000),
+});
+
 const alertIdParam = z.object({
   params: z.object({
     id: z.string().uuid(),
@@ -77,6 +114,74 @@ router.post(
  */
 router.get('/', authenticateToken, alertController.getUserAlerts);
 
+/**
+ * @route   GET /api/v1/alerts/unsubscribe
+ * @desc    Describe an emailed pause/unsubscribe link
+ * @access  Public (the signed token identifies the user)
+ */
+router.get(
+  '/unsubscribe',
+  validate({ query: unsubscribeTokenSchema }),
+  alertController.getUnsubscribeLink
+);
+
+/**
+ * @route   POST /api/v1/alerts/unsubscribe
+ * @desc    Pause an alert or unsubscribe from all alerts with an emailed link
+ * @access  Public (the signed token identifies the user)
+ */
+router.post(
+  '/unsubscribe',
+  validate({ body: unsubscribeTokenSchema }),
+  alertController.unsubscribe
+);
+
+/**
+ * @route   POST /api/v1/alerts/watches
+ * @desc    Watch a sailing's cabin type or cabin code for price drops
+ * @access  Private
+ */
+router.post(
+  '/watches',
+  authenticateToken,
+  validate({ body: createWatchSchema.shape.body }),
+  sailingWatchController.createWatch
+);
+
+/**
+ * @route   GET /api/v1/alerts/watches
+ * @desc    Get all sailing watches for authenticated user
+ * @access  Private
+ */
+router.get('/watches', authenticateToken, sailingWatchController.getUserWatches);
+
+/**
+ * @route   PUT /api/v1/alerts/watches/:id
+ * @desc    Update a sailing watch's thresholds or pause it
+ * @access  Private
+ */
+router.put(
+  '/watches/:id',
+  authenticateToken,
+  validate({
+    params: alertIdParam.shape.params,
+    body: updateWatchSchema.shape.body,
+  }),
+  sailingWatchController.updateWatch
+);
+
+/**
+ * @route   DELETE /api/v1/alerts/watches/:id
+ * @desc    Delete a sailing watch
+ * @access  Private
+ */
+router.delete(
+  '/watches/:id',
+  authenticateToken,
+  validate({ params: alertIdParam.shape.params }),
+  sailingWatchController.deleteWatch
+);
+
 /**
  * @route   GET /api/v1/alerts/:id/matches
  * @desc    Get matching cruises for an alert
@@ -3,6 +3,7 @@ import { cruiseController } from '../controllers/cruise.controller';
 import { db } from '../db/connection';
 import { sql } from 'drizzle-orm';
 import { liveBookingFilter } from '../middleware/live-booking-filter';
+import { DEFAULT_FLEX_DAYS, flexibleDateWindow, validateFlexibleDate } from '../utils/date-window';
 
 const router = Router();
 
@@ -11,13 +12,14 @@ router.use(liveBookingFilter);
 
 /**
  * GET /api/v1/cruises
- * List cruises with pagination and basic filters
+ * List cruises with pagination and the search filters. Pass meta.nextCursor
+ * back as cursor for the next page.
  */
 router.get('/', cruiseController.listCruises.bind(cruiseController));
 
 /**
  * GET /api/v1/cruises/available-dates
- * Get available sailing dates for a specific ship
+ * Get available sailing dates for a specific ship, optionally within flexDays of targetDate
  */
 router.get('/available-dates', async (req: Request, res: Response) => {
   try {
@@ -30,6 +32,18 @@ router.get('/available-dates', async (req: Request, res: Response) => {
       });
     }
 
+    const targetDate = req.query.targetDate as string | undefined;
+    const flexDays =
+      req.query.flexDays !== undefined ? Number(req.query.flexDays) : DEFAULT_FLEX_DAYS;
+    const flexibleDateError = targetDate ? validateFlexibleDate(targetDate, flexDays) : null;
+    if (flexibleDateError) {
+      return res.status(400).json({
+        error: 'Invalid flexible date',
+        message: flexibleDateError,
+      });
+    }
+    const window = targetDate ? flexibleDateWindow(targetDate, flexDays) : null;
+
     const result = await db.execute(sql`
       SELECT DISTINCT
         c.id,
@@ -47,6 +61,7 @@ router.get('/available-dates', async (req: Request, res: Response) => {
       WHERE c.ship_id = ${shipId}
         AND c.sailing_date >= CURRENT_DATE + INTERVAL '14 days'
         AND c.is_active = true
+        ${window ? sql`AND c.sailing_date BETWEEN ${window.startDate} AND ${window.endDate}` : sql``}
       GROUP BY
         c.id,
         c.cruise_id,
@@ -108,12 +123,33 @@ router.get('/:id/itinerary', cruiseController.getCruiseItinerary.bind(cruiseCont
  */
 router.get('/:id/ship', cruiseController.getShipDetails.bind(cruiseController));
 
+/**
+ * GET /api/v1/cruises/:id/quote-estimate
+ * Estimate the full party cost per cabin category
+ * Query: adults (default 2), children, childAges (comma-separated)
+ */
+router.get('/:id/quote-estimate', cruiseController.getQuoteEstimate.bind(cruiseController));
+
+/**
+ * GET /api/v1/cruises/:id/total-cost
+ * Line-itemized all-in cost for a party in one cabin category
+ * Query: cabinType, adults (default 2), children, childAges (comma-separated)
+ */
+router.get('/:id/total-cost', cruiseController.getTotalCost.bind(cruiseController));
+
 /**
  * GET /api/v1/cruises/:id/alternatives
  * Get alternative sailings for the same itinerary
  */
 router.get('/:id/alternatives', cruiseController.getAlternativeSailings.bind(cruiseController));
 
+/**
+ * GET /api/v1/cruises/:id/changes
+ * Get the change history for a cruise (itinerary, ship, date, cabin and price changes)
+ * Query: type (comma-separated change types), since, limit, offset
+ */
+router.get('/:id/changes', cruiseController.getCruiseChanges.bind(cruiseController));
+
 /**
  * GET /api/v1/cruises/slug/:slug
  * Get cruise details by SEO-friendly slug
@@ -3,8 +3,6 @@ import { apiConfig } from '../config/environment';
 import healthRoutes from './health.routes';
 // Fixed Drizzle issue - using optimized webhook routes
 import webhookRoutes from './webhook.routes';
-import webhookPricingRoutes from './webhook-pricing.routes';
-import searchRoutes from './search.routes';
 import searchOptimizedRoutes from './search-optimized.routes';
 import searchComprehensiveRoutes from './search-comprehensive.routes';
 import filterOptionsRoutes from './filter-options.routes';
@@ -43,7 +41,6 @@ router.use(`${apiConfig.prefix}/${apiConfig.version}`, apiRouter);
 
 // Webhook routes (outside API versioning)
 apiRouter.use('/webhooks', webhookRoutes);
-apiRouter.use('/webhooks-pricing', webhookPricingRoutes);
 
 // Admin routes (for debugging and management)
 apiRouter.use('/admin', adminRoutes);
@@ -58,8 +55,6 @@ apiRouter.use('/search', searchOptimizedRoutes);
 apiRouter.use('/search/comprehensive', searchComprehensiveRoutes);
 // Filter options for dropdowns
 apiRouter.use('/filter-options', filterOptionsRoutes);
-// Keep old search routes as fallback at different path if needed
-// apiRouter.use('/search-old', searchRoutes);
 apiRouter.use('/cruises', cruiseRoutes);
 apiRouter.use('/cruise-lines', cruiseLineRoutes);
 apiRouter.use('/ships', shipRoutes);
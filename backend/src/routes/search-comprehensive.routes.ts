@@ -14,30 +14,53 @@ router.use(liveBookingFilter);
 
 /**
  * @route GET /api/v1/search/comprehensive
- * @desc Main comprehensive search endpoint with all filters
+ * @desc Main comprehensive search endpoint with all filters. Parameters are parsed into a
+ * SearchQuery; the legacy names in parentheses are still accepted. Lists can be repeated
+ * or comma-separated.
  * @query {string} q - General search query
- * @query {string} departureMonth - Filter by departure month (YYYY-MM)
+ * @query {string|string[]} departureMonths - Filter by departure month(s) (YYYY-MM) (departureMonth, months)
  * @query {string} startDate - Filter cruises departing after this date (YYYY-MM-DD)
  * @query {string} endDate - Filter cruises departing before this date (YYYY-MM-DD)
- * @query {number|number[]} cruiseLineId - Filter by cruise line ID(s)
- * @query {number|number[]} shipId - Filter by ship ID(s)
- * @query {number|number[]} departurePortId - Filter by departure port ID(s)
- * @query {number|number[]} arrivalPortId - Filter by arrival port ID(s)
- * @query {number|number[]} regionId - Filter by region ID(s)
+ * @query {string} sailingDate - Filter by exact sailing date (departureDate)
+ * @query {string} targetDate - Flexible dates: sail within flexDays of this date (YYYY-MM-DD)
+ * @query {number} flexDays - Days either side of targetDate (max: 90, default: 3)
+ * @query {number|number[]} cruiseLineIds - Filter by cruise line ID(s) (cruiseLineId, cruiseLines)
+ * @query {number|number[]} shipIds - Filter by ship ID(s) (shipId)
+ * @query {string} shipName - Filter by partial ship name
+ * @query {number|number[]} departurePortIds - Filter by departure port ID(s) (departurePortId)
+ * @query {number|number[]} arrivalPortIds - Filter by arrival port ID(s) (arrivalPortId)
+ * @query {number|number[]} regionIds - Filter by region ID(s) (regionId)
+ * @query {number} nearLat - Departing from a port within radiusMiles of this latitude
+ * @query {number} nearLng - Longitude to go with nearLat
+ * @query {string} near - US ZIP code or city instead of nearLat/nearLng (location, zip)
+ * @query {number} radiusMiles - Radius for nearLat/nearLng or near (max: 1500, default: 250).
+ * Results get distanceMiles to their embarkation port and facets a driveToPorts list
+ * @query {number|number[]} visitsPortIds - Calls at these port(s); visitsPortMatch=any for any of them (visitsPortId)
+ * @query {number|number[]} excludePortIds - Never calls at these port(s) (excludePortId)
+ * @query {number} minPortDays - Minimum days in port
+ * @query {number} maxSeaDays - Maximum sea days
+ * @query {boolean} overnightInPort - Stays overnight in at least one port
+ * @query {boolean} excludeTenderPorts - No tender ports
  * @query {number} nights - Filter by exact number of nights
  * @query {number} minNights - Filter by minimum nights
  * @query {number} maxNights - Filter by maximum nights
+ * @query {string|string[]} nightRange - Night buckets such as 3-5 or 12+, when min/maxNights aren't given
  * @query {number} minPrice - Filter by minimum price
  * @query {number} maxPrice - Filter by maximum price
- * @query {string} currency - Price currency (default: USD)
- * @query {string|string[]} cabinType - Filter by cabin type(s)
- * @query {number} passengers - Number of passengers
- * @query {boolean} includeUnavailable - Include unavailable cruises
+ * @query {string} displayCurrency - Return prices (and read minPrice/maxPrice) in this currency
+ * @query {number} passengers - Number of adults, when adults/children aren't given
+ * @query {boolean} instantBooking - Only cruise lines that can be booked instantly
+ * @query {boolean} includeUnavailable - Include cruises without a bookable price
  * @query {number} page - Page number (default: 1)
+ * @query {number} offset - Alternative to page
+ * @query {string} cursor - pagination.nextCursor from the previous page; replaces page/offset
  * @query {number} limit - Results per page (max: 100, default: 20)
- * @query {string} sortBy - Sort by: date, price, nights, popularity (default: date)
+ * @query {string} sortBy - Sort by: date, price, nights, popularity, recommended (default: date).
+ * recommended ranks best first and adds a scoreBreakdown to each result; weights are set
+ * with RECOMMENDED_SORT_WEIGHTS
  * @query {string} sortOrder - Sort order: asc, desc (default: asc)
  * @query {boolean} includeFacets - Include search facets in response
+ * @query {string} calendar - Include cheapest price per week or month: week, month
  */
 router.get('/', searchComprehensiveController.search.bind(searchComprehensiveController));
 
@@ -62,7 +85,8 @@ router.get(
 
 /**
  * @route GET /api/v1/search/comprehensive/suggestions
- * @desc Get search suggestions for autocomplete
+ * @desc Get ranked, typo-tolerant suggestions (cruise lines incl. aliases like "NCL", ships,
+ *       ports, regions, cruise names), each with a type and a deep link (href)
  * @query {string} q - Search query (minimum 2 characters)
  * @query {number} limit - Maximum suggestions (max: 20, default: 10)
  */
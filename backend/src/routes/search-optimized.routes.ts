@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { searchOptimizedController } from '../controllers/search-optimized.controller';
 import { searchSimpleController } from '../controllers/search-simple.controller';
 import { liveBookingFilter } from '../middleware/live-booking-filter';
+import { authenticateToken, authenticateTokenOptional } from '../middleware/auth';
 
 const router = Router();
 
@@ -25,6 +26,40 @@ router.get('/', searchOptimizedController.searchCruises.bind(searchOptimizedCont
  */
 router.post('/', searchOptimizedController.searchCruises.bind(searchOptimizedController));
 
+/**
+ * POST /api/v1/search/click
+ * Record a cruise opened from search results: { searchId, cruiseId, position }
+ * searchId comes from the search response
+ */
+router.post('/click', searchOptimizedController.recordClick.bind(searchOptimizedController));
+
+/**
+ * POST /api/v1/search/share
+ * Store a search under a short code: the POST /search parameters plus an optional name
+ * Returns { code, name, query }
+ */
+router.post(
+  '/share',
+  authenticateTokenOptional,
+  searchOptimizedController.shareSearch.bind(searchOptimizedController)
+);
+
+/**
+ * GET /api/v1/search/s/:code
+ * Resolve a shared search and return a page of its results (page or cursor)
+ */
+router.get('/s/:code', searchOptimizedController.getSharedSearch.bind(searchOptimizedController));
+
+/**
+ * POST /api/v1/search/s/:code/save
+ * Save a shared search to the signed-in user's saved searches without enabling an alert
+ */
+router.post(
+  '/s/:code/save',
+  authenticateToken,
+  searchOptimizedController.saveSharedSearch.bind(searchOptimizedController)
+);
+
 /**
  * GET /api/v1/search/cruises
  * Simple cruise list endpoint
@@ -58,6 +93,13 @@ router.get(
  */
 router.get('/by-ship', searchSimpleController.findByShipAndDate.bind(searchSimpleController));
 
+/**
+ * GET /api/v1/search/resolve-sailing
+ * Ranked candidate sailings for a free-text ship name and approximate date
+ * (q, or shipName + date), within flexDays (default 3) and optionally nights
+ */
+router.get('/resolve-sailing', searchSimpleController.resolveSailing.bind(searchSimpleController));
+
 /**
  * GET /api/v1/search/ships
  * Get all ships with cruise counts
@@ -1,7 +1,6 @@
 import { Router, Request, Response } from 'express';
 import logger from '../config/logger';
-import { WebhookProcessorOptimizedV2 } from '../services/webhook-processor-optimized-v2.service';
-import { webhookQueueProcessor } from '../services/webhook-queue.service';
+import { getWebhookPipelineQueue } from '../services/webhook-pipeline';
 import { db } from '../db/connection';
 import { webhookEvents } from '../db/schema/webhook-events';
 import { eq, sql } from 'drizzle-orm';
@@ -11,16 +10,6 @@ import { env } from '../config/environment';
 
 const router = Router();
 
-// Lazy-load webhook processor to ensure environment variables are loaded
-let webhookProcessor: WebhookProcessorOptimizedV2 | null = null;
-
-function getWebhookProcessor(): WebhookProcessorOptimizedV2 {
-  if (!webhookProcessor) {
-    webhookProcessor = new WebhookProcessorOptimizedV2();
-  }
-  return webhookProcessor;
-}
-
 /**
  * Main webhook endpoint - receives notifications from Traveltek
  * POST /api/webhooks/traveltek
@@ -120,7 +109,7 @@ router.post('/traveltek', async (req: Request, res: Response) => {
       try {
         const result = await dbConnection`
           INSERT INTO webhook_events (line_id, webhook_type, status, metadata)
-          VALUES (${lineId}, ${payload.event || 'update'}, 'pending', ${JSON.stringify(payload)}::jsonb)
+          VALUES (${lineId}, ${payload.event || 'update'}, 'received', ${JSON.stringify(payload)}::jsonb)
           RETURNING id
         `;
         if (result && result.length > 0 && result[0].id) {
@@ -156,35 +145,11 @@ router.post('/traveltek', async (req: Request, res: Response) => {
         const webhookEventId = webhookEventIds[i];
 
         try {
-          // Use V2 processor (the only one we should be using)
-          // Pass webhook event ID for status tracking
-          const result = await getWebhookProcessor().processWebhooks(lineId, webhookEventId);
-
-          // Update webhook status based on result
-          await db
-            .update(webhookEvents)
-            .set({
-              status: result.status === 'queued' ? 'processing' : result.status,
-              processedAt: new Date(),
-              metadata: {
-                ...payload,
-                result,
-              },
-            })
-            .where(eq(webhookEvents.id, webhookEventId));
-
+          // The queue moves the event through its lifecycle from here
+          const result = await getWebhookPipelineQueue().enqueueLine(lineId, webhookEventId);
           logger.info(`Webhook ${webhookEventId} for lineId ${lineId} status: ${result.status}`);
         } catch (error) {
           logger.error(`Failed to process webhook for lineId ${lineId}:`, error);
-
-          // Update webhook status to failed
-          await db
-            .update(webhookEvents)
-            .set({
-              status: 'failed',
-              errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            })
-            .where(eq(webhookEvents.id, webhookEventId));
         }
       }
     });
@@ -261,82 +226,7 @@ router.get('/test-db', async (req: Request, res: Response) => {
 });
 
 /**
- * Test webhook with queue - for testing queue-based processing
- * POST /api/webhooks/traveltek/test-queue
- */
-router.post('/traveltek/test-queue', async (req: Request, res: Response) => {
-  try {
-    const { lineId = 22 } = req.body;
-
-    logger.info('📨 Test webhook with queue triggered', {
-      lineId: lineId,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Store test webhook event
-    const result = await pgSql`
-      INSERT INTO webhook_events (line_id, webhook_type, status, metadata)
-      VALUES (${lineId}, 'test_queue', 'processing', ${JSON.stringify({ test: true, lineId, queue: true })})
-      RETURNING *
-    `;
-
-    const webhookEvent = result[0];
-
-    // Queue for processing
-    try {
-      const queueResult = await webhookQueueProcessor.processWebhook(lineId);
-
-      // Update webhook with job info
-      await db
-        .update(webhookEvents)
-        .set({
-          status: 'queued',
-          metadata: {
-            test: true,
-            lineId,
-            jobIds: queueResult.jobIds,
-            queue: true,
-          },
-        })
-        .where(eq(webhookEvents.id, webhookEvent.id));
-
-      res.status(200).json({
-        status: 'success',
-        message: 'Test webhook queued for processing',
-        eventId: webhookEvent.id,
-        jobIds: queueResult.jobIds,
-        lineId: lineId,
-      });
-    } catch (queueError) {
-      logger.error('Failed to queue test webhook:', queueError);
-
-      // Update webhook status
-      await db
-        .update(webhookEvents)
-        .set({
-          status: 'failed',
-          errorMessage: queueError instanceof Error ? queueError.message : 'Unknown error',
-        })
-        .where(eq(webhookEvents.id, webhookEvent.id));
-
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to queue test webhook',
-        error: queueError instanceof Error ? queueError.message : 'Unknown error',
-      });
-    }
-  } catch (error) {
-    logger.error('Failed to handle test webhook:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to process test webhook',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-});
-
-/**
- * Test webhook - directly processes without queue
+ * Test webhook - runs a line through the webhook pipeline
  * POST /api/webhooks/traveltek/test
  */
 router.post('/traveltek/test', async (req: Request, res: Response) => {
@@ -351,55 +241,23 @@ router.post('/traveltek/test', async (req: Request, res: Response) => {
     // Store test webhook event
     const result = await pgSql`
       INSERT INTO webhook_events (line_id, webhook_type, status, metadata)
-      VALUES (${lineId}, 'test', 'processing', ${JSON.stringify({ test: true, lineId })})
+      VALUES (${lineId}, 'test', 'received', ${JSON.stringify({ test: true, lineId })})
       RETURNING *
     `;
 
     const webhookEvent = result[0];
 
-    // Process immediately
-    try {
-      const processingResult = await getWebhookProcessor().processWebhooks(lineId);
-
-      // Update webhook with result
-      await db
-        .update(webhookEvents)
-        .set({
-          status: processingResult.status === 'queued' ? 'processing' : processingResult.status,
-          processedAt: new Date(),
-          metadata: {
-            test: true,
-            lineId,
-            result: processingResult,
-          },
-        })
-        .where(eq(webhookEvents.id, webhookEvent.id));
+    // Process immediately, bypassing the recent-run throttle
+    const processingResult = await getWebhookPipelineQueue().enqueueLine(lineId, webhookEvent.id, {
+      force: true,
+    });
 
-      res.status(200).json({
-        status: 'success',
-        message: 'Test webhook processed',
-        eventId: webhookEvent.id,
-        result: processingResult,
-      });
-    } catch (processingError) {
-      logger.error('Failed to process test webhook:', processingError);
-
-      // Update webhook status
-      await db
-        .update(webhookEvents)
-        .set({
-          status: 'failed',
-          errorMessage:
-            processingError instanceof Error ? processingError.message : 'Unknown error',
-        })
-        .where(eq(webhookEvents.id, webhookEvent.id));
-
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to process test webhook',
-        error: processingError instanceof Error ? processingError.message : 'Unknown error',
-      });
-    }
+    res.status(processingResult.status === 'failed' ? 500 : 200).json({
+      status: processingResult.status === 'failed' ? 'error' : 'success',
+      message: 'Test webhook processed',
+      eventId: webhookEvent.id,
+      result: processingResult,
+    });
   } catch (error) {
     logger.error('Failed to handle test webhook:', error);
     res.status(500).json({
@@ -490,83 +348,12 @@ router.get('/recent', async (req: Request, res: Response) => {
  */
 router.get('/queue-status', async (req: Request, res: Response) => {
   try {
-    // Get the webhook processor instance
-    const processor = getWebhookProcessor();
-
-    // Get queue stats using the static queue reference
-    const WebhookProcessorClass = WebhookProcessorOptimizedV2 as any;
-
-    if (!WebhookProcessorClass.webhookQueue) {
-      return res.status(200).json({
-        status: 'warning',
-        message: 'Queue not initialized',
-        queue: {
-          initialized: false,
-          workerInitialized: false,
-        },
-      });
-    }
-
-    const queue = WebhookProcessorClass.webhookQueue;
-    const worker = WebhookProcessorClass.webhookWorker;
-
-    // Get queue counts
-    const [waiting, active, completed, failed, delayed, paused] = await Promise.all([
-      queue.getWaitingCount(),
-      queue.getActiveCount(),
-      queue.getCompletedCount(),
-      queue.getFailedCount(),
-      queue.getDelayedCount(),
-      queue.isPaused(),
-    ]);
-
-    // Get worker status if available
-    let workerStatus = null;
-    if (worker) {
-      try {
-        workerStatus = {
-          isRunning: await worker.isRunning(),
-          isPaused: await worker.isPaused(),
-        };
-      } catch (err) {
-        workerStatus = { error: 'Unable to get worker status' };
-      }
-    }
-
-    // Get sample of waiting jobs
-    const waitingJobs = await queue.getJobs(['waiting'], 0, 5);
-    const activeJobs = await queue.getJobs(['active'], 0, 5);
+    const queue = await getWebhookPipelineQueue().getStatus();
 
     res.status(200).json({
-      status: 'success',
+      status: queue.initialized ? 'success' : 'warning',
       timestamp: new Date().toISOString(),
-      queue: {
-        name: 'webhook-processing',
-        counts: {
-          waiting,
-          active,
-          completed,
-          failed,
-          delayed,
-          total: waiting + active + completed + failed + delayed,
-        },
-        isPaused: paused,
-        worker: workerStatus,
-        sampleJobs: {
-          waiting: waitingJobs.map(job => ({
-            id: job.id,
-            name: job.name,
-            data: job.data,
-            timestamp: job.timestamp,
-          })),
-          active: activeJobs.map(job => ({
-            id: job.id,
-            name: job.name,
-            data: job.data,
-            timestamp: job.timestamp,
-          })),
-        },
-      },
+      queue,
     });
   } catch (error) {
     logger.error('Failed to get queue status:', error);
@@ -1,14 +1,15 @@
 /**
  * Alert Cron Service
- * Processes all active price alerts and sends daily email notifications
+ * Checks all active price alerts daily and queues what they found for
+ * AlertDigestService, which emails it when each alert is due.
  */
 
 import { logger } from '../config/logger';
 import { db } from '../db/connection';
-import { users } from '../db/schema';
+import { users, savedSearches } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { alertMatchingService } from './alert-matching.service';
-import { alertEmailService } from './alert-email.service';
+import { alertDigestService } from './alert-digest.service';
 
 export class AlertCronService {
   /**
@@ -44,14 +45,12 @@ export class AlertCronService {
       logger.info(`[AlertCron] Grouped alerts for ${alertsByUser.size} users`);
 
       // Process each user's alerts
-      let totalMatches = 0;
       let emailsSent = 0;
       let errors = 0;
 
       for (const [userId, userAlerts] of alertsByUser) {
         try {
-          await this.processUserAlerts(userId, userAlerts);
-          emailsSent++;
+          if (await this.processUserAlerts(userId, userAlerts)) emailsSent++;
         } catch (error) {
           logger.error(`[AlertCron] Error processing alerts for user ${userId}:`, error);
           errors++;
@@ -74,9 +73,9 @@ export class AlertCronService {
   }
 
   /**
-   * Process all alerts for a single user
+   * Process all alerts for a single user. Returns whether a digest went out.
    */
-  private async processUserAlerts(userId: string, alerts: any[]): Promise<void> {
+  private async processUserAlerts(userId: string, alerts: any[]): Promise<boolean> {
     try {
       logger.info(`[AlertCron] Processing ${alerts.length} alerts for user ${userId}`);
 
@@ -87,7 +86,7 @@ export class AlertCronService {
 
       if (!user || !user.email) {
         logger.warn(`[AlertCron] User ${userId} not found or has no email`);
-        return;
+        return false;
       }
 
       // Find new matches for each alert
@@ -102,27 +101,23 @@ export class AlertCronService {
           // Update last checked timestamp
           await alertMatchingService.updateLastChecked(alert.id);
 
-          // Find new matches
-          const newMatches = await alertMatchingService.findNewMatches(alert.id);
+          // Find new matches, further drops and expired deals
+          const changes = await alertMatchingService.findMatchChanges(alert.id);
+
+          // Record each change in the database
+          for (const change of changes) {
+            await alertMatchingService.recordMatchChange(alert.id, change);
+          }
 
-          if (newMatches.length > 0) {
+          const toNotify = changes.filter(change => change.notify);
+          if (toNotify.length > 0) {
             alertsWithMatches.push({
               alertId: alert.id,
               alertName: alert.name,
-              matches: newMatches,
+              matches: toNotify,
             });
 
-            // Record each match in the database
-            for (const match of newMatches) {
-              await alertMatchingService.recordMatch(
-                alert.id,
-                match.cruiseId,
-                match.cabinType,
-                match.price
-              );
-            }
-
-            logger.info(`[AlertCron] Alert "${alert.name}": ${newMatches.length} new matches`);
+            logger.info(`[AlertCron] Alert "${alert.name}": ${toNotify.length} matches to email`);
           } else {
             logger.info(`[AlertCron] Alert "${alert.name}": No new matches`);
           }
@@ -132,40 +127,14 @@ export class AlertCronService {
         }
       }
 
-      // Send email if there are any new matches
+      // Email these along with any matches still waiting from price change events,
+      // if the alerts are due and it isn't the user's quiet hours
       if (alertsWithMatches.length > 0) {
-        const totalMatches = alertsWithMatches.reduce((sum, a) => sum + a.matches.length, 0);
-
-        logger.info(`[AlertCron] Sending email to ${user.email} with ${totalMatches} matches across ${alertsWithMatches.length} alerts`);
-
-        const success = await alertEmailService.sendDailyAlertEmail({
-          userEmail: user.email,
-          userName: user.firstName || 'there',
-          alerts: alertsWithMatches,
-        });
-
-        if (success) {
-          // Update last notified timestamp for all alerts with matches
-          for (const alertData of alertsWithMatches) {
-            await db.query.savedSearches.findFirst({
-              where: eq(users.id, alertData.alertId),
-            }).then(alert => {
-              if (alert) {
-                return db
-                  .update(users)
-                  .set({ lastNotified: new Date() })
-                  .where(eq(users.id, alertData.alertId));
-              }
-            });
-          }
-
-          logger.info(`[AlertCron] ✅ Email sent successfully to ${user.email}`);
-        } else {
-          logger.warn(`[AlertCron] ⚠️ Failed to send email to ${user.email}`);
-        }
-      } else {
-        logger.info(`[AlertCron] No new matches for user ${userId}, skipping email`);
+        return await alertDigestService.sendDigest(userId);
       }
+
+      logger.info(`[AlertCron] No new matches for user ${userId}, skipping email`);
+      return false;
     } catch (error) {
       logger.error(`[AlertCron] Error processing user ${userId}:`, error);
       throw error;
@@ -186,9 +155,15 @@ export class AlertCronService {
       // Update last checked
       await alertMatchingService.updateLastChecked(alertId);
 
-      // Find new matches
-      const newMatches = await alertMatchingService.findNewMatches(alertId);
+      // Find new matches, further drops and expired deals
+      const changes = await alertMatchingService.findMatchChanges(alertId);
 
+      // Record matches
+      for (const change of changes) {
+        await alertMatchingService.recordMatchChange(alertId, change);
+      }
+
+      const newMatches = changes.filter(change => change.notify);
       if (newMatches.length === 0) {
         return {
           success: true,
@@ -197,19 +172,9 @@ export class AlertCronService {
         };
       }
 
-      // Record matches
-      for (const match of newMatches) {
-        await alertMatchingService.recordMatch(
-          alertId,
-          match.cruiseId,
-          match.cabinType,
-          match.price
-        );
-      }
-
       // Get alert and user details
       const alert = await db.query.savedSearches.findFirst({
-        where: eq(users.id, alertId),
+        where: eq(savedSearches.id, alertId),
       });
 
       if (!alert) {
@@ -224,18 +189,8 @@ export class AlertCronService {
         throw new Error('User not found or has no email');
       }
 
-      // Send email
-      const emailSent = await alertEmailService.sendDailyAlertEmail({
-        userEmail: user.email,
-        userName: user.firstName || 'there',
-        alerts: [
-          {
-            alertId: alert.id,
-            alertName: alert.name,
-            matches: newMatches,
-          },
-        ],
-      });
+      // Send email, with anything else still pending for the user
+      const emailSent = await alertDigestService.sendDigest(user.id);
 
       return {
         success: true,
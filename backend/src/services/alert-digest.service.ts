@@ -0,0 +1,364 @@
+/**
+ * Alert Digest Service
+ * Emails each user one digest of what their price alerts found, as often as
+ * each alert's frequency allows and outside the user's quiet hours. Matching
+ * (AlertCronService daily, AlertEventQueue on price changes) only queues
+ * match changes; this decides when they go out.
+ */
+
+import { and, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { users, savedSearches, alertMatches } from '../db/schema';
+import { env } from '../config/environment';
+import { logger } from '../config/logger';
+import type { UserPreferences } from '../types/api.types';
+import {
+  createAlertLinkToken,
+  verifyAlertLinkToken,
+  type AlertLinkAction,
+  type AlertLinkPayload,
+} from '../utils/alert-link-token';
+import type { AlertMatchResult } from './alert-matching.service';
+import { alertEmailService } from './alert-email.service';
+
+export type AlertFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const ALERT_FREQUENCY_DAYS: Record<AlertFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+export interface DigestSection {
+  alertId: string;
+  alertName: string;
+  maxBudget: number;
+  matches: AlertMatchResult[];
+}
+
+export interface DigestRun {
+  users: number;
+  emailsSent: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Whether an alert may be emailed again. Allows an hour early so the hourly
+ * run at the time it last went out picks it up.
+ */
+export function isAlertDue(
+  frequency: string | null,
+  lastNotified: Date | string | null,
+  now: Date
+): boolean {
+  if (!lastNotified) return true;
+
+  const days = ALERT_FREQUENCY_DAYS[frequency as AlertFrequency] || ALERT_FREQUENCY_DAYS.daily;
+  return now.getTime() - new Date(lastNotified).getTime() >= days * DAY_MS - HOUR_MS;
+}
+
+const toMinutes = (time: string | undefined): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Minutes past midnight in the user's timezone, falling back to UTC when
+ * it isn't set or isn't a timezone Intl knows
+ */
+function localMinutes(now: Date, timezone: string | undefined): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Whether it is within the user's quiet hours, which may run past midnight
+ * (22:00 to 07:00)
+ */
+export function isQuietTime(preferences: UserPreferences | null, now: Date): boolean {
+  const start = toMinutes(preferences?.notifications?.quietHours?.start);
+  const end = toMinutes(preferences?.notifications?.quietHours?.end);
+  if (start === null || end === null || start === end) return false;
+
+  const time = localMinutes(now, preferences?.timezone);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * What a match saves: how far a drop fell below the last emailed price, or
+ * how far a new match is under budget. Ended deals save nothing.
+ */
+export function matchSavings(match: AlertMatchResult, maxBudget: number): number {
+  switch (match.event) {
+    case 'price_drop':
+      return match.previousPrice ? match.previousPrice - match.price : 0;
+    case 'expired':
+    case 'sold_out':
+      return 0;
+    default:
+      return Math.max(maxBudget - match.price, 0);
+  }
+}
+
+/**
+ * Biggest savings first, both within each alert and across alerts
+ */
+export function rankDigest(sections: DigestSection[]): DigestSection[] {
+  const ranked = sections.map(section => ({
+    ...section,
+    matches: [...section.matches].sort(
+      (a, b) => matchSavings(b, section.maxBudget) - matchSavings(a, section.maxBudget)
+    ),
+  }));
+  const topSavings = (section: DigestSection) =>
+    section.matches.length > 0 ? matchSavings(section.matches[0], section.maxBudget) : 0;
+
+  return ranked.sort((a, b) => topSavings(b) - topSavings(a));
+}
+
+export class AlertDigestService {
+  /**
+   * Email a user the match changes waiting on every alert that is due, one
+   * section per alert. Returns whether an email went out; anything not sent
+   * stays queued for a later run.
+   */
+  async sendDigest(userId: string, now: Date = new Date()): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+
+    if (!user || !user.email) {
+      logger.warn(`[AlertDigest] User ${userId} not found or has no email`);
+      return false;
+    }
+
+    const preferences = (user.preferences || {}) as UserPreferences;
+    if (isQuietTime(preferences, now)) {
+      logger.info(`[AlertDigest] Quiet hours for user ${userId}, digest deferred`);
+      return false;
+    }
+
+    // Matches, drops and expiries waiting to be emailed, on sailings still
+    // open (withdrawn ones included, to say they sold out)
+    const rows = (await db.execute(sql`
+      SELECT m.id AS match_id, m.alert_id, m.cruise_id, m.cabin_type,
+        COALESCE(m.current_price, m.last_notified_price, m.price) AS price,
+        m.current_price, m.last_notified_price, m.pending_notification,
+        s.name AS alert_name, s.alert_frequency, s.last_notified, s.max_budget,
+        c.name, c.sailing_date::text AS sailing_date, c.nights,
+        sh.name AS ship_name, cl.name AS cruise_line_name
+      FROM alert_matches m
+      JOIN saved_searches s ON s.id = m.alert_id
+      JOIN cruises c ON c.id = m.cruise_id
+      LEFT JOIN ships sh ON sh.id = c.ship_id
+      LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+      WHERE s.user_id = ${userId} AND s.alert_enabled = true AND s.is_active = true
+        AND m.pending_notification IS NOT NULL
+        AND c.sailing_date >= CURRENT_DATE
+    `)) as any[];
+
+    const dueRows = rows.filter(row => isAlertDue(row.alert_frequency, row.last_notified, now));
+    if (dueRows.length === 0) {
+      logger.info(
+        `[AlertDigest] Nothing due for user ${userId} (${rows.length} pending on alerts not due)`
+      );
+      return false;
+    }
+
+    const sections = new Map<string, DigestSection>();
+    for (const row of dueRows) {
+      if (!sections.has(row.alert_id)) {
+        sections.set(row.alert_id, {
+          alertId: row.alert_id,
+          alertName: row.alert_name,
+          maxBudget: parseFloat(row.max_budget),
+          matches: [],
+        });
+      }
+      sections.get(row.alert_id)!.matches.push({
+        cruiseId: row.cruise_id,
+        cabinType: row.cabin_type,
+        price: parseFloat(row.price),
+        event: row.pending_notification,
+        previousPrice:
+          row.last_notified_price === null ? null : parseFloat(row.last_notified_price),
+        cruise: {
+          id: row.cruise_id,
+          name: row.name,
+          sailingDate: row.sailing_date,
+          nights: row.nights,
+          shipName: row.ship_name,
+          cruiseLineName: row.cruise_line_name,
+        },
+      });
+    }
+
+    logger.info(
+      `[AlertDigest] Sending digest to ${user.email} with ${dueRows.length} matches across ${sections.size} alerts`
+    );
+
+    const success = await alertEmailService.sendDailyAlertEmail({
+      userEmail: user.email,
+      userName: user.firstName || 'there',
+      alerts: rankDigest(Array.from(sections.values())).map(section => ({
+        alertId: section.alertId,
+        alertName: section.alertName,
+        matches: section.matches,
+        pauseUrl: this.linkUrl({ action: 'pause', userId, alertId: section.alertId }),
+      })),
+      unsubscribeUrl: this.linkUrl({ action: 'unsubscribe', userId }),
+    });
+
+    if (!success) {
+      logger.warn(`[AlertDigest] ⚠️ Failed to send digest to ${user.email}`);
+      return false;
+    }
+
+    await db
+      .update(savedSearches)
+      .set({ lastNotified: now })
+      .where(inArray(savedSearches.id, Array.from(sections.keys())));
+    // A deal that is still on was emailed at its current price. Matches that
+    // changed since they were read stay pending for the next digest.
+    const cleared = await db
+      .update(alertMatches)
+      .set({
+        notifiedAt: now,
+        pendingNotification: null,
+        lastNotifiedPrice: sql`CASE WHEN ${alertMatches.state} = 'active' THEN ${alertMatches.currentPrice} ELSE ${alertMatches.lastNotifiedPrice} END`,
+      })
+      .where(
+        or(
+          ...dueRows.map(row =>
+            and(
+              eq(alertMatches.id, row.match_id),
+              eq(alertMatches.pendingNotification, row.pending_notification),
+              row.current_price === null
+                ? isNull(alertMatches.currentPrice)
+                : eq(alertMatches.currentPrice, row.current_price)
+            )
+          )
+        )
+      )
+      .returning({ id: alertMatches.id });
+
+    if (cleared.length < dueRows.length) {
+      logger.info(
+        `[AlertDigest] ${dueRows.length - cleared.length} matches for user ${userId} changed while sending, left pending`
+      );
+    }
+
+    logger.info(`[AlertDigest] ✅ Digest sent to ${user.email}`);
+    return true;
+  }
+
+  /**
+   * Send the digest of every user with match changes waiting. Runs hourly,
+   * which is what picks up alerts that come due and digests held back by
+   * quiet hours.
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<DigestRun> {
+    const pending = (await db.execute(sql`
+      SELECT DISTINCT s.user_id
+      FROM alert_matches m
+      JOIN saved_searches s ON s.id = m.alert_id
+      WHERE m.pending_notification IS NOT NULL
+        AND s.alert_enabled = true AND s.is_active = true
+    `)) as any[];
+
+    let emailsSent = 0;
+    for (const { user_id: userId } of pending) {
+      try {
+        if (await this.sendDigest(userId, now)) emailsSent++;
+      } catch (error) {
+        logger.error(`[AlertDigest] Error sending digest for user ${userId}:`, error);
+      }
+    }
+
+    logger.info(`[AlertDigest] ${pending.length} users with pending matches, ${emailsSent} sent`);
+
+    return { users: pending.length, emailsSent };
+  }
+
+  /**
+   * What an email link would do, for the page that asks to confirm it. Null
+   * when the token isn't valid or its alert is gone.
+   */
+  async describeLink(
+    token: string
+  ): Promise<{ action: AlertLinkAction; alertName: string | null } | null> {
+    const payload = this.verifyLink(token);
+    if (!payload) return null;
+
+    if (payload.action === 'unsubscribe') {
+      return { action: payload.action, alertName: null };
+    }
+
+    const alert = await db.query.savedSearches.findFirst({
+      where: and(eq(savedSearches.id, payload.alertId), eq(savedSearches.userId, payload.userId)),
+    });
+    return alert ? { action: payload.action, alertName: alert.name } : null;
+  }
+
+  /**
+   * Pause the link's alert, or turn off all the user's alerts to unsubscribe.
+   * Returns how many alerts were turned off, or null when the token isn't valid.
+   */
+  async applyLink(
+    token: string
+  ): Promise<{ action: AlertLinkAction; alertsPaused: number } | null> {
+    const payload = this.verifyLink(token);
+    if (!payload) return null;
+
+    const paused = await db
+      .update(savedSearches)
+      .set({ alertEnabled: false, updatedAt: new Date() })
+      .where(
+        payload.action === 'pause'
+          ? and(eq(savedSearches.id, payload.alertId), eq(savedSearches.userId, payload.userId))
+          : and(eq(savedSearches.userId, payload.userId), eq(savedSearches.alertEnabled, true))
+      )
+      .returning({ id: savedSearches.id });
+
+    logger.info(
+      `[AlertDigest] ${payload.action} link for user ${payload.userId}: ${paused.length} alerts turned off`
+    );
+
+    return { action: payload.action, alertsPaused: paused.length };
+  }
+
+  /**
+   * The confirmation page a link opens; none without a signing secret
+   */
+  private linkUrl(payload: AlertLinkPayload): string | undefined {
+    if (!env.ALERT_LINK_SECRET) return undefined;
+
+    const token = createAlertLinkToken(payload, env.ALERT_LINK_SECRET);
+    return `${env.FRONTEND_URL || 'https://zipsea.com'}/alerts/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  private verifyLink(token: string): AlertLinkPayload | null {
+    if (!env.ALERT_LINK_SECRET) {
+      logger.warn('[AlertDigest] ALERT_LINK_SECRET not configured, rejecting link');
+      return null;
+    }
+    return verifyAlertLinkToken(token, env.ALERT_LINK_SECRET);
+  }
+}
+
+// Singleton instance
+export const alertDigestService = new AlertDigestService();
@@ -1,28 +1,41 @@
 /**
  * Alert Email Service
- * Sends consolidated daily email notifications for price alerts
+ * Sends the consolidated price alert digest, and
+ * price-drop emails for watched sailings
  */
 
 import { Resend } from 'resend';
 import { env } from '../config/environment';
 import { logger } from '../config/logger';
 import type { AlertMatchResult } from './alert-matching.service';
+import type { PriceDrop } from './sailing-watch.service';
+import { createSlugFromCruiseData } from '../utils/slug.utils';
 
 const resend = env.RESEND_API_KEY ? new Resend(env.RESEND_API_KEY) : null;
 
+interface AlertEmailSection {
+  alertId: string;
+  alertName: string;
+  matches: AlertMatchResult[];
+  pauseUrl?: string; // Signed link that pauses the alert without signing in
+}
+
 interface AlertEmailData {
   userEmail: string;
   userName: string;
-  alerts: Array<{
-    alertId: string;
-    alertName: string;
-    matches: AlertMatchResult[];
-  }>;
+  alerts: AlertEmailSection[];
+  unsubscribeUrl?: string; // Signed link that turns off every alert without signing in
+}
+
+interface PriceDropEmailData {
+  userEmail: string;
+  userName: string;
+  drops: PriceDrop[];
 }
 
 export class AlertEmailService {
   /**
-   * Send consolidated daily email with all alerts for a user
+   * Send a user's alert digest: every alert with something to report, in one email
    */
   async sendDailyAlertEmail(data: AlertEmailData): Promise<boolean> {
     if (!resend) {
@@ -35,12 +48,17 @@ export class AlertEmailService {
       logger.info(`[AlertEmail] ${data.alerts.length} alerts, ${data.alerts.reduce((sum, a) => sum + a.matches.length, 0)} total matches`);
 
       const html = this.generateEmailHTML(data);
+      const onlyNewMatches = data.alerts.every(a => a.matches.every(m => !m.event || m.event === 'matched'));
 
       const result = await resend.emails.send({
         from: 'Zipsea <noreply@zipsea.com>',
         to: data.userEmail,
-        subject: `🚢 ${data.alerts.reduce((sum, a) => sum + a.matches.length, 0)} New Cruise Price Alert${data.alerts.reduce((sum, a) => sum + a.matches.length, 0) > 1 ? 's' : ''}!`,
+        subject: onlyNewMatches
+          ? `🚢 ${data.alerts.reduce((sum, a) => sum + a.matches.length, 0)} New Cruise Price Alert${data.alerts.reduce((sum, a) => sum + a.matches.length, 0) > 1 ? 's' : ''}!`
+          : '🚢 Updates on your cruise price alerts',
         html,
+        // Opens the confirmation page; there is no one-click (RFC 8058) endpoint
+        ...(data.unsubscribeUrl && { headers: { 'List-Unsubscribe': `<${data.unsubscribeUrl}>` } }),
       });
 
       logger.info(`[AlertEmail] Email sent successfully:`, result);
@@ -51,6 +69,38 @@ export class AlertEmailService {
     }
   }
 
+  /**
+   * Send one email with every watched sailing whose price has dropped
+   */
+  async sendPriceDropEmail(data: PriceDropEmailData): Promise<boolean> {
+    if (!resend) {
+      logger.warn('[AlertEmail] Resend not configured, skipping email');
+      return false;
+    }
+
+    try {
+      logger.info(`[AlertEmail] Sending price drop email to ${data.userEmail} (${data.drops.length} drops)`);
+
+      const [first] = data.drops;
+      const subject = data.drops.length === 1
+        ? `📉 Price drop: ${first.shipName || first.cruiseName} now $${Math.round(first.price)}`
+        : `📉 Prices dropped on ${data.drops.length} sailings you're watching`;
+
+      const result = await resend.emails.send({
+        from: 'Zipsea <noreply@zipsea.com>',
+        to: data.userEmail,
+        subject,
+        html: this.generatePriceDropHTML(data),
+      });
+
+      logger.info(`[AlertEmail] Price drop email sent successfully:`, result);
+      return true;
+    } catch (error) {
+      logger.error('[AlertEmail] Error sending price drop email:', error);
+      return false;
+    }
+  }
+
   /**
    * Generate HTML email content
    */
@@ -79,7 +129,7 @@ export class AlertEmailService {
                 🚢 Your Cruise Price Alerts
               </h1>
               <p style="color: #ffffff; font-size: 16px; margin: 10px 0 0 0;">
-                We found ${totalMatches} new cruise${totalMatches > 1 ? 's' : ''} matching your price alerts!
+                We have ${totalMatches} update${totalMatches > 1 ? 's' : ''} on cruises matching your price alerts!
               </p>
             </td>
           </tr>
@@ -91,7 +141,7 @@ export class AlertEmailService {
                 Hi ${data.userName},
               </p>
               <p style="font-size: 16px; color: #333333; margin: 0 0 20px 0; line-height: 1.6;">
-                Great news! We found new cruises that match your price alerts and are now below your budget threshold.
+                Here's what changed on cruises that match your price alerts: new sailings below your budget, further price drops, and deals that have ended.
               </p>
             </td>
           </tr>
@@ -116,6 +166,7 @@ export class AlertEmailService {
               </p>
               <p style="font-size: 14px; color: #666666; margin: 0; text-align: center;">
                 <a href="${env.FRONTEND_URL || 'https://zipsea.com'}/alerts" style="color: #2f7ddd; text-decoration: none;">Manage your alerts</a>
+                ${data.unsubscribeUrl ? ` • <a href="${data.unsubscribeUrl}" style="color: #2f7ddd; text-decoration: none;">Unsubscribe from price alerts</a>` : ''}
               </p>
             </td>
           </tr>
@@ -132,7 +183,7 @@ export class AlertEmailService {
   /**
    * Generate HTML for a single alert's matches
    */
-  private generateAlertSection(alert: { alertId: string; alertName: string; matches: AlertMatchResult[] }): string {
+  private generateAlertSection(alert: AlertEmailSection): string {
     return `
           <!-- Alert Section -->
           <tr>
@@ -149,6 +200,12 @@ export class AlertEmailService {
                 <a href="${env.FRONTEND_URL || 'https://zipsea.com'}/alerts/${alert.alertId}/matches" style="color: #2f7ddd; text-decoration: none;">View all →</a>
               </p>
               ` : ''}
+
+              ${alert.pauseUrl ? `
+              <p style="font-size: 12px; color: #999999; margin: 15px 0 0 0; text-align: center;">
+                Too many emails? <a href="${alert.pauseUrl}" style="color: #999999;">Pause this alert</a>
+              </p>
+              ` : ''}
             </td>
           </tr>
     `;
@@ -171,6 +228,27 @@ export class AlertEmailService {
     // Format cabin type for display
     const cabinTypeDisplay = match.cabinType.charAt(0).toUpperCase() + match.cabinType.slice(1);
 
+    // Drops show the price we last emailed; ended deals say why instead of offering credit
+    const isEnded = match.event === 'expired' || match.event === 'sold_out';
+    const previousPriceHTML = match.event === 'price_drop' && match.previousPrice
+      ? `<p style="font-size: 14px; color: #999999; margin: 0 0 2px 0; text-decoration: line-through;">$${Math.round(match.previousPrice)}</p>`
+      : '';
+    const statusHTML = match.event === 'price_drop' && match.previousPrice
+      ? `<p style="font-size: 12px; color: #1B8F57; margin: 5px 0 0 0; font-weight: bold;">Dropped $${Math.round(match.previousPrice - match.price)}</p>`
+      : isEnded
+        ? `<p style="font-size: 12px; color: #D14343; margin: 5px 0 0 0; font-weight: bold;">${match.event === 'sold_out' ? 'No longer available' : 'Now over your budget'}</p>`
+        : '';
+    const obcHTML = isEnded ? '' : `
+                    <!-- OBC Box (matching quote emails) -->
+                    <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #1B8F57; border-radius: 10px; margin-top: 15px;">
+                      <tr>
+                        <td style="padding: 15px; text-align: center;">
+                          <span style="color: #FFFFFF; font-family: Arial, sans-serif; font-size: 18px; font-weight: bold; letter-spacing: -0.02em;">+ $${obcAmount} onboard credit</span>
+                        </td>
+                      </tr>
+                    </table>
+`;
+
     return `
               <!-- Cruise Card -->
               <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f9f9f9; border-radius: 10px; margin-bottom: 15px;">
@@ -193,21 +271,144 @@ export class AlertEmailService {
                           </p>
                         </td>
                         <td align="right" valign="top">
-                          <p style="font-size: 24px; color: #2f7ddd; margin: 0; font-weight: bold;">
+                          ${previousPriceHTML}
+                          <p style="font-size: 24px; color: ${isEnded ? '#999999' : '#2f7ddd'}; margin: 0; font-weight: bold;">
                             $${Math.round(match.price)}
                           </p>
                           <p style="font-size: 12px; color: #666666; margin: 5px 0 0 0;">
                             ${cabinTypeDisplay}
                           </p>
+                          ${statusHTML}
                         </td>
                       </tr>
                     </table>
+${obcHTML}
+                    <!-- View Details Button -->
+                    <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin-top: 15px;">
+                      <tr>
+                        <td align="center">
+                          <a href="${env.FRONTEND_URL || 'https://zipsea.com'}/cruise/${this.createSlug(cruiseName)}-${cruise.id}"
+                             style="display: inline-block; background-color: #2f7ddd; color: #ffffff; text-decoration: none; padding: 12px 30px; border-radius: 50px; font-size: 14px; font-weight: bold;">
+                            View Details
+                          </a>
+                        </td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+    `;
+  }
 
-                    <!-- OBC Box (matching quote emails) -->
-                    <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #1B8F57; border-radius: 10px; margin-top: 15px;">
+  /**
+   * Generate HTML for the price drop email
+   */
+  private generatePriceDropHTML(data: PriceDropEmailData): string {
+    const frontendUrl = env.FRONTEND_URL || 'https://zipsea.com';
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Price Drop - Zipsea</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+  <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f5f5f5;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table cellpadding="0" cellspacing="0" border="0" width="600" style="background-color: #ffffff; border-radius: 10px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #2f7ddd; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+              <h1 style="color: #ffffff; font-size: 28px; font-weight: bold; margin: 0; letter-spacing: -0.02em;">
+                📉 A price you're watching dropped
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Greeting -->
+          <tr>
+            <td style="padding: 30px 30px 10px 30px;">
+              <p style="font-size: 16px; color: #333333; margin: 0 0 20px 0; line-height: 1.6;">
+                Hi ${data.userName},
+              </p>
+              <p style="font-size: 16px; color: #333333; margin: 0; line-height: 1.6;">
+                ${data.drops.length === 1 ? 'The sailing you\'re watching is' : `${data.drops.length} sailings you're watching are`} cheaper than when we last told you.
+              </p>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="padding: 20px 30px;">
+              ${data.drops.map(drop => this.generatePriceDropCard(drop, frontendUrl)).join('\n')}
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+              <p style="font-size: 14px; color: #666666; margin: 0 0 10px 0; text-align: center;">
+                You're receiving this email because you're watching these sailings at Zipsea.
+              </p>
+              <p style="font-size: 14px; color: #666666; margin: 0; text-align: center;">
+                <a href="${frontendUrl}/alerts" style="color: #2f7ddd; text-decoration: none;">Manage your alerts</a>
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate HTML for one watched sailing's drop
+   */
+  private generatePriceDropCard(drop: PriceDrop, frontendUrl: string): string {
+    const cabin = drop.cabinCode
+      ? `Cabin ${drop.cabinCode}`
+      : drop.cabinType.charAt(0).toUpperCase() + drop.cabinType.slice(1);
+    const slug = createSlugFromCruiseData({
+      id: drop.cruiseId as any,
+      shipName: drop.shipName || drop.cruiseName,
+      sailingDate: drop.sailingDate,
+    });
+
+    return `
+              <!-- Price Drop Card -->
+              <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f9f9f9; border-radius: 10px; margin-bottom: 15px;">
+                <tr>
+                  <td style="padding: 20px;">
+                    <table cellpadding="0" cellspacing="0" border="0" width="100%">
                       <tr>
-                        <td style="padding: 15px; text-align: center;">
-                          <span style="color: #FFFFFF; font-family: Arial, sans-serif; font-size: 18px; font-weight: bold; letter-spacing: -0.02em;">+ $${obcAmount} onboard credit</span>
+                        <td>
+                          <p style="font-size: 18px; color: #333333; margin: 0 0 5px 0; font-weight: bold; letter-spacing: -0.02em;">
+                            ${drop.cruiseName}
+                          </p>
+                          <p style="font-size: 14px; color: #666666; margin: 0 0 10px 0;">
+                            ${drop.shipName ? `${drop.shipName} • ` : ''}${drop.nights} Nights
+                          </p>
+                          <p style="font-size: 14px; color: #666666; margin: 0;">
+                            Sailing: ${this.formatDate(drop.sailingDate)} • ${cabin}
+                          </p>
+                        </td>
+                        <td align="right" valign="top">
+                          <p style="font-size: 14px; color: #999999; margin: 0; text-decoration: line-through;">
+                            $${Math.round(drop.previousPrice)}
+                          </p>
+                          <p style="font-size: 24px; color: #2f7ddd; margin: 0; font-weight: bold;">
+                            $${Math.round(drop.price)}
+                          </p>
+                          <p style="font-size: 12px; color: #1B8F57; margin: 5px 0 0 0; font-weight: bold;">
+                            $${Math.round(drop.drop)} less (${drop.dropPercent}%)
+                          </p>
                         </td>
                       </tr>
                     </table>
@@ -216,7 +417,7 @@ export class AlertEmailService {
                     <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin-top: 15px;">
                       <tr>
                         <td align="center">
-                          <a href="${env.FRONTEND_URL || 'https://zipsea.com'}/cruise/${this.createSlug(cruiseName)}-${cruise.id}"
+                          <a href="${frontendUrl}/cruise/${slug}"
                              style="display: inline-block; background-color: #2f7ddd; color: #ffffff; text-decoration: none; padding: 12px 30px; border-radius: 50px; font-size: 14px; font-weight: bold;">
                             View Details
                           </a>
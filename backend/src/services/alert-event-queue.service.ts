@@ -0,0 +1,155 @@
+/**
+ * Alert Event Queue
+ * Matches price alerts as the webhook pipeline publishes price changes,
+ * instead of waiting for the daily run in AlertCronService, which stays as
+ * the backstop for anything missed here.
+ */
+
+import { Queue, Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { env } from '../config/environment';
+import { logger } from '../config/logger';
+import type { CruisePriceChangedEvent } from './webhook-pipeline/types';
+import { alertMatchingService } from './alert-matching.service';
+import { alertDigestService } from './alert-digest.service';
+
+interface NotifyUserJobData {
+  userId: string;
+}
+
+type AlertEventJobData = CruisePriceChangedEvent | NotifyUserJobData;
+
+const QUEUE_NAME = 'alert-events';
+
+// Matches found within this long of the first one go out in the same email
+const NOTIFY_DELAY_MS = 5 * 60 * 1000;
+
+export class AlertEventQueue {
+  private queue: Queue<AlertEventJobData> | null = null;
+  private worker: Worker<AlertEventJobData> | null = null;
+  private redis: Redis | null = null;
+
+  get isEnabled(): boolean {
+    // env.REDIS_HOST defaults to localhost, so only a host that was set counts
+    return !!(env.REDIS_URL || process.env.REDIS_HOST);
+  }
+
+  initialize(): void {
+    if (this.queue || !this.isEnabled) {
+      return;
+    }
+
+    const options = {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+      retryStrategy: (times: number) => Math.min(times * 100, 3000),
+    };
+    // Without a URL, connect to REDIS_HOST and REDIS_PORT
+    this.redis = env.REDIS_URL
+      ? new Redis(env.REDIS_URL, options)
+      : new Redis({
+          host: env.REDIS_HOST,
+          port: env.REDIS_PORT,
+          password: env.REDIS_PASSWORD,
+          ...options,
+        });
+
+    this.queue = new Queue<AlertEventJobData>(QUEUE_NAME, {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: { count: 500, age: 3600 },
+        removeOnFail: { count: 200, age: 86400 },
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 30000 },
+      },
+    });
+
+    // One at a time: matching is a handful of queries per event and the
+    // webhook pipeline shares the database
+    this.worker = new Worker<AlertEventJobData>(QUEUE_NAME, job => this.processJob(job), {
+      connection: this.redis,
+      concurrency: 1,
+    });
+
+    this.worker.on('failed', (job, error) => {
+      logger.error(`[AlertEvents] Job ${job?.id} failed`, { error: error.message });
+    });
+    this.worker.on('error', error => {
+      logger.error('[AlertEvents] Worker error', { error: error.message });
+    });
+
+    logger.info('[AlertEvents] Queue and worker initialized');
+  }
+
+  /**
+   * Queue a price change for alert matching. Without Redis the change is
+   * left to the daily alert run.
+   */
+  async publish(event: CruisePriceChangedEvent): Promise<void> {
+    this.initialize();
+    if (!this.queue) {
+      return;
+    }
+
+    await this.queue.add('price-changed', event);
+  }
+
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queue?.close();
+    this.redis?.disconnect();
+  }
+
+  private async processJob(job: Job<AlertEventJobData>): Promise<Record<string, unknown>> {
+    switch (job.name) {
+      case 'notify-user':
+        return this.notifyUser(job.data as NotifyUserJobData);
+      default:
+        return this.matchPriceChange(job.data as CruisePriceChangedEvent);
+    }
+  }
+
+  private async matchPriceChange(event: CruisePriceChangedEvent): Promise<Record<string, unknown>> {
+    const alerts = await alertMatchingService.findMatchesForPriceChange(event);
+
+    const userIds = new Set<string>();
+    for (const alert of alerts) {
+      for (const match of alert.matches) {
+        await alertMatchingService.recordMatchChange(alert.alertId, match);
+      }
+      if (alert.matches.some(match => match.notify)) {
+        userIds.add(alert.userId);
+      }
+    }
+
+    // The job id holds one pending email per user until it has been sent
+    for (const userId of userIds) {
+      await this.queue.add(
+        'notify-user',
+        { userId },
+        {
+          jobId: `notify-${userId}`,
+          delay: NOTIFY_DELAY_MS,
+          removeOnComplete: true,
+          removeOnFail: true,
+        }
+      );
+    }
+
+    if (alerts.length > 0) {
+      logger.info(
+        `[AlertEvents] Cruise ${event.cruiseId} changed matches for ${alerts.length} alerts, emailing ${userIds.size} users`
+      );
+    }
+
+    return { cruiseId: event.cruiseId, alerts: alerts.length, users: userIds.size };
+  }
+
+  private async notifyUser(data: NotifyUserJobData): Promise<Record<string, unknown>> {
+    const emailSent = await alertDigestService.sendDigest(data.userId);
+    return { userId: data.userId, emailSent };
+  }
+}
+
+// Singleton instance
+export const alertEventQueue = new AlertEventQueue();
@@ -1,35 +1,240 @@
 /**
  * Alert Matching Service
- * Finds NEW cruises that match user price alerts and haven't been notified yet
+ * Finds cruises that match user price alerts and follows each match's price,
+ * so users hear about new matches, further drops and, if they ask, expiry
  */
 
 import { db } from '../db/connection';
-import { savedSearches, alertMatches, cruises, cheapestPricing } from '../db/schema';
-import { eq, and, inArray, lte, isNull, sql, gte } from 'drizzle-orm';
+import {
+  savedSearches,
+  alertMatches,
+  alertMatchEvents,
+  type AlertMatch,
+  type SavedSearch,
+} from '../db/schema';
+import { eq, and, inArray, sql, asc } from 'drizzle-orm';
 import { logger } from '../config/logger';
+import { searchService, parseSearchParams, type SearchFilters, type SearchQuery } from './search';
+import type { CruisePriceChangedEvent } from './webhook-pipeline/types';
+import { priceDecreases } from './webhook-pipeline/price-change-events';
+import { isNotifiableDrop } from './sailing-watch.service';
 import {
-  ComprehensiveSearchService,
-  type ComprehensiveSearchFilters,
-} from './search-comprehensive.service';
+  CHILD_MAX_AGE,
+  isDoubleOccupancy,
+  partySize,
+  validateParty,
+  type CabinCategory,
+  type PartyComposition,
+} from '../utils/party-pricing';
 
-const searchService = new ComprehensiveSearchService();
+export type MatchEvent = 'matched' | 'price_drop' | 'expired' | 'sold_out';
 
 export interface AlertMatchResult {
   cruiseId: string;
   cabinType: 'interior' | 'oceanview' | 'balcony' | 'suite';
   price: number;
   cruise: any; // Full cruise data from search
+  event?: MatchEvent; // Why it is being emailed; a new match when not set
+  previousPrice?: number | null; // Last emailed price
+}
+
+// A match starting, dropping further or going away, to record and maybe email
+export interface AlertMatchChange extends AlertMatchResult {
+  event: MatchEvent;
+  notify: boolean;
+}
+
+export interface AlertMatchGroup {
+  alertId: string;
+  alertName: string;
+  userId: string;
+  matches: AlertMatchChange[];
+}
+
+// What an alert's criteria can be checked against without running a search
+export interface CruiseFacts {
+  cruiseLineId: number | null;
+  sailingDate: string; // YYYY-MM-DD
+  nights: number;
+  regionIds: number[];
+}
+
+// The parts of a recorded match that decide what happens to it next
+export interface TrackedMatch {
+  state: string;
+  currentPrice: number | null;
+  lastNotifiedPrice: number | null;
+}
+
+export interface MatchRules {
+  maxBudget: number;
+  renotifyDropAmount?: number | null;
+  renotifyDropPercent?: number | null;
+  notifyOnExpiry?: boolean;
+}
+
+export type BudgetType = 'per_person' | 'total';
+
+// Per-person price of each cabin category for an alert's party
+type CabinPrices = Record<CabinCategory, number | null>;
+
+const ALL_CABIN_TYPES = ['interior', 'oceanview', 'balcony', 'suite'];
+
+// How long price changes from one pipeline run share a load of the alerts
+const ALERT_LIST_TTL_MS = 5 * 60 * 1000;
+
+interface AlertList {
+  runId: string;
+  loadedAt: number;
+  alerts: Array<{ alert: SavedSearch; filters: SearchFilters }>;
+}
+
+const toPrice = (value: unknown): number | null => {
+  const price = value === null || value === undefined ? NaN : Number(value);
+  return price > 0 ? price : null;
+};
+
+/**
+ * Whether a cruise passes the filters an alert's search uses. Filters alerts
+ * don't set are ignored, so this can say yes to a cruise the search wouldn't
+ * return, never the other way round.
+ */
+export function couldMatchCruise(filters: SearchFilters, cruise: CruiseFacts): boolean {
+  if (
+    filters.departureMonths?.length &&
+    !filters.departureMonths.includes(cruise.sailingDate.slice(0, 7))
+  ) {
+    return false;
+  }
+  if (filters.cruiseLineIds?.length && !filters.cruiseLineIds.includes(cruise.cruiseLineId)) {
+    return false;
+  }
+  if (
+    filters.regionIds?.length &&
+    !filters.regionIds.some(regionId => cruise.regionIds.includes(regionId))
+  ) {
+    return false;
+  }
+  if (filters.minNights !== undefined && cruise.nights < filters.minNights) return false;
+  if (filters.maxNights !== undefined && cruise.nights > filters.maxNights) return false;
+  if (filters.nights !== undefined && cruise.nights !== filters.nights) return false;
+  return true;
+}
+
+/**
+ * What a cabin's current price (null when it can't be booked) means for an
+ * alert, or null when nothing changed. A price within budget starts a match,
+ * or restarts one that had expired; an active match is emailed again when it
+ * drops the alert's re-notify threshold below the last emailed price, and
+ * ends when it goes over budget or sells out. Endings are only emailed when
+ * the alert asks for it and the user heard about the match in the first place.
+ */
+export function evaluateMatch(
+  tracked: TrackedMatch | null,
+  price: number | null,
+  rules: MatchRules
+): { event: MatchEvent; notify: boolean } | null {
+  const isActive = tracked?.state === 'active';
+
+  if (price === null || price > rules.maxBudget) {
+    if (!isActive) return null;
+    return {
+      event: price === null ? 'sold_out' : 'expired',
+      notify: !!rules.notifyOnExpiry && tracked.lastNotifiedPrice !== null,
+    };
+  }
+
+  if (!isActive) return { event: 'matched', notify: true };
+
+  const isDrop = isNotifiableDrop(tracked.lastNotifiedPrice, price, {
+    dropAmount: rules.renotifyDropAmount,
+    dropPercent: rules.renotifyDropPercent,
+  });
+  return isDrop ? { event: 'price_drop', notify: true } : null;
+}
+
+/**
+ * The party an alert prices for. Infants are children aged 0; children
+ * without recorded ages are priced as children.
+ */
+export function alertParty(
+  alert: Pick<SavedSearch, 'adults' | 'children' | 'childAges' | 'infants'>
+): PartyComposition {
+  const children = alert.children || 0;
+  const infants = alert.infants || 0;
+  const childAges =
+    alert.childAges?.length === children
+      ? alert.childAges
+      : Array.from({ length: children }, () => CHILD_MAX_AGE);
+
+  return {
+    adults: alert.adults || 2,
+    children: children + infants,
+    ...(children + infants > 0 && {
+      childAges: [...childAges, ...Array.from({ length: infants }, () => 0)],
+    }),
+  };
+}
+
+/**
+ * A per-person party price in the terms of the alert's budget: as is, or
+ * for the whole party
+ */
+export function budgetPrice(
+  perPerson: number | null,
+  party: PartyComposition,
+  budgetType: string | null
+): number | null {
+  if (perPerson === null) return null;
+  return budgetType === 'total' ? Math.round(perPerson * partySize(party) * 100) / 100 : perPerson;
+}
+
+/**
+ * The search an alert runs: its criteria, which may use the legacy or the
+ * SearchQuery parameter names, priced for its party. The search's price
+ * filter is on the headline two-adult price, so it only caps the search at
+ * the budget for a party of two adults.
+ */
+export function alertSearchQuery(
+  alert: Pick<
+    SavedSearch,
+    'searchCriteria' | 'maxBudget' | 'budgetType' | 'adults' | 'children' | 'childAges' | 'infants'
+  >
+): SearchQuery {
+  const searchCriteria = (alert.searchCriteria || {}) as Record<string, unknown>;
+  const party = alertParty(alert);
+  const budget = alert.maxBudget ? parseFloat(alert.maxBudget) : undefined;
+
+  return parseSearchParams({
+    ...searchCriteria,
+    page: undefined,
+    cursor: undefined,
+    maxPrice:
+      budget && isDoubleOccupancy(party)
+        ? alert.budgetType === 'total'
+          ? budget / 2
+          : budget
+        : undefined,
+    adults: party.adults,
+    children: party.children,
+    childAges: party.childAges?.join(','),
+    limit: 100, // Get up to 100 matches
+    sortBy: 'price',
+    sortOrder: 'asc',
+  });
 }
 
 export class AlertMatchingService {
+  private alertList: AlertList | null = null;
+
   /**
-   * Find NEW matches for a specific alert
-   * Returns cruises that:
-   * 1. Match the alert's search criteria
-   * 2. Have pricing below the maxBudget threshold
-   * 3. Haven't been notified before (not in alert_matches)
+   * Find what changed for an alert since it was last checked:
+   * 1. Cruises matching its criteria with a cabin price within maxBudget
+   *    that it hasn't matched yet
+   * 2. Matches whose price dropped far enough to email again
+   * 3. Matches that went over budget or sold out
    */
-  async findNewMatches(alertId: string): Promise<AlertMatchResult[]> {
+  async findMatchChanges(alertId: string): Promise<AlertMatchChange[]> {
     try {
       // Get alert details
       const alert = await db.query.savedSearches.findFirst({
@@ -53,105 +258,208 @@ export class AlertMatchingService {
 
       logger.info(`[AlertMatching] Processing alert ${alertId}: "${alert.name}"`);
 
-      // Parse search criteria
-      const searchCriteria = alert.searchCriteria as any;
-      const maxBudget = parseFloat(alert.maxBudget);
-      const cabinTypes = alert.cabinTypes || ['interior', 'oceanview', 'balcony', 'suite'];
+      const rules = this.matchRules(alert);
+      const cabinTypes = alert.cabinTypes || ALL_CABIN_TYPES;
+      const party = alertParty(alert);
 
       logger.info(
-        `[AlertMatching] Budget threshold: $${maxBudget}, Cabin types: ${cabinTypes.join(', ')}`
+        `[AlertMatching] Budget threshold: $${rules.maxBudget} ${alert.budgetType}, Cabin types: ${cabinTypes.join(', ')}, Party: ${party.adults} adults, ${party.children} children`
       );
 
-      // Build search filters from alert criteria
-      const filters: ComprehensiveSearchFilters = {
-        cruiseLineId: searchCriteria.cruiseLineId,
-        departureMonth: searchCriteria.departureMonth,
-        regionId: searchCriteria.regionId,
-        minNights: searchCriteria.minNights,
-        maxNights: searchCriteria.maxNights,
-        maxPrice: maxBudget, // Use alert's budget as max price
-      };
+      if (validateParty(party) !== null) {
+        logger.warn(
+          `[AlertMatching] Alert ${alertId} party can't share a cabin, nothing will match`
+        );
+      }
 
-      // Search for matching cruises
-      const searchResults = await searchService.searchCruises(filters, {
-        limit: 100, // Get up to 100 matches
-        sortBy: 'price',
-        sortOrder: 'asc',
-      });
+      const query = alertSearchQuery(alert);
+
+      // Search for matching cruises, priced for the party
+      const searchResults = await searchService.search(query);
 
       logger.info(
         `[AlertMatching] Found ${searchResults.results.length} cruises matching criteria`
       );
 
-      // Get previously notified cruise/cabin combinations for this alert
-      const previousMatches = await db
+      // Matches recorded before, priced from cheapest_pricing and pricing
+      // rather than the search, which leaves out whatever is now over budget
+      // or withdrawn
+      const trackedMatches = await db
         .select()
         .from(alertMatches)
         .where(eq(alertMatches.alertId, alertId));
 
-      const notifiedSet = new Set(previousMatches.map(m => `${m.cruiseId}:${m.cabinType}`));
+      const trackedSet = new Set(trackedMatches.map(m => `${m.cruiseId}:${m.cabinType}`));
 
-      logger.info(`[AlertMatching] ${notifiedSet.size} cruise/cabin combos already notified`);
+      logger.info(`[AlertMatching] ${trackedSet.size} cruise/cabin combos already matched`);
 
-      // Filter results to find NEW matches
-      const newMatches: AlertMatchResult[] = [];
+      const changes: AlertMatchChange[] = [];
 
       for (const cruise of searchResults.results) {
         // Check each cabin type the user wants to monitor
         for (const cabinType of cabinTypes) {
-          let price: number | null = null;
-
-          // Get price for this cabin type
-          switch (cabinType) {
-            case 'interior':
-              price = cruise.pricing?.interiorPrice || cruise.interiorPrice;
-              break;
-            case 'oceanview':
-              price = cruise.pricing?.oceanviewPrice || cruise.oceanviewPrice;
-              break;
-            case 'balcony':
-              price = cruise.pricing?.balconyPrice || cruise.balconyPrice;
-              break;
-            case 'suite':
-              price = cruise.pricing?.suitePrice || cruise.suitePrice;
-              break;
-          }
+          const price = this.searchResultPrice(cruise, cabinType, alert);
 
           // Skip if no price available for this cabin type
-          if (!price) continue;
+          if (price === null) continue;
 
-          const priceNum = typeof price === 'string' ? parseFloat(price) : price;
+          // Tracked matches are checked below
+          if (trackedSet.has(`${cruise.id}:${cabinType}`)) continue;
 
-          // Check if price is below budget threshold
-          if (priceNum > maxBudget) continue;
+          const change = evaluateMatch(null, price, rules);
+          if (!change) continue;
 
-          // Check if we've already notified about this cruise/cabin combo
-          const matchKey = `${cruise.id}:${cabinType}`;
-          if (notifiedSet.has(matchKey)) continue;
-
-          // This is a NEW match!
-          newMatches.push({
-            cruiseId: cruise.id,
-            cabinType,
-            price: priceNum,
-            cruise,
-          });
+          changes.push({ cruiseId: cruise.id, cabinType, price, cruise, ...change });
 
           logger.info(
-            `[AlertMatching] NEW MATCH: ${cruise.cruiseLine?.name} - ${cruise.name}, ${cabinType} $${priceNum}`
+            `[AlertMatching] NEW MATCH: ${cruise.cruiseLine?.name} - ${cruise.name}, ${cabinType} $${price}`
           );
         }
       }
 
-      logger.info(`[AlertMatching] Found ${newMatches.length} NEW matches for alert ${alertId}`);
+      const watched = trackedMatches.filter(m => cabinTypes.includes(m.cabinType));
+      const cruiseRows = await this.loadCruises(Array.from(new Set(watched.map(m => m.cruiseId))));
+      const cruisesById = new Map(cruiseRows.map(row => [row.id, row]));
+      const pricesById = await this.partyPrices(party, cruiseRows);
+
+      for (const match of watched) {
+        const row = cruisesById.get(match.cruiseId);
+        // Departed sailings are left as they were
+        if (!row) continue;
+
+        const perPerson = row.is_active
+          ? (pricesById.get(row.id)?.[match.cabinType as CabinCategory] ?? null)
+          : null;
+        const price = budgetPrice(perPerson, party, alert.budgetType);
+        const tracked = this.toTrackedMatch(match);
+        const change = evaluateMatch(tracked, price, rules);
+        if (!change) continue;
+
+        changes.push({
+          cruiseId: match.cruiseId,
+          cabinType: match.cabinType as AlertMatchResult['cabinType'],
+          price: price ?? tracked.currentPrice ?? parseFloat(match.price),
+          previousPrice: tracked.lastNotifiedPrice,
+          cruise: this.toCruiseSummary(row),
+          ...change,
+        });
+
+        logger.info(
+          `[AlertMatching] ${change.event.toUpperCase()}: ${row.name}, ${match.cabinType} ${price === null ? 'no price' : `$${price}`}`
+        );
+      }
+
+      logger.info(`[AlertMatching] Found ${changes.length} match changes for alert ${alertId}`);
 
-      return newMatches;
+      return changes;
     } catch (error) {
       logger.error(`[AlertMatching] Error finding matches for alert ${alertId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Find match changes for one cruise whose prices just changed: new matches
+   * for the alerts whose criteria could include it, where a price appeared or
+   * went down, and drops or expiry for the alerts already matching it.
+   */
+  async findMatchesForPriceChange(event: CruisePriceChangedEvent): Promise<AlertMatchGroup[]> {
+    const [cruise] = (await this.loadCruises([event.cruiseId])).filter(row => row.is_active);
+    if (!cruise) return [];
+
+    const tracked = await db
+      .select({ match: alertMatches, alert: savedSearches })
+      .from(alertMatches)
+      .innerJoin(savedSearches, eq(savedSearches.id, alertMatches.alertId))
+      .where(
+        and(
+          eq(alertMatches.cruiseId, event.cruiseId),
+          eq(savedSearches.alertEnabled, true),
+          eq(savedSearches.isActive, true)
+        )
+      );
+    const trackedByKey = new Map<string, AlertMatch>(
+      tracked.map(row => [`${row.alert.id}:${row.match.cabinType}`, row.match])
+    );
+
+    const candidates = new Map<string, SavedSearch>(tracked.map(row => [row.alert.id, row.alert]));
+    const criteriaMatched = new Set<string>();
+
+    const decreases = priceDecreases(event);
+    if (decreases.length > 0) {
+      const facts: CruiseFacts = {
+        cruiseLineId: cruise.cruise_line_id === null ? null : Number(cruise.cruise_line_id),
+        sailingDate: cruise.sailing_date,
+        nights: Number(cruise.nights),
+        regionIds: (Array.isArray(cruise.region_ids) ? cruise.region_ids : []).map(Number),
+      };
+
+      for (const { alert, filters } of await this.enabledAlerts(event.runId)) {
+        if (couldMatchCruise(filters, facts)) {
+          // Alerts already matching it were just read fresh
+          if (!candidates.has(alert.id)) candidates.set(alert.id, alert);
+          criteriaMatched.add(alert.id);
+        }
+      }
+    }
+    if (candidates.size === 0) return [];
+
+    // The cruise's prices for each party among the candidates; the event's
+    // prices are the headline ones for two adults
+    const pricesByParty = new Map<string, CabinPrices | null>();
+
+    const groups: AlertMatchGroup[] = [];
+    for (const alert of candidates.values()) {
+      if (!alert.maxBudget) continue;
+
+      const rules = this.matchRules(alert);
+      const cabinTypes = alert.cabinTypes || ALL_CABIN_TYPES;
+      const party = alertParty(alert);
+      const partyKey = JSON.stringify(party);
+      if (!pricesByParty.has(partyKey)) {
+        const prices = await this.partyPrices(party, [cruise]);
+        pricesByParty.set(partyKey, prices.get(cruise.id) || null);
+      }
+      const prices = pricesByParty.get(partyKey);
+      const matches: AlertMatchChange[] = [];
+
+      for (const priceChange of event.changes) {
+        if (!cabinTypes.includes(priceChange.cabinType)) continue;
+
+        const match = trackedByKey.get(`${alert.id}:${priceChange.cabinType}`);
+        // Only alerts whose criteria fit can start matching the cruise
+        if (!match && !criteriaMatched.has(alert.id)) continue;
+
+        const perPerson = isDoubleOccupancy(party)
+          ? priceChange.newPrice
+          : (prices?.[priceChange.cabinType] ?? null);
+        const price = budgetPrice(perPerson, party, alert.budgetType);
+        const trackedMatch = match ? this.toTrackedMatch(match) : null;
+        const change = evaluateMatch(trackedMatch, price, rules);
+        if (!change) continue;
+
+        matches.push({
+          cruiseId: event.cruiseId,
+          cabinType: priceChange.cabinType,
+          price: price ?? trackedMatch?.currentPrice ?? parseFloat(match?.price || '0'),
+          previousPrice: trackedMatch?.lastNotifiedPrice ?? null,
+          cruise: this.toCruiseSummary(cruise),
+          ...change,
+        });
+      }
+
+      if (matches.length > 0) {
+        groups.push({ alertId: alert.id, alertName: alert.name, userId: alert.userId, matches });
+      }
+    }
+
+    logger.info(
+      `[AlertMatching] Cruise ${event.cruiseId}: ${candidates.size} candidate alerts, ${groups.length} with match changes`
+    );
+
+    return groups;
+  }
+
   /**
    * Check if a specific cruise/cabin has been notified for an alert
    */
@@ -165,7 +473,7 @@ export class AlertMatchingService {
         ),
       });
 
-      return !!match;
+      return !!match?.notifiedAt;
     } catch (error) {
       logger.error(`[AlertMatching] Error checking notification status:`, error);
       return false; // Fail safe - if error checking, assume not notified
@@ -173,37 +481,141 @@ export class AlertMatchingService {
   }
 
   /**
-   * Record that we've notified the user about a match
+   * Record a match change: move the match to its new price and state, queue
+   * the email when the change is one to send (replacing any email still
+   * waiting for it), and add it to the match's history
    */
-  async recordMatch(
-    alertId: string,
-    cruiseId: string,
-    cabinType: string,
-    price: number
-  ): Promise<void> {
+  async recordMatchChange(alertId: string, change: AlertMatchChange): Promise<void> {
     try {
-      await db.insert(alertMatches).values({
-        alertId,
-        cruiseId,
-        cabinType,
-        price: price.toFixed(2),
+      const price = change.event === 'sold_out' ? null : change.price.toFixed(2);
+      const now = new Date();
+      const where = and(
+        eq(alertMatches.alertId, alertId),
+        eq(alertMatches.cruiseId, change.cruiseId),
+        eq(alertMatches.cabinType, change.cabinType)
+      );
+
+      let recorded: { id: string } | undefined;
+      if (change.event === 'matched') {
+        [recorded] = await db
+          .insert(alertMatches)
+          .values({
+            alertId,
+            cruiseId: change.cruiseId,
+            cabinType: change.cabinType,
+            price,
+            currentPrice: price,
+            state: 'active',
+            stateChangedAt: now,
+            pendingNotification: 'matched',
+          })
+          .onConflictDoUpdate({
+            target: [alertMatches.alertId, alertMatches.cruiseId, alertMatches.cabinType],
+            set: {
+              currentPrice: price,
+              state: 'active',
+              stateChangedAt: now,
+              pendingNotification: 'matched',
+            },
+          })
+          .returning({ id: alertMatches.id });
+      } else {
+        [recorded] = await db
+          .update(alertMatches)
+          .set({
+            currentPrice: price,
+            ...(change.event !== 'price_drop' && { state: change.event, stateChangedAt: now }),
+            // An ending that isn't emailed still cancels good news not sent yet
+            pendingNotification: change.notify ? change.event : null,
+          })
+          .where(where)
+          .returning({ id: alertMatches.id });
+      }
+
+      if (!recorded) {
+        logger.warn(`[AlertMatching] No match to update: ${change.cruiseId}:${change.cabinType}`);
+        return;
+      }
+
+      await db.insert(alertMatchEvents).values({
+        matchId: recorded.id,
+        eventType: change.event,
+        price,
+        previousPrice:
+          change.previousPrice === null || change.previousPrice === undefined
+            ? null
+            : change.previousPrice.toFixed(2),
       });
 
       logger.info(
-        `[AlertMatching] Recorded match: alert=${alertId}, cruise=${cruiseId}, cabin=${cabinType}, price=$${price}`
+        `[AlertMatching] Recorded ${change.event}: alert=${alertId}, cruise=${change.cruiseId}, cabin=${change.cabinType}, price=${price === null ? 'none' : `$${price}`}`
       );
     } catch (error) {
-      // If duplicate key error (already notified), ignore
-      if ((error as any).code === '23505') {
-        logger.warn(`[AlertMatching] Match already recorded (duplicate): ${cruiseId}:${cabinType}`);
-        return;
-      }
-
       logger.error(`[AlertMatching] Error recording match:`, error);
       throw error;
     }
   }
 
+  /**
+   * Every match an alert has recorded with its state, prices and history,
+   * newest first, for the matches page
+   */
+  async getMatchHistory(alertId: string): Promise<any[]> {
+    const matches = (await db.execute(sql`
+      SELECT m.id, m.cruise_id, m.cabin_type, m.price, m.current_price, m.last_notified_price,
+        m.state, m.state_changed_at, m.pending_notification, m.notified_at, m.created_at,
+        c.name AS cruise_name, c.sailing_date::text AS sailing_date, c.nights,
+        s.name AS ship_name, cl.name AS cruise_line_name
+      FROM alert_matches m
+      JOIN cruises c ON c.id = m.cruise_id
+      LEFT JOIN ships s ON s.id = c.ship_id
+      LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+      WHERE m.alert_id = ${alertId}
+      ORDER BY COALESCE(m.state_changed_at, m.created_at) DESC
+    `)) as any[];
+    if (matches.length === 0) return [];
+
+    const events = await db
+      .select()
+      .from(alertMatchEvents)
+      .where(
+        inArray(
+          alertMatchEvents.matchId,
+          matches.map(match => match.id)
+        )
+      )
+      .orderBy(asc(alertMatchEvents.createdAt));
+
+    return matches.map(match => ({
+      id: match.id,
+      cruiseId: match.cruise_id,
+      cabinType: match.cabin_type,
+      cruise: {
+        name: match.cruise_name,
+        sailingDate: match.sailing_date,
+        nights: match.nights,
+        shipName: match.ship_name,
+        cruiseLineName: match.cruise_line_name,
+      },
+      firstPrice: toPrice(match.price),
+      currentPrice: toPrice(match.current_price),
+      lastNotifiedPrice: toPrice(match.last_notified_price),
+      state: match.state,
+      stateChangedAt: match.state_changed_at,
+      pendingNotification: match.pending_notification,
+      notifiedAt: match.notified_at,
+      createdAt: match.created_at,
+      events: events
+        .filter(event => event.matchId === match.id)
+        .map(event => ({
+          eventType: event.eventType,
+          price: toPrice(event.price),
+          previousPrice: toPrice(event.previousPrice),
+          createdAt: event.createdAt,
+        })),
+    }));
+  }
+
   /**
    * Get all matches for an alert (including previously notified)
    * Used for viewing all matching cruises in the UI
@@ -224,55 +636,24 @@ export class AlertMatchingService {
         return [];
       }
 
-      const searchCriteria = alert.searchCriteria as any;
       const maxBudget = parseFloat(alert.maxBudget);
       const cabinTypes = alert.cabinTypes || ['interior', 'oceanview', 'balcony', 'suite'];
 
-      const filters: ComprehensiveSearchFilters = {
-        cruiseLineId: searchCriteria.cruiseLineId,
-        departureMonth: searchCriteria.departureMonth,
-        regionId: searchCriteria.regionId,
-        minNights: searchCriteria.minNights,
-        maxNights: searchCriteria.maxNights,
-        maxPrice: maxBudget,
-      };
+      const query = alertSearchQuery(alert);
 
-      const searchResults = await searchService.searchCruises(filters, {
-        limit: 100,
-        sortBy: 'price',
-        sortOrder: 'asc',
-      });
+      const searchResults = await searchService.search(query);
 
       const allMatches: AlertMatchResult[] = [];
 
       for (const cruise of searchResults.results) {
         for (const cabinType of cabinTypes) {
-          let price: number | null = null;
-
-          switch (cabinType) {
-            case 'interior':
-              price = cruise.pricing?.interiorPrice || cruise.interiorPrice;
-              break;
-            case 'oceanview':
-              price = cruise.pricing?.oceanviewPrice || cruise.oceanviewPrice;
-              break;
-            case 'balcony':
-              price = cruise.pricing?.balconyPrice || cruise.balconyPrice;
-              break;
-            case 'suite':
-              price = cruise.pricing?.suitePrice || cruise.suitePrice;
-              break;
-          }
-
-          if (!price) continue;
-
-          const priceNum = typeof price === 'string' ? parseFloat(price) : price;
+          const price = this.searchResultPrice(cruise, cabinType, alert);
 
-          if (priceNum <= maxBudget) {
+          if (price !== null && price <= maxBudget) {
             allMatches.push({
               cruiseId: cruise.id,
               cabinType,
-              price: priceNum,
+              price,
               cruise,
             });
           }
@@ -288,6 +669,138 @@ export class AlertMatchingService {
     }
   }
 
+  /**
+   * A search result's price for a cabin type in the terms of the alert's
+   * budget, or null when the search couldn't price it for the party
+   */
+  private searchResultPrice(cruise: any, cabinType: string, alert: SavedSearch): number | null {
+    const party = cruise.pricing?.party;
+    if (party && !party.priced) return null;
+
+    const perPerson = toPrice(party ? party.perPerson[cabinType] : cruise.pricing?.[cabinType]);
+    return budgetPrice(perPerson, alertParty(alert), alert.budgetType);
+  }
+
+  /**
+   * Per-person cabin prices for a party on each of these cruises. Two adults
+   * pay the headline cheapest_pricing prices; other parties are priced from
+   * the per-guest fares in pricing, leaving out cabins no fare fits.
+   */
+  private async partyPrices(
+    party: PartyComposition,
+    cruiseRows: any[]
+  ): Promise<Map<string, CabinPrices>> {
+    const prices = new Map<string, CabinPrices>();
+
+    if (isDoubleOccupancy(party)) {
+      for (const row of cruiseRows) {
+        prices.set(row.id, {
+          interior: toPrice(row.interior_price),
+          oceanview: toPrice(row.oceanview_price),
+          balcony: toPrice(row.balcony_price),
+          suite: toPrice(row.suite_price),
+        });
+      }
+      return prices;
+    }
+
+    if (validateParty(party) !== null || cruiseRows.length === 0) return prices;
+
+    const guests = partySize(party);
+    const perPerson = (total: number | null) =>
+      total !== null ? Math.round((total / guests) * 100) / 100 : null;
+    const totals = await searchService.getPartyTotals(
+      cruiseRows.map(row => String(row.id)),
+      party
+    );
+
+    for (const [cruiseId, cruiseTotals] of totals) {
+      prices.set(cruiseId, {
+        interior: perPerson(cruiseTotals.interior),
+        oceanview: perPerson(cruiseTotals.oceanview),
+        balcony: perPerson(cruiseTotals.balcony),
+        suite: perPerson(cruiseTotals.suite),
+      });
+    }
+    return prices;
+  }
+
+  /**
+   * Every enabled alert with its search filters. A pipeline run publishes a
+   * price change per sailing, so the list is loaded once per run and reused
+   * for a few minutes; alerts created meanwhile are left to the daily run.
+   * Budgets can't narrow this down: they may be for the whole party, and
+   * parties other than two adults pay different prices.
+   */
+  private async enabledAlerts(runId: string): Promise<AlertList['alerts']> {
+    const list = this.alertList;
+    if (list && list.runId === runId && Date.now() - list.loadedAt < ALERT_LIST_TTL_MS) {
+      return list.alerts;
+    }
+
+    const alerts = await db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.alertEnabled, true), eq(savedSearches.isActive, true)));
+
+    this.alertList = {
+      runId,
+      loadedAt: Date.now(),
+      alerts: alerts.map(alert => ({ alert, filters: alertSearchQuery(alert).filters })),
+    };
+    return this.alertList.alerts;
+  }
+
+  private matchRules(alert: SavedSearch): MatchRules {
+    return {
+      maxBudget: parseFloat(alert.maxBudget),
+      renotifyDropAmount: toPrice(alert.renotifyDropAmount),
+      renotifyDropPercent: toPrice(alert.renotifyDropPercent),
+      notifyOnExpiry: alert.notifyOnExpiry,
+    };
+  }
+
+  private toTrackedMatch(match: AlertMatch): TrackedMatch {
+    return {
+      state: match.state,
+      currentPrice: toPrice(match.currentPrice),
+      lastNotifiedPrice: toPrice(match.lastNotifiedPrice),
+    };
+  }
+
+  private toCruiseSummary(row: any) {
+    return {
+      id: row.id,
+      name: row.name,
+      sailingDate: row.sailing_date,
+      nights: row.nights,
+      shipName: row.ship_name,
+      cruiseLineName: row.cruise_line_name,
+    };
+  }
+
+  /**
+   * Upcoming cruises with their cheapest cabin prices; departed ones are left out
+   */
+  private async loadCruises(cruiseIds: string[]): Promise<any[]> {
+    if (cruiseIds.length === 0) return [];
+
+    return (await db.execute(sql`
+      SELECT c.id, c.name, c.cruise_line_id, c.sailing_date::text AS sailing_date, c.nights,
+        c.region_ids, c.is_active, s.name AS ship_name, cl.name AS cruise_line_name,
+        cp.interior_price, cp.oceanview_price, cp.balcony_price, cp.suite_price
+      FROM cruises c
+      LEFT JOIN cheapest_pricing cp ON cp.cruise_id = c.id
+      LEFT JOIN ships s ON s.id = c.ship_id
+      LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+      WHERE c.id IN (${sql.join(
+        cruiseIds.map(id => sql`${id}`),
+        sql`, `
+      )})
+        AND c.sailing_date >= CURRENT_DATE
+    `)) as any[];
+  }
+
   /**
    * Update last checked timestamp for an alert
    */
@@ -306,22 +819,17 @@ export class AlertMatchingService {
   }
 
   /**
-   * Get all active alerts that need checking
+   * Get all active alerts that need checking. Every alert is checked daily
+   * whatever its frequency, which only decides how often it is emailed
    */
   async getActiveAlerts(): Promise<any[]> {
     try {
       const alerts = await db
         .select()
         .from(savedSearches)
-        .where(
-          and(
-            eq(savedSearches.alertEnabled, true),
-            eq(savedSearches.isActive, true),
-            eq(savedSearches.alertFrequency, 'daily')
-          )
-        );
+        .where(and(eq(savedSearches.alertEnabled, true), eq(savedSearches.isActive, true)));
 
-      logger.info(`[AlertMatching] Found ${alerts.length} active daily alerts`);
+      logger.info(`[AlertMatching] Found ${alerts.length} active alerts`);
 
       return alerts;
     } catch (error) {
@@ -5,6 +5,11 @@ import { dataSyncService } from './data-sync.service';
 import { traveltekFTPService } from './traveltek-ftp.service';
 import { priceHistoryService } from './price-history.service';
 import { alertCronService } from './alert-cron.service';
+import { alertDigestService } from './alert-digest.service';
+import { sailingWatchService } from './sailing-watch.service';
+import { getCruiseReconciliationService } from './cruise-reconciliation.service';
+import { exchangeRateService } from './exchange-rate.service';
+import { recommendationSignalsService } from './recommendation-signals.service';
 
 export class CronService {
   private jobs: Map<string, cron.ScheduledTask> = new Map();
@@ -19,12 +24,15 @@ export class CronService {
       // Only run cron jobs in production or if explicitly enabled
       if (env.NODE_ENV === 'production' || process.env.ENABLE_CRON === 'true') {
         this.setupDataSyncJobs();
-        // Batch sync is now handled by webhook-processor-optimized.service
+        // Batch sync is now handled by the webhook pipeline
         // this.setupBatchSyncJobs(); // DEPRECATED
         this.setupHealthCheckJobs();
         this.setupMaintenanceJobs();
         this.setupPriceHistoryJobs();
         this.setupAlertJobs();
+        this.setupReconciliationJobs();
+        this.setupExchangeRateJobs();
+        this.setupRecommendationJobs();
 
         logger.info('✅ All scheduled jobs initialized');
       } else {
@@ -38,11 +46,11 @@ export class CronService {
 
   /**
    * Setup batch sync jobs for webhook-flagged cruises
-   * DEPRECATED: Webhook processing is now handled by webhook-processor-optimized.service
+   * DEPRECATED: Webhook processing is now handled by the webhook pipeline
    */
   private setupBatchSyncJobs(): void {
     // This method is deprecated - webhook processing is now handled automatically
-    logger.info('⚠️ Batch sync jobs are deprecated - using optimized webhook processor instead');
+    logger.info('⚠️ Batch sync jobs are deprecated - using webhook pipeline instead');
   }
 
   /**
@@ -221,6 +229,137 @@ export class CronService {
     alertProcessingJob.start();
     logger.info('📅 Price alert job scheduled:');
     logger.info('  - Daily alert processing: 9 AM UTC (2 AM PST)');
+
+    // Check sailing watches against new price history every 15 minutes
+    const sailingWatchJob = cron.schedule(
+      '*/15 * * * *',
+      async () => {
+        try {
+          await sailingWatchService.processPriceChanges();
+        } catch (error) {
+          logger.error('❌ Sailing watch processing failed:', error);
+        }
+      },
+      {
+        scheduled: false,
+        timezone: 'UTC',
+      }
+    );
+
+    this.jobs.set('sailing-watches', sailingWatchJob);
+    sailingWatchJob.start();
+    logger.info('  - Sailing watch price drops: every 15 minutes');
+
+    // Email alert digests as alerts come due and users' quiet hours end
+    const alertDigestJob = cron.schedule(
+      '0 * * * *',
+      async () => {
+        try {
+          await alertDigestService.sendDueDigests();
+        } catch (error) {
+          logger.error('❌ Alert digest sending failed:', error);
+        }
+      },
+      {
+        scheduled: false,
+        timezone: 'UTC',
+      }
+    );
+
+    this.jobs.set('alert-digests', alertDigestJob);
+    alertDigestJob.start();
+    logger.info('  - Alert digests: hourly');
+  }
+
+  /**
+   * Setup reconciliation of active cruises against the FTP feed
+   */
+  private setupReconciliationJobs(): void {
+    // Withdraw sailings that disappeared from FTP daily at 5 AM UTC
+    const reconciliationJob = cron.schedule(
+      '0 5 * * *',
+      async () => {
+        try {
+          logger.info('🔎 Starting FTP cruise reconciliation...');
+          const results = await getCruiseReconciliationService().reconcileAllLines();
+          const withdrawn = results.reduce((sum, result) => sum + result.withdrawn.length, 0);
+          logger.info(
+            `✅ FTP cruise reconciliation completed: ${results.length} lines, ${withdrawn} withdrawn`
+          );
+        } catch (error) {
+          logger.error('❌ FTP cruise reconciliation failed:', error);
+        }
+      },
+      {
+        scheduled: false,
+        timezone: 'UTC',
+      }
+    );
+
+    this.jobs.set('cruise-reconciliation', reconciliationJob);
+    reconciliationJob.start();
+    logger.info('📅 Cruise reconciliation job scheduled:');
+    logger.info('  - Daily FTP reconciliation: 5 AM UTC');
+  }
+
+  /**
+   * Setup the daily exchange rate refresh
+   */
+  private setupExchangeRateJobs(): void {
+    // Refresh FX rates and USD-normalized prices daily at 4 AM UTC
+    const exchangeRateJob = cron.schedule(
+      '0 4 * * *',
+      async () => {
+        try {
+          logger.info('💱 Refreshing exchange rates...');
+          const result = await exchangeRateService.refreshRates();
+          logger.info(
+            `✅ Exchange rates refreshed: ${result.currencies} currencies from ${result.source}`
+          );
+        } catch (error) {
+          logger.error('❌ Exchange rate refresh failed:', error);
+        }
+      },
+      {
+        scheduled: false,
+        timezone: 'UTC',
+      }
+    );
+
+    this.jobs.set('exchange-rate-refresh', exchangeRateJob);
+    exchangeRateJob.start();
+    logger.info('📅 Exchange rate job scheduled:');
+    logger.info('  - Daily exchange rate refresh: 4 AM UTC');
+  }
+
+  /**
+   * Setup the hourly refresh of recommended sort signals
+   */
+  private setupRecommendationJobs(): void {
+    // Recompute price, onboard credit and conversion signals at 20 past every hour
+    const recommendationJob = cron.schedule(
+      '20 * * * *',
+      async () => {
+        try {
+          logger.info('⭐ Refreshing recommendation signals...');
+          const result = await recommendationSignalsService.refresh();
+          logger.info(
+            `✅ Recommendation signals refreshed: ${result.cruises} cruises, ${result.withOnboardCredit} with onboard credit`
+          );
+        } catch (error) {
+          logger.error('❌ Recommendation signal refresh failed:', error);
+        }
+      },
+      {
+        scheduled: false,
+        timezone: 'UTC',
+      }
+    );
+
+    this.jobs.set('recommendation-signals', recommendationJob);
+    recommendationJob.start();
+    logger.info('📅 Recommendation signals job scheduled:');
+    logger.info('  - Hourly signal refresh: 20 past the hour');
   }
 
   /**
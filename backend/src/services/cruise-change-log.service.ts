@@ -0,0 +1,90 @@
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { cruiseChangeLog, type CruiseChangeLogEntry } from '../db/schema';
+import type { CruiseChange } from './webhook-pipeline/cruise-change-detector';
+
+export type CruiseChangeSource = 'webhook' | 'ftp_sync' | 'reconciliation';
+
+type ChangeLogExecutor = Pick<typeof db, 'insert'>;
+
+export interface CruiseChangeQuery {
+  changeTypes?: string[];
+  since?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export class CruiseChangeLogService {
+  /**
+   * Persist detected changes for a cruise. Failures are logged, not thrown,
+   * so a change-log problem never blocks the cruise update itself. Inside a
+   * transaction a failed insert still aborts it, and the caller retries.
+   */
+  async record(
+    cruiseId: string,
+    changes: CruiseChange[],
+    source: CruiseChangeSource,
+    webhookEventId?: number,
+    executor: ChangeLogExecutor = db
+  ): Promise<number> {
+    if (changes.length === 0) return 0;
+
+    try {
+      const detectedAt = new Date();
+      await executor.insert(cruiseChangeLog).values(
+        changes.map(change => ({
+          cruiseId,
+          changeType: change.changeType,
+          field: change.field,
+          cabinType: change.cabinType || null,
+          oldValue: change.oldValue ?? null,
+          newValue: change.newValue ?? null,
+          source,
+          webhookEventId: webhookEventId || null,
+          detectedAt,
+        }))
+      );
+      return changes.length;
+    } catch (error) {
+      logger.error(`Failed to record change log for cruise ${cruiseId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Change history for a cruise, newest first
+   */
+  async getChanges(
+    cruiseId: string,
+    query: CruiseChangeQuery = {}
+  ): Promise<{ changes: CruiseChangeLogEntry[]; total: number }> {
+    const conditions = [eq(cruiseChangeLog.cruiseId, cruiseId)];
+    if (query.changeTypes?.length) {
+      conditions.push(inArray(cruiseChangeLog.changeType, query.changeTypes));
+    }
+    if (query.since) {
+      conditions.push(gte(cruiseChangeLog.detectedAt, query.since));
+    }
+    const where = and(...conditions);
+
+    const [changes, count] = await Promise.all([
+      db
+        .select()
+        .from(cruiseChangeLog)
+        .where(where)
+        .orderBy(desc(cruiseChangeLog.detectedAt), desc(cruiseChangeLog.id))
+        .limit(query.limit || 50)
+        .offset(query.offset || 0),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(cruiseChangeLog)
+        .where(where),
+    ]);
+
+    return { changes, total: count[0]?.total || 0 };
+  }
+}
+
+// Singleton instance
+export const cruiseChangeLogService = new CruiseChangeLogService();
@@ -0,0 +1,144 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import type { NewCruise } from '../db/schema';
+
+type SqlExecutor = Pick<typeof db, 'execute'>;
+
+export interface SailingLink {
+  cruiseDefinitionId: string;
+  cruiseSailingId: string;
+}
+
+function toIdArray(ids: string | null | undefined): number[] {
+  if (!ids) return [];
+  return String(ids)
+    .split(',')
+    .map(id => parseInt(id.trim()))
+    .filter(id => !isNaN(id));
+}
+
+function toOptionalInt(value: string | number | null | undefined): number | null {
+  const parsed = parseInt(String(value ?? ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Keeps cruise_definitions and cruise_sailings in step with the flat cruises
+ * table. A definition is one itinerary on one ship, identified by the SQL
+ * function cruise_itinerary_key(); every cruises row is one sailing of it.
+ */
+export class CruiseDefinitionService {
+  /**
+   * Upsert the definition and sailing for a cruises row and link the row to
+   * its definition. Pass a transaction to run inside the caller's writes.
+   */
+  async syncSailing(
+    cruise: NewCruise,
+    options: { filePath?: string } = {},
+    executor: SqlExecutor = db
+  ): Promise<SailingLink> {
+    const codeToCruiseId = toOptionalInt(cruise.id);
+    if (codeToCruiseId === null) {
+      throw new Error(`Cruise id ${cruise.id} is not a Traveltek codetocruiseid`);
+    }
+
+    const itineraryKey = sql`cruise_itinerary_key(
+      ${cruise.cruiseLineId}::int, ${cruise.shipId}::int, ${cruise.nights ?? null}::int,
+      ${cruise.embarkPortId || null}::int, ${cruise.disembarkPortId || null}::int,
+      ${cruise.portIds || null}::text
+    )`;
+
+    const definition = await executor.execute(sql`
+      INSERT INTO cruise_definitions (
+        itinerary_key, traveltek_cruise_id, cruise_line_id, ship_id, name, itinerary_code,
+        voyage_code, nights, sea_days, embarkation_port_id, disembarkation_port_id,
+        region_ids, port_ids, market_id, owner_id, no_fly, depart_uk, show_cruise, is_active
+      ) VALUES (
+        ${itineraryKey},
+        ${toOptionalInt(cruise.cruiseId) ?? codeToCruiseId},
+        ${cruise.cruiseLineId},
+        ${cruise.shipId},
+        ${(cruise.name || 'Unknown Cruise').slice(0, 255)},
+        ${cruise.itineraryCode || null},
+        ${cruise.voyageCode || null},
+        ${cruise.nights ?? 0},
+        ${cruise.seaDays ?? null},
+        ${cruise.embarkPortId || null},
+        ${cruise.disembarkPortId || null},
+        ${JSON.stringify(toIdArray(cruise.regionIds))}::jsonb,
+        ${JSON.stringify(toIdArray(cruise.portIds))}::jsonb,
+        ${toOptionalInt(cruise.marketId)},
+        ${toOptionalInt(cruise.ownerId)},
+        ${cruise.noFly ?? false},
+        ${cruise.departUk ?? false},
+        ${cruise.showCruise ?? true},
+        true
+      )
+      ON CONFLICT (itinerary_key) DO UPDATE SET
+        traveltek_cruise_id = EXCLUDED.traveltek_cruise_id,
+        name = EXCLUDED.name,
+        itinerary_code = EXCLUDED.itinerary_code,
+        voyage_code = EXCLUDED.voyage_code,
+        sea_days = EXCLUDED.sea_days,
+        region_ids = EXCLUDED.region_ids,
+        market_id = EXCLUDED.market_id,
+        no_fly = EXCLUDED.no_fly,
+        depart_uk = EXCLUDED.depart_uk,
+        show_cruise = EXCLUDED.show_cruise,
+        is_active = true,
+        updated_at = NOW()
+      RETURNING id
+    `);
+    const cruiseDefinitionId = String(definition[0].id);
+
+    const sailing = await executor.execute(sql`
+      INSERT INTO cruise_sailings (
+        cruise_definition_id, code_to_cruise_id, sailing_date, return_date,
+        traveltek_file_path, is_active
+      ) VALUES (
+        ${cruiseDefinitionId}::uuid,
+        ${codeToCruiseId},
+        ${cruise.sailingDate},
+        ${cruise.returnDate || null},
+        ${options.filePath || null},
+        ${cruise.isActive ?? true}
+      )
+      ON CONFLICT (code_to_cruise_id) DO UPDATE SET
+        cruise_definition_id = EXCLUDED.cruise_definition_id,
+        sailing_date = EXCLUDED.sailing_date,
+        return_date = EXCLUDED.return_date,
+        traveltek_file_path = COALESCE(EXCLUDED.traveltek_file_path, cruise_sailings.traveltek_file_path),
+        is_active = EXCLUDED.is_active,
+        updated_at = NOW()
+      RETURNING id
+    `);
+
+    await executor.execute(sql`
+      UPDATE cruises SET cruise_definition_id = ${cruiseDefinitionId}::uuid
+      WHERE id = ${String(cruise.id)}
+        AND cruise_definition_id IS DISTINCT FROM ${cruiseDefinitionId}::uuid
+    `);
+
+    return { cruiseDefinitionId, cruiseSailingId: String(sailing[0].id) };
+  }
+
+  /**
+   * Mirror an is_active change on the cruises row (e.g. a withdrawal) onto its sailing.
+   */
+  async setSailingActive(
+    cruiseId: string,
+    isActive: boolean,
+    executor: SqlExecutor = db
+  ): Promise<void> {
+    const codeToCruiseId = toOptionalInt(cruiseId);
+    if (codeToCruiseId === null) return;
+
+    await executor.execute(sql`
+      UPDATE cruise_sailings SET is_active = ${isActive}, updated_at = NOW()
+      WHERE code_to_cruise_id = ${codeToCruiseId}
+    `);
+  }
+}
+
+// Singleton instance
+export const cruiseDefinitionService = new CruiseDefinitionService();
@@ -0,0 +1,424 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { cruiseReconciliationConfig, type CruiseReconciliationConfig } from '../config/environment';
+import type { TraveltekFtpClient } from './traveltek/ftp-client';
+import { createSourceClient } from './webhook-pipeline';
+import { cruiseChangeLogService } from './cruise-change-log.service';
+import { cruiseDefinitionService } from './cruise-definition.service';
+import { emailService } from './email.service';
+import { slackService } from './slack.service';
+
+export interface ReconciliationCruise {
+  id: string;
+  missingFromFtpSince: Date | null;
+  withdrawnAt: Date | null;
+}
+
+export interface MonthReconciliationPlan {
+  markMissing: string[];
+  clearMissing: string[];
+  withdraw: string[];
+  reinstate: string[];
+  skipped?: string;
+}
+
+export interface MonthReconciliationResult {
+  directory: string;
+  listedFiles: number;
+  activeCruises: number;
+  missing: number;
+  withdrawn: string[];
+  reinstated: string[];
+  skipped?: string;
+}
+
+export interface LineReconciliationResult {
+  lineId: number;
+  months: MonthReconciliationResult[];
+  withdrawn: string[];
+  reinstated: string[];
+  notified: number;
+}
+
+/**
+ * Decide what to do with the sailings of one line/month directory given the
+ * cruise ids listed on FTP. Sailings are only withdrawn once they have been
+ * missing for the whole grace period, and a directory where most sailings
+ * look missing at once is skipped as a probable feed problem.
+ */
+export function planMonthReconciliation(
+  cruises: ReconciliationCruise[],
+  listedIds: Set<string>,
+  now: Date,
+  config: CruiseReconciliationConfig = cruiseReconciliationConfig
+): MonthReconciliationPlan {
+  const plan: MonthReconciliationPlan = {
+    markMissing: [],
+    clearMissing: [],
+    withdraw: [],
+    reinstate: [],
+  };
+
+  const active = cruises.filter(cruise => !cruise.withdrawnAt);
+  const missing = active.filter(cruise => !listedIds.has(cruise.id));
+
+  if (missing.length > 1 && missing.length / active.length > config.maxMissingRatio) {
+    plan.skipped = `${missing.length} of ${active.length} sailings missing`;
+    return plan;
+  }
+
+  const graceCutoff = now.getTime() - config.gracePeriodHours * 60 * 60 * 1000;
+
+  for (const cruise of cruises) {
+    const listed = listedIds.has(cruise.id);
+
+    if (cruise.withdrawnAt) {
+      if (listed) plan.reinstate.push(cruise.id);
+    } else if (listed) {
+      if (cruise.missingFromFtpSince) plan.clearMissing.push(cruise.id);
+    } else if (!cruise.missingFromFtpSince) {
+      plan.markMissing.push(cruise.id);
+    } else if (new Date(cruise.missingFromFtpSince).getTime() <= graceCutoff) {
+      plan.withdraw.push(cruise.id);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Withdraws sailings that have disappeared from the Traveltek FTP feed.
+ * For every line/month directory with upcoming active sailings, the cruise
+ * files on FTP are compared with the cruises table.
+ */
+export class CruiseReconciliationService {
+  constructor(
+    private client: TraveltekFtpClient,
+    private config: CruiseReconciliationConfig = cruiseReconciliationConfig,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async reconcileAllLines(): Promise<LineReconciliationResult[]> {
+    const today = this.today();
+    const lines = await db.execute(sql`
+      SELECT DISTINCT cruise_line_id FROM cruises
+      WHERE sailing_date >= ${today}
+        AND (is_active = true OR withdrawn_at IS NOT NULL)
+      ORDER BY cruise_line_id
+    `);
+
+    const results: LineReconciliationResult[] = [];
+    for (const row of lines) {
+      try {
+        results.push(await this.reconcileLine(Number(row.cruise_line_id)));
+      } catch (error) {
+        logger.error(`[RECONCILE] Line ${row.cruise_line_id} failed:`, error);
+      }
+    }
+
+    const withdrawn = results.reduce((sum, result) => sum + result.withdrawn.length, 0);
+    if (withdrawn > 0) {
+      await slackService.notifyCustomMessage({
+        title: '🚫 Sailings withdrawn from the Traveltek feed',
+        message: `${withdrawn} sailing(s) were missing from FTP for more than ${this.config.gracePeriodHours}h and have been withdrawn.`,
+        details: Object.fromEntries(
+          results
+            .filter(result => result.withdrawn.length > 0)
+            .map(result => [`Line ${result.lineId}`, result.withdrawn.join(', ')])
+        ),
+      });
+    }
+
+    return results;
+  }
+
+  async reconcileLine(lineId: number): Promise<LineReconciliationResult> {
+    await this.client.connect();
+
+    const today = this.today();
+    const months = await db.execute(sql`
+      SELECT DISTINCT
+        EXTRACT(YEAR FROM sailing_date)::int AS year,
+        EXTRACT(MONTH FROM sailing_date)::int AS month
+      FROM cruises
+      WHERE cruise_line_id = ${lineId}
+        AND sailing_date >= ${today}
+        AND (is_active = true OR withdrawn_at IS NOT NULL)
+      ORDER BY year, month
+    `);
+
+    const result: LineReconciliationResult = {
+      lineId,
+      months: [],
+      withdrawn: [],
+      reinstated: [],
+      notified: 0,
+    };
+
+    for (const row of months) {
+      const month = await this.reconcileMonth(lineId, Number(row.year), Number(row.month));
+      result.months.push(month);
+      result.withdrawn.push(...month.withdrawn);
+      result.reinstated.push(...month.reinstated);
+    }
+
+    for (const cruiseId of result.withdrawn) {
+      result.notified += await this.notifyAffectedUsers(cruiseId);
+    }
+
+    logger.info(
+      `[RECONCILE] Line ${lineId}: ${result.months.length} months checked, ` +
+        `${result.withdrawn.length} withdrawn, ${result.reinstated.length} reinstated`
+    );
+    return result;
+  }
+
+  async reconcileMonth(
+    lineId: number,
+    year: number,
+    month: number
+  ): Promise<MonthReconciliationResult> {
+    const directory = `/${year}/${month.toString().padStart(2, '0')}/${lineId}`;
+    const result: MonthReconciliationResult = {
+      directory,
+      listedFiles: 0,
+      activeCruises: 0,
+      missing: 0,
+      withdrawn: [],
+      reinstated: [],
+    };
+
+    let listedIds: Set<string>;
+    try {
+      listedIds = await this.listCruiseIds(directory);
+    } catch (error) {
+      // Never treat an unreadable directory as "everything was cancelled"
+      result.skipped = `listing failed: ${error instanceof Error ? error.message : error}`;
+      logger.warn(`[RECONCILE] Skipping ${directory}: ${result.skipped}`);
+      return result;
+    }
+    result.listedFiles = listedIds.size;
+
+    const monthStart = `${year}-${month.toString().padStart(2, '0')}-01`;
+    const rows = await db.execute(sql`
+      SELECT id, missing_from_ftp_since, withdrawn_at
+      FROM cruises
+      WHERE cruise_line_id = ${lineId}
+        AND sailing_date >= ${monthStart}::date
+        AND sailing_date < ${monthStart}::date + INTERVAL '1 month'
+        AND sailing_date >= ${this.today()}
+        AND (is_active = true OR withdrawn_at IS NOT NULL)
+    `);
+
+    const cruises: ReconciliationCruise[] = rows.map(row => ({
+      id: String(row.id),
+      missingFromFtpSince: (row.missing_from_ftp_since as Date) || null,
+      withdrawnAt: (row.withdrawn_at as Date) || null,
+    }));
+    const active = cruises.filter(cruise => !cruise.withdrawnAt);
+    result.activeCruises = active.length;
+    result.missing = active.filter(cruise => !listedIds.has(cruise.id)).length;
+
+    const plan = planMonthReconciliation(cruises, listedIds, this.now(), this.config);
+    if (plan.skipped) {
+      result.skipped = plan.skipped;
+      logger.warn(`[RECONCILE] Skipping ${directory}: ${plan.skipped}`);
+      return result;
+    }
+
+    const now = this.now();
+    if (plan.markMissing.length > 0) {
+      await db.execute(sql`
+        UPDATE cruises SET missing_from_ftp_since = ${now}
+        WHERE id IN ${this.idList(plan.markMissing)} AND missing_from_ftp_since IS NULL
+      `);
+    }
+    if (plan.clearMissing.length > 0) {
+      await db.execute(sql`
+        UPDATE cruises SET missing_from_ftp_since = NULL
+        WHERE id IN ${this.idList(plan.clearMissing)}
+      `);
+    }
+
+    for (const cruiseId of plan.withdraw) {
+      if (await this.withdraw(cruiseId, directory)) result.withdrawn.push(cruiseId);
+    }
+    for (const cruiseId of plan.reinstate) {
+      if (await this.reinstate(cruiseId, directory)) result.reinstated.push(cruiseId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark a sailing withdrawn. Returns false if another run already did.
+   */
+  private async withdraw(cruiseId: string, directory: string): Promise<boolean> {
+    const now = this.now();
+    const reason = `missing_from_ftp: not listed in ${directory} for ${this.config.gracePeriodHours}h`;
+
+    const updated = await db.execute(sql`
+      UPDATE cruises
+      SET is_active = false,
+          show_cruise = false,
+          withdrawn_at = ${now},
+          withdrawal_reason = ${reason},
+          updated_at = ${now}
+      WHERE id = ${cruiseId} AND withdrawn_at IS NULL
+      RETURNING missing_from_ftp_since
+    `);
+    if (updated.length === 0) return false;
+
+    await cruiseDefinitionService.setSailingActive(cruiseId, false);
+    await cruiseChangeLogService.record(
+      cruiseId,
+      [
+        {
+          changeType: 'sailing_withdrawn',
+          field: 'is_active',
+          oldValue: { isActive: true, missingSince: updated[0].missing_from_ftp_since },
+          newValue: { isActive: false, reason },
+        },
+      ],
+      'reconciliation'
+    );
+    logger.info(`[RECONCILE] Withdrew cruise ${cruiseId}: ${reason}`);
+    return true;
+  }
+
+  /**
+   * A withdrawn sailing is back on FTP, so make it bookable again.
+   */
+  private async reinstate(cruiseId: string, directory: string): Promise<boolean> {
+    const now = this.now();
+    const updated = await db.execute(sql`
+      UPDATE cruises
+      SET is_active = true,
+          show_cruise = true,
+          missing_from_ftp_since = NULL,
+          withdrawn_at = NULL,
+          withdrawal_reason = NULL,
+          updated_at = ${now}
+      WHERE id = ${cruiseId} AND withdrawn_at IS NOT NULL
+      RETURNING id
+    `);
+    if (updated.length === 0) return false;
+
+    await cruiseDefinitionService.setSailingActive(cruiseId, true);
+    await cruiseChangeLogService.record(
+      cruiseId,
+      [
+        {
+          changeType: 'sailing_reinstated',
+          field: 'is_active',
+          oldValue: { isActive: false },
+          newValue: { isActive: true, directory },
+        },
+      ],
+      'reconciliation'
+    );
+    logger.info(`[RECONCILE] Reinstated cruise ${cruiseId}, listed again in ${directory}`);
+    return true;
+  }
+
+  /**
+   * Email everyone with an active booking session, open quote request or
+   * alert match on the sailing. Returns the number of emails sent.
+   */
+  async notifyAffectedUsers(cruiseId: string): Promise<number> {
+    const cruise = await db.execute(sql`
+      SELECT c.name, c.sailing_date, s.name AS ship_name
+      FROM cruises c
+      LEFT JOIN ships s ON s.id = c.ship_id
+      WHERE c.id = ${cruiseId}
+    `);
+    if (cruise.length === 0) return 0;
+
+    const recipients = await db.execute(sql`
+      SELECT email, MAX(first_name) AS first_name, array_agg(DISTINCT reason) AS reasons
+      FROM (
+        SELECT u.email, u.first_name, 'booking' AS reason
+        FROM booking_sessions bs
+        JOIN users u ON u.id = bs.user_id
+        WHERE bs.cruise_id = ${cruiseId} AND bs.status = 'active' AND bs.expires_at > NOW()
+        UNION ALL
+        SELECT qr.email, qr.first_name, 'quote' AS reason
+        FROM quote_requests qr
+        WHERE qr.cruise_id = ${cruiseId}
+          AND qr.status IN ('pending', 'quoted', 'responded')
+          AND qr.email IS NOT NULL
+        UNION ALL
+        SELECT u.email, u.first_name, 'alert' AS reason
+        FROM alert_matches am
+        JOIN saved_searches ss ON ss.id = am.alert_id
+        JOIN users u ON u.id = ss.user_id
+        WHERE am.cruise_id = ${cruiseId} AND ss.is_active = true
+      ) affected
+      GROUP BY email
+    `);
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      const delivered = await emailService.sendSailingWithdrawnEmail({
+        email: String(recipient.email),
+        firstName: (recipient.first_name as string) || undefined,
+        cruiseId,
+        cruiseName: String(cruise[0].name || `Cruise ${cruiseId}`),
+        shipName: (cruise[0].ship_name as string) || undefined,
+        departureDate: String(cruise[0].sailing_date),
+        reasons: recipient.reasons as Array<'booking' | 'quote' | 'alert'>,
+      });
+      if (delivered) sent++;
+    }
+
+    if (recipients.length > 0) {
+      logger.info(
+        `[RECONCILE] Notified ${sent}/${recipients.length} users about withdrawn cruise ${cruiseId}`
+      );
+    }
+    return sent;
+  }
+
+  /**
+   * Every codetocruiseid under /[year]/[month]/[lineid]/[shipid]/
+   */
+  private async listCruiseIds(directory: string): Promise<Set<string>> {
+    const ids = new Set<string>();
+    const shipDirs = await this.client.listFiles(directory);
+
+    for (const shipDir of shipDirs) {
+      if (shipDir.type !== 'directory') continue;
+
+      const files = await this.client.listFiles(`${directory}/${shipDir.name}`);
+      for (const file of files) {
+        if (file.type === 'file' && file.name.endsWith('.json')) {
+          ids.add(file.name.replace('.json', ''));
+        }
+      }
+    }
+
+    return ids;
+  }
+
+  private idList(ids: string[]) {
+    return sql`(${sql.join(
+      ids.map(id => sql`${id}`),
+      sql`, `
+    )})`;
+  }
+
+  private today(): string {
+    return this.now().toISOString().split('T')[0];
+  }
+}
+
+// Lazily created so importing the module doesn't open an FTP connection
+let defaultService: CruiseReconciliationService | null = null;
+
+export function getCruiseReconciliationService(): CruiseReconciliationService {
+  if (!defaultService) {
+    defaultService = new CruiseReconciliationService(createSourceClient());
+  }
+  return defaultService;
+}
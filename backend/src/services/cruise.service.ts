@@ -22,9 +22,15 @@ import {
   pricing,
   itineraries,
   cabinCategories,
-  alternativeSailings,
 } from '../db/schema';
 import { parseCruiseSlug, generateCruiseSlug, createSlugFromCruiseData } from '../utils/slug.utils';
+import {
+  calculatePartyPrice,
+  toCabinCategory,
+  type CabinCategory as PartyCabinCategory,
+  type PartyComposition,
+  type PartyPrice,
+} from '../utils/party-pricing';
 
 export interface CruiseDetails {
   id: number;
@@ -456,6 +462,23 @@ export interface CruisePricing {
   groupedByCabin: Record<string, PricingOption[]>;
 }
 
+export interface CabinQuoteEstimate extends PartyPrice {
+  cabinCode: string;
+  cabinType?: string;
+  category: PartyCabinCategory | null;
+  rateCode: string;
+  occupancyCode: string;
+}
+
+export interface QuoteEstimate {
+  cruiseId: string;
+  party: PartyComposition;
+  currency: string;
+  // Cheapest rate per cabin code, cheapest first
+  cabins: CabinQuoteEstimate[];
+  cheapestByCategory: Record<PartyCabinCategory, CabinQuoteEstimate | null>;
+}
+
 export interface CheapestPricing {
   overall?: {
     price?: number;
@@ -642,7 +665,10 @@ export class CruiseService {
     cabinType?: string,
     rateCode?: string
   ): Promise<CruisePricing> {
-    const cacheKey = CacheKeys.pricing(String(cruiseId), cabinType || 'all');
+    const cacheKey = CacheKeys.pricing(
+      String(cruiseId),
+      rateCode ? `${cabinType || 'all'}:${rateCode}` : cabinType || 'all'
+    );
 
     try {
       const cached = await cacheManager.get<CruisePricing>(cacheKey);
@@ -650,20 +676,19 @@ export class CruiseService {
         return cached;
       }
 
-      let query = db
-        .select()
-        .from(pricing)
-        .where(eq(pricing.cruiseId, String(cruiseId)));
-
+      const conditions = [eq(pricing.cruiseId, String(cruiseId))];
       if (cabinType) {
-        query = query.where(eq(pricing.cabinType, cabinType));
+        conditions.push(eq(pricing.cabinType, cabinType));
       }
-
       if (rateCode) {
-        query = query.where(eq(pricing.rateCode, rateCode));
+        conditions.push(eq(pricing.rateCode, rateCode));
       }
 
-      const pricingResults = await query.orderBy(asc(pricing.basePrice));
+      const pricingResults = await db
+        .select()
+        .from(pricing)
+        .where(and(...conditions))
+        .orderBy(asc(pricing.basePrice));
 
       const options: PricingOption[] = pricingResults.map(p => ({
         id: p.id,
@@ -724,6 +749,58 @@ export class CruiseService {
     }
   }
 
+  /**
+   * Estimate the full cost for a party in each cabin category, using the
+   * per-guest fares from the pricing table
+   */
+  async getQuoteEstimate(
+    cruiseId: number | string,
+    party: PartyComposition
+  ): Promise<QuoteEstimate> {
+    const { options } = await this.getCruisePricing(cruiseId);
+
+    const cheapestByCabin = new Map<string, CabinQuoteEstimate>();
+    for (const option of options) {
+      if (!option.isAvailable) continue;
+
+      const price = calculatePartyPrice(option, party);
+      if (!price) continue;
+
+      const current = cheapestByCabin.get(option.cabinCode);
+      if (!current || price.total < current.total) {
+        cheapestByCabin.set(option.cabinCode, {
+          cabinCode: option.cabinCode,
+          cabinType: option.cabinType,
+          category: toCabinCategory(option.cabinType),
+          rateCode: option.rateCode,
+          occupancyCode: option.occupancyCode,
+          ...price,
+        });
+      }
+    }
+
+    const cabins = [...cheapestByCabin.values()].sort((a, b) => a.total - b.total);
+    const cheapestByCategory: Record<PartyCabinCategory, CabinQuoteEstimate | null> = {
+      interior: null,
+      oceanview: null,
+      balcony: null,
+      suite: null,
+    };
+    for (const cabin of cabins) {
+      if (cabin.category && !cheapestByCategory[cabin.category]) {
+        cheapestByCategory[cabin.category] = cabin;
+      }
+    }
+
+    return {
+      cruiseId: String(cruiseId),
+      party,
+      currency: options[0]?.currency || 'USD',
+      cabins,
+      cheapestByCategory,
+    };
+  }
+
   /**
    * Get cheapest pricing for cruise
    */
@@ -845,38 +922,56 @@ export class CruiseService {
   }
 
   /**
-   * Get alternative sailings
+   * Get alternative sailings: upcoming dates of the same itinerary, i.e. other
+   * sailings that share the cruise's cruise_definition_id
    */
   async getAlternativeSailings(cruiseId: number | string): Promise<AlternativeSailing[]> {
     try {
-      // Temporarily return empty array to avoid schema issues
-      // Commented out to reduce log spam - this feature is disabled until schema is fixed
-      // logger.warn(
-      //   `Alternative sailings disabled temporarily for cruise ${cruiseId} - schema mismatch`
-      // );
-      return [];
-
-      /* Original code disabled temporarily due to schema issues
-      const results = await db
-        .select()
-        .from(alternativeSailings)
-        .where(eq(alternativeSailings.baseCruiseId, cruiseId))
-        .orderBy(asc(alternativeSailings.sailingDate));
+      const results = await this.findDefinitionSailings(cruiseId, true);
 
       return results.map(row => ({
-        id: row.id,
-        alternativeCruiseId: row.alternativeCruiseId,
-        sailingDate: row.sailingDate,
-        price: row.price ? parseFloat(row.price) : undefined,
-        createdAt: row.createdAt.toISOString(),
+        id: String(row.sailing_id),
+        alternativeCruiseId: Number(row.code_to_cruise_id),
+        sailingDate: String(row.sailing_date),
+        price: row.cheapest_price ? parseFloat(String(row.cheapest_price)) : undefined,
+        createdAt: new Date(row.created_at as string).toISOString(),
       }));
-      */
     } catch (error) {
       logger.error(`Failed to get alternative sailings for cruise ${cruiseId}:`, error);
       return []; // Return empty array instead of throwing
     }
   }
 
+  /**
+   * Other sailings of the cruise's definition, joined to cruises for prices
+   */
+  private async findDefinitionSailings(cruiseId: number | string, upcomingOnly: boolean) {
+    return db.execute(sql`
+      SELECT
+        cs.id AS sailing_id,
+        cs.code_to_cruise_id,
+        cs.sailing_date,
+        cs.return_date,
+        cs.is_active,
+        cs.created_at,
+        c.cheapest_price
+      FROM cruises base
+      JOIN cruise_sailings cs ON cs.cruise_definition_id = base.cruise_definition_id
+      LEFT JOIN cruises c ON c.id = cs.code_to_cruise_id::varchar
+      WHERE base.id = ${String(cruiseId)}
+        AND cs.code_to_cruise_id::varchar <> base.id
+        ${
+          upcomingOnly
+            ? sql`AND cs.is_active = true
+                  AND cs.sailing_date >= CURRENT_DATE
+                  AND COALESCE(c.show_cruise, true) = true`
+            : sql``
+        }
+      ORDER BY cs.sailing_date ASC
+      LIMIT 100
+    `);
+  }
+
   /**
    * Get cabin categories for a ship
    */
@@ -1633,30 +1728,17 @@ export class CruiseService {
    * Get ALL alternative sailings with raw fields
    */
   private async getAllAlternativeSailings(cruiseId: number | string) {
-    // Temporarily return empty array to avoid schema issues
-    // Commented out to reduce log spam - this feature is disabled until schema is fixed
-    // logger.warn(
-    //   `Alternative sailings disabled temporarily for cruise ${cruiseId} - schema mismatch`
-    // );
-    return [];
-
-    /* Original code disabled temporarily due to schema issues
-    const results = await db
-      .select()
-      .from(alternativeSailings)
-      .where(eq(alternativeSailings.baseCruiseId, cruiseId))
-      .orderBy(asc(alternativeSailings.sailingDate));
+    const results = await this.findDefinitionSailings(cruiseId, false);
 
     return results.map(row => ({
-      id: row.id,
-      baseCruiseId: row.baseCruiseId,
-      alternativeCruiseId: row.alternativeCruiseId,
-      sailingDate: row.sailingDate,
-      price: row.price,
-      createdAt: row.createdAt.toISOString(),
-      raw: row
+      id: String(row.sailing_id),
+      baseCruiseId: String(cruiseId),
+      alternativeCruiseId: Number(row.code_to_cruise_id),
+      sailingDate: String(row.sailing_date),
+      price: row.cheapest_price,
+      createdAt: new Date(row.created_at as string).toISOString(),
+      raw: row,
     }));
-    */
   }
 
   /**
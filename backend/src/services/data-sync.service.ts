@@ -4,6 +4,13 @@ import { db } from '../db/connection';
 import { logger } from '../config/logger';
 import { traveltekFTPService, CruiseDataFile } from './traveltek-ftp.service';
 import { priceHistoryService } from './price-history.service';
+import { cruiseChangeLogService } from './cruise-change-log.service';
+import { cruiseDefinitionService } from './cruise-definition.service';
+import { pricingSyncService } from './pricing-sync.service';
+import { portCallSyncService } from './port-call-sync.service';
+import { extractCabinPricing } from './webhook-pipeline/cabin-pricing-extractor';
+import { extractPortCalls } from './webhook-pipeline/port-call-extractor';
+import { detectCruiseChanges, type CruiseChange } from './webhook-pipeline/cruise-change-detector';
 import { 
   cruises, 
   alternativeSailings,
@@ -87,6 +94,8 @@ export class DataSyncService {
     try {
       logger.info(`Syncing cruise data file: ${file.filePath}`);
 
+      let detectedChanges: CruiseChange[] = [];
+
       // Start transaction
       await db.transaction(async (tx) => {
         // 1. Ensure cruise line exists
@@ -104,7 +113,8 @@ export class DataSyncService {
         // 5. Ensure cabin categories exist
         await this.ensureCabinCategoriesExist(tx, data);
 
-        // 6. Upsert cruise record
+        // 6. Detect field-level changes against the stored row, then upsert it
+        detectedChanges = await this.detectChanges(tx, data);
         await this.upsertCruise(tx, file, data);
 
         // 7. Sync itinerary
@@ -129,6 +139,12 @@ export class DataSyncService {
         await priceHistoryService.calculatePriceChanges(batchId);
       });
 
+      await cruiseChangeLogService.record(
+        String(data.codetocruiseid),
+        detectedChanges,
+        'ftp_sync'
+      );
+
       logger.info(`Successfully synced cruise ${data.cruiseid} from ${file.filePath}`);
     } catch (error) {
       logger.error(`Failed to sync cruise data file ${file.filePath}:`, error);
@@ -357,6 +373,37 @@ export class DataSyncService {
         updatedAt: new Date(),
       },
     });
+
+    await cruiseDefinitionService.syncSailing(cruiseRecord, { filePath: file.filePath }, tx);
+  }
+
+  /**
+   * Compare the stored cruise with the incoming file. New cruises have no changes.
+   */
+  private async detectChanges(tx: any, data: TraveltekCruiseData): Promise<CruiseChange[]> {
+    const existing = await tx
+      .select({
+        shipId: cruises.shipId,
+        sailingDate: cruises.sailingDate,
+        nights: cruises.nights,
+        rawData: cruises.rawData,
+      })
+      .from(cruises)
+      .where(eq(cruises.id, String(data.codetocruiseid)))
+      .limit(1);
+
+    if (existing.length === 0) return [];
+
+    return detectCruiseChanges(
+      {
+        shipId: existing[0].shipId,
+        sailingDate: String(existing[0].sailingDate),
+        nights: existing[0].nights,
+        raw: existing[0].rawData,
+      },
+      { shipId: data.shipid, sailingDate: data.saildate, nights: data.nights, raw: data },
+      data.lineid
+    );
   }
 
   /**
@@ -384,6 +431,14 @@ export class DataSyncService {
       await tx.insert(itineraries).values(itineraryRecord);
     }
 
+    const cruiseId = String(data.codetocruiseid);
+    await portCallSyncService.syncCruisePortCalls(
+      cruiseId,
+      extractPortCalls(data, cruiseId) || [],
+      data.nights,
+      tx
+    );
+
     logger.info(`Synced ${data.itinerary.length} itinerary days for cruise ${data.cruiseid}`);
   }
 
@@ -412,80 +467,19 @@ export class DataSyncService {
   }
 
   /**
-   * Sync pricing data (both static and live)
+   * Sync the full rate/cabin/occupancy price tree, keyed on the cruises row id
    */
   private async syncPricing(tx: any, data: TraveltekCruiseData): Promise<void> {
-    // Delete existing pricing for this cruise
-    await tx.delete(pricing).where(eq(pricing.cruiseId, data.cruiseid));
+    const cruiseId = String(data.codetocruiseid);
+    const rows = extractCabinPricing(data, cruiseId, data.lineid);
 
-    // Sync static pricing only (we don't have live pricing)
-    if (data.prices) {
-      await this.syncStaticPricing(tx, data.cruiseid, data.prices);
-    }
-  }
+    // No prices block at all: leave whatever we already have
+    if (!rows) return;
 
-  /**
-   * Sync static pricing data - Fixed for 2-level structure
-   */
-  private async syncStaticPricing(tx: any, cruiseId: number, prices: Record<string, Record<string, any>>): Promise<void> {
-    const pricingRecords: NewPricing[] = [];
-
-    // Fixed: Traveltek uses 2-level structure (rateCode -> cabinId -> priceData)
-    for (const [rateCode, rateData] of Object.entries(prices)) {
-      if (!rateData || typeof rateData !== 'object') continue;
-      
-      for (const [cabinId, priceData] of Object.entries(rateData)) {
-        if (!priceData || typeof priceData !== 'object') continue;
-        
-        // Extract cabin type and determine cabin code
-        let cabinCode = cabinId;
-        const occupancyCode = '101'; // Default occupancy
-        
-        if (priceData.cabintype) {
-          const upperType = priceData.cabintype.toUpperCase();
-          if (upperType.includes('INTERIOR') || upperType.includes('INSIDE')) {
-            cabinCode = 'INT';
-          } else if (upperType.includes('OCEAN') || upperType.includes('OUTSIDE')) {
-            cabinCode = 'OV';
-          } else if (upperType.includes('BALCONY')) {
-            cabinCode = 'BAL';
-          } else if (upperType.includes('SUITE')) {
-            cabinCode = 'STE';
-          } else {
-            cabinCode = priceData.cabintype.substring(0, 10);
-          }
-        }
-        
-        const pricingRecord: NewPricing = {
-          cruiseId,
-          rateCode,
-          cabinCode,
-          occupancyCode,
-          cabinType: priceData.cabintype || null,
-          basePrice: priceData.price?.toString() || null,
-          adultPrice: priceData.adultprice?.toString() || null,
-          childPrice: priceData.childprice?.toString() || null,
-          infantPrice: priceData.infantprice?.toString() || null,
-          singlePrice: priceData.singleprice?.toString() || null,
-          thirdAdultPrice: priceData.thirdadultprice?.toString() || null,
-          fourthAdultPrice: priceData.fourthadultprice?.toString() || null,
-          taxes: priceData.taxes?.toString() || null,
-          ncf: priceData.ncf?.toString() || null,
-          gratuity: priceData.gratuity?.toString() || null,
-          fuel: priceData.fuel?.toString() || null,
-          nonComm: priceData.noncomm?.toString() || null,
-          isAvailable: true,
-          currency: 'USD',
-        };
-
-        pricingRecords.push(pricingRecord);
-      }
-    }
-
-    if (pricingRecords.length > 0) {
-      await tx.insert(pricing).values(pricingRecords);
-      logger.info(`Synced ${pricingRecords.length} static pricing records for cruise ${cruiseId}`);
-    }
+    const result = await pricingSyncService.syncCruisePricing(cruiseId, rows, tx);
+    logger.info(
+      `Synced ${result.upserted} pricing records for cruise ${cruiseId} (${result.removed} removed)`
+    );
   }
 
   /**
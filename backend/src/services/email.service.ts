@@ -3,6 +3,7 @@ import { env } from '../config/environment';
 import logger from '../config/logger';
 import { db } from '../db/connection';
 import { eq, and } from 'drizzle-orm';
+import { formatMoney, type TotalCost } from './total-cost.service';
 
 interface QuoteReadyEmailData {
   email: string;
@@ -75,6 +76,7 @@ interface ComprehensiveQuoteEmailData {
     loyaltyNumber?: string;
   };
   obcAmount?: number;
+  totalCost?: TotalCost | null;
   totalPassengers?: number;
   posthogData?: {
     referrer: string | null;
@@ -86,6 +88,17 @@ interface ComprehensiveQuoteEmailData {
   } | null;
 }
 
+export interface SailingWithdrawnEmailData {
+  email: string;
+  firstName?: string;
+  cruiseId: string;
+  cruiseName: string;
+  shipName?: string;
+  departureDate: string;
+  // Why this person is hearing about the sailing
+  reasons: Array<'booking' | 'quote' | 'alert'>;
+}
+
 export class EmailService {
   private resend: Resend | null;
 
@@ -653,6 +666,78 @@ export class EmailService {
     }
   }
 
+  /**
+   * Let a customer know a sailing they were booking, quoting or watching is no longer offered
+   */
+  async sendSailingWithdrawnEmail(data: SailingWithdrawnEmailData): Promise<boolean> {
+    try {
+      if (!this.resend) {
+        logger.warn('Email service not configured - RESEND_API_KEY not found');
+        return false;
+      }
+
+      const firstName = data.firstName || 'there';
+      const formattedDepartureDate = new Date(data.departureDate).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+
+      const context = data.reasons.includes('booking')
+        ? 'you recently started booking'
+        : data.reasons.includes('quote')
+          ? 'you requested a quote for'
+          : 'matched one of your price alerts';
+      const frontendUrl = env.FRONTEND_URL || 'https://zipsea.com';
+
+      const emailHtml = `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 32px;">
+            <h1 style="color: #333; margin: 0;">This sailing is no longer available</h1>
+          </div>
+
+          <p style="color: #333; font-size: 16px; line-height: 1.6;">Hi ${firstName},</p>
+          <p style="color: #333; font-size: 16px; line-height: 1.6;">
+            A cruise ${context} has been withdrawn by the cruise line and can no longer be booked:
+          </p>
+
+          <div style="background: #f8f9fa; border-radius: 8px; padding: 24px; margin: 24px 0;">
+            <p style="color: #333; margin: 4px 0; font-weight: 600;">${data.cruiseName}</p>
+            ${data.shipName ? `<p style="color: #666; margin: 4px 0;">${data.shipName}</p>` : ''}
+            <p style="color: #666; margin: 4px 0;">Departing ${formattedDepartureDate}</p>
+          </div>
+
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${frontendUrl}/cruises" style="display: inline-block; background-color: #2f7ddd; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 50px; font-size: 16px; font-weight: bold;">Find a similar cruise</a>
+          </div>
+
+          <div style="text-align: center; margin-top: 32px; padding-top: 24px; border-top: 1px solid #e0e0e0;">
+            <p style="color: #999; font-size: 14px; margin: 0;">Questions? Reply to this email or contact us</p>
+            <p style="color: #999; font-size: 14px; margin: 8px 0 0 0;">ZipSea Cruises • Your Cruise Booking Specialists</p>
+          </div>
+        </div>
+      `;
+
+      const result = await this.resend.emails.send({
+        from: 'Zipsea <noreply@zipsea.com>',
+        to: [data.email],
+        subject: `Update on your cruise: ${data.cruiseName} is no longer available`,
+        html: emailHtml,
+      });
+
+      if (result.error) {
+        logger.error('Failed to send sailing withdrawn email:', result.error);
+        return false;
+      }
+
+      logger.info('Sailing withdrawn email sent', { cruiseId: data.cruiseId, email: data.email });
+      return true;
+    } catch (error) {
+      logger.error('Failed to send sailing withdrawn email:', error);
+      return false;
+    }
+  }
+
   /**
    * Send quote notification email to team
    */
@@ -1020,6 +1105,32 @@ export class EmailService {
                 : ''
             }
 
+            <!-- Estimated All-in Cost -->
+            ${
+              data.totalCost
+                ? `
+            <div style="padding: 20px; border-bottom: 1px solid #eee;">
+              <h2 style="margin: 0 0 15px 0; font-size: 18px; color: #0E1B4D;">ESTIMATED ALL-IN COST${data.totalCost.estimated ? ' (ESTIMATE)' : ''}</h2>
+              <table style="width: 100%; font-size: 14px; color: #333;">
+                ${data.totalCost.lineItems
+                  .map(
+                    item => `
+                <tr>
+                  <td style="padding: 4px 0;">${item.label}${item.due === 'onboard' && item.kind !== 'credit' ? ' (charged onboard)' : ''}</td>
+                  <td style="padding: 4px 0; text-align: right;">${item.amount < 0 ? '-' : ''}${formatMoney(Math.abs(item.amount), data.totalCost.currency)}</td>
+                </tr>`
+                  )
+                  .join('')}
+                <tr>
+                  <td style="padding: 8px 0 0 0;"><strong>Total</strong></td>
+                  <td style="padding: 8px 0 0 0; text-align: right;"><strong>${formatMoney(data.totalCost.allInTotal, data.totalCost.currency)} ${data.totalCost.currency}</strong></td>
+                </tr>
+              </table>
+            </div>
+            `
+                : ''
+            }
+
             <!-- Session Analytics (PostHog) -->
             ${
               data.posthogData
@@ -0,0 +1,148 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { exchangeRates } from '../db/schema';
+import { createExchangeRateProvider, type ExchangeRateProvider } from './exchange-rates';
+
+export interface ExchangeRateRefreshResult {
+  source: string;
+  currencies: number;
+  cruisesRenormalized: number;
+}
+
+// Rates only change once a day; keep request paths off the database
+const RATES_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Convert an amount between currencies using USD-based rates. Returns null
+ * when either currency has no rate.
+ */
+export function convertAmount(
+  amount: number | null | undefined,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null {
+  if (amount === null || amount === undefined || isNaN(amount)) return null;
+
+  const source = (from || 'USD').toUpperCase();
+  const target = (to || 'USD').toUpperCase();
+  if (source === target) return amount;
+
+  const sourceRate = rates[source];
+  const targetRate = rates[target];
+  if (!sourceRate || !targetRate) return null;
+
+  return round((amount / sourceRate) * targetRate);
+}
+
+export class ExchangeRateService {
+  private cachedRates: { rates: Record<string, number>; loadedAt: number } | null = null;
+
+  /**
+   * Pull fresh rates from the provider, store them and re-convert the USD
+   * price columns of every non-USD cruise
+   */
+  async refreshRates(
+    provider: ExchangeRateProvider = createExchangeRateProvider()
+  ): Promise<ExchangeRateRefreshResult> {
+    const rates = await provider.fetchRates();
+    const fetchedAt = new Date();
+
+    const rows = Object.entries(rates).map(([currency, rate]) => ({
+      currency,
+      rate: String(rate),
+      source: provider.name,
+      fetchedAt,
+      updatedAt: fetchedAt,
+    }));
+
+    await db
+      .insert(exchangeRates)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: {
+          rate: sql`EXCLUDED.rate`,
+          source: sql`EXCLUDED.source`,
+          fetchedAt,
+          updatedAt: fetchedAt,
+        },
+      });
+    this.cachedRates = null;
+
+    // USD rows never change; the trigger handles rows written from here on
+    const renormalized = await db.execute(sql`
+      UPDATE cruises SET
+        interior_price_usd = to_usd(interior_price, currency),
+        oceanview_price_usd = to_usd(oceanview_price, currency),
+        balcony_price_usd = to_usd(balcony_price, currency),
+        suite_price_usd = to_usd(suite_price, currency),
+        cheapest_price_usd = to_usd(cheapest_price, currency)
+      WHERE COALESCE(UPPER(currency), 'USD') <> 'USD'
+      RETURNING id
+    `);
+
+    logger.info(
+      `Refreshed ${rows.length} exchange rates from ${provider.name}, re-converted ${renormalized.length} cruises`
+    );
+
+    return {
+      source: provider.name,
+      currencies: rows.length,
+      cruisesRenormalized: renormalized.length,
+    };
+  }
+
+  /**
+   * Current rates keyed by currency (units per 1 USD)
+   */
+  async getRates(): Promise<Record<string, number>> {
+    if (this.cachedRates && Date.now() - this.cachedRates.loadedAt < RATES_CACHE_TTL_MS) {
+      return this.cachedRates.rates;
+    }
+
+    const rows = await db.select().from(exchangeRates);
+    const rates: Record<string, number> = { USD: 1 };
+    for (const row of rows) {
+      rates[row.currency] = parseFloat(row.rate);
+    }
+
+    this.cachedRates = { rates, loadedAt: Date.now() };
+    return rates;
+  }
+
+  async isSupportedCurrency(currency: string): Promise<boolean> {
+    const rates = await this.getRates();
+    return !!rates[(currency || '').toUpperCase()];
+  }
+
+  async convert(amount: number | null, from: string, to: string): Promise<number | null> {
+    return convertAmount(amount, from, to, await this.getRates());
+  }
+
+  /**
+   * Convert a set of named prices (numbers or decimal strings) in one go.
+   * Returns null when there is no rate for either currency.
+   */
+  async convertPrices(
+    prices: Record<string, number | string | null | undefined>,
+    from: string,
+    to: string
+  ): Promise<Record<string, number | null> | null> {
+    const rates = await this.getRates();
+    if (convertAmount(1, from, to, rates) === null) return null;
+
+    const converted: Record<string, number | null> = {};
+    for (const [key, value] of Object.entries(prices)) {
+      const amount = value === null || value === undefined ? null : Number(value);
+      converted[key] = convertAmount(amount, from, to, rates);
+    }
+    return converted;
+  }
+}
+
+// Singleton instance
+export const exchangeRateService = new ExchangeRateService();
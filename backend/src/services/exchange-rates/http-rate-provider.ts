@@ -0,0 +1,32 @@
+import axios from 'axios';
+import { normalizeRates, type ExchangeRateProvider } from './rate-provider';
+
+/**
+ * Fetches USD-based rates from an HTTP API returning { base, rates } (the
+ * shape used by openexchangerates.org, exchangerate.host and similar).
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async fetchRates(): Promise<Record<string, number>> {
+    const response = await axios.get(this.apiUrl, {
+      params: { base: 'USD', ...(this.apiKey && { app_id: this.apiKey }) },
+      timeout: 15000,
+    });
+
+    const base = response.data?.base || response.data?.source;
+    if (base && String(base).toUpperCase() !== 'USD') {
+      throw new Error(`Exchange rate API returned ${base}-based rates, expected USD`);
+    }
+    if (!response.data?.rates) {
+      throw new Error('Exchange rate API response has no rates');
+    }
+
+    return normalizeRates(response.data.rates);
+  }
+}
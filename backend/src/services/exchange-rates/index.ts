@@ -0,0 +1,23 @@
+import { exchangeRateConfig, type ExchangeRateConfig } from '../../config/environment';
+import { HttpRateProvider } from './http-rate-provider';
+import { StaticFileRateProvider } from './static-file-provider';
+import type { ExchangeRateProvider } from './rate-provider';
+
+export * from './rate-provider';
+export { HttpRateProvider } from './http-rate-provider';
+export { StaticFileRateProvider } from './static-file-provider';
+
+/**
+ * Pick the rate provider from EXCHANGE_RATE_PROVIDER
+ */
+export function createExchangeRateProvider(
+  config: ExchangeRateConfig = exchangeRateConfig
+): ExchangeRateProvider {
+  if (config.provider === 'http') {
+    if (!config.apiUrl) {
+      throw new Error('EXCHANGE_RATE_API_URL is required for the http exchange rate provider');
+    }
+    return new HttpRateProvider(config.apiUrl, config.apiKey);
+  }
+  return new StaticFileRateProvider(config.staticFile);
+}
@@ -0,0 +1,24 @@
+/**
+ * Source of FX rates for the exchange-rate refresh job. Rates are units of
+ * each currency per 1 USD.
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(): Promise<Record<string, number>>;
+}
+
+/**
+ * Keep well-formed ISO codes with positive rates; USD is always 1.
+ */
+export function normalizeRates(rates: Record<string, unknown>): Record<string, number> {
+  const normalized: Record<string, number> = { USD: 1 };
+
+  for (const [currency, value] of Object.entries(rates || {})) {
+    const code = currency.toUpperCase();
+    const rate = Number(value);
+    if (!/^[A-Z]{3}$/.test(code) || !(rate > 0) || code === 'USD') continue;
+    normalized[code] = rate;
+  }
+
+  return normalized;
+}
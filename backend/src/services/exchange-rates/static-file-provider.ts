@@ -0,0 +1,26 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { normalizeRates, type ExchangeRateProvider } from './rate-provider';
+
+/**
+ * Reads rates from a JSON file ({ "base": "USD", "rates": { "GBP": 0.79 } })
+ * for offline and test use.
+ */
+export class StaticFileRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async fetchRates(): Promise<Record<string, number>> {
+    const contents = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+
+    if (contents.base && String(contents.base).toUpperCase() !== 'USD') {
+      throw new Error(`${this.filePath}: rates must be based on USD, got ${contents.base}`);
+    }
+
+    return normalizeRates(contents.rates);
+  }
+}
@@ -0,0 +1,40 @@
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { cruises, cruisePortCalls, type NewCruisePortCall } from '../db/schema';
+import { summarizePortCalls } from './webhook-pipeline/port-call-extractor';
+
+type PortCallExecutor = Pick<typeof db, 'insert' | 'delete' | 'update'>;
+
+/**
+ * Replaces a sailing's cruise_port_calls rows with those from its latest
+ * itinerary and keeps the port/sea day counts on cruises in step.
+ */
+export class PortCallSyncService {
+  async syncCruisePortCalls(
+    cruiseId: string,
+    calls: NewCruisePortCall[],
+    nights: number,
+    executor: PortCallExecutor = db
+  ): Promise<number> {
+    await executor.delete(cruisePortCalls).where(eq(cruisePortCalls.cruiseId, cruiseId));
+
+    if (calls.length > 0) {
+      await executor.insert(cruisePortCalls).values(calls.map(call => ({ ...call, cruiseId })));
+    }
+
+    const { portDays, seaDays } = summarizePortCalls(calls, nights || 0);
+    await executor
+      .update(cruises)
+      .set({
+        portDays,
+        // Traveltek's seadays wins when it is sent
+        seaDays: sql`CASE WHEN COALESCE(${cruises.seaDays}, 0) = 0 THEN ${seaDays} ELSE ${cruises.seaDays} END`,
+      })
+      .where(eq(cruises.id, cruiseId));
+
+    return calls.length;
+  }
+}
+
+// Singleton instance
+export const portCallSyncService = new PortCallSyncService();
@@ -1,4 +1,4 @@
-import { eq, and, gte, lte, desc, asc, sql, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, asc, sql, inArray, isNotNull } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { logger } from '../config/logger';
 import {
@@ -7,6 +7,7 @@ import {
   cheapestPricing,
   priceHistory,
   priceTrends,
+  sailingWatches,
   type Pricing,
   type CheapestPricing,
   type NewPriceHistory,
@@ -15,6 +16,7 @@ import {
   type PriceTrends,
 } from '../db/schema';
 import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_OCCUPANCY_CODE } from './webhook-pipeline/cabin-pricing-extractor';
 
 export interface PriceSnapshot {
   cruiseId: number | string;
@@ -169,6 +171,73 @@ export class PriceHistoryService {
         }
       }
 
+      // Cabin codes with an active sailing watch get a row of their own, at the
+      // cheapest available double-occupancy (standard 2-adult) rate like the
+      // category rows above, so price drops on them show up here too
+      const watchedCabinCodes = db
+        .selectDistinct({ cabinCode: sailingWatches.cabinCode })
+        .from(sailingWatches)
+        .where(
+          and(
+            eq(sailingWatches.cruiseId, String(cruiseId)),
+            eq(sailingWatches.isActive, true),
+            isNotNull(sailingWatches.cabinCode)
+          )
+        );
+      const watchedRates = await db
+        .select()
+        .from(pricing)
+        .where(
+          and(
+            eq(pricing.cruiseId, String(cruiseId)),
+            inArray(pricing.cabinCode, watchedCabinCodes),
+            eq(pricing.occupancyCode, DEFAULT_OCCUPANCY_CODE),
+            eq(pricing.isAvailable, true),
+            sql`${pricing.basePrice} > 0`
+          )
+        )
+        .orderBy(pricing.cabinCode, asc(pricing.basePrice));
+
+      const snapshotCabinCodes = new Set<string>();
+      for (const rate of watchedRates) {
+        if (snapshotCabinCodes.has(rate.cabinCode)) continue;
+        snapshotCabinCodes.add(rate.cabinCode);
+
+        snapshots.push({
+          cruiseId: String(cruiseId),
+          rateCode: rate.rateCode,
+          cabinCode: rate.cabinCode,
+          occupancyCode: rate.occupancyCode,
+          cabinType: rate.cabinType,
+          basePrice: rate.basePrice,
+          adultPrice: rate.adultPrice,
+          childPrice: rate.childPrice,
+          infantPrice: rate.infantPrice,
+          singlePrice: rate.singlePrice,
+          thirdAdultPrice: rate.thirdAdultPrice,
+          fourthAdultPrice: rate.fourthAdultPrice,
+          taxes: rate.taxes,
+          ncf: rate.ncf,
+          gratuity: rate.gratuity,
+          fuel: rate.fuel,
+          nonComm: rate.nonComm,
+          portCharges: rate.portCharges,
+          governmentFees: rate.governmentFees,
+          totalPrice: rate.totalPrice,
+          commission: rate.commission,
+          isAvailable: rate.isAvailable,
+          inventory: rate.inventory,
+          waitlist: rate.waitlist,
+          guarantee: rate.guarantee,
+          priceType: 'static',
+          currency: rate.currency || cheapest.currency || 'USD',
+          changeType: 'update',
+          changeReason,
+          originalPricingId: rate.id,
+          batchId: currentBatchId,
+        });
+      }
+
       if (snapshots.length > 0) {
         // Verify cruise still exists before inserting (prevents foreign key constraint errors)
         const cruiseExists = await db
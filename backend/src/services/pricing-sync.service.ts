@@ -0,0 +1,79 @@
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { pricing, type NewPricing } from '../db/schema';
+
+type PricingExecutor = Pick<typeof db, 'insert' | 'delete'>;
+
+export interface PricingSyncResult {
+  upserted: number;
+  removed: number;
+}
+
+const UPSERT_CHUNK_SIZE = 500;
+
+/**
+ * Writes the per rate/cabin/occupancy prices for a cruise into pricing.
+ * Rows are upserted on (cruise, rate, cabin, occupancy); anything the latest
+ * file no longer lists is removed.
+ */
+export class PricingSyncService {
+  async syncCruisePricing(
+    cruiseId: string,
+    rows: NewPricing[],
+    executor: PricingExecutor = db
+  ): Promise<PricingSyncResult> {
+    const syncStartedAt = new Date();
+
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = rows
+        .slice(i, i + UPSERT_CHUNK_SIZE)
+        .map(row => ({ ...row, cruiseId, updatedAt: syncStartedAt }));
+
+      await executor
+        .insert(pricing)
+        .values(chunk)
+        .onConflictDoUpdate({
+          target: [pricing.cruiseId, pricing.rateCode, pricing.cabinCode, pricing.occupancyCode],
+          set: {
+            cabinType: sql`EXCLUDED.cabin_type`,
+            basePrice: sql`EXCLUDED.base_price`,
+            adultPrice: sql`EXCLUDED.adult_price`,
+            childPrice: sql`EXCLUDED.child_price`,
+            infantPrice: sql`EXCLUDED.infant_price`,
+            singlePrice: sql`EXCLUDED.single_price`,
+            thirdAdultPrice: sql`EXCLUDED.third_adult_price`,
+            fourthAdultPrice: sql`EXCLUDED.fourth_adult_price`,
+            taxes: sql`EXCLUDED.taxes`,
+            ncf: sql`EXCLUDED.ncf`,
+            gratuity: sql`EXCLUDED.gratuity`,
+            fuel: sql`EXCLUDED.fuel`,
+            nonComm: sql`EXCLUDED.non_comm`,
+            totalPrice: sql`EXCLUDED.total_price`,
+            isAvailable: sql`EXCLUDED.is_available`,
+            currency: sql`EXCLUDED.currency`,
+            updatedAt: syncStartedAt,
+          },
+        });
+    }
+
+    // Every row still listed was just stamped with syncStartedAt
+    const removed = await executor
+      .delete(pricing)
+      .where(and(eq(pricing.cruiseId, cruiseId), lt(pricing.updatedAt, syncStartedAt)))
+      .returning({ id: pricing.id });
+
+    try {
+      // Loaded lazily so pipeline workers and tests don't start the cache's timers on import
+      const { cacheManager } = await import('../cache/cache-manager');
+      await cacheManager.invalidatePattern(`cruise:${cruiseId}:pricing:*`);
+    } catch (error) {
+      logger.warn(`Failed to invalidate pricing cache for cruise ${cruiseId}:`, error);
+    }
+
+    return { upserted: rows.length, removed: removed.length };
+  }
+}
+
+// Singleton instance
+export const pricingSyncService = new PricingSyncService();
@@ -37,7 +37,19 @@ export class PromotionService {
     regionId?: number
   ): Promise<{ promotion: Promotion; calculatedValue: number; displayMessage: string } | null> {
     const activePromotions = await this.getActivePromotions();
+    return this.findBestPromotion(activePromotions, price, cruiseLineId, regionId);
+  }
 
+  /**
+   * The first of the given promotions (in priority order) that applies to a
+   * cruise, for callers matching many cruises against one list
+   */
+  findBestPromotion(
+    activePromotions: Promotion[],
+    price: number,
+    cruiseLineId?: number,
+    regionId?: number
+  ): { promotion: Promotion; calculatedValue: number; displayMessage: string } | null {
     for (const promotion of activePromotions) {
       // Check price range
       if (promotion.minPrice && price < promotion.minPrice) continue;
@@ -5,6 +5,7 @@ import { alias } from 'drizzle-orm/pg-core';
 import { logger } from '../config/logger';
 import { emailService } from './email.service';
 import { posthogService } from './posthog.service';
+import { totalCostService, type TotalCost } from './total-cost.service';
 import type { QuoteRequest, NewQuoteRequest } from '../db/schema/quote-requests';
 
 interface CreateQuoteData {
@@ -61,8 +62,11 @@ class QuoteService {
         email: data.email,
       };
 
-      // Calculate OBC amount (2.5% of typical cruise price, will be refined later)
-      const obcAmount = this.calculateOnboardCredit(data.cabinType);
+      // Price the quote the same way the cruise page does; fall back to flat OBC rates
+      const totalCost = await this.estimateTotalCost(data);
+      const obcAmount = totalCost
+        ? totalCost.onboardCredit
+        : this.calculateOnboardCredit(data.cabinType);
 
       const referenceNumber = this.generateReferenceNumber();
 
@@ -78,6 +82,7 @@ class QuoteService {
         preferences,
         contact_info: contactInfo,
         obc_amount: String(obcAmount),
+        estimated_total: totalCost ? String(totalCost.allInTotal) : null,
         source: 'website',
         quote_expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
         preferred_cabin_type: data.cabinType,
@@ -215,6 +220,7 @@ class QuoteService {
             discountQualifiers: data.discountQualifiers,
             additionalNotes: data.additionalNotes,
             obcAmount,
+            totalCost,
             totalPassengers: (data.adults || 2) + (data.children || 0),
             childAges: data.childAges || [],
             posthogData, // Include PostHog session data
@@ -258,6 +264,26 @@ class QuoteService {
     }
   }
 
+  /**
+   * All-in cost for the requested cabin and party, or null when the cruise
+   * has no pricing for it
+   */
+  private async estimateTotalCost(data: CreateQuoteData): Promise<TotalCost | null> {
+    try {
+      return await totalCostService.calculate(data.cruiseId, data.cabinType, {
+        adults: data.adults || 2,
+        children: data.children || 0,
+        childAges: data.childAges?.length ? data.childAges : undefined,
+      });
+    } catch (error) {
+      logger.warn('Could not estimate total cost for quote', {
+        cruiseId: data.cruiseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
   /**
    * Calculate onboard credit based on cabin type
    */
@@ -0,0 +1,173 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { promotionService } from './promotion.service';
+
+// Look back this far for price history, clicks and conversions
+const SIGNAL_WINDOW = sql.raw(`INTERVAL '90 days'`);
+// Clicks added to every ship so one lucky quote doesn't top the ranking
+const CONVERSION_PRIOR_CLICKS = 10;
+const ONBOARD_CREDIT_BATCH_SIZE = 1000;
+
+export interface RecommendationSignalsRefresh {
+  cruises: number;
+  withOnboardCredit: number;
+  removed: number;
+  duration: number;
+}
+
+/**
+ * Maintains cruise_recommendation_signals, the per-sailing inputs to the
+ * recommended sort that are too expensive to work out on every search
+ */
+export class RecommendationSignalsService {
+  /**
+   * Recompute signals for every upcoming active sailing
+   */
+  async refresh(): Promise<RecommendationSignalsRefresh> {
+    const startTime = Date.now();
+
+    const upserted = await db.execute(sql`
+      WITH active AS (
+        SELECT id, ship_id, nights, cheapest_price, cheapest_price_usd
+        FROM cruises
+        WHERE is_active = true AND sailing_date >= CURRENT_DATE
+      ),
+      daily_low AS (
+        SELECT ph.cruise_id, ph.snapshot_date::date AS day, MIN(ph.base_price) AS low
+        FROM price_history ph
+        JOIN active a ON a.id = ph.cruise_id
+        WHERE ph.snapshot_date >= NOW() - ${SIGNAL_WINDOW} AND ph.base_price > 0
+        GROUP BY ph.cruise_id, ph.snapshot_date::date
+      ),
+      sailing_usual AS (
+        SELECT cruise_id, AVG(low) AS usual_price FROM daily_low GROUP BY cruise_id
+      ),
+      ship_usual AS (
+        SELECT ship_id,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY cheapest_price_usd / nights) AS usual_nightly
+        FROM active
+        WHERE cheapest_price_usd > 0 AND nights > 0
+        GROUP BY ship_id
+      ),
+      ship_clicks AS (
+        SELECT c.ship_id, COUNT(*) AS clicks
+        FROM search_clicks k
+        JOIN cruises c ON c.id = k.cruise_id
+        WHERE k.created_at >= NOW() - ${SIGNAL_WINDOW}
+        GROUP BY c.ship_id
+      ),
+      ship_conversions AS (
+        SELECT c.ship_id, COUNT(*) AS conversions
+        FROM (
+          SELECT cruise_id FROM quote_requests WHERE created_at >= NOW() - ${SIGNAL_WINDOW}
+          UNION ALL
+          SELECT cruise_id FROM bookings WHERE created_at >= NOW() - ${SIGNAL_WINDOW}
+        ) converted
+        JOIN cruises c ON c.id = converted.cruise_id
+        GROUP BY c.ship_id
+      ),
+      ratios AS (
+        SELECT a.id,
+          a.cheapest_price / NULLIF(su.usual_price, 0) AS sailing_ratio,
+          (a.cheapest_price_usd / NULLIF(a.nights, 0)) / NULLIF(sh.usual_nightly, 0) AS ship_ratio,
+          COALESCE(sv.conversions, 0)::numeric
+            / (COALESCE(sc.clicks, 0) + ${CONVERSION_PRIOR_CLICKS}) AS conversion_rate
+        FROM active a
+        LEFT JOIN sailing_usual su ON su.cruise_id = a.id
+        LEFT JOIN ship_usual sh ON sh.ship_id = a.ship_id
+        LEFT JOIN ship_clicks sc ON sc.ship_id = a.ship_id
+        LEFT JOIN ship_conversions sv ON sv.ship_id = a.ship_id
+      )
+      INSERT INTO cruise_recommendation_signals (cruise_id, price_ratio, conversion_rate, refreshed_at)
+      SELECT id,
+        -- Average of whichever ratios are known
+        LEAST(
+          (COALESCE(sailing_ratio, 0) + COALESCE(ship_ratio, 0))
+            / NULLIF((sailing_ratio IS NOT NULL)::int + (ship_ratio IS NOT NULL)::int, 0),
+          99
+        ),
+        LEAST(conversion_rate, 1),
+        NOW()
+      FROM ratios
+      ON CONFLICT (cruise_id) DO UPDATE SET
+        price_ratio = EXCLUDED.price_ratio,
+        conversion_rate = EXCLUDED.conversion_rate,
+        refreshed_at = EXCLUDED.refreshed_at
+      RETURNING cruise_id
+    `);
+
+    const removed = await db.execute(sql`
+      DELETE FROM cruise_recommendation_signals s
+      USING cruises c
+      WHERE c.id = s.cruise_id AND (c.is_active = false OR c.sailing_date < CURRENT_DATE)
+      RETURNING s.cruise_id
+    `);
+
+    const withOnboardCredit = await this.refreshOnboardCredit();
+
+    const result = {
+      cruises: (upserted as any[]).length,
+      withOnboardCredit,
+      removed: (removed as any[]).length,
+      duration: Date.now() - startTime,
+    };
+    logger.info('Recommendation signals refreshed', result);
+    return result;
+  }
+
+  /**
+   * Onboard credit as a share of the fare, matched the way total cost does:
+   * the best applicable promotion counts when it is onboard credit
+   */
+  private async refreshOnboardCredit(): Promise<number> {
+    const promotions = await promotionService.getActivePromotions();
+    if (!promotions.some(promotion => promotion.type === 'onboard_credit')) {
+      await db.execute(sql`UPDATE cruise_recommendation_signals SET onboard_credit_share = NULL`);
+      return 0;
+    }
+
+    const rows = (await db.execute(sql`
+      SELECT s.cruise_id, c.cheapest_price_usd, c.cruise_line_id, c.region_ids
+      FROM cruise_recommendation_signals s
+      JOIN cruises c ON c.id = s.cruise_id
+    `)) as any[];
+
+    const shares = rows.map(row => {
+      const price = parseFloat(row.cheapest_price_usd);
+      const regionId = parseInt((row.region_ids || '').split(',')[0]);
+      const best =
+        price > 0
+          ? promotionService.findBestPromotion(
+              promotions,
+              price,
+              row.cruise_line_id,
+              isNaN(regionId) ? undefined : regionId
+            )
+          : null;
+      const share =
+        best?.promotion.type === 'onboard_credit' && best.calculatedValue > 0
+          ? Math.min(best.calculatedValue / price, 99)
+          : null;
+      return { cruiseId: String(row.cruise_id), share };
+    });
+
+    for (let i = 0; i < shares.length; i += ONBOARD_CREDIT_BATCH_SIZE) {
+      const batch = shares.slice(i, i + ONBOARD_CREDIT_BATCH_SIZE);
+      await db.execute(sql`
+        UPDATE cruise_recommendation_signals s
+        SET onboard_credit_share = v.share::numeric
+        FROM (VALUES ${sql.join(
+          batch.map(({ cruiseId, share }) => sql`(${cruiseId}, ${share?.toFixed(4) ?? null})`),
+          sql`, `
+        )}) AS v(cruise_id, share)
+        WHERE s.cruise_id = v.cruise_id
+      `);
+    }
+
+    return shares.filter(({ share }) => share !== null).length;
+  }
+}
+
+// Singleton instance
+export const recommendationSignalsService = new RecommendationSignalsService();
@@ -35,7 +35,7 @@ export class RedisMaintenanceService {
         await this.redis.ping();
         console.log('[Redis Maintenance] Redis connection established');
 
-        this.webhookQueue = new Queue('webhook-processor', {
+        this.webhookQueue = new Queue('webhook-pipeline', {
           connection: {
             host: env.REDIS_URL ? new URL(env.REDIS_URL).hostname : 'localhost',
             port: env.REDIS_URL ? parseInt(new URL(env.REDIS_URL).port) || 6379 : 6379,
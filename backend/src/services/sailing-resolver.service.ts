@@ -0,0 +1,247 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import logger from '../config/logger';
+import { getCruiseLineAliases } from '../config/cruise-line-mapping';
+import { getShipAliases } from '../config/ship-aliases';
+import { createSlugFromCruiseData } from '../utils/slug.utils';
+import {
+  DEFAULT_FLEX_DAYS,
+  daysBetween,
+  findLooseDate,
+  flexibleDateWindow,
+} from '../utils/date-window';
+import {
+  MIN_MATCH_SCORE,
+  matchScore,
+  normalizeText,
+  toMatchTarget,
+  type MatchTarget,
+} from '../utils/fuzzy-match';
+import { SearchQueryError } from './search/search-query';
+
+export const MAX_RESOLVER_FLEX_DAYS = 14;
+export const DEFAULT_RESOLVER_LIMIT = 5;
+export const MAX_RESOLVER_LIMIT = 20;
+
+// Share of the confidence from each part of the match; nights only count when given
+const SHIP_WEIGHT = 0.6;
+const DATE_WEIGHT = 0.3;
+const NIGHTS_WEIGHT = 0.1;
+
+// Within the text, a night count reads as "7 nights", "7-night" or "7nt"
+const NIGHTS_PATTERN = /\b(\d{1,3})[\s-]*(?:nights?|nts?)\b/i;
+const WEEKDAY_PATTERN =
+  /\b(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|rsday|urday)?\b/gi;
+
+export interface SailingLookup {
+  shipName: string; // Normalized
+  date: string; // YYYY-MM-DD
+  nights?: number;
+  flexDays: number;
+  limit: number;
+}
+
+export interface SailingRow {
+  id: string;
+  name: string | null;
+  sailing_date: string;
+  nights: number;
+  ship_id: number;
+  ship_name: string;
+  cruise_line_id: number | null;
+  cruise_line_name: string | null;
+  embark_port: string | null;
+}
+
+export interface SailingCandidate {
+  cruiseId: string;
+  cruiseName: string | null;
+  shipId: number;
+  shipName: string;
+  cruiseLineId: number | null;
+  cruiseLineName: string | null;
+  sailingDate: string;
+  nights: number;
+  embarkPort: string | null;
+  slug: string;
+  // 0-1; how sure we are this is the sailing that was meant
+  confidence: number;
+  scores: { ship: number; date: number; nights: number | null };
+  // Set when the ship matched on another name it goes by (see getShipAliases)
+  matchedAlias?: string;
+}
+
+/**
+ * Read a lookup from request parameters: free text in q ("Wonder of the
+ * Seas, March 8 2026, 7 nights"), or shipName, date and nights separately.
+ * Explicit parameters win over what the text says. Throws SearchQueryError
+ * listing every problem.
+ */
+export function parseSailingLookup(params: Record<string, any>, today?: string): SailingLookup {
+  const problems: string[] = [];
+  let text = typeof params.q === 'string' ? params.q : '';
+
+  const written = findLooseDate(String(params.date || ''), today);
+  const found = written ? null : findLooseDate(text, today);
+  if (found) text = text.replace(found.matched, ' ');
+
+  const nightsInText = NIGHTS_PATTERN.exec(text);
+  if (nightsInText) text = text.replace(nightsInText[0], ' ');
+
+  const shipName = normalizeText(
+    typeof params.shipName === 'string' && params.shipName.trim()
+      ? params.shipName
+      : text.replace(WEEKDAY_PATTERN, ' ')
+  );
+  const date = (written || found)?.date;
+  const nightsValue = params.nights ?? nightsInText?.[1];
+  const nights = nightsValue === undefined || nightsValue === '' ? undefined : Number(nightsValue);
+  const flexDays =
+    params.flexDays === undefined || params.flexDays === ''
+      ? DEFAULT_FLEX_DAYS
+      : Number(params.flexDays);
+  const limit =
+    params.limit === undefined || params.limit === ''
+      ? DEFAULT_RESOLVER_LIMIT
+      : Number(params.limit);
+
+  if (shipName.length < 2) problems.push('Give a ship name, in shipName or q');
+  if (!date) {
+    problems.push(
+      params.date
+        ? `date "${params.date}" is not a date we can read`
+        : 'Give an approximate sailing date, in date or q'
+    );
+  }
+  if (nights !== undefined && !(Number.isInteger(nights) && nights > 0)) {
+    problems.push('nights must be a whole number greater than 0');
+  }
+  if (!Number.isInteger(flexDays) || flexDays < 0 || flexDays > MAX_RESOLVER_FLEX_DAYS) {
+    problems.push(`flexDays must be a whole number between 0 and ${MAX_RESOLVER_FLEX_DAYS}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESOLVER_LIMIT) {
+    problems.push(`limit must be a whole number between 1 and ${MAX_RESOLVER_LIMIT}`);
+  }
+
+  if (problems.length > 0) throw new SearchQueryError(problems);
+  return { shipName, date, nights, flexDays, limit };
+}
+
+/**
+ * How well the query names the ship, 0-1. Besides matchScore, a query that
+ * contains the whole name ("royal caribbean wonder of the seas") counts as a
+ * near-exact match.
+ */
+function shipNameScore(query: string, target: MatchTarget): number {
+  const contained = ` ${query} `.includes(` ${target.text} `) ? 0.9 : 0;
+  return Math.max(matchScore(query, target), contained);
+}
+
+/**
+ * Score and rank sailings against a lookup, dropping those whose ship name
+ * doesn't match at all
+ */
+export function rankSailings(rows: SailingRow[], lookup: SailingLookup): SailingCandidate[] {
+  const shipTargets = new Map<number, { alias: string | null; target: MatchTarget }[]>();
+  const candidates: SailingCandidate[] = [];
+
+  for (const row of rows) {
+    if (!shipTargets.has(row.ship_id)) {
+      const lineNames = row.cruise_line_id
+        ? [row.cruise_line_name || '', ...getCruiseLineAliases(row.cruise_line_id)]
+        : [];
+      shipTargets.set(row.ship_id, [
+        { alias: null, target: toMatchTarget(row.ship_name) },
+        ...getShipAliases(row.ship_name, lineNames.filter(Boolean)).map(alias => ({
+          alias,
+          target: toMatchTarget(alias),
+        })),
+      ]);
+    }
+
+    let ship = 0;
+    let matchedAlias: string | null = null;
+    for (const { alias, target } of shipTargets.get(row.ship_id)) {
+      const score = shipNameScore(lookup.shipName, target);
+      if (score > ship) {
+        ship = score;
+        matchedAlias = alias;
+      }
+    }
+    if (ship < MIN_MATCH_SCORE) continue;
+
+    const sailingDate = String(row.sailing_date).slice(0, 10);
+    const date = 1 - Math.abs(daysBetween(lookup.date, sailingDate)) / (lookup.flexDays + 1);
+    const nights =
+      lookup.nights === undefined
+        ? null
+        : Math.max(0, 1 - Math.abs(Number(row.nights) - lookup.nights) / 3);
+
+    const confidence =
+      nights === null
+        ? (ship * SHIP_WEIGHT + date * DATE_WEIGHT) / (SHIP_WEIGHT + DATE_WEIGHT)
+        : ship * SHIP_WEIGHT + date * DATE_WEIGHT + nights * NIGHTS_WEIGHT;
+
+    candidates.push({
+      cruiseId: String(row.id),
+      cruiseName: row.name,
+      shipId: Number(row.ship_id),
+      shipName: row.ship_name,
+      cruiseLineId: row.cruise_line_id === null ? null : Number(row.cruise_line_id),
+      cruiseLineName: row.cruise_line_name,
+      sailingDate,
+      nights: Number(row.nights),
+      embarkPort: row.embark_port,
+      slug: createSlugFromCruiseData({
+        id: row.id as any,
+        shipName: row.ship_name,
+        sailingDate,
+      }),
+      confidence: Math.round(confidence * 1000) / 1000,
+      scores: {
+        ship: Math.round(ship * 1000) / 1000,
+        date: Math.round(date * 1000) / 1000,
+        nights: nights === null ? null : Math.round(nights * 1000) / 1000,
+      },
+      ...(matchedAlias && { matchedAlias }),
+    });
+  }
+
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence || a.sailingDate.localeCompare(b.sailingDate))
+    .slice(0, lookup.limit);
+}
+
+/**
+ * Finds the sailing a customer means from a pasted ship name and roughly
+ * remembered date, for importing bookings made elsewhere
+ */
+export class SailingResolverService {
+  async resolve(lookup: SailingLookup): Promise<SailingCandidate[]> {
+    const { startDate, endDate } = flexibleDateWindow(lookup.date, lookup.flexDays);
+
+    // Every sailing in the window; at most a few thousand, so ship names are
+    // scored here rather than in SQL
+    const rows = await db.execute(sql`
+      SELECT c.id, c.name, c.sailing_date::text AS sailing_date, c.nights, c.ship_id,
+        s.name AS ship_name, c.cruise_line_id, cl.name AS cruise_line_name,
+        p.name AS embark_port
+      FROM cruises c
+      JOIN ships s ON s.id = c.ship_id
+      LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+      LEFT JOIN ports p ON p.id = c.embarkation_port_id
+      WHERE c.is_active = true AND c.sailing_date BETWEEN ${startDate} AND ${endDate}
+    `);
+
+    const candidates = rankSailings(rows as unknown as SailingRow[], lookup);
+    logger.info('Resolved sailing lookup', {
+      lookup,
+      sailings: (rows as any[]).length,
+      candidates: candidates.length,
+    });
+    return candidates;
+  }
+}
+
+// Singleton instance
+export const sailingResolverService = new SailingResolverService();
@@ -0,0 +1,374 @@
+/**
+ * Sailing Watch Service
+ * "Watch this sailing" price-drop alerts. Prices come from the price_history
+ * rows the webhook pipeline writes, so a drop is noticed within one check of
+ * the update landing rather than at the next daily re-search.
+ */
+
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { sailingWatches, users, type SailingWatch } from '../db/schema';
+import { alertEmailService } from './alert-email.service';
+import { DEFAULT_OCCUPANCY_CODE } from './webhook-pipeline/cabin-pricing-extractor';
+
+export const WATCH_CABIN_TYPES = ['interior', 'oceanview', 'balcony', 'suite'] as const;
+export type WatchCabinType = (typeof WATCH_CABIN_TYPES)[number];
+
+// Used when a watch is created without a threshold
+export const DEFAULT_DROP_PERCENT = 5;
+
+export interface SailingWatchInput {
+  cruiseId: string;
+  cabinType: WatchCabinType;
+  cabinCode?: string | null;
+  dropAmount?: number | null;
+  dropPercent?: number | null;
+}
+
+export interface PriceDrop {
+  watchId: string;
+  cruiseId: string;
+  cruiseName: string;
+  shipName: string | null;
+  sailingDate: string;
+  nights: number;
+  cabinType: WatchCabinType;
+  cabinCode: string | null;
+  previousPrice: number;
+  price: number;
+  drop: number;
+  dropPercent: number;
+}
+
+export interface SailingWatchRun {
+  watchesChecked: number;
+  drops: number;
+  emailsSent: number;
+  expired: number;
+  duration: number;
+}
+
+/**
+ * Whether a new price is far enough below the reference price to notify.
+ * Thresholds are either/or; with neither set, DEFAULT_DROP_PERCENT applies.
+ */
+export function isNotifiableDrop(
+  referencePrice: number | null,
+  price: number,
+  thresholds: { dropAmount?: number | null; dropPercent?: number | null }
+): boolean {
+  if (referencePrice === null || !(referencePrice > 0) || !(price < referencePrice)) return false;
+
+  const drop = referencePrice - price;
+  const { dropAmount, dropPercent } = thresholds;
+  const percent = dropAmount || dropPercent ? dropPercent : DEFAULT_DROP_PERCENT;
+
+  return (
+    (!!dropAmount && drop >= dropAmount) || (!!percent && (drop / referencePrice) * 100 >= percent)
+  );
+}
+
+const toNumber = (value: string | null | undefined): number | null =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+export class SailingWatchService {
+  /**
+   * The price a watch tracks right now: the category's cheapest price, or the
+   * cheapest available double-occupancy rate for a cabin code
+   */
+  async getCurrentPrice(
+    cruiseId: string,
+    cabinType: WatchCabinType,
+    cabinCode?: string | null
+  ): Promise<number | null> {
+    const rows = cabinCode
+      ? await db.execute(sql`
+          SELECT MIN(base_price) AS price
+          FROM pricing
+          WHERE cruise_id = ${cruiseId} AND cabin_code = ${cabinCode}
+            AND occupancy_code = ${DEFAULT_OCCUPANCY_CODE}
+            AND base_price > 0 AND is_available = true
+        `)
+      : await db.execute(sql`
+          SELECT ${sql.raw(`${cabinType}_price`)} AS price
+          FROM cheapest_pricing
+          WHERE cruise_id = ${cruiseId}
+        `);
+
+    return toNumber((rows as any[])[0]?.price ?? null);
+  }
+
+  /**
+   * Create a watch, or update the thresholds of the user's existing watch on
+   * the same cabin. Drops are measured from today's price. Null when the
+   * sailing doesn't exist or has sailed.
+   */
+  async createWatch(userId: string, input: SailingWatchInput): Promise<SailingWatch | null> {
+    const cabinCode = input.cabinCode ? input.cabinCode.toUpperCase() : null;
+
+    const [cruise] = (await db.execute(sql`
+      SELECT id FROM cruises
+      WHERE id = ${input.cruiseId} AND is_active = true AND sailing_date >= CURRENT_DATE
+    `)) as any[];
+    if (!cruise) return null;
+
+    const price = await this.getCurrentPrice(input.cruiseId, input.cabinType, cabinCode);
+    const values = {
+      dropAmount: input.dropAmount ? input.dropAmount.toFixed(2) : null,
+      dropPercent: input.dropPercent ? input.dropPercent.toFixed(2) : null,
+      lastNotifiedPrice: price === null ? null : price.toFixed(2),
+      lastPrice: price === null ? null : price.toFixed(2),
+      lastCheckedAt: new Date(),
+      isActive: true,
+      updatedAt: new Date(),
+    };
+
+    const existing = await db.query.sailingWatches.findFirst({
+      where: and(
+        eq(sailingWatches.userId, userId),
+        eq(sailingWatches.cruiseId, input.cruiseId),
+        eq(sailingWatches.cabinType, input.cabinType),
+        cabinCode
+          ? eq(sailingWatches.cabinCode, cabinCode)
+          : sql`${sailingWatches.cabinCode} IS NULL`
+      ),
+    });
+
+    if (existing) {
+      const [watch] = await db
+        .update(sailingWatches)
+        .set(values)
+        .where(eq(sailingWatches.id, existing.id))
+        .returning();
+      return watch;
+    }
+
+    const [watch] = await db
+      .insert(sailingWatches)
+      .values({
+        userId,
+        cruiseId: input.cruiseId,
+        cabinType: input.cabinType,
+        cabinCode,
+        ...values,
+      })
+      .returning();
+
+    logger.info(
+      `[SailingWatch] User ${userId} watching ${input.cruiseId} ${cabinCode || input.cabinType} from ${price ?? 'no price'}`
+    );
+    return watch;
+  }
+
+  /**
+   * The user's watches with the sailing they're on, soonest sailing first
+   */
+  async getUserWatches(userId: string): Promise<any[]> {
+    const rows = await db.execute(sql`
+      SELECT w.*, c.name AS cruise_name, c.sailing_date, c.nights, s.name AS ship_name,
+        cl.name AS cruise_line_name
+      FROM sailing_watches w
+      JOIN cruises c ON c.id = w.cruise_id
+      LEFT JOIN ships s ON s.id = c.ship_id
+      LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+      WHERE w.user_id = ${userId}
+      ORDER BY c.sailing_date, w.created_at
+    `);
+
+    return (rows as any[]).map(row => ({
+      id: row.id,
+      cruiseId: row.cruise_id,
+      cruiseName: row.cruise_name,
+      shipName: row.ship_name,
+      cruiseLineName: row.cruise_line_name,
+      sailingDate: row.sailing_date,
+      nights: row.nights,
+      cabinType: row.cabin_type,
+      cabinCode: row.cabin_code,
+      dropAmount: toNumber(row.drop_amount),
+      dropPercent: toNumber(row.drop_percent),
+      lastNotifiedPrice: toNumber(row.last_notified_price),
+      lastNotifiedAt: row.last_notified_at,
+      lastPrice: toNumber(row.last_price),
+      lastCheckedAt: row.last_checked_at,
+      isActive: row.is_active,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Change a watch's thresholds or pause it. Null when the user has no such watch.
+   */
+  async updateWatch(
+    userId: string,
+    watchId: string,
+    changes: Pick<SailingWatchInput, 'dropAmount' | 'dropPercent'> & { isActive?: boolean }
+  ): Promise<SailingWatch | null> {
+    const updates: Partial<typeof sailingWatches.$inferInsert> = { updatedAt: new Date() };
+    if (changes.dropAmount !== undefined) {
+      updates.dropAmount = changes.dropAmount ? changes.dropAmount.toFixed(2) : null;
+    }
+    if (changes.dropPercent !== undefined) {
+      updates.dropPercent = changes.dropPercent ? changes.dropPercent.toFixed(2) : null;
+    }
+    if (changes.isActive !== undefined) updates.isActive = changes.isActive;
+
+    const [watch] = await db
+      .update(sailingWatches)
+      .set(updates)
+      .where(and(eq(sailingWatches.id, watchId), eq(sailingWatches.userId, userId)))
+      .returning();
+    return watch || null;
+  }
+
+  async deleteWatch(userId: string, watchId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(sailingWatches)
+      .where(and(eq(sailingWatches.id, watchId), eq(sailingWatches.userId, userId)))
+      .returning({ id: sailingWatches.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Check every active watch against the price_history rows written since it
+   * was last checked, and email each user the drops that cross their
+   * thresholds. Watches on sailings that have departed are switched off.
+   */
+  async processPriceChanges(): Promise<SailingWatchRun> {
+    const startTime = Date.now();
+
+    const expired = await db.execute(sql`
+      UPDATE sailing_watches w SET is_active = false, updated_at = NOW()
+      FROM cruises c
+      WHERE c.id = w.cruise_id AND w.is_active = true
+        AND (c.sailing_date < CURRENT_DATE OR c.is_active = false)
+      RETURNING w.id
+    `);
+
+    // Each watch's latest snapshot: category watches read the category rows
+    // captureSnapshot writes (cabin_code INTERIOR etc.), cabin code watches
+    // the cheapest rate for their code in the same batch. Watches with a drop
+    // that couldn't be emailed last time come back without a new price.
+    const rows = (await db.execute(sql`
+      WITH latest AS (
+        SELECT DISTINCT ON (w.id) w.id AS watch_id, ph.batch_id, ph.created_at
+        FROM sailing_watches w
+        JOIN price_history ph ON ph.cruise_id = w.cruise_id
+          AND ph.cabin_code = COALESCE(w.cabin_code, UPPER(w.cabin_type))
+          AND ph.created_at > COALESCE(w.last_checked_at, w.created_at)
+        WHERE w.is_active = true
+        ORDER BY w.id, ph.created_at DESC
+      ),
+      new_prices AS (
+        SELECT l.watch_id, l.created_at, MIN(ph.base_price) AS price
+        FROM latest l
+        JOIN sailing_watches w ON w.id = l.watch_id
+        JOIN price_history ph ON ph.batch_id = l.batch_id AND ph.cruise_id = w.cruise_id
+          AND ph.cabin_code = COALESCE(w.cabin_code, UPPER(w.cabin_type))
+          AND ph.base_price > 0
+        GROUP BY l.watch_id, l.created_at
+      )
+      SELECT w.id, w.user_id, w.cruise_id, w.cabin_type, w.cabin_code, w.drop_amount,
+        w.drop_percent, w.last_notified_price, np.price AS new_price, np.created_at AS checked_at,
+        COALESCE(np.price, w.last_price) AS price,
+        c.name AS cruise_name, c.sailing_date::text AS sailing_date, c.nights, s.name AS ship_name
+      FROM sailing_watches w
+      JOIN cruises c ON c.id = w.cruise_id
+      LEFT JOIN ships s ON s.id = c.ship_id
+      LEFT JOIN new_prices np ON np.watch_id = w.id
+      WHERE w.is_active = true
+        AND (np.watch_id IS NOT NULL OR w.last_price < w.last_notified_price)
+    `)) as any[];
+
+    const dropsByUser = new Map<string, PriceDrop[]>();
+    for (const row of rows) {
+      const price = parseFloat(row.price);
+      const reference = toNumber(row.last_notified_price);
+
+      if (row.new_price !== null) {
+        await db
+          .update(sailingWatches)
+          .set({
+            lastPrice: price.toFixed(2),
+            lastCheckedAt: row.checked_at,
+            // A watch created before the sailing was priced starts from its first price
+            ...(reference === null && { lastNotifiedPrice: price.toFixed(2) }),
+          })
+          .where(eq(sailingWatches.id, row.id));
+      }
+
+      const thresholds = {
+        dropAmount: toNumber(row.drop_amount),
+        dropPercent: toNumber(row.drop_percent),
+      };
+      if (!isNotifiableDrop(reference, price, thresholds)) continue;
+
+      const drops = dropsByUser.get(row.user_id) || [];
+      drops.push({
+        watchId: row.id,
+        cruiseId: row.cruise_id,
+        cruiseName: row.cruise_name,
+        shipName: row.ship_name,
+        sailingDate: row.sailing_date,
+        nights: row.nights,
+        cabinType: row.cabin_type,
+        cabinCode: row.cabin_code,
+        previousPrice: reference,
+        price,
+        drop: Math.round((reference - price) * 100) / 100,
+        dropPercent: Math.round(((reference - price) / reference) * 1000) / 10,
+      });
+      dropsByUser.set(row.user_id, drops);
+    }
+
+    let emailsSent = 0;
+    for (const [userId, drops] of dropsByUser) {
+      try {
+        if (await this.notifyUser(userId, drops)) emailsSent++;
+      } catch (error) {
+        logger.error(`[SailingWatch] Failed to notify user ${userId}:`, error);
+      }
+    }
+
+    const result = {
+      watchesChecked: rows.length,
+      drops: Array.from(dropsByUser.values()).reduce((sum, drops) => sum + drops.length, 0),
+      emailsSent,
+      expired: (expired as any[]).length,
+      duration: Date.now() - startTime,
+    };
+    logger.info('[SailingWatch] Processed price changes', result);
+    return result;
+  }
+
+  /**
+   * Email the drops and move each watch's reference price down to what was
+   * notified. Unsent drops stay pending and go out on the next check.
+   */
+  private async notifyUser(userId: string, drops: PriceDrop[]): Promise<boolean> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    if (!user || !user.email) {
+      logger.warn(`[SailingWatch] User ${userId} not found or has no email`);
+      return false;
+    }
+
+    const sent = await alertEmailService.sendPriceDropEmail({
+      userEmail: user.email,
+      userName: user.firstName || 'there',
+      drops,
+    });
+    if (!sent) return false;
+
+    for (const drop of drops) {
+      await db
+        .update(sailingWatches)
+        .set({ lastNotifiedPrice: drop.price.toFixed(2), lastNotifiedAt: new Date() })
+        .where(eq(sailingWatches.id, drop.watchId));
+    }
+    return true;
+  }
+}
+
+// Singleton instance
+export const sailingWatchService = new SailingWatchService();
@@ -0,0 +1,270 @@
+import { sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { searchEvents } from '../db/schema';
+import {
+  createSearchQuery,
+  filtersFingerprint,
+  type SearchFilters,
+  type SearchQuery,
+  type SearchSortBy,
+  type SortOrder,
+} from './search';
+
+export type SearchEndpoint = 'comprehensive' | 'search' | 'by-ship';
+
+// A quote or booking for a clicked cruise within this long counts as a conversion
+const CONVERSION_WINDOW = sql.raw(`INTERVAL '7 days'`);
+
+export interface SearchQueryStats {
+  queryKey: string;
+  filters: SearchFilters;
+  sortBy: SearchSortBy;
+  sortOrder: SortOrder;
+  searches: number;
+  zeroResultSearches: number;
+  avgLatencyMs: number;
+  clicks: number;
+  clickThroughRate: number; // Clicks per search
+  quotes: number;
+  bookings: number;
+}
+
+export interface SearchAnalyticsReport {
+  since: Date;
+  totals: {
+    searches: number;
+    zeroResultSearches: number;
+    avgLatencyMs: number;
+    clicks: number;
+    clickThroughRate: number;
+    quotes: number;
+    bookings: number;
+  };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Filters with text lowercased and lists sorted, so searches that differ only
+ * in case, spacing or selection order are recorded as the same query
+ */
+export function normalizeSearchFilters(filters: SearchFilters): SearchFilters {
+  const normalized: SearchFilters = { ...filters };
+
+  if (filters.q !== undefined) normalized.q = normalizeText(filters.q);
+  if (filters.shipName !== undefined) normalized.shipName = normalizeText(filters.shipName);
+  if (filters.departureMonths) normalized.departureMonths = [...filters.departureMonths].sort();
+  for (const field of [
+    'cruiseLineIds',
+    'shipIds',
+    'departurePortIds',
+    'arrivalPortIds',
+    'regionIds',
+    'visitsPortIds',
+    'excludePortIds',
+  ] as const) {
+    if (filters[field]) {
+      normalized[field] = Array.from(new Set(filters[field])).sort((a, b) => a - b);
+    }
+  }
+
+  for (const key of Object.keys(normalized) as Array<keyof SearchFilters>) {
+    if (normalized[key] === undefined || normalized[key] === '') delete normalized[key];
+  }
+  return normalized;
+}
+
+const rate = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+
+export class SearchAnalyticsService {
+  /**
+   * Record a search that was served and return its id, which the client sends
+   * back with clicks. The insert isn't awaited and failures are only logged,
+   * so analytics never slows down or fails a search.
+   */
+  recordSearch(
+    endpoint: SearchEndpoint,
+    query: SearchQuery,
+    resultCount: number,
+    latencyMs: number
+  ): string {
+    const id = uuidv4();
+    const filters = normalizeSearchFilters(query.filters);
+
+    db.insert(searchEvents)
+      .values({
+        id,
+        endpoint,
+        queryKey: `${filtersFingerprint(filters)}:${query.sortBy}:${query.sortOrder}`,
+        queryText: filters.q ? filters.q.slice(0, 255) : null,
+        filters,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        page: query.cursor ? Math.max(query.page, 2) : query.page,
+        resultCount,
+        latencyMs: Math.round(latencyMs),
+      })
+      .catch(error => logger.error('Failed to record search event:', error));
+
+    return id;
+  }
+
+  /**
+   * Record a cruise opened from search results. False when the search id is
+   * unknown.
+   */
+  async recordClick(searchEventId: string, cruiseId: string, position?: number): Promise<boolean> {
+    const rows = await db.execute(sql`
+      INSERT INTO search_clicks (search_event_id, cruise_id, position)
+      SELECT id, ${cruiseId}, ${position ?? null}
+      FROM search_events
+      WHERE id = ${searchEventId}
+      RETURNING id
+    `);
+    return (rows as any[]).length > 0;
+  }
+
+  /**
+   * Top and zero-result queries since the given number of days ago, with
+   * click-through and the quotes and bookings that followed a click
+   */
+  async getReport(days = 30, limit = 20): Promise<SearchAnalyticsReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [topQueries, zeroResultQueries, totals] = await Promise.all([
+      this.getQueryStats(since, 'searches', limit),
+      this.getQueryStats(since, 'zero_result_searches', limit),
+      db.execute(sql`
+        ${this.eventStats(since)}
+        SELECT
+          COUNT(*) FILTER (WHERE e.page = 1)::int AS searches,
+          COUNT(*) FILTER (WHERE e.page = 1 AND e.result_count = 0)::int AS zero_result_searches,
+          COALESCE(ROUND(AVG(e.latency_ms)), 0)::int AS avg_latency_ms,
+          COALESCE(SUM(k.clicks), 0)::int AS clicks,
+          COALESCE(SUM(k.quotes), 0)::int AS quotes,
+          COALESCE(SUM(k.bookings), 0)::int AS bookings
+        FROM events e
+        LEFT JOIN event_clicks k ON k.search_event_id = e.id
+      `),
+    ]);
+
+    const total = (totals as any[])[0] || {};
+    return {
+      since,
+      totals: {
+        searches: total.searches || 0,
+        zeroResultSearches: total.zero_result_searches || 0,
+        avgLatencyMs: total.avg_latency_ms || 0,
+        clicks: total.clicks || 0,
+        clickThroughRate: rate(total.clicks || 0, total.searches || 0),
+        quotes: total.quotes || 0,
+        bookings: total.bookings || 0,
+      },
+      topQueries,
+      zeroResultQueries,
+    };
+  }
+
+  /**
+   * The most run searches that found something, for cache warming
+   */
+  async getPopularQueries(limit = 10, days = 7): Promise<SearchQuery[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const rows = await db.execute(sql`
+      SELECT
+        (array_agg(filters ORDER BY created_at DESC))[1] AS filters,
+        MIN(sort_by) AS sort_by,
+        MIN(sort_order) AS sort_order
+      FROM search_events
+      WHERE created_at >= ${since} AND page = 1 AND result_count > 0
+      GROUP BY query_key
+      ORDER BY COUNT(*) DESC
+      LIMIT ${limit}
+    `);
+
+    return (rows as any[]).map(row =>
+      createSearchQuery(row.filters, { sortBy: row.sort_by, sortOrder: row.sort_order })
+    );
+  }
+
+  /**
+   * Events since the given time and, per event, its clicks and the clicks
+   * that converted
+   */
+  private eventStats(since: Date) {
+    return sql`
+      WITH events AS (
+        SELECT * FROM search_events WHERE created_at >= ${since}
+      ),
+      event_clicks AS (
+        SELECT
+          c.search_event_id,
+          COUNT(*) AS clicks,
+          COUNT(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM quote_requests q
+            WHERE q.cruise_id = c.cruise_id
+              AND q.created_at BETWEEN c.created_at AND c.created_at + ${CONVERSION_WINDOW}
+          )) AS quotes,
+          COUNT(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.cruise_id = c.cruise_id
+              AND b.created_at BETWEEN c.created_at AND c.created_at + ${CONVERSION_WINDOW}
+          )) AS bookings
+        FROM search_clicks c
+        JOIN events e ON e.id = c.search_event_id
+        GROUP BY c.search_event_id
+      )
+    `;
+  }
+
+  private async getQueryStats(
+    since: Date,
+    orderBy: 'searches' | 'zero_result_searches',
+    limit: number
+  ): Promise<SearchQueryStats[]> {
+    const rows = await db.execute(sql`
+      ${this.eventStats(since)}
+      SELECT
+        e.query_key,
+        (array_agg(e.filters ORDER BY e.created_at DESC))[1] AS filters,
+        MIN(e.sort_by) AS sort_by,
+        MIN(e.sort_order) AS sort_order,
+        COUNT(*) FILTER (WHERE e.page = 1)::int AS searches,
+        COUNT(*) FILTER (WHERE e.page = 1 AND e.result_count = 0)::int AS zero_result_searches,
+        ROUND(AVG(e.latency_ms))::int AS avg_latency_ms,
+        COALESCE(SUM(k.clicks), 0)::int AS clicks,
+        COALESCE(SUM(k.quotes), 0)::int AS quotes,
+        COALESCE(SUM(k.bookings), 0)::int AS bookings
+      FROM events e
+      LEFT JOIN event_clicks k ON k.search_event_id = e.id
+      GROUP BY e.query_key
+      HAVING COUNT(*) FILTER (WHERE e.page = 1) > 0
+        ${orderBy === 'zero_result_searches' ? sql`AND COUNT(*) FILTER (WHERE e.page = 1 AND e.result_count = 0) > 0` : sql``}
+      ORDER BY ${sql.raw(orderBy)} DESC, searches DESC
+      LIMIT ${limit}
+    `);
+
+    return (rows as any[]).map(row => ({
+      queryKey: row.query_key,
+      filters: row.filters,
+      sortBy: row.sort_by,
+      sortOrder: row.sort_order,
+      searches: row.searches,
+      zeroResultSearches: row.zero_result_searches,
+      avgLatencyMs: row.avg_latency_ms,
+      clicks: row.clicks,
+      clickThroughRate: rate(row.clicks, row.searches),
+      quotes: row.quotes,
+      bookings: row.bookings,
+    }));
+  }
+}
+
+// Singleton instance
+export const searchAnalyticsService = new SearchAnalyticsService();
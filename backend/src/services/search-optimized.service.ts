@@ -1,9 +0,0 @@
-/**
- * This file exports the simplified optimized search service
- * The original complex version has been disabled due to SQL safety concerns
- */
-
-export { 
-  SearchOptimizedSimpleService as SearchOptimizedService,
-  searchOptimizedSimpleService as searchOptimizedService 
-} from './search-optimized-simple.service';
\ No newline at end of file
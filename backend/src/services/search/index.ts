@@ -0,0 +1,25 @@
+export * from './search-query';
+export { parseSearchParams, toLegacyRow, LEGACY_PARAM_ALIASES } from './search-params';
+export type { ParseSearchParamsOptions } from './search-params';
+export {
+  buildSearchConditions,
+  buildSearchOrder,
+  buildCursorCondition,
+  searchSortKeys,
+  nearPoint,
+  buildDistanceMiles,
+  getMinSailingDate,
+} from './query-builder';
+export type { SortKey } from './query-builder';
+export { encodeSearchCursor, decodeSearchCursor, filtersFingerprint } from './search-cursor';
+export type { SearchCursor, CursorValue } from './search-cursor';
+export { buildRecommendedScore, buildFactorScores, toScoreBreakdown } from './recommendation';
+export type { ScoreBreakdown, RecommendationFactor } from './recommendation';
+export { SearchService, searchService } from './search.service';
+export type {
+  SearchResponse,
+  SearchResult,
+  PriceCalendar,
+  PriceCalendarPeriod,
+  SearchCacheOptions,
+} from './search.service';
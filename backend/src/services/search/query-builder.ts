@@ -0,0 +1,382 @@
+/**
+ * Compiles a SearchQuery to Drizzle WHERE and ORDER BY clauses. This is the
+ * only place search filters and sorts become SQL.
+ */
+
+import { cruises } from '../../db/schema';
+import { sql, eq, and, or, inArray, gte, lte, ilike, isNotNull, type SQL } from 'drizzle-orm';
+import logger from '../../config/logger';
+import { DEFAULT_FLEX_DAYS, flexibleDateWindow } from '../../utils/date-window';
+import { DEFAULT_RADIUS_MILES, EARTH_RADIUS_MILES, type GeoPoint } from '../../utils/geo';
+import type { SearchFilters, SearchSortBy, SortOrder } from './search-query';
+import type { CursorValue } from './search-cursor';
+import { buildRecommendedScore } from './recommendation';
+import {
+  getRecommendationWeights,
+  type RecommendationWeights,
+} from '../../config/recommendation-weights';
+
+// Sailings inside two weeks can't be booked, so search starts 14 days out
+export const getMinSailingDate = () => {
+  const today = new Date();
+  const twoWeeksFromNow = new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000);
+  return twoWeeksFromNow.toISOString().split('T')[0];
+};
+
+// An empty id list matches nothing rather than everything
+const idCondition = (column: any, ids: number[]) =>
+  ids.length > 0 ? inArray(column, ids) : sql`1 = 0`;
+
+/**
+ * WHERE conditions for the filters. toUsd converts a price filter from the
+ * display currency to USD, since prices are compared on the USD columns.
+ */
+export function buildSearchConditions(
+  filters: SearchFilters,
+  toUsd: (amount: number) => number = amount => amount,
+  minSailingDate: string = getMinSailingDate()
+): SQL[] {
+  const conditions: SQL[] = [eq(cruises.isActive, true), gte(cruises.sailingDate, minSailingDate)];
+
+  if (!filters.includeUnavailable) {
+    // Filter out cruises with no valid prices
+    // Use the cheapest_price field for efficient filtering
+    conditions.push(isNotNull(cruises.cheapestPrice), sql`${cruises.cheapestPrice} > 99`);
+  }
+
+  // Text search
+  if (filters.q) {
+    const searchPattern = `%${filters.q}%`;
+    conditions.push(
+      or(
+        ilike(cruises.name, searchPattern),
+        sql`${cruises.id} IN (
+          SELECT c.id FROM cruises c
+          LEFT JOIN cruise_lines cl ON c.cruise_line_id = cl.id
+          LEFT JOIN ships s ON c.ship_id = s.id
+          WHERE cl.name ILIKE ${searchPattern}
+             OR s.name ILIKE ${searchPattern}
+        )`
+      )
+    );
+  }
+
+  conditions.push(...buildDateConditions(filters));
+
+  if (filters.cruiseLineIds) {
+    logger.info('Applying cruise line filter:', { lineIds: filters.cruiseLineIds });
+    conditions.push(idCondition(cruises.cruiseLineId, filters.cruiseLineIds));
+  }
+
+  if (filters.shipIds) {
+    logger.info('Applying ship filter:', { shipIds: filters.shipIds });
+    conditions.push(idCondition(cruises.shipId, filters.shipIds));
+  }
+
+  if (filters.shipName) {
+    conditions.push(sql`${cruises.shipId} IN (
+      SELECT s.id FROM ships s WHERE s.name ILIKE ${`%${filters.shipName}%`}
+    )`);
+  }
+
+  if (filters.departurePortIds) {
+    logger.info('Applying departure port filter:', { portIds: filters.departurePortIds });
+    conditions.push(idCondition(cruises.embarkPortId, filters.departurePortIds));
+  }
+
+  if (filters.arrivalPortIds) {
+    logger.info('Applying arrival port filter:', { portIds: filters.arrivalPortIds });
+    conditions.push(idCondition(cruises.disembarkPortId, filters.arrivalPortIds));
+  }
+
+  const near = nearPoint(filters);
+  if (near) {
+    const radiusMiles = filters.radiusMiles ?? DEFAULT_RADIUS_MILES;
+    logger.info('Applying departure distance filter:', { ...near, radiusMiles });
+    conditions.push(sql`${cruises.embarkPortId} IN (
+      SELECT p.id FROM ports p
+      WHERE p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+        AND ${buildDistanceMiles(near, sql`p.latitude`, sql`p.longitude`)} <= ${radiusMiles}
+    )`);
+  }
+
+  conditions.push(...buildItineraryConditions(filters));
+
+  // Region filter - handle comma-separated string in DB
+  if (filters.regionIds?.length) {
+    logger.info('Applying region filter:', { regionIds: filters.regionIds });
+    conditions.push(
+      or(
+        ...filters.regionIds.map(
+          id =>
+            sql`(
+            ${cruises.regionIds} = ${id.toString()} OR
+            ${cruises.regionIds} LIKE ${id + ',%'} OR
+            ${cruises.regionIds} LIKE ${'%,' + id + ',%'} OR
+            ${cruises.regionIds} LIKE ${'%,' + id}
+          )`
+        )
+      )
+    );
+  }
+
+  // Nights filters
+  if (filters.nights) {
+    conditions.push(eq(cruises.nights, filters.nights));
+  } else {
+    if (filters.minNights) {
+      conditions.push(gte(cruises.nights, filters.minNights));
+    }
+    if (filters.maxNights) {
+      conditions.push(lte(cruises.nights, filters.maxNights));
+    }
+  }
+
+  // Price filters on the USD-normalized cheapest price so currencies compare
+  if (filters.minPrice) {
+    conditions.push(gte(cruises.cheapestPriceUsd, String(toUsd(filters.minPrice))));
+  }
+  if (filters.maxPrice) {
+    conditions.push(lte(cruises.cheapestPriceUsd, String(toUsd(filters.maxPrice))));
+  }
+
+  return conditions;
+}
+
+/**
+ * The point a near-me search measures from, when it has one
+ */
+export function nearPoint(filters: SearchFilters): GeoPoint | null {
+  return filters.nearLat !== undefined && filters.nearLng !== undefined
+    ? { lat: filters.nearLat, lng: filters.nearLng }
+    : null;
+}
+
+/**
+ * Great-circle distance in miles from a point to a latitude/longitude pair of
+ * columns (haversine, as distanceMiles in utils/geo)
+ */
+export function buildDistanceMiles(point: GeoPoint, lat: SQL, lng: SQL): SQL<number> {
+  return sql<number>`(${sql.raw(String(2 * EARTH_RADIUS_MILES))} * ASIN(LEAST(1, SQRT(
+    POWER(SIN(RADIANS(${lat} - ${point.lat}) / 2), 2) +
+    COS(RADIANS(${point.lat})) * COS(RADIANS(${lat})) *
+    POWER(SIN(RADIANS(${lng} - ${point.lng}) / 2), 2)
+  ))))`;
+}
+
+function buildDateConditions(filters: SearchFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  // Handle multiple departure months
+  if (filters.departureMonths?.length) {
+    const monthConditions = filters.departureMonths.map(monthStr => {
+      const [year, month] = monthStr.split('-');
+      const startOfMonth = `${year}-${month}-01`;
+      // Fix: JavaScript months are 0-indexed, but our month string is 1-indexed
+      // So for "2025-09", we need new Date(2025, 9, 0) to get last day of September
+      const endOfMonth = new Date(parseInt(year), parseInt(month), 0).toISOString().split('T')[0];
+      logger.info(`Date filter for ${monthStr}: ${startOfMonth} to ${endOfMonth}`);
+      return and(gte(cruises.sailingDate, startOfMonth), lte(cruises.sailingDate, endOfMonth));
+    });
+    conditions.push(or(...monthConditions));
+  }
+
+  if (filters.startDate) {
+    conditions.push(gte(cruises.sailingDate, filters.startDate));
+  }
+
+  if (filters.endDate) {
+    conditions.push(lte(cruises.sailingDate, filters.endDate));
+  }
+
+  if (filters.sailingDate) {
+    conditions.push(eq(cruises.sailingDate, filters.sailingDate));
+  }
+
+  // Flexible dates narrow whatever window was given to targetDate ± flexDays
+  if (filters.targetDate) {
+    const window = flexibleDateWindow(filters.targetDate, filters.flexDays ?? DEFAULT_FLEX_DAYS);
+    logger.info('Applying flexible date filter:', window);
+    conditions.push(
+      gte(cruises.sailingDate, window.startDate),
+      lte(cruises.sailingDate, window.endDate)
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Port-of-call conditions. Port calls exclude embarkation and disembarkation
+ * unless stated, so "visits Miami" doesn't match every cruise leaving Miami.
+ */
+function buildItineraryConditions(filters: SearchFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.visitsPortIds) {
+    const portIds = filters.visitsPortIds;
+    logger.info('Applying ports visited filter:', { portIds, match: filters.visitsPortMatch });
+    if (portIds.length === 0) {
+      conditions.push(sql`1 = 0`);
+    } else {
+      const required = filters.visitsPortMatch === 'any' ? 1 : new Set(portIds).size;
+      conditions.push(sql`${cruises.id} IN (
+        SELECT pc.cruise_id FROM cruise_port_calls pc
+        WHERE pc.port_id IN (${sql.join(
+          portIds.map(id => sql`${id}`),
+          sql`, `
+        )})
+          AND NOT pc.is_embarkation AND NOT pc.is_disembarkation
+        GROUP BY pc.cruise_id
+        HAVING COUNT(DISTINCT pc.port_id) >= ${required}
+      )`);
+    }
+  }
+
+  if (filters.excludePortIds?.length) {
+    conditions.push(sql`NOT EXISTS (
+      SELECT 1 FROM cruise_port_calls pc
+      WHERE pc.cruise_id = ${cruises.id}
+        AND pc.port_id IN (${sql.join(
+          filters.excludePortIds.map(id => sql`${id}`),
+          sql`, `
+        )})
+    )`);
+  }
+
+  if (filters.excludeTenderPorts) {
+    conditions.push(sql`NOT EXISTS (
+      SELECT 1 FROM cruise_port_calls pc
+      WHERE pc.cruise_id = ${cruises.id} AND pc.is_tender
+    )`);
+  }
+
+  if (filters.overnightInPort) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM cruise_port_calls pc
+      WHERE pc.cruise_id = ${cruises.id} AND pc.is_overnight
+    )`);
+  }
+
+  if (filters.minPortDays !== undefined) {
+    conditions.push(gte(cruises.portDays, filters.minPortDays));
+  }
+
+  if (filters.maxSeaDays !== undefined) {
+    conditions.push(lte(cruises.seaDays, filters.maxSeaDays));
+  }
+
+  return conditions;
+}
+
+export interface SortKey {
+  expression: SQL;
+  direction: SortOrder;
+  // JSON type of the key's value in a cursor
+  valueType: 'string' | 'number' | 'boolean';
+}
+
+// Stands in for a missing price so NULLS LAST holds in keyset comparisons
+const NO_PRICE_ASC = sql.raw('999999999');
+const NO_PRICE_DESC = sql.raw('-1');
+
+/**
+ * The columns a sort orders by, ending in the cruise id so every result has a
+ * unique position. Keys are never null so cursors can compare them. The
+ * recommended sort needs ships and cruise_recommendation_signals joined.
+ */
+export function searchSortKeys(
+  sortBy: SearchSortBy,
+  sortOrder: SortOrder,
+  weights: RecommendationWeights = getRecommendationWeights()
+): SortKey[] {
+  const sailingDate: SortKey = {
+    expression: sql`${cruises.sailingDate}`,
+    direction: 'asc',
+    valueType: 'string',
+  };
+  const id: SortKey = { expression: sql`${cruises.id}`, direction: 'asc', valueType: 'string' };
+
+  if (sortBy === 'price') {
+    // Sort on the USD-normalized price; cruises without a rate for their currency go last
+    const noPrice = sortOrder === 'desc' ? NO_PRICE_DESC : NO_PRICE_ASC;
+    return [
+      {
+        expression: sql`COALESCE(${cruises.cheapestPriceUsd}, ${noPrice})`,
+        direction: sortOrder,
+        valueType: 'number',
+      },
+      sailingDate,
+      id,
+    ];
+  }
+  if (sortBy === 'nights') {
+    return [
+      {
+        expression: sql`COALESCE(${cruises.nights}, 0)`,
+        direction: sortOrder,
+        valueType: 'number',
+      },
+      sailingDate,
+      id,
+    ];
+  }
+  if (sortBy === 'recommended') {
+    // Best first whatever the sortOrder
+    return [
+      { expression: buildRecommendedScore(weights), direction: 'desc', valueType: 'number' },
+      sailingDate,
+      id,
+    ];
+  }
+  if (sortBy === 'popularity') {
+    // Priced sailings first, then soonest and longest
+    return [
+      {
+        expression: sql`(${cruises.interiorPrice} IS NOT NULL)`,
+        direction: 'desc',
+        valueType: 'boolean',
+      },
+      sailingDate,
+      { expression: sql`COALESCE(${cruises.nights}, 0)`, direction: 'desc', valueType: 'number' },
+      id,
+    ];
+  }
+  // Default to date sorting
+  return [{ ...sailingDate, direction: sortOrder }, id];
+}
+
+/**
+ * ORDER BY clauses for the sort keys
+ */
+export function buildSearchOrder(keys: SortKey[]): SQL[] {
+  return keys.map(key =>
+    key.direction === 'desc' ? sql`${key.expression} DESC` : sql`${key.expression} ASC`
+  );
+}
+
+/**
+ * The sort key values of a row, to select alongside it for its cursor
+ */
+export function buildSortKeyValues(keys: SortKey[]): SQL<CursorValue[]> {
+  return sql<CursorValue[]>`json_build_array(${sql.join(
+    keys.map(key => key.expression),
+    sql`, `
+  )})`;
+}
+
+/**
+ * Rows strictly after the cursor position in sort order:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ..., with < for descending keys
+ */
+export function buildCursorCondition(keys: SortKey[], values: CursorValue[]): SQL {
+  const after = keys.map((key, i) => {
+    const equalBefore = keys.slice(0, i).map((prior, j) => sql`${prior.expression} = ${values[j]}`);
+    const beyond =
+      key.direction === 'desc'
+        ? sql`${key.expression} < ${values[i]}`
+        : sql`${key.expression} > ${values[i]}`;
+    return sql`(${sql.join([...equalBefore, beyond], sql` AND `)})`;
+  });
+  return sql`(${sql.join(after, sql` OR `)})`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Scoring for sortBy=recommended
+ *
+ * Every factor scores a sailing from 0 to 1 in SQL, so the ranking covers all
+ * matches and works with cursors; the score is their weighted average. The
+ * per-factor scores come back with each result as a scoreBreakdown so
+ * merchandising can see why a sailing ranks where it does.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+import { cruises, ships, cruiseRecommendationSignals } from '../../db/schema';
+import type { RecommendationWeights } from '../../config/recommendation-weights';
+
+export type RecommendationFactor = keyof RecommendationWeights;
+
+export interface ScoreBreakdown {
+  score: number;
+  factors: Record<
+    RecommendationFactor,
+    {
+      score: number; // 0 to 1
+      weight: number; // Share of the total weight
+      contribution: number; // score x weight; contributions add up to the score
+    }
+  >;
+}
+
+const clamp = (value: SQL) => sql`LEAST(1, GREATEST(0, ${value}))`;
+
+/**
+ * Each factor's 0-1 score. Sailings missing a signal get a neutral score for
+ * price and star rating, and nothing for onboard credit and conversion.
+ */
+function factorScores(): Record<RecommendationFactor, SQL> {
+  const signals = cruiseRecommendationSignals;
+  return {
+    // 20% under its usual price scores 1, 20% over scores 0
+    price: clamp(sql`0.5 + (1 - COALESCE(${signals.priceRatio}, 1)) * 2.5`),
+    // Onboard credit worth a tenth of the fare scores 1
+    onboardCredit: clamp(sql`COALESCE(${signals.onboardCreditShare}, 0) * 10`),
+    // Falls from 1 to 0 over the year ahead
+    daysToSail: clamp(sql`1 - (${cruises.sailingDate} - CURRENT_DATE) / 365.0`),
+    starRating: clamp(sql`COALESCE(${ships.starRating}, 3) / 5.0`),
+    // One quote or booking per ten clicks scores 1
+    conversion: clamp(sql`COALESCE(${signals.conversionRate}, 0) * 10`),
+  };
+}
+
+/**
+ * Weights scaled to add up to 1
+ */
+export function normalizeWeights(weights: RecommendationWeights): RecommendationWeights {
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const normalized = { ...weights };
+  for (const factor of Object.keys(normalized) as RecommendationFactor[]) {
+    normalized[factor] = total > 0 ? weights[factor] / total : 0;
+  }
+  return normalized;
+}
+
+/**
+ * The recommendation score, rounded so cursors compare it exactly. Needs
+ * ships and cruise_recommendation_signals joined to cruises.
+ */
+export function buildRecommendedScore(weights: RecommendationWeights): SQL {
+  const scores = factorScores();
+  const normalized = normalizeWeights(weights);
+  const terms = (Object.keys(scores) as RecommendationFactor[]).map(
+    factor => sql`${sql.raw(normalized[factor].toFixed(6))} * ${scores[factor]}`
+  );
+  return sql`ROUND((${sql.join(terms, sql` + `)})::numeric, 4)`;
+}
+
+/**
+ * Each factor's score as a JSON object, to select alongside the results
+ */
+export function buildFactorScores(): SQL<Record<RecommendationFactor, number>> {
+  const scores = factorScores();
+  return sql<Record<RecommendationFactor, number>>`json_build_object(${sql.join(
+    (Object.keys(scores) as RecommendationFactor[]).map(
+      factor => sql`${sql.raw(`'${factor}'`)}, ROUND((${scores[factor]})::numeric, 4)`
+    ),
+    sql`, `
+  )})`;
+}
+
+export function toScoreBreakdown(
+  score: number,
+  factorScores: Record<RecommendationFactor, number>,
+  weights: RecommendationWeights
+): ScoreBreakdown {
+  const normalized = normalizeWeights(weights);
+  const factors = {} as ScoreBreakdown['factors'];
+  for (const factor of Object.keys(normalized) as RecommendationFactor[]) {
+    const factorScore = Number(factorScores[factor]) || 0;
+    factors[factor] = {
+      score: factorScore,
+      weight: Math.round(normalized[factor] * 10000) / 10000,
+      contribution: Math.round(factorScore * normalized[factor] * 10000) / 10000,
+    };
+  }
+  return { score: Number(score), factors };
+}
@@ -0,0 +1,59 @@
+/**
+ * Opaque keyset cursors for search pagination
+ *
+ * A cursor holds the sort key values of the last result on a page, ending in
+ * the cruise id. The next page starts strictly after that position instead of
+ * skipping an offset, so deep pages stay fast and price updates landing
+ * between page loads can't shift results into duplicates or gaps.
+ */
+
+import { createHash } from 'crypto';
+import type { SearchFilters, SearchSortBy, SortOrder } from './search-query';
+
+export type CursorValue = string | number | boolean;
+
+export interface SearchCursor {
+  sortBy: SearchSortBy;
+  sortOrder: SortOrder;
+  // Fingerprint of the filters the cursor was issued for
+  filters: string;
+  keys: CursorValue[];
+}
+
+/**
+ * Short, order-insensitive fingerprint of a search's filters
+ */
+export function filtersFingerprint(filters: SearchFilters): string {
+  const sorted = Object.keys(filters)
+    .sort()
+    .map(key => [key, filters[key as keyof SearchFilters]]);
+  return createHash('sha1').update(JSON.stringify(sorted)).digest('base64url').slice(0, 10);
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const { sortBy, sortOrder, filters, keys } = cursor;
+  return Buffer.from(JSON.stringify([sortBy, sortOrder, filters, keys])).toString('base64url');
+}
+
+/**
+ * Null when the value isn't a cursor this service issued
+ */
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const [sortBy, sortOrder, filters, keys] = JSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8')
+    );
+    const valid =
+      typeof sortBy === 'string' &&
+      typeof sortOrder === 'string' &&
+      typeof filters === 'string' &&
+      Array.isArray(keys) &&
+      keys.length > 0 &&
+      keys.every(key => ['string', 'number', 'boolean'].includes(typeof key));
+    return valid
+      ? { sortBy: sortBy as SearchSortBy, sortOrder: sortOrder as SortOrder, filters, keys }
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Request parameters to SearchQuery, and back to the legacy row shape
+ *
+ * Every SearchQuery field is read from the parameter of the same name. The
+ * endpoints that predate SearchQuery each named things their own way, so those
+ * names are accepted as aliases and existing clients and saved searches keep
+ * working. Lists can be repeated parameters, arrays or comma-separated.
+ */
+
+import { parsePartyParams } from '../../utils/party-pricing';
+import { lookupPlace } from '../../utils/geo';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  type SearchFilters,
+  type SearchQuery,
+  type SearchSortBy,
+  type SortOrder,
+} from './search-query';
+import type { SearchResult } from './search.service';
+
+export const LEGACY_PARAM_ALIASES: Record<string, string[]> = {
+  departureMonths: ['departureMonth', 'months'],
+  startDate: ['sailingDateFrom', 'minDate'],
+  endDate: ['sailingDateTo', 'maxDate'],
+  sailingDate: ['departureDate'],
+  cruiseLineIds: ['cruiseLineId', 'cruiseLines', 'cruiseLine'],
+  shipIds: ['shipId', 'ships', 'ship'],
+  departurePortIds: ['departurePortId', 'departurePort', 'embarkPortId'],
+  arrivalPortIds: ['arrivalPortId'],
+  regionIds: ['regionId', 'regions'],
+  near: ['location', 'zip'],
+  visitsPortIds: ['visitsPortId'],
+  excludePortIds: ['excludePortId'],
+  displayCurrency: ['priceCurrency'],
+  includeFacets: ['facets'],
+};
+
+export interface ParseSearchParamsOptions {
+  // Instant booking: only these cruise lines, intersected with any requested
+  restrictCruiseLineIds?: number[];
+}
+
+type Params = Record<string, any>;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+function read(params: Params, field: string): any {
+  if (!isEmpty(params[field])) return params[field];
+  const alias = (LEGACY_PARAM_ALIASES[field] || []).find(name => !isEmpty(params[name]));
+  return alias ? params[alias] : undefined;
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (isEmpty(value)) return undefined;
+  const list = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+const toIds = (value: unknown) => toList(value)?.map(Number);
+const toNumber = (value: unknown) => (isEmpty(value) ? undefined : Number(value));
+const toString = (value: unknown) => (isEmpty(value) ? undefined : String(value).trim());
+const toFlag = (value: unknown) => value === true || value === 'true' || undefined;
+
+/**
+ * The POST /search body nests ranges: nights {min, max}, price {min, max,
+ * currency} and sailingDate {from, to}
+ */
+function flattenLegacyRanges(params: Params): Params {
+  const flat = { ...params };
+  const { nights, price, sailingDate } = params;
+
+  if (nights && typeof nights === 'object' && !Array.isArray(nights)) {
+    delete flat.nights;
+    flat.minNights = params.minNights ?? nights.min;
+    flat.maxNights = params.maxNights ?? nights.max;
+  }
+  if (price && typeof price === 'object') {
+    delete flat.price;
+    flat.minPrice = params.minPrice ?? price.min;
+    flat.maxPrice = params.maxPrice ?? price.max;
+    flat.priceCurrency = params.priceCurrency ?? price.currency;
+  }
+  if (sailingDate && typeof sailingDate === 'object' && !Array.isArray(sailingDate)) {
+    delete flat.sailingDate;
+    flat.startDate = params.startDate ?? sailingDate.from;
+    flat.endDate = params.endDate ?? sailingDate.to;
+  }
+
+  return flat;
+}
+
+/**
+ * The frontend's night buckets ("3-5", "6-8", "12+") as one nights range
+ */
+function nightRangeBounds(value: unknown): { min: number; max: number } | null {
+  const ranges = toList(value);
+  if (!ranges) return null;
+
+  const bounds = ranges.map(range => {
+    if (range.endsWith('+')) return { min: parseInt(range), max: 999 };
+    const [min, max] = range.split('-');
+    return { min: parseInt(min), max: parseInt(max || min) };
+  });
+  return {
+    min: Math.min(...bounds.map(bound => bound.min)),
+    max: Math.max(...bounds.map(bound => bound.max)),
+  };
+}
+
+export function parseSearchParams(
+  rawParams: Params = {},
+  options: ParseSearchParamsOptions = {}
+): SearchQuery {
+  const params = flattenLegacyRanges(rawParams);
+  const nightRange = nightRangeBounds(params.nightRange);
+
+  const filters: SearchFilters = {
+    q: toString(params.q),
+
+    departureMonths: toList(read(params, 'departureMonths')),
+    startDate: toString(read(params, 'startDate')),
+    endDate: toString(read(params, 'endDate')),
+    sailingDate: toString(read(params, 'sailingDate')),
+    targetDate: toString(params.targetDate),
+    flexDays: toNumber(params.flexDays),
+
+    cruiseLineIds: toIds(read(params, 'cruiseLineIds')),
+    shipIds: toIds(read(params, 'shipIds')),
+    shipName: toString(params.shipName),
+    departurePortIds: toIds(read(params, 'departurePortIds')),
+    arrivalPortIds: toIds(read(params, 'arrivalPortIds')),
+    regionIds: toIds(read(params, 'regionIds')),
+
+    near: toString(read(params, 'near')),
+    nearLat: toNumber(params.nearLat),
+    nearLng: toNumber(params.nearLng),
+    radiusMiles: toNumber(params.radiusMiles),
+
+    visitsPortIds: toIds(read(params, 'visitsPortIds')),
+    visitsPortMatch: toString(params.visitsPortMatch) as SearchFilters['visitsPortMatch'],
+    excludePortIds: toIds(read(params, 'excludePortIds')),
+    minPortDays: toNumber(params.minPortDays),
+    maxSeaDays: toNumber(params.maxSeaDays),
+    overnightInPort: toFlag(params.overnightInPort),
+    excludeTenderPorts: toFlag(params.excludeTenderPorts),
+
+    minNights: toNumber(params.minNights) ?? nightRange?.min,
+    maxNights: toNumber(params.maxNights) ?? nightRange?.max,
+    nights: toNumber(params.nights),
+
+    minPrice: toNumber(params.minPrice),
+    maxPrice: toNumber(params.maxPrice),
+    displayCurrency: toString(read(params, 'displayCurrency'))?.toUpperCase(),
+
+    party: parsePartyParams(params) || undefined,
+    includeUnavailable: toFlag(params.includeUnavailable),
+  };
+
+  // Legacy "ports": sailings calling at any of them
+  if (!filters.visitsPortIds && toIds(params.ports)) {
+    filters.visitsPortIds = toIds(params.ports);
+    filters.visitsPortMatch = 'any';
+  }
+
+  // A ZIP code or city stands in for coordinates
+  if (filters.near && filters.nearLat === undefined && filters.nearLng === undefined) {
+    const place = lookupPlace(filters.near);
+    if (place) {
+      filters.nearLat = place.lat;
+      filters.nearLng = place.lng;
+    }
+  }
+
+  // By-ship searches give a month and year separately
+  if (!filters.departureMonths && params.month && params.year) {
+    filters.departureMonths = [`${params.year}-${String(params.month).padStart(2, '0')}`];
+  }
+
+  if (options.restrictCruiseLineIds) {
+    // Requested lines that can't be booked instantly leave nothing to show
+    filters.cruiseLineIds = filters.cruiseLineIds
+      ? filters.cruiseLineIds.filter(id => options.restrictCruiseLineIds.includes(id))
+      : options.restrictCruiseLineIds;
+  }
+
+  Object.keys(filters).forEach(key => {
+    if (filters[key as keyof SearchFilters] === undefined) {
+      delete filters[key as keyof SearchFilters];
+    }
+  });
+
+  const limit = Math.min(toNumber(params.limit) ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+  const offset = toNumber(params.offset);
+
+  return {
+    filters,
+    sortBy: (toString(params.sortBy) as SearchSortBy) || 'date',
+    sortOrder: (toString(params.sortOrder) as SortOrder) || 'asc',
+    // Some clients page with offset rather than page
+    page: toNumber(params.page) ?? (offset !== undefined ? Math.floor(offset / limit) + 1 : 1),
+    limit,
+    cursor: toString(params.cursor),
+    includeFacets: toFlag(read(params, 'includeFacets')),
+    calendar: toString(params.calendar) as SearchQuery['calendar'],
+  };
+}
+
+/**
+ * A search result in the flat snake_case row shape /search, /search/by-ship
+ * and /cruises returned before they moved onto SearchService
+ */
+export function toLegacyRow(cruise: SearchResult) {
+  return {
+    id: cruise.id,
+    cruise_id: cruise.cruiseId,
+    name: cruise.name,
+    voyage_code: cruise.voyageCode,
+    sailing_date: cruise.sailingDate,
+    return_date: cruise.returnDate,
+    nights: cruise.nights,
+    sea_days: cruise.seaDays,
+    cruise_line_id: cruise.cruiseLine.id,
+    cruise_line_name: cruise.cruiseLine.name,
+    ship_id: cruise.ship.id,
+    ship_name: cruise.ship.name,
+    embarkation_port_id: cruise.embarkPort.id,
+    embark_port_name: cruise.embarkPort.name,
+    disembarkation_port_id: cruise.disembarkPort.id,
+    disembark_port_name: cruise.disembarkPort.name,
+    port_ids: cruise.portIds,
+    region_ids: cruise.regionIds,
+    currency: cruise.pricing.currency,
+    cheapest_price: cruise.pricing.lowestPrice,
+    interior_price: cruise.pricing.interior,
+    oceanview_price: cruise.pricing.oceanview,
+    balcony_price: cruise.pricing.balcony,
+    suite_price: cruise.pricing.suite,
+  };
+}
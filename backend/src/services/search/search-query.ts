@@ -0,0 +1,239 @@
+/**
+ * The typed search model every search endpoint compiles to
+ *
+ * Route handlers turn their query string or body into a SearchQuery with
+ * parseSearchParams, SearchService validates it and the query builder turns
+ * it into SQL, so /search, /search/comprehensive, /search/by-ship and
+ * /cruises all filter, sort and paginate the same way.
+ */
+
+import { validateParty, type PartyComposition } from '../../utils/party-pricing';
+import {
+  DEFAULT_FLEX_DAYS,
+  isIsoDate,
+  validateFlexibleDate,
+  type CalendarGranularity,
+} from '../../utils/date-window';
+import { MAX_RADIUS_MILES } from '../../utils/geo';
+import { decodeSearchCursor, filtersFingerprint } from './search-cursor';
+import { searchSortKeys } from './query-builder';
+
+export const SEARCH_SORT_FIELDS = ['date', 'price', 'nights', 'popularity', 'recommended'] as const;
+export type SearchSortBy = (typeof SEARCH_SORT_FIELDS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+export interface SearchFilters {
+  // Matches the cruise, cruise line or ship name
+  q?: string;
+
+  // Dates are YYYY-MM-DD, months YYYY-MM
+  departureMonths?: string[];
+  startDate?: string;
+  endDate?: string;
+  sailingDate?: string; // Exact sailing date
+  targetDate?: string; // Sail within flexDays of it
+  flexDays?: number;
+
+  cruiseLineIds?: number[];
+  shipIds?: number[];
+  shipName?: string; // Partial, case-insensitive
+  departurePortIds?: number[];
+  arrivalPortIds?: number[];
+  regionIds?: number[];
+
+  // Departing from a port within radiusMiles of a point, or of a ZIP code or city (near)
+  near?: string;
+  nearLat?: number;
+  nearLng?: number;
+  radiusMiles?: number;
+
+  // Itinerary filters, answered from cruise_port_calls
+  visitsPortIds?: number[]; // Ports called at between embarkation and disembarkation
+  visitsPortMatch?: 'all' | 'any'; // Whether every visitsPortId must be called at (default all)
+  excludePortIds?: number[]; // Never calls at these ports, embarkation included
+  minPortDays?: number;
+  maxSeaDays?: number;
+  overnightInPort?: boolean;
+  excludeTenderPorts?: boolean;
+
+  minNights?: number;
+  maxNights?: number;
+  nights?: number; // Exact nights
+
+  // Price filters are in displayCurrency (USD when not given)
+  minPrice?: number;
+  maxPrice?: number;
+  displayCurrency?: string; // Convert returned prices into this currency
+
+  party?: PartyComposition; // Prices results for this party instead of two adults
+  includeUnavailable?: boolean; // Keep sailings without a bookable price
+}
+
+export interface SearchQuery {
+  filters: SearchFilters;
+  sortBy: SearchSortBy;
+  sortOrder: SortOrder;
+  page: number;
+  limit: number;
+  // Continue after the last result of a previous page; replaces page
+  cursor?: string;
+  includeFacets?: boolean;
+  // Cheapest price per week or month per cabin type across all matches
+  calendar?: CalendarGranularity;
+}
+
+/**
+ * Thrown by SearchService for a query that fails validateSearchQuery
+ */
+export class SearchQueryError extends Error {
+  statusCode = 400;
+
+  constructor(public details: string[]) {
+    super(details[0] || 'Invalid search query');
+    this.name = 'SearchQueryError';
+  }
+}
+
+/**
+ * A query with the default sort and first page, for callers that build
+ * filters in code rather than from request parameters
+ */
+export function createSearchQuery(
+  filters: SearchFilters = {},
+  options: Partial<Omit<SearchQuery, 'filters'>> = {}
+): SearchQuery {
+  return {
+    filters,
+    sortBy: 'date',
+    sortOrder: 'asc',
+    page: 1,
+    limit: DEFAULT_SEARCH_LIMIT,
+    ...options,
+  };
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const isWholeNumber = (value: number, min = 0) => Number.isInteger(value) && value >= min;
+
+/**
+ * Every problem with the query, empty when it is usable
+ */
+export function validateSearchQuery(query: SearchQuery): string[] {
+  const problems: string[] = [];
+  const { filters } = query;
+
+  for (const field of ['startDate', 'endDate', 'sailingDate'] as const) {
+    if (filters[field] !== undefined && !isIsoDate(filters[field])) {
+      problems.push(`${field} must be a date in YYYY-MM-DD format`);
+    }
+  }
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    problems.push('startDate must not be after endDate');
+  }
+  if (filters.departureMonths?.some(month => !MONTH_PATTERN.test(month))) {
+    problems.push('departureMonths must be months in YYYY-MM format');
+  }
+  if (filters.targetDate !== undefined) {
+    const problem = validateFlexibleDate(filters.targetDate, filters.flexDays ?? DEFAULT_FLEX_DAYS);
+    if (problem) problems.push(problem);
+  }
+
+  for (const field of [
+    'cruiseLineIds',
+    'shipIds',
+    'departurePortIds',
+    'arrivalPortIds',
+    'regionIds',
+    'visitsPortIds',
+    'excludePortIds',
+  ] as const) {
+    if (filters[field]?.some(id => !isWholeNumber(id, 1))) {
+      problems.push(`${field} must be positive whole numbers`);
+    }
+  }
+  const hasPoint = filters.nearLat !== undefined && filters.nearLng !== undefined;
+  if (filters.near && !hasPoint) {
+    problems.push(`near "${filters.near}" is not a US ZIP code or city we can locate`);
+  } else if ((filters.nearLat === undefined) !== (filters.nearLng === undefined)) {
+    problems.push('nearLat and nearLng must be given together');
+  } else if (hasPoint && !(Math.abs(filters.nearLat) <= 90 && Math.abs(filters.nearLng) <= 180)) {
+    problems.push('nearLat must be from -90 to 90 and nearLng from -180 to 180');
+  }
+  if (filters.radiusMiles !== undefined) {
+    if (!(filters.radiusMiles > 0 && filters.radiusMiles <= MAX_RADIUS_MILES)) {
+      problems.push(`radiusMiles must be more than 0 and at most ${MAX_RADIUS_MILES}`);
+    } else if (!hasPoint && !filters.near) {
+      problems.push('radiusMiles needs nearLat and nearLng or near');
+    }
+  }
+
+  if (filters.visitsPortMatch && !['all', 'any'].includes(filters.visitsPortMatch)) {
+    problems.push('visitsPortMatch must be "all" or "any"');
+  }
+
+  for (const field of ['minPortDays', 'maxSeaDays', 'minNights', 'maxNights', 'nights'] as const) {
+    if (filters[field] !== undefined && !isWholeNumber(filters[field])) {
+      problems.push(`${field} must be a whole number of days`);
+    }
+  }
+  if (filters.minNights && filters.maxNights && filters.minNights > filters.maxNights) {
+    problems.push('minNights must not be more than maxNights');
+  }
+
+  for (const field of ['minPrice', 'maxPrice'] as const) {
+    if (filters[field] !== undefined && !(filters[field] >= 0)) {
+      problems.push(`${field} must be a positive amount`);
+    }
+  }
+  if (filters.minPrice && filters.maxPrice && filters.minPrice > filters.maxPrice) {
+    problems.push('minPrice must not be more than maxPrice');
+  }
+  if (filters.displayCurrency && !CURRENCY_PATTERN.test(filters.displayCurrency)) {
+    problems.push('displayCurrency must be a three-letter currency code');
+  }
+
+  if (filters.party) {
+    const problem = validateParty(filters.party);
+    if (problem) problems.push(problem);
+  }
+
+  if (!SEARCH_SORT_FIELDS.includes(query.sortBy)) {
+    problems.push(`sortBy must be one of ${SEARCH_SORT_FIELDS.join(', ')}`);
+  }
+  if (query.sortOrder !== 'asc' && query.sortOrder !== 'desc') {
+    problems.push('sortOrder must be "asc" or "desc"');
+  }
+  if (!isWholeNumber(query.page, 1)) {
+    problems.push('page must be a whole number from 1');
+  }
+  if (!isWholeNumber(query.limit, 1) || query.limit > MAX_SEARCH_LIMIT) {
+    problems.push(`limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}`);
+  }
+  if (query.cursor !== undefined) {
+    const cursor = decodeSearchCursor(query.cursor);
+    if (!cursor) {
+      problems.push('cursor is not a valid search cursor');
+    } else if (cursor.sortBy !== query.sortBy || cursor.sortOrder !== query.sortOrder) {
+      problems.push('cursor was issued for a different sort');
+    } else if (cursor.filters !== filtersFingerprint(query.filters)) {
+      problems.push('cursor was issued for different filters');
+    } else {
+      // One value of the right type per sort key, or the keyset condition can't bind
+      const sortKeys = searchSortKeys(query.sortBy, query.sortOrder);
+      const fits =
+        cursor.keys.length === sortKeys.length &&
+        cursor.keys.every((value, i) => typeof value === sortKeys[i].valueType);
+      if (!fits) problems.push('cursor is not a valid search cursor');
+    }
+  }
+  if (query.calendar && query.calendar !== 'week' && query.calendar !== 'month') {
+    problems.push('calendar must be "week" or "month"');
+  }
+
+  return problems;
+}
@@ -0,0 +1,1010 @@
+/**
+ * SearchService: the one search engine behind /search, /search/comprehensive,
+ * /search/by-ship and /cruises. Requests are parsed into a SearchQuery
+ * (search-params), validated (search-query) and compiled to SQL
+ * (query-builder); this service runs the query and prices the results.
+ */
+
+import { db } from '../../db/connection';
+import {
+  cruises,
+  cruiseLines,
+  ships,
+  ports,
+  regions,
+  cheapestPricing,
+  pricing,
+  cruisePortCalls,
+  cruiseRecommendationSignals,
+} from '../../db/schema';
+import { sql, eq, and, or, inArray, gte, desc, asc, isNotNull, type SQL } from 'drizzle-orm';
+import logger from '../../config/logger';
+import { cacheManager } from '../../cache/cache-manager';
+import { CacheKeys } from '../../cache/cache-keys';
+import { exchangeRateService, convertAmount } from '../exchange-rate.service';
+import { suggestionIndexService, type Suggestion } from '../suggestion-index.service';
+import {
+  calculatePartyPrice,
+  isDoubleOccupancy,
+  toCabinCategory,
+  validateParty,
+  type CabinCategory,
+  type PartyComposition,
+} from '../../utils/party-pricing';
+import {
+  DEFAULT_FLEX_DAYS,
+  flexibleDateWindow,
+  daysBetween,
+  periodEnd,
+  periodStart,
+  addDays,
+  type CalendarGranularity,
+} from '../../utils/date-window';
+import {
+  SearchQueryError,
+  validateSearchQuery,
+  type SearchFilters,
+  type SearchQuery,
+} from './search-query';
+import {
+  buildCursorCondition,
+  buildDistanceMiles,
+  buildSearchConditions,
+  buildSearchOrder,
+  buildSortKeyValues,
+  getMinSailingDate,
+  nearPoint,
+  searchSortKeys,
+} from './query-builder';
+import { DEFAULT_RADIUS_MILES } from '../../utils/geo';
+import { decodeSearchCursor, encodeSearchCursor, filtersFingerprint } from './search-cursor';
+import { buildFactorScores, toScoreBreakdown } from './recommendation';
+import { getRecommendationWeights } from '../../config/recommendation-weights';
+import { normalizeSearchFilters } from '../search-analytics.service';
+
+type PartyCategoryTotals = Record<CabinCategory, number | null>;
+
+// Seconds a search response is served from cache; prices change with each webhook run
+const SEARCH_CACHE_TTL = 300;
+
+export interface SearchCacheOptions {
+  // Skip the cached response and cache the fresh one
+  refresh?: boolean;
+  // Seconds to cache the response for
+  ttl?: number;
+}
+
+export interface PriceCalendarPeriod {
+  period: string; // YYYY-MM for months, the Monday for weeks
+  startDate: string;
+  endDate: string;
+  sailings: number;
+  cheapest: Record<CabinCategory, number | null> & { overall: number | null };
+  cheapestCruiseId: string | null;
+}
+
+export interface PriceCalendar {
+  granularity: CalendarGranularity;
+  currency: string;
+  periods: PriceCalendarPeriod[];
+  // Period with the lowest overall price
+  cheapestPeriod: string | null;
+}
+
+export class SearchService {
+  /**
+   * Run a search. Throws SearchQueryError when the query is invalid.
+   *
+   * Results are ordered by searchSortKeys, which always end in the cruise id,
+   * so the order is deterministic. pagination.nextCursor continues after the
+   * last result regardless of what changed in between; page/offset still work.
+   *
+   * Responses are cached for SEARCH_CACHE_TTL seconds. refresh runs the
+   * search regardless and replaces the cached response, kept for ttl seconds.
+   */
+  async search(searchQuery: SearchQuery, options: SearchCacheOptions = {}) {
+    const startTime = Date.now();
+    const { filters, sortBy, sortOrder, page, limit } = searchQuery;
+
+    const problems = validateSearchQuery(searchQuery);
+    if (
+      filters.displayCurrency &&
+      !(await exchangeRateService.isSupportedCurrency(filters.displayCurrency))
+    ) {
+      problems.push(`No exchange rate for ${filters.displayCurrency}`);
+    }
+    if (problems.length > 0) {
+      throw new SearchQueryError(problems);
+    }
+
+    try {
+      const offset = (page - 1) * limit;
+
+      const cacheKey = this.cacheKey(searchQuery);
+      const cached =
+        filters.includeUnavailable || options.refresh
+          ? null
+          : await cacheManager.get<any>(cacheKey);
+      if (cached) {
+        return {
+          ...cached,
+          meta: {
+            ...cached.meta,
+            searchTime: Date.now() - startTime,
+            cacheHit: true,
+          },
+        };
+      }
+
+      // Set minimum departure date to 14 days from today
+      const minDepartureDate = getMinSailingDate();
+
+      // Price filters are compared in USD
+      const rates =
+        filters.displayCurrency || filters.minPrice || filters.maxPrice
+          ? await exchangeRateService.getRates()
+          : null;
+      const toUsd = (amount: number) =>
+        convertAmount(amount, filters.displayCurrency || 'USD', 'USD', rates) ?? amount;
+
+      const conditions = buildSearchConditions(filters, toUsd, minDepartureDate);
+      const near = nearPoint(filters);
+
+      // Keyset pagination: a cursor continues strictly after the previous page
+      const weights = getRecommendationWeights();
+      const sortKeys = searchSortKeys(sortBy, sortOrder, weights);
+      const cursor = searchQuery.cursor ? decodeSearchCursor(searchQuery.cursor) : null;
+      const pageConditions = cursor
+        ? [...conditions, buildCursorCondition(sortKeys, cursor.keys)]
+        : conditions;
+
+      // Build the main query - with JOINs for proper data
+      let query = db
+        .select({
+          id: cruises.id,
+          cruiseId: cruises.cruiseId,
+          name: cruises.name,
+          voyageCode: cruises.voyageCode,
+          sailingDate: cruises.sailingDate,
+          nights: cruises.nights,
+          seaDays: cruises.seaDays,
+          portDays: cruises.portDays,
+          cruiseLineId: cruises.cruiseLineId,
+          cruiseLineName: sql<string>`COALESCE(${cruiseLines.name}, 'Unknown')`,
+          cruiseLineCode: sql<string>`COALESCE(${cruiseLines.code}, '')`,
+          shipId: cruises.shipId,
+          shipName: sql<string>`COALESCE(${ships.name}, 'Unknown')`,
+          shipCode: sql<string>`COALESCE(${ships.code}, '')`,
+          shipImage: sql<string>`COALESCE(${ships.defaultShipImage}, '')`,
+          shipImage2k: sql<string>`COALESCE(${ships.defaultShipImage2k}, '')`,
+          shipImageHd: sql<string>`COALESCE(${ships.defaultShipImageHd}, '')`,
+          embarkPortId: cruises.embarkPortId,
+          embarkPortName: sql<string>`COALESCE(${ports.name}, 'Unknown')`,
+          disembarkPortId: cruises.disembarkPortId,
+          disembarkPortName: sql<string>`COALESCE(dp.name, 'Unknown')`,
+          regionIds: cruises.regionIds,
+          portIds: cruises.portIds,
+          // Pricing fields
+          currency: cruises.currency,
+          interiorPrice: cruises.interiorPrice,
+          oceanviewPrice: cruises.oceanviewPrice,
+          balconyPrice: cruises.balconyPrice,
+          suitePrice: cruises.suitePrice,
+          // Metadata
+          createdAt: cruises.createdAt,
+          updatedAt: cruises.updatedAt,
+          sortKeyValues: buildSortKeyValues(sortKeys),
+          factorScores: sortBy === 'recommended' ? buildFactorScores() : sql<null>`NULL`,
+          distanceMiles: near
+            ? sql<number>`ROUND(${buildDistanceMiles(near, sql`${ports.latitude}`, sql`${ports.longitude}`)}::numeric, 1)`
+            : sql<null>`NULL`,
+        })
+        .from(cruises)
+        .leftJoin(cruiseLines, eq(cruises.cruiseLineId, cruiseLines.id))
+        .leftJoin(ships, eq(cruises.shipId, ships.id))
+        .leftJoin(ports, eq(cruises.embarkPortId, ports.id))
+        .leftJoin(sql`ports dp`, sql`dp.id = ${cruises.disembarkPortId}`)
+        .leftJoin(cruiseRecommendationSignals, eq(cruiseRecommendationSignals.cruiseId, cruises.id))
+        .where(and(...pageConditions));
+
+      // Apply sorting
+      query = query.orderBy(...buildSearchOrder(sortKeys));
+
+      // Apply pagination, fetching one extra row to tell whether there's a next page
+      query = query.limit(limit + 1).offset(cursor ? 0 : offset);
+
+      // Execute query with timeout
+      logger.info('Executing database query...');
+      const queryPromise = query;
+      const timeoutPromise = new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Database query timeout after 30s')), 30000)
+      );
+
+      let results;
+      try {
+        results = await Promise.race([queryPromise, timeoutPromise]);
+        logger.info('Query executed successfully', { count: results.length });
+      } catch (error) {
+        logger.error('Query execution failed:', error);
+        throw new Error(
+          `Database query failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      const hasMore = results.length > limit;
+      results = results.slice(0, limit);
+      const nextCursor = hasMore
+        ? encodeSearchCursor({
+            sortBy,
+            sortOrder,
+            filters: filtersFingerprint(filters),
+            keys: results[results.length - 1].sortKeyValues,
+          })
+        : null;
+
+      // Get total count for pagination
+      const countQuery = db
+        .select({ count: sql<number>`count(*)` })
+        .from(cruises)
+        .leftJoin(cruiseLines, eq(cruises.cruiseLineId, cruiseLines.id))
+        .leftJoin(ships, eq(cruises.shipId, ships.id))
+        .where(and(...conditions));
+
+      const [{ count }] = await countQuery;
+      const total = Number(count);
+
+      // Format results
+      const formattedResults = results.map(cruise => ({
+        id: cruise.id,
+        cruiseId: cruise.cruiseId,
+        name: cruise.name,
+        voyageCode: cruise.voyageCode,
+        sailingDate: cruise.sailingDate,
+        returnDate: cruise.sailingDate
+          ? new Date(
+              new Date(cruise.sailingDate).getTime() + (cruise.nights || 0) * 24 * 60 * 60 * 1000
+            )
+              .toISOString()
+              .split('T')[0]
+          : null,
+        nights: cruise.nights,
+        seaDays: cruise.seaDays,
+        portDays: cruise.portDays,
+        cruiseLine: {
+          id: cruise.cruiseLineId,
+          name: cruise.cruiseLineName || 'Unknown',
+          code: cruise.cruiseLineCode,
+        },
+        ship: {
+          id: cruise.shipId,
+          name: cruise.shipName || 'Unknown',
+          code: cruise.shipCode,
+          defaultShipImage: cruise.shipImage,
+          defaultShipImage2k: cruise.shipImage2k,
+          defaultShipImageHd: cruise.shipImageHd,
+        },
+        embarkPort: {
+          id: cruise.embarkPortId,
+          name: cruise.embarkPortName || 'Unknown',
+        },
+        disembarkPort: {
+          id: cruise.disembarkPortId,
+          name: cruise.disembarkPortName || 'Unknown',
+        },
+        pricing: {
+          interior: cruise.interiorPrice ? parseFloat(cruise.interiorPrice) : null,
+          oceanview: cruise.oceanviewPrice ? parseFloat(cruise.oceanviewPrice) : null,
+          balcony: cruise.balconyPrice ? parseFloat(cruise.balconyPrice) : null,
+          suite: cruise.suitePrice ? parseFloat(cruise.suitePrice) : null,
+          currency: cruise.currency || 'USD',
+          lowestPrice: this.lowestOf(
+            [
+              cruise.interiorPrice,
+              cruise.oceanviewPrice,
+              cruise.balconyPrice,
+              cruise.suitePrice,
+            ].map(price => (price ? parseFloat(price) : null))
+          ),
+        },
+
+        regionIds: cruise.regionIds,
+        portIds: cruise.portIds,
+        ...(filters.targetDate && {
+          daysFromTarget: daysBetween(filters.targetDate, String(cruise.sailingDate)),
+        }),
+        // Miles from the near-me point to the embarkation port
+        ...(near && { distanceMiles: Number(cruise.distanceMiles) }),
+        ...(sortBy === 'recommended' && {
+          scoreBreakdown: toScoreBreakdown(
+            Number(cruise.sortKeyValues[0]),
+            cruise.factorScores,
+            weights
+          ),
+        }),
+      }));
+
+      // Price for the requested party alongside the headline prices, which are
+      // for two adults and are what sorting and the price filters use
+      const party = this.resolveParty(filters);
+      if (party) {
+        const partyTotals = await this.getPartyTotals(
+          formattedResults.map(cruise => String(cruise.id)),
+          party
+        );
+        const guests = party.adults + party.children;
+
+        formattedResults.forEach(cruise => {
+          const totals = partyTotals.get(String(cruise.id));
+          const perPerson = (total: number | null) =>
+            total !== null ? Math.round((total / guests) * 100) / 100 : null;
+
+          if (!totals) {
+            cruise.pricing.party = { ...party, priced: false };
+            return;
+          }
+
+          const lowestTotal = this.lowestOf(Object.values(totals));
+          cruise.pricing.party = {
+            ...party,
+            priced: true,
+            totals,
+            lowestTotal,
+            perPerson: {
+              interior: perPerson(totals.interior),
+              oceanview: perPerson(totals.oceanview),
+              balcony: perPerson(totals.balcony),
+              suite: perPerson(totals.suite),
+            },
+            lowestPerPerson: perPerson(lowestTotal),
+          };
+        });
+      }
+
+      if (filters.displayCurrency && rates) {
+        formattedResults.forEach(cruise => {
+          cruise.pricing = this.convertPricing(cruise.pricing, filters.displayCurrency, rates);
+        });
+      }
+
+      // Get facets if requested
+      let facets = null;
+      if (searchQuery.includeFacets) {
+        facets = await this.getSearchFacets(filters);
+      }
+
+      let calendar: PriceCalendar | null = null;
+      if (searchQuery.calendar) {
+        calendar = await this.getPriceCalendar(
+          conditions,
+          searchQuery.calendar,
+          filters.displayCurrency,
+          this.calendarWindow(filters, minDepartureDate)
+        );
+      }
+
+      const response = {
+        results: formattedResults,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasMore,
+          nextCursor,
+        },
+        meta: {
+          searchTime: Date.now() - startTime,
+          cacheHit: false,
+          filters: Object.keys(filters).filter(
+            k => filters[k as keyof SearchFilters] !== undefined
+          ),
+        },
+        ...(facets && { facets }),
+        ...(calendar && { calendar }),
+      };
+
+      if (!filters.includeUnavailable) {
+        await cacheManager.set(cacheKey, response, { ttl: options.ttl ?? SEARCH_CACHE_TTL });
+      }
+
+      return response;
+    } catch (error) {
+      logger.error('Search failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The date range the calendar should cover, so weeks or months without
+   * matching sailings still appear. Null when the search is open-ended.
+   */
+  private calendarWindow(
+    filters: SearchFilters,
+    minDepartureDate: string
+  ): { startDate: string; endDate: string } | null {
+    let startDate =
+      filters.startDate && filters.startDate > minDepartureDate
+        ? filters.startDate
+        : minDepartureDate;
+    let endDate = filters.endDate || null;
+
+    if (filters.targetDate) {
+      const window = flexibleDateWindow(filters.targetDate, filters.flexDays ?? DEFAULT_FLEX_DAYS);
+      if (window.startDate > startDate) startDate = window.startDate;
+      if (!endDate || window.endDate < endDate) endDate = window.endDate;
+    }
+
+    return endDate && endDate >= startDate ? { startDate, endDate } : null;
+  }
+
+  /**
+   * Cheapest headline (two-adult) price per cabin type for each week or month
+   * across every sailing matching the search, not just the current page.
+   * Prices are USD-normalized and converted to displayCurrency when given.
+   */
+  private async getPriceCalendar(
+    conditions: SQL[],
+    granularity: CalendarGranularity,
+    displayCurrency: string | undefined,
+    window: { startDate: string; endDate: string } | null
+  ): Promise<PriceCalendar> {
+    const unit = granularity === 'week' ? sql.raw(`'week'`) : sql.raw(`'month'`);
+    const rows = await db
+      .select({
+        periodStart: sql<string>`to_char(date_trunc(${unit}, ${cruises.sailingDate}), 'YYYY-MM-DD')`,
+        sailings: sql<number>`count(*)`,
+        interior: sql<string | null>`MIN(${cruises.interiorPriceUsd})`,
+        oceanview: sql<string | null>`MIN(${cruises.oceanviewPriceUsd})`,
+        balcony: sql<string | null>`MIN(${cruises.balconyPriceUsd})`,
+        suite: sql<string | null>`MIN(${cruises.suitePriceUsd})`,
+        overall: sql<string | null>`MIN(${cruises.cheapestPriceUsd})`,
+        cheapestCruiseId: sql<
+          string | null
+        >`(array_agg(${cruises.id} ORDER BY ${cruises.cheapestPriceUsd} ASC NULLS LAST))[1]`,
+      })
+      .from(cruises)
+      .where(and(...conditions))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
+    const currency = displayCurrency || 'USD';
+    const rates = displayCurrency ? await exchangeRateService.getRates() : null;
+    const price = (value: string | null) =>
+      value === null
+        ? null
+        : rates
+          ? convertAmount(parseFloat(value), 'USD', currency, rates)
+          : parseFloat(value);
+
+    const byStart = new Map<string, (typeof rows)[number]>(rows.map(row => [row.periodStart, row]));
+    const starts = new Set<string>(rows.map(row => row.periodStart));
+    if (window) {
+      // Fill in periods with no sailings
+      for (
+        let start = periodStart(window.startDate, granularity);
+        start <= window.endDate;
+        start = addDays(periodEnd(start, granularity), 1)
+      ) {
+        starts.add(start);
+      }
+    }
+
+    const periods: PriceCalendarPeriod[] = [...starts].sort().map(start => {
+      const row = byStart.get(start);
+      return {
+        period: granularity === 'month' ? start.slice(0, 7) : start,
+        startDate: start,
+        endDate: periodEnd(start, granularity),
+        sailings: Number(row?.sailings || 0),
+        cheapest: {
+          interior: price(row?.interior ?? null),
+          oceanview: price(row?.oceanview ?? null),
+          balcony: price(row?.balcony ?? null),
+          suite: price(row?.suite ?? null),
+          overall: price(row?.overall ?? null),
+        },
+        cheapestCruiseId: row?.cheapestCruiseId ? String(row.cheapestCruiseId) : null,
+      };
+    });
+
+    const cheapestPeriod = periods
+      .filter(period => period.cheapest.overall !== null)
+      .sort((a, b) => a.cheapest.overall - b.cheapest.overall)[0];
+
+    return {
+      granularity,
+      currency,
+      periods,
+      cheapestPeriod: cheapestPeriod?.period || null,
+    };
+  }
+
+  /**
+   * Convert a result's prices (and party totals) from its native currency
+   */
+  private convertPricing(pricing: any, displayCurrency: string, rates: Record<string, number>) {
+    const from = pricing.currency || 'USD';
+    const to = displayCurrency.toUpperCase();
+    const convert = (amount: number | null) => convertAmount(amount, from, to, rates);
+
+    // No rate for one side: leave the native prices rather than show wrong numbers
+    if (convert(1) === null) return pricing;
+
+    const converted = {
+      ...pricing,
+      interior: convert(pricing.interior),
+      oceanview: convert(pricing.oceanview),
+      balcony: convert(pricing.balcony),
+      suite: convert(pricing.suite),
+      lowestPrice: convert(pricing.lowestPrice),
+      currency: to,
+      originalCurrency: from,
+    };
+
+    if (pricing.party?.totals) {
+      const { totals, perPerson } = pricing.party;
+      converted.party = {
+        ...pricing.party,
+        lowestTotal: convert(pricing.party.lowestTotal),
+        totals: {
+          interior: convert(totals.interior),
+          oceanview: convert(totals.oceanview),
+          balcony: convert(totals.balcony),
+          suite: convert(totals.suite),
+        },
+        perPerson: {
+          interior: convert(perPerson.interior),
+          oceanview: convert(perPerson.oceanview),
+          balcony: convert(perPerson.balcony),
+          suite: convert(perPerson.suite),
+        },
+        lowestPerPerson: convert(pricing.party.lowestPerPerson),
+      };
+    }
+
+    return converted;
+  }
+
+  /**
+   * Cache key for a search. Filters are normalized first, so searches that
+   * differ only in case or selection order share an entry.
+   */
+  private cacheKey(searchQuery: SearchQuery): string {
+    const { filters, sortBy, sortOrder, page, limit, cursor, includeFacets, calendar } =
+      searchQuery;
+    return CacheKeys.search(
+      [
+        filtersFingerprint(normalizeSearchFilters(filters)),
+        sortBy,
+        sortOrder,
+        limit,
+        cursor ?? `page-${page}`,
+        includeFacets ? 'facets' : '',
+        calendar ?? '',
+      ].join(':')
+    );
+  }
+
+  /** The lowest of the given prices, or null when none are known */
+  private lowestOf(prices: (number | null)[]): number | null {
+    const known = prices.filter((price): price is number => price !== null);
+    return known.length > 0 ? Math.min(...known) : null;
+  }
+
+  private resolveParty(filters: SearchFilters): PartyComposition | null {
+    const { party } = filters;
+    if (!party || isDoubleOccupancy(party) || validateParty(party) !== null) return null;
+    return party;
+  }
+
+  /**
+   * Cheapest party total per cabin category for each cruise, from the
+   * per-guest fares in the pricing table. Cruises with no fare that fits the
+   * party are left out.
+   */
+  async getPartyTotals(
+    cruiseIds: string[],
+    party: PartyComposition
+  ): Promise<Map<string, PartyCategoryTotals>> {
+    const totalsByCruise = new Map<string, PartyCategoryTotals>();
+    if (cruiseIds.length === 0) return totalsByCruise;
+
+    const rows = await db
+      .select({
+        cruiseId: pricing.cruiseId,
+        cabinType: pricing.cabinType,
+        adultPrice: pricing.adultPrice,
+        childPrice: pricing.childPrice,
+        infantPrice: pricing.infantPrice,
+        singlePrice: pricing.singlePrice,
+        thirdAdultPrice: pricing.thirdAdultPrice,
+        fourthAdultPrice: pricing.fourthAdultPrice,
+        taxes: pricing.taxes,
+        ncf: pricing.ncf,
+        gratuity: pricing.gratuity,
+      })
+      .from(pricing)
+      .where(and(inArray(pricing.cruiseId, cruiseIds), eq(pricing.isAvailable, true)));
+
+    const toNumber = (value: string | null) => (value !== null ? parseFloat(value) : null);
+
+    for (const row of rows) {
+      const category = toCabinCategory(row.cabinType);
+      if (!category) continue;
+
+      const price = calculatePartyPrice(
+        {
+          adultPrice: toNumber(row.adultPrice),
+          childPrice: toNumber(row.childPrice),
+          infantPrice: toNumber(row.infantPrice),
+          singlePrice: toNumber(row.singlePrice),
+          thirdAdultPrice: toNumber(row.thirdAdultPrice),
+          fourthAdultPrice: toNumber(row.fourthAdultPrice),
+          taxes: toNumber(row.taxes),
+          ncf: toNumber(row.ncf),
+          gratuity: toNumber(row.gratuity),
+        },
+        party
+      );
+      if (!price) continue;
+
+      const totals = totalsByCruise.get(row.cruiseId) || {
+        interior: null,
+        oceanview: null,
+        balcony: null,
+        suite: null,
+      };
+      if (totals[category] === null || price.total < totals[category]) {
+        totals[category] = price.total;
+      }
+      totalsByCruise.set(row.cruiseId, totals);
+    }
+
+    return totalsByCruise;
+  }
+
+  private async priceRangeIn(
+    range: { min: number; max: number },
+    displayCurrency?: string
+  ): Promise<{ min: number; max: number; currency: string }> {
+    const target = (displayCurrency || 'USD').toUpperCase();
+    const rates = target === 'USD' ? { USD: 1 } : await exchangeRateService.getRates();
+    const min = convertAmount(Number(range.min), 'USD', target, rates);
+    const max = convertAmount(Number(range.max), 'USD', target, rates);
+
+    return min === null || max === null
+      ? { min: Number(range.min), max: Number(range.max), currency: 'USD' }
+      : { min: Math.floor(min), max: Math.ceil(max), currency: target };
+  }
+
+  /**
+   * Get search facets for filtering UI
+   */
+  async getSearchFacets(currentFilters: SearchFilters = {}) {
+    try {
+      // Port-of-call and drive-to facets run alongside the rest
+      const itineraryFacetsPromise = this.getItineraryFacets();
+      const driveToPortsPromise = this.getDriveToPorts(currentFilters);
+
+      const [cruiseLinesData, shipsData, departurePorts, regionsData, nightsRange, priceRange] =
+        await Promise.all([
+          // Get cruise lines with counts
+          db
+            .select({
+              id: cruiseLines.id,
+              name: cruiseLines.name,
+              count: sql<number>`count(DISTINCT ${cruises.id})`,
+            })
+            .from(cruiseLines)
+            .leftJoin(
+              cruises,
+              and(
+                eq(cruises.cruiseLineId, cruiseLines.id),
+                eq(cruises.isActive, true),
+                gte(cruises.sailingDate, getMinSailingDate())
+              )
+            )
+            .where(eq(cruiseLines.isActive, true))
+            .groupBy(cruiseLines.id, cruiseLines.name)
+            .having(sql`count(${cruises.id}) > 0`)
+            .orderBy(cruiseLines.name),
+
+          // Get ships with counts
+          db
+            .select({
+              id: ships.id,
+              name: ships.name,
+              cruiseLineId: ships.cruiseLineId,
+              count: sql<number>`count(DISTINCT ${cruises.id})`,
+            })
+            .from(ships)
+            .leftJoin(
+              cruises,
+              and(
+                eq(cruises.shipId, ships.id),
+                eq(cruises.isActive, true),
+                gte(cruises.sailingDate, getMinSailingDate())
+              )
+            )
+            .where(eq(ships.isActive, true))
+            .groupBy(ships.id, ships.name, ships.cruiseLineId)
+            .having(sql`count(${cruises.id}) > 0`)
+            .orderBy(ships.name),
+
+          // Get departure ports with counts
+          db
+            .select({
+              id: ports.id,
+              name: ports.name,
+              country: ports.country,
+              count: sql<number>`count(DISTINCT ${cruises.id})`,
+            })
+            .from(ports)
+            .leftJoin(
+              cruises,
+              and(
+                eq(cruises.embarkPortId, ports.id),
+                eq(cruises.isActive, true),
+                gte(cruises.sailingDate, getMinSailingDate())
+              )
+            )
+            .where(eq(ports.isActive, true))
+            .groupBy(ports.id, ports.name, ports.country)
+            .having(sql`count(${cruises.id}) > 0`)
+            .orderBy(desc(sql`count(${cruises.id})`), ports.name)
+            .limit(20),
+
+          // Get regions with counts
+          db
+            .select({
+              id: regions.id,
+              name: regions.name,
+              count: sql<number>`count(DISTINCT ${cruises.id})`,
+            })
+            .from(regions)
+            .leftJoin(
+              cruises,
+              and(
+                sql`(
+                ${cruises.regionIds} = ${regions.id}::text OR
+                ${cruises.regionIds} LIKE ${regions.id}::text || ',%' OR
+                ${cruises.regionIds} LIKE '%,' || ${regions.id}::text || ',%' OR
+                ${cruises.regionIds} LIKE '%,' || ${regions.id}::text
+              )`,
+                eq(cruises.isActive, true),
+                gte(cruises.sailingDate, getMinSailingDate())
+              )
+            )
+            .where(eq(regions.isActive, true))
+            .groupBy(regions.id, regions.name)
+            .having(sql`count(${cruises.id}) > 0`)
+            .orderBy(regions.name),
+
+          // Get nights range
+          db
+            .select({
+              min: sql<number>`MIN(nights)`,
+              max: sql<number>`MAX(nights)`,
+            })
+            .from(cruises)
+            .where(and(eq(cruises.isActive, true), gte(cruises.sailingDate, getMinSailingDate()))),
+
+          // Get price range (in USD)
+          db
+            .select({
+              min: sql<number>`MIN(LEAST(
+              COALESCE(interior_price_usd, 999999),
+              COALESCE(oceanview_price_usd, 999999),
+              COALESCE(balcony_price_usd, 999999),
+              COALESCE(suite_price_usd, 999999)
+            ))`,
+              max: sql<number>`MAX(GREATEST(
+              COALESCE(interior_price_usd, 0),
+              COALESCE(oceanview_price_usd, 0),
+              COALESCE(balcony_price_usd, 0),
+              COALESCE(suite_price_usd, 0)
+            ))`,
+            })
+            .from(cruises)
+            .where(
+              and(
+                eq(cruises.isActive, true),
+                gte(cruises.sailingDate, getMinSailingDate()),
+                or(
+                  isNotNull(cruises.interiorPriceUsd),
+                  isNotNull(cruises.oceanviewPriceUsd),
+                  isNotNull(cruises.balconyPriceUsd),
+                  isNotNull(cruises.suitePriceUsd)
+                )
+              )
+            ),
+        ]);
+
+      return {
+        cruiseLines: cruiseLinesData,
+        ships: shipsData,
+        departurePorts,
+        regions: regionsData,
+        nightsRange: nightsRange[0] || { min: 1, max: 30 },
+        priceRange: await this.priceRangeIn(
+          priceRange[0] || { min: 0, max: 10000 },
+          currentFilters.displayCurrency
+        ),
+        ...(await itineraryFacetsPromise),
+        driveToPorts: await driveToPortsPromise,
+        cabinTypes: [
+          { value: 'interior', label: 'Interior', available: true },
+          { value: 'oceanview', label: 'Ocean View', available: true },
+          { value: 'balcony', label: 'Balcony', available: true },
+          { value: 'suite', label: 'Suite', available: true },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to get search facets:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Departure ports within the radius of a near-me search, nearest first, for
+   * people who'd rather drive than fly. Empty without a location.
+   */
+  private async getDriveToPorts(filters: SearchFilters) {
+    const near = nearPoint(filters);
+    if (!near) return [];
+
+    const distance = buildDistanceMiles(near, sql`${ports.latitude}`, sql`${ports.longitude}`);
+    const rows = await db
+      .select({
+        id: ports.id,
+        name: ports.name,
+        country: ports.country,
+        distanceMiles: sql<number>`ROUND(${distance}::numeric, 1)`,
+        count: sql<number>`count(DISTINCT ${cruises.id})::int`,
+      })
+      .from(ports)
+      .innerJoin(
+        cruises,
+        and(
+          eq(cruises.embarkPortId, ports.id),
+          eq(cruises.isActive, true),
+          gte(cruises.sailingDate, getMinSailingDate())
+        )
+      )
+      .where(
+        and(
+          isNotNull(ports.latitude),
+          isNotNull(ports.longitude),
+          sql`${distance} <= ${filters.radiusMiles ?? DEFAULT_RADIUS_MILES}`
+        )
+      )
+      .groupBy(ports.id, ports.name, ports.country, ports.latitude, ports.longitude)
+      .orderBy(distance)
+      .limit(50);
+
+    return rows.map(row => ({ ...row, distanceMiles: Number(row.distanceMiles) }));
+  }
+
+  /**
+   * Ports of call, port/sea day ranges and overnight/tender counts for the
+   * itinerary filters
+   */
+  private async getItineraryFacets() {
+    const activeCruise = and(
+      eq(cruises.isActive, true),
+      gte(cruises.sailingDate, getMinSailingDate())
+    );
+
+    const [portsOfCall, itineraryStats] = await Promise.all([
+      db
+        .select({
+          id: ports.id,
+          name: ports.name,
+          country: ports.country,
+          count: sql<number>`count(DISTINCT ${cruises.id})`,
+        })
+        .from(cruisePortCalls)
+        .innerJoin(cruises, eq(cruises.id, cruisePortCalls.cruiseId))
+        .innerJoin(ports, eq(ports.id, cruisePortCalls.portId))
+        .where(
+          and(
+            activeCruise,
+            eq(cruisePortCalls.isEmbarkation, false),
+            eq(cruisePortCalls.isDisembarkation, false)
+          )
+        )
+        .groupBy(ports.id, ports.name, ports.country)
+        .orderBy(desc(sql`count(DISTINCT ${cruises.id})`), ports.name)
+        .limit(30),
+
+      db
+        .select({
+          minPortDays: sql<number>`MIN(${cruises.portDays})`,
+          maxPortDays: sql<number>`MAX(${cruises.portDays})`,
+          minSeaDays: sql<number>`MIN(${cruises.seaDays})`,
+          maxSeaDays: sql<number>`MAX(${cruises.seaDays})`,
+          overnightCount: sql<number>`count(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM cruise_port_calls pc
+            WHERE pc.cruise_id = ${cruises.id} AND pc.is_overnight
+          ))`,
+          // Only sailings we have port calls for can be vouched tender-free
+          noTenderCount: sql<number>`count(*) FILTER (WHERE ${cruises.portDays} IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM cruise_port_calls pc
+            WHERE pc.cruise_id = ${cruises.id} AND pc.is_tender
+          ))`,
+        })
+        .from(cruises)
+        .where(activeCruise),
+    ]);
+
+    const stats = itineraryStats[0];
+    return {
+      portsOfCall,
+      portDaysRange: { min: stats?.minPortDays ?? 0, max: stats?.maxPortDays ?? 0 },
+      seaDaysRange: { min: stats?.minSeaDays ?? 0, max: stats?.maxSeaDays ?? 0 },
+      overnightInPort: { count: Number(stats?.overnightCount || 0) },
+      excludeTenderPorts: { count: Number(stats?.noTenderCount || 0) },
+    };
+  }
+
+  /**
+   * Get popular cruises
+   */
+  async getPopularCruises(limit = 10) {
+    try {
+      const results = await db
+        .select({
+          id: cruises.id,
+          cruiseId: cruises.cruiseId,
+          name: cruises.name,
+          sailingDate: cruises.sailingDate,
+          nights: cruises.nights,
+          cruiseLineName: cruiseLines.name,
+          shipName: ships.name,
+          embarkPortName: sql<string>`ep.name`,
+          interiorPrice: cruises.interiorPrice,
+        })
+        .from(cruises)
+        .leftJoin(cruiseLines, eq(cruises.cruiseLineId, cruiseLines.id))
+        .leftJoin(ships, eq(cruises.shipId, ships.id))
+        .leftJoin(sql`ports ep`, sql`${cruises.embarkPortId} = ep.id`)
+        .where(
+          and(
+            eq(cruises.isActive, true),
+            gte(cruises.sailingDate, getMinSailingDate()),
+            isNotNull(cruises.interiorPrice)
+          )
+        )
+        .orderBy(asc(cruises.sailingDate), asc(cruises.interiorPrice))
+        .limit(limit);
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to get popular cruises:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Typo-tolerant, ranked suggestions across cruise lines, ships, ports,
+   * regions and cruise names for autocomplete
+   */
+  async getSuggestions(query: string, limit = 10): Promise<Suggestion[]> {
+    if (!query || query.length < 2) {
+      return [];
+    }
+
+    try {
+      return await suggestionIndexService.search(query, limit);
+    } catch (error) {
+      logger.error('Failed to get suggestions:', error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const searchService = new SearchService();
+
+export type SearchResponse = Awaited<ReturnType<SearchService['search']>>;
+export type SearchResult = SearchResponse['results'][number];
@@ -0,0 +1,164 @@
+import { randomBytes } from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { savedSearches, sharedSearches, type SavedSearch } from '../db/schema';
+import {
+  createSearchQuery,
+  filtersFingerprint,
+  validateSearchQuery,
+  SearchQueryError,
+  type SearchFilters,
+  type SearchQuery,
+  type SearchSortBy,
+  type SortOrder,
+} from './search';
+import { normalizeSearchFilters } from './search-analytics.service';
+
+const CODE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+// What a share stores: the query without its page or cursor
+export interface StoredSearchQuery {
+  filters: SearchFilters;
+  sortBy: SearchSortBy;
+  sortOrder: SortOrder;
+  limit: number;
+}
+
+export interface SharedSearchView {
+  code: string;
+  name: string | null;
+  query: StoredSearchQuery;
+  viewCount: number;
+  createdAt: Date;
+}
+
+/**
+ * Random base62 code; 8 characters is 62^8 codes, so collisions are rare
+ * enough to retry rather than check first
+ */
+export function generateShareCode(length = CODE_LENGTH): string {
+  const bytes = randomBytes(length);
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+/**
+ * Stores searches under short codes so agents can send clients a link to a
+ * result set, and lets signed-in users keep one as a saved search
+ */
+export class SharedSearchService {
+  /**
+   * Store the query, normalized the way search analytics records it, and
+   * return its code. Throws SearchQueryError when the query is invalid.
+   */
+  async share(
+    query: SearchQuery,
+    options: { name?: string; createdBy?: string } = {}
+  ): Promise<SharedSearchView> {
+    const problems = validateSearchQuery({ ...query, cursor: undefined });
+    if (problems.length > 0) {
+      throw new SearchQueryError(problems);
+    }
+
+    const stored: StoredSearchQuery = {
+      filters: normalizeSearchFilters(query.filters),
+      sortBy: query.sortBy,
+      sortOrder: query.sortOrder,
+      limit: query.limit,
+    };
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const [row] = await db
+        .insert(sharedSearches)
+        .values({
+          code: generateShareCode(),
+          name: options.name || null,
+          query: stored,
+          queryKey: `${filtersFingerprint(stored.filters)}:${stored.sortBy}:${stored.sortOrder}`,
+          createdBy: options.createdBy || null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (row) {
+        logger.info(`[SharedSearch] Created ${row.code}`, { queryKey: row.queryKey });
+        return this.toView(row);
+      }
+    }
+
+    throw new Error('Could not generate a unique share code');
+  }
+
+  /**
+   * The shared search for a code, counting the view. Null when unknown.
+   */
+  async resolve(code: string): Promise<SharedSearchView | null> {
+    const [row] = await db
+      .update(sharedSearches)
+      .set({
+        viewCount: sql`${sharedSearches.viewCount} + 1`,
+        lastViewedAt: new Date(),
+      })
+      .where(eq(sharedSearches.code, code))
+      .returning();
+
+    return row ? this.toView(row) : null;
+  }
+
+  /**
+   * The SearchQuery to run for a shared search
+   */
+  toSearchQuery(
+    shared: SharedSearchView,
+    options: Partial<Pick<SearchQuery, 'page' | 'cursor'>> = {}
+  ): SearchQuery {
+    const { filters, sortBy, sortOrder, limit } = shared.query;
+    return createSearchQuery(filters, { sortBy, sortOrder, limit, ...options });
+  }
+
+  /**
+   * Save a shared search to the user's saved searches with alerts off. The
+   * criteria use the SearchQuery parameter names, which parseSearchParams
+   * reads back.
+   */
+  async saveForUser(shared: SharedSearchView, userId: string, name?: string): Promise<SavedSearch> {
+    const { filters, sortBy, sortOrder } = shared.query;
+    const { party, ...criteria } = filters;
+
+    const [saved] = await db
+      .insert(savedSearches)
+      .values({
+        userId,
+        name: name || shared.name || `Shared search ${shared.code}`,
+        searchCriteria: { ...criteria, sortBy, sortOrder, sharedSearchCode: shared.code },
+        alertEnabled: false,
+        isActive: true,
+        adults: party?.adults ?? 2,
+        children: party?.children ?? 0,
+        childAges: party?.childAges || [],
+      })
+      .returning();
+
+    logger.info(`[SharedSearch] User ${userId} saved ${shared.code} as ${saved.id}`);
+    return saved;
+  }
+
+  private toView(row: typeof sharedSearches.$inferSelect): SharedSearchView {
+    return {
+      code: row.code,
+      name: row.name,
+      query: row.query as StoredSearchQuery,
+      viewCount: row.viewCount,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+// Singleton instance
+export const sharedSearchService = new SharedSearchService();
@@ -0,0 +1,295 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import logger from '../config/logger';
+import { getCruiseLineAliases } from '../config/cruise-line-mapping';
+import { createSlugFromCruiseData } from '../utils/slug.utils';
+import {
+  MIN_MATCH_SCORE,
+  matchScore,
+  normalizeText,
+  toMatchTarget,
+  type MatchTarget,
+} from '../utils/fuzzy-match';
+
+export type SuggestionType = 'cruise_line' | 'ship' | 'port' | 'region' | 'cruise';
+
+export interface Suggestion {
+  type: SuggestionType;
+  id: number | string;
+  name: string;
+  subtitle: string | null;
+  // Frontend path the suggestion opens
+  href: string;
+  // Upcoming sailings behind the suggestion
+  sailings: number;
+  score: number;
+  // Set when the query matched an alias (e.g. "NCL") rather than the name
+  matchedAlias?: string;
+}
+
+export interface SuggestionEntry {
+  suggestion: Omit<Suggestion, 'score' | 'matchedAlias'>;
+  targets: { alias: string | null; target: MatchTarget }[];
+}
+
+// Syncs land continuously; a slightly stale index is fine for autocomplete
+const INDEX_TTL_MS = 30 * 60 * 1000;
+
+const TEXT_WEIGHT = 0.75;
+const POPULARITY_WEIGHT = 0.25;
+
+// Breaks ties towards broader suggestions
+const TYPE_BONUS: Record<SuggestionType, number> = {
+  cruise_line: 0.03,
+  port: 0.02,
+  region: 0.02,
+  ship: 0.01,
+  cruise: 0,
+};
+
+export function toSuggestionEntry(
+  suggestion: SuggestionEntry['suggestion'],
+  aliases: string[] = []
+): SuggestionEntry {
+  return {
+    suggestion,
+    targets: [
+      { alias: null, target: toMatchTarget(suggestion.name) },
+      ...aliases.map(alias => ({ alias, target: toMatchTarget(alias) })),
+    ],
+  };
+}
+
+/**
+ * Rank entries against a query by text similarity, then popularity
+ */
+export function rankSuggestions(
+  entries: SuggestionEntry[],
+  query: string,
+  limit: number
+): Suggestion[] {
+  const normalized = normalizeText(query);
+  if (normalized.length < 2) return [];
+
+  const maxSailings = Math.max(1, ...entries.map(entry => entry.suggestion.sailings));
+  const ranked: Suggestion[] = [];
+
+  for (const entry of entries) {
+    let best = 0;
+    let matchedAlias: string | null = null;
+    for (const { alias, target } of entry.targets) {
+      const score = matchScore(normalized, target);
+      if (score > best) {
+        best = score;
+        matchedAlias = alias;
+      }
+    }
+    if (best < MIN_MATCH_SCORE) continue;
+
+    const popularity = Math.log1p(entry.suggestion.sailings) / Math.log1p(maxSailings);
+    const score = best * TEXT_WEIGHT + popularity * POPULARITY_WEIGHT;
+    ranked.push({
+      ...entry.suggestion,
+      score: Math.round((score + TYPE_BONUS[entry.suggestion.type]) * 1000) / 1000,
+      ...(matchedAlias && { matchedAlias }),
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * In-process autocomplete index over cruise lines, ships, ports, regions and
+ * cruise names with upcoming sailings. Built from the database on first use and
+ * rebuilt in the background once it is older than INDEX_TTL_MS, so newly
+ * synced sailings show up without a query per keystroke.
+ */
+export class SuggestionIndexService {
+  private entries: SuggestionEntry[] | null = null;
+  private builtAt = 0;
+  private building: Promise<SuggestionEntry[]> | null = null;
+
+  async search(query: string, limit = 10): Promise<Suggestion[]> {
+    const entries = await this.getEntries();
+    return rankSuggestions(entries, query, limit);
+  }
+
+  /**
+   * Drop the current index so the next search rebuilds it
+   */
+  invalidate(): void {
+    this.builtAt = 0;
+  }
+
+  async rebuild(): Promise<number> {
+    if (!this.building) {
+      this.building = this.buildEntries()
+        .then(entries => {
+          this.entries = entries;
+          this.builtAt = Date.now();
+          logger.info(`Rebuilt search suggestion index with ${entries.length} entries`);
+          return entries;
+        })
+        .finally(() => {
+          this.building = null;
+        });
+    }
+    return (await this.building).length;
+  }
+
+  private async getEntries(): Promise<SuggestionEntry[]> {
+    if (!this.entries) {
+      await this.rebuild();
+      return this.entries || [];
+    }
+
+    if (Date.now() - this.builtAt > INDEX_TTL_MS) {
+      // Serve the stale index while the new one builds
+      this.rebuild().catch(error => logger.error('Failed to rebuild suggestion index:', error));
+    }
+    return this.entries;
+  }
+
+  private async buildEntries(): Promise<SuggestionEntry[]> {
+    const [lines, shipRows, portRows, regionRows, cruiseRows] = await Promise.all([
+      db.execute(sql`
+        SELECT cl.id, cl.name, COUNT(c.id)::int AS sailings
+        FROM cruise_lines cl
+        JOIN cruises c ON c.cruise_line_id = cl.id
+          AND c.is_active = true AND c.sailing_date >= CURRENT_DATE
+        WHERE cl.is_active = true
+        GROUP BY cl.id, cl.name
+      `),
+      db.execute(sql`
+        SELECT s.id, s.name, cl.name AS line_name, COUNT(c.id)::int AS sailings
+        FROM ships s
+        JOIN cruises c ON c.ship_id = s.id
+          AND c.is_active = true AND c.sailing_date >= CURRENT_DATE
+        LEFT JOIN cruise_lines cl ON cl.id = s.cruise_line_id
+        WHERE s.is_active = true
+        GROUP BY s.id, s.name, cl.name
+      `),
+      db.execute(sql`
+        SELECT p.id, p.name, p.country, COUNT(DISTINCT calls.cruise_id)::int AS sailings
+        FROM ports p
+        JOIN (
+          SELECT c.embarkation_port_id AS port_id, c.id AS cruise_id
+          FROM cruises c
+          WHERE c.is_active = true AND c.sailing_date >= CURRENT_DATE
+          UNION ALL
+          SELECT pc.port_id, pc.cruise_id
+          FROM cruise_port_calls pc
+          JOIN cruises c ON c.id = pc.cruise_id
+          WHERE c.is_active = true AND c.sailing_date >= CURRENT_DATE
+        ) calls ON calls.port_id = p.id
+        WHERE p.is_active = true
+        GROUP BY p.id, p.name, p.country
+      `),
+      db.execute(sql`
+        SELECT r.id, r.name, COUNT(DISTINCT c.id)::int AS sailings
+        FROM regions r
+        JOIN (
+          SELECT id, TRIM(unnest(string_to_array(region_ids, ','))) AS region_id
+          FROM cruises
+          WHERE is_active = true AND sailing_date >= CURRENT_DATE
+        ) c ON c.region_id = r.id::text
+        WHERE r.is_active = true
+        GROUP BY r.id, r.name
+      `),
+      // One entry per line and cruise name, linking to its next sailing
+      db.execute(sql`
+        SELECT DISTINCT ON (c.cruise_line_id, c.name)
+          c.id, c.name, c.sailing_date, s.name AS ship_name, cl.name AS line_name,
+          COUNT(*) OVER (PARTITION BY c.cruise_line_id, c.name)::int AS sailings
+        FROM cruises c
+        LEFT JOIN ships s ON s.id = c.ship_id
+        LEFT JOIN cruise_lines cl ON cl.id = c.cruise_line_id
+        WHERE c.is_active = true AND c.sailing_date >= CURRENT_DATE AND c.name IS NOT NULL
+        ORDER BY c.cruise_line_id, c.name, c.sailing_date
+      `),
+    ]);
+
+    const entries: SuggestionEntry[] = [];
+
+    for (const row of lines as any[]) {
+      entries.push(
+        toSuggestionEntry(
+          {
+            type: 'cruise_line',
+            id: Number(row.id),
+            name: row.name,
+            subtitle: 'Cruise line',
+            href: `/cruises?cruiseLines=${row.id}`,
+            sailings: Number(row.sailings),
+          },
+          getCruiseLineAliases(Number(row.id))
+        )
+      );
+    }
+
+    for (const row of shipRows as any[]) {
+      entries.push(
+        toSuggestionEntry({
+          type: 'ship',
+          id: Number(row.id),
+          name: row.name,
+          subtitle: row.line_name || null,
+          href: `/cruises?ships=${row.id}`,
+          sailings: Number(row.sailings),
+        })
+      );
+    }
+
+    for (const row of portRows as any[]) {
+      entries.push(
+        toSuggestionEntry({
+          type: 'port',
+          id: Number(row.id),
+          name: row.name,
+          subtitle: row.country || null,
+          href: `/cruises?ports=${row.id}`,
+          sailings: Number(row.sailings),
+        })
+      );
+    }
+
+    for (const row of regionRows as any[]) {
+      entries.push(
+        toSuggestionEntry({
+          type: 'region',
+          id: Number(row.id),
+          name: row.name,
+          subtitle: 'Region',
+          href: `/cruises?regions=${row.id}`,
+          sailings: Number(row.sailings),
+        })
+      );
+    }
+
+    for (const row of cruiseRows as any[]) {
+      const sailingDate =
+        row.sailing_date instanceof Date
+          ? row.sailing_date.toISOString().split('T')[0]
+          : String(row.sailing_date);
+      entries.push(
+        toSuggestionEntry({
+          type: 'cruise',
+          id: String(row.id),
+          name: row.name,
+          subtitle: [row.line_name, row.ship_name].filter(Boolean).join(' · ') || null,
+          href: `/cruise/${createSlugFromCruiseData({
+            id: Number(row.id),
+            shipName: row.ship_name,
+            sailingDate,
+          })}`,
+          sailings: Number(row.sailings),
+        })
+      );
+    }
+
+    return entries;
+  }
+}
+
+// Singleton instance
+export const suggestionIndexService = new SuggestionIndexService();
@@ -0,0 +1,320 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { logger } from '../config/logger';
+import { cruises, cheapestPricing } from '../db/schema';
+import { getGratuityPolicy } from '../config/gratuity-policies';
+import { calculateObcFromGuestFares } from '../utils/obc-calculator';
+import {
+  partySize,
+  toCabinCategory,
+  type CabinCategory,
+  type PartyComposition,
+} from '../utils/party-pricing';
+import { cruiseService } from './cruise.service';
+import { promotionService } from './promotion.service';
+import { exchangeRateService } from './exchange-rate.service';
+
+export type CostLineItemKind = 'fare' | 'tax' | 'fee' | 'gratuity' | 'credit';
+
+export interface CostLineItem {
+  code: string;
+  kind: CostLineItemKind;
+  label: string;
+  // Credits are negative; they don't reduce what is paid, only what is spent onboard
+  amount: number;
+  due: 'booking' | 'onboard' | 'included';
+  note?: string;
+}
+
+export interface TotalCost {
+  cruiseId: string;
+  cabinType: CabinCategory;
+  party: PartyComposition;
+  currency: string;
+  nights: number;
+  rateCode?: string;
+  cabinCode?: string;
+  lineItems: CostLineItem[];
+  dueAtBooking: number;
+  dueOnboard: number;
+  allInTotal: number;
+  perPerson: number;
+  onboardCredit: number;
+  // Fares came from the per-cabin headline price, or some fare was a fallback
+  estimated: boolean;
+  source: 'pricing' | 'cheapest_pricing';
+}
+
+interface FareBreakdown {
+  guestFares: number[];
+  taxes: number;
+  ncf: number;
+  prepaidGratuity: number;
+  rateCode?: string;
+  cabinCode?: string;
+  currency: string;
+  estimated: boolean;
+  source: TotalCost['source'];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * An amount in a currency for display, e.g. £14.40
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+const CHEAPEST_COLUMNS: Record<CabinCategory, string> = {
+  interior: 'interior',
+  oceanview: 'oceanview',
+  balcony: 'balcony',
+  suite: 'suite',
+};
+
+/**
+ * All-in cost of a cruise for a party in one cabin category: fare, taxes and
+ * fees, gratuities per the line's policy, and the onboard credit and
+ * promotions we offer on top. The cruise page, quote emails and the payment
+ * page estimate all read totals from here. What gets charged is still the
+ * live Traveltek basket for the held cabin.
+ */
+export class TotalCostService {
+  async calculate(
+    cruiseId: string,
+    cabinType: string,
+    party: PartyComposition
+  ): Promise<TotalCost | null> {
+    const category = toCabinCategory(cabinType);
+    if (!category) return null;
+
+    const [cruise] = await db
+      .select({
+        id: cruises.id,
+        cruiseLineId: cruises.cruiseLineId,
+        nights: cruises.nights,
+        regionIds: cruises.regionIds,
+        currency: cruises.currency,
+      })
+      .from(cruises)
+      .where(eq(cruises.id, String(cruiseId)))
+      .limit(1);
+    if (!cruise) return null;
+
+    const fares =
+      (await this.getPartyFares(cruise.id, category, party)) ||
+      (await this.getHeadlineFares(cruise.id, category, party, cruise.currency || 'USD'));
+    if (!fares) return null;
+
+    const guests = partySize(party);
+    const fareTotal = round(fares.guestFares.reduce((sum, fare) => sum + fare, 0));
+    const lineItems: CostLineItem[] = [
+      { code: 'fare', kind: 'fare', label: 'Cruise fare', amount: fareTotal, due: 'booking' },
+      { code: 'taxes', kind: 'tax', label: 'Taxes', amount: fares.taxes, due: 'booking' },
+      {
+        code: 'ncf',
+        kind: 'fee',
+        label: 'Port and non-commissionable fees',
+        amount: fares.ncf,
+        due: 'booking',
+      },
+      await this.gratuityLineItem(cruise.cruiseLineId, cruise.nights || 0, category, guests, fares),
+    ];
+
+    const obc = calculateObcFromGuestFares(fares.guestFares);
+    if (obc > 0) {
+      lineItems.push({
+        code: 'zipsea_obc',
+        kind: 'credit',
+        label: 'Zipsea onboard credit',
+        amount: -obc,
+        due: 'onboard',
+      });
+    }
+
+    const promotion = await this.getPromotion(fareTotal, cruise.cruiseLineId, cruise.regionIds);
+    if (promotion) lineItems.push(promotion);
+
+    const sumDue = (due: CostLineItem['due']) =>
+      round(
+        lineItems
+          .filter(item => item.kind !== 'credit' && item.due === due)
+          .reduce((sum, item) => sum + item.amount, 0)
+      );
+    const dueAtBooking = sumDue('booking');
+    const dueOnboard = sumDue('onboard');
+    const allInTotal = round(dueAtBooking + dueOnboard);
+
+    return {
+      cruiseId: cruise.id,
+      cabinType: category,
+      party,
+      currency: fares.currency,
+      nights: cruise.nights || 0,
+      rateCode: fares.rateCode,
+      cabinCode: fares.cabinCode,
+      lineItems,
+      dueAtBooking,
+      dueOnboard,
+      allInTotal,
+      perPerson: round(allInTotal / guests),
+      onboardCredit: -round(
+        lineItems.filter(item => item.kind === 'credit').reduce((sum, item) => sum + item.amount, 0)
+      ),
+      estimated: fares.estimated,
+      source: fares.source,
+    };
+  }
+
+  /**
+   * Cheapest per-guest fares for the party from the pricing table
+   */
+  private async getPartyFares(
+    cruiseId: string,
+    category: CabinCategory,
+    party: PartyComposition
+  ): Promise<FareBreakdown | null> {
+    const estimate = await cruiseService.getQuoteEstimate(cruiseId, party);
+    const cabin = estimate.cheapestByCategory[category];
+    if (!cabin) return null;
+
+    return {
+      guestFares: cabin.guests.map(guest => guest.fare),
+      taxes: cabin.taxes,
+      ncf: cabin.ncf,
+      prepaidGratuity: cabin.gratuity,
+      rateCode: cabin.rateCode,
+      cabinCode: cabin.cabinCode,
+      currency: estimate.currency,
+      estimated: cabin.estimated,
+      source: 'pricing',
+    };
+  }
+
+  /**
+   * Fall back to the per-person headline price for the category. It is
+   * quoted for two adults, so every guest pays it and a solo traveller pays
+   * for two.
+   */
+  private async getHeadlineFares(
+    cruiseId: string,
+    category: CabinCategory,
+    party: PartyComposition,
+    currency: string
+  ): Promise<FareBreakdown | null> {
+    const [row] = await db
+      .select()
+      .from(cheapestPricing)
+      .where(eq(cheapestPricing.cruiseId, cruiseId))
+      .limit(1);
+    if (!row) return null;
+
+    const column = CHEAPEST_COLUMNS[category];
+    const price = parseFloat(row[`${column}Price`] || '0');
+    if (!(price > 0)) return null;
+
+    const taxes = parseFloat(row[`${column}Taxes`] || '0');
+    const ncf = parseFloat(row[`${column}Ncf`] || '0');
+    const gratuity = parseFloat(row[`${column}Gratuity`] || '0');
+    // Like pricing rows, the headline price is the fare; taxes and NCF are on top
+    const fare = round(price);
+    const payingGuests = Math.max(partySize(party), 2);
+
+    return {
+      guestFares: Array.from({ length: payingGuests }, () => fare),
+      taxes: round(taxes * payingGuests),
+      ncf: round(ncf * payingGuests),
+      prepaidGratuity: round(gratuity * payingGuests),
+      currency: row.currency || currency,
+      estimated: true,
+      source: 'cheapest_pricing',
+    };
+  }
+
+  private async gratuityLineItem(
+    cruiseLineId: number,
+    nights: number,
+    category: CabinCategory,
+    guests: number,
+    fares: FareBreakdown
+  ): Promise<CostLineItem> {
+    if (fares.prepaidGratuity > 0) {
+      return {
+        code: 'gratuities',
+        kind: 'gratuity',
+        label: 'Prepaid gratuities',
+        amount: fares.prepaidGratuity,
+        due: 'booking',
+      };
+    }
+
+    const { policy, known } = getGratuityPolicy(cruiseLineId);
+    if (policy.type === 'included') {
+      return {
+        code: 'gratuities',
+        kind: 'gratuity',
+        label: 'Gratuities included in fare',
+        amount: 0,
+        due: 'included',
+      };
+    }
+
+    const usdRate =
+      category === 'suite' ? policy.suiteDailyRate || policy.dailyRate : policy.dailyRate;
+    // Policy rates are in USD; without an exchange rate the fare currency
+    // gets the USD amount, which is flagged as an estimate
+    const converted = await exchangeRateService.convert(usdRate, 'USD', fares.currency);
+    if (converted === null) fares.estimated = true;
+    const dailyRate = converted ?? usdRate;
+    const rateText = formatMoney(dailyRate, converted === null ? 'USD' : fares.currency);
+
+    return {
+      code: 'gratuities',
+      kind: 'gratuity',
+      label: 'Daily gratuities',
+      amount: round(dailyRate * nights * guests),
+      due: 'onboard',
+      note:
+        known && converted !== null
+          ? `${rateText} per guest per night, added to your onboard account`
+          : `Estimated at ${rateText} per guest per night`,
+    };
+  }
+
+  private async getPromotion(
+    fareTotal: number,
+    cruiseLineId: number,
+    regionIds: string | null
+  ): Promise<CostLineItem | null> {
+    try {
+      const regionId = parseInt((regionIds || '').split(',')[0]);
+      const result = await promotionService.getBestPromotionForCruise(
+        fareTotal,
+        cruiseLineId,
+        isNaN(regionId) ? undefined : regionId
+      );
+      if (!result || result.calculatedValue <= 0) return null;
+
+      // Only onboard credit promotions have a cash value; others (dining, drinks) are perks
+      const isCredit = result.promotion.type === 'onboard_credit';
+      return {
+        code: isCredit ? 'promotion' : 'promotion_perk',
+        kind: 'credit',
+        label: result.displayMessage,
+        amount: isCredit ? -result.calculatedValue : 0,
+        due: 'onboard',
+      };
+    } catch (error) {
+      logger.warn(`Failed to load promotions for total cost:`, error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const totalCostService = new TotalCostService();
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { env } from '../../config/environment';
+import { traveltekLogger } from '../../config/logger';
+import { FtpDiscoverStage } from '../webhook-pipeline/stages/discover.stage';
+import type { TraveltekFtpClient } from './ftp-client';
+
+export interface RecordLineOptions {
+  // Cap on files captured per line, the full tree for a big line is several GB
+  limit?: number;
+  shipId?: number;
+}
+
+export interface RecordLineResult {
+  lineId: number;
+  recorded: string[];
+  failed: Array<{ path: string; error: string }>;
+}
+
+const REDACTED = '[REDACTED]';
+const CREDENTIAL_KEY = /pass(word|wd)?|secret|token|api_?key|session_?key|auth/i;
+const URL_USERINFO = /([a-z][a-z0-9+.-]*:\/\/)[^/\s:@]+(:[^/\s@]*)?@/gi;
+
+/**
+ * Remove anything credential-shaped from a recorded file: credential-looking
+ * keys, user:pass@ in URLs and any literal occurrence of our configured
+ * Traveltek secrets.
+ */
+export function stripCredentials(value: any, secrets: string[] = configuredSecrets()): any {
+  if (typeof value === 'string') {
+    let cleaned = value.replace(URL_USERINFO, '$1');
+    for (const secret of secrets) {
+      cleaned = cleaned.split(secret).join(REDACTED);
+    }
+    return cleaned;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => stripCredentials(item, secrets));
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = CREDENTIAL_KEY.test(key) ? REDACTED : stripCredentials(item, secrets);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function configuredSecrets(): string[] {
+  return [
+    env.TRAVELTEK_FTP_USER,
+    env.TRAVELTEK_FTP_PASSWORD,
+    env.TRAVELTEK_API_USERNAME,
+    env.TRAVELTEK_API_PASSWORD,
+  ].filter((secret): secret is string => !!secret && secret.length >= 4);
+}
+
+/**
+ * Captures real Traveltek files into a local directory using the same
+ * layout as the FTP server, so LocalFtpClient can replay them later.
+ */
+export class TraveltekFixtureRecorder {
+  constructor(
+    private source: TraveltekFtpClient,
+    private outputDir: string
+  ) {}
+
+  async recordLine(lineId: number, options: RecordLineOptions = {}): Promise<RecordLineResult> {
+    const discovered = await new FtpDiscoverStage(this.source).discover(lineId);
+    const files = discovered
+      .filter(file => !options.shipId || file.shipId === options.shipId)
+      .slice(0, options.limit ?? discovered.length);
+
+    const result: RecordLineResult = { lineId, recorded: [], failed: [] };
+
+    for (const file of files) {
+      try {
+        const contents = await this.source.downloadFile(file.path);
+        const cleaned = stripCredentials(JSON.parse(contents));
+
+        const target = path.join(this.outputDir, file.path);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, `${JSON.stringify(cleaned, null, 2)}\n`, 'utf8');
+
+        result.recorded.push(file.path);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        traveltekLogger.warn(`Failed to record fixture ${file.path}`, { error: message });
+        result.failed.push({ path: file.path, error: message });
+      }
+    }
+
+    traveltekLogger.info(
+      `Recorded ${result.recorded.length} fixtures for line ${lineId} into ${this.outputDir}`
+    );
+    return result;
+  }
+}
@@ -0,0 +1,183 @@
+import * as ftp from 'basic-ftp';
+import { Writable } from 'stream';
+import { env } from '../../config/environment';
+import { traveltekLogger } from '../../config/logger';
+
+/**
+ * A single entry returned when listing a Traveltek FTP directory.
+ */
+export interface FtpFileEntry {
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+}
+
+/**
+ * Minimal FTP surface the sync code needs. Everything that reads the
+ * [year]/[month]/[lineid]/[shipid]/[codetocruiseid].json tree goes through
+ * this interface so the live server can be swapped for another source.
+ */
+export interface TraveltekFtpClient {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  listFiles(path: string): Promise<FtpFileEntry[]>;
+  downloadFile(path: string): Promise<string>;
+}
+
+export interface FtpClientOptions {
+  host?: string;
+  user?: string;
+  password?: string;
+  maxConnections?: number;
+  timeout?: number;
+}
+
+interface PooledConnection {
+  client: ftp.Client;
+  inUse: boolean;
+  lastUsed: number;
+}
+
+/**
+ * Pooled basic-ftp client for the live Traveltek server.
+ */
+export class FtpClient implements TraveltekFtpClient {
+  private pool: PooledConnection[] = [];
+  private waiters: Array<(conn: PooledConnection) => void> = [];
+  private readonly options: Required<FtpClientOptions>;
+
+  constructor(options: FtpClientOptions = {}) {
+    this.options = {
+      host: options.host || env.TRAVELTEK_FTP_HOST || 'ftpeu1prod.traveltek.net',
+      user: options.user || env.TRAVELTEK_FTP_USER || '',
+      password: options.password || env.TRAVELTEK_FTP_PASSWORD || '',
+      maxConnections: options.maxConnections || 10,
+      timeout: options.timeout || 30000,
+    };
+  }
+
+  async connect(): Promise<void> {
+    if (this.pool.length > 0) {
+      return;
+    }
+
+    // Open one connection eagerly so credential problems surface immediately
+    this.pool.push(await this.openConnection());
+    traveltekLogger.info('Traveltek FTP client connected', { host: this.options.host });
+  }
+
+  async disconnect(): Promise<void> {
+    for (const conn of this.pool) {
+      conn.client.close();
+    }
+    this.pool = [];
+  }
+
+  async listFiles(path: string): Promise<FtpFileEntry[]> {
+    return this.withConnection(async client => {
+      const entries = await client.list(path);
+      return entries.map(entry => ({
+        name: entry.name,
+        type: entry.isDirectory ? ('directory' as const) : ('file' as const),
+        size: entry.size,
+      }));
+    });
+  }
+
+  async downloadFile(path: string): Promise<string> {
+    return this.withConnection(async client => {
+      const chunks: Buffer[] = [];
+      const writeStream = new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+
+      await client.downloadTo(writeStream, path);
+      return Buffer.concat(chunks).toString();
+    });
+  }
+
+  private async withConnection<T>(fn: (client: ftp.Client) => Promise<T>): Promise<T> {
+    const conn = await this.acquire();
+
+    try {
+      return await fn(conn.client);
+    } catch (error) {
+      // basic-ftp leaves the client unusable after control socket errors
+      if (conn.client.closed) {
+        this.pool = this.pool.filter(pooled => pooled !== conn);
+      }
+      throw error;
+    } finally {
+      this.release(conn);
+    }
+  }
+
+  private async acquire(): Promise<PooledConnection> {
+    const idle = this.pool.find(conn => !conn.inUse && !conn.client.closed);
+    if (idle) {
+      idle.inUse = true;
+      return idle;
+    }
+
+    // Drop connections the server has closed since they were last used
+    this.pool = this.pool.filter(conn => conn.inUse || !conn.client.closed);
+
+    if (this.pool.length < this.options.maxConnections) {
+      const conn = await this.openConnection();
+      conn.inUse = true;
+      this.pool.push(conn);
+      return conn;
+    }
+
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private release(conn: PooledConnection): void {
+    conn.lastUsed = Date.now();
+
+    const waiter = this.waiters.shift();
+    if (waiter && !conn.client.closed && this.pool.includes(conn)) {
+      waiter(conn);
+      return;
+    }
+
+    conn.inUse = false;
+    if (waiter) {
+      this.acquire().then(waiter, error => {
+        traveltekLogger.error('Failed to hand FTP connection to waiter', { error });
+      });
+    }
+  }
+
+  private async openConnection(): Promise<PooledConnection> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const client = new ftp.Client(this.options.timeout);
+      client.ftp.verbose = false;
+
+      try {
+        await client.access({
+          host: this.options.host,
+          user: this.options.user,
+          password: this.options.password,
+          secure: false,
+        });
+        return { client, inUse: false, lastUsed: Date.now() };
+      } catch (error) {
+        lastError = error;
+        client.close();
+        traveltekLogger.warn(`FTP connection attempt ${attempt}/3 failed`, {
+          host: this.options.host,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+      }
+    }
+
+    throw lastError;
+  }
+}
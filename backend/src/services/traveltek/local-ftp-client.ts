@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FtpFileEntry, TraveltekFtpClient } from './ftp-client';
+
+/**
+ * File-system stand-in for the Traveltek FTP server. Serves the same
+ * [year]/[month]/[lineid]/[shipid]/[codetocruiseid].json layout from a local
+ * directory, e.g. a fixture corpus captured by TraveltekFixtureRecorder.
+ */
+export class LocalFtpClient implements TraveltekFtpClient {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async connect(): Promise<void> {
+    const stats = await fs.stat(this.rootDir).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Local FTP root ${this.rootDir} does not exist`);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+
+  async listFiles(remotePath: string): Promise<FtpFileEntry[]> {
+    const dir = this.resolve(remotePath);
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    return Promise.all(
+      entries
+        .filter(entry => entry.isDirectory() || entry.isFile())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(async entry => ({
+          name: entry.name,
+          type: entry.isDirectory() ? ('directory' as const) : ('file' as const),
+          size: entry.isFile() ? (await fs.stat(path.join(dir, entry.name))).size : 0,
+        }))
+    );
+  }
+
+  async downloadFile(remotePath: string): Promise<string> {
+    return fs.readFile(this.resolve(remotePath), 'utf8');
+  }
+
+  /**
+   * Map an FTP-style absolute path onto the root. Normalising against "/"
+   * first means "../" segments can never climb out of it.
+   */
+  private resolve(remotePath: string): string {
+    return path.join(this.rootDir, path.posix.normalize(`/${remotePath}`));
+  }
+}
@@ -3,8 +3,8 @@
  * Prevents memory leaks and ensures efficient resource usage
  */
 
-import { WebhookProcessorOptimizedV2 } from './webhook-processor-optimized-v2.service';
 import logger from '../config/logger';
+import { getWebhookPipelineQueue } from './webhook-pipeline';
 
 export class WebhookMemoryManager {
   private static instance: WebhookMemoryManager;
@@ -85,16 +85,12 @@ export class WebhookMemoryManager {
 
   private async performCleanup() {
     try {
-      // 1. Clean up FTP connections
-      // TODO: Uncomment after applying patch to WebhookProcessorOptimizedV2
-      // await WebhookProcessorOptimizedV2.cleanupStaleConnections();
-
-      // 2. Force garbage collection if available
+      // 1. Force garbage collection if available
       if (global.gc) {
         global.gc();
       }
 
-      // 3. Clear any caches
+      // 2. Clear any caches
       this.clearCaches();
 
       logger.info('[MEMORY] Cleanup completed');
@@ -110,14 +106,10 @@ export class WebhookMemoryManager {
       // 1. Pause new job processing
       await this.pauseProcessing();
 
-      // 2. Close all FTP connections
-      // TODO: Uncomment after applying patch to WebhookProcessorOptimizedV2
-      // await WebhookProcessorOptimizedV2.closeAllConnections();
-
-      // 3. Clear all caches
+      // 2. Clear all caches
       this.clearCaches();
 
-      // 4. Force multiple garbage collections
+      // 3. Force multiple garbage collections
       if (global.gc) {
         for (let i = 0; i < 3; i++) {
           global.gc();
@@ -125,10 +117,10 @@ export class WebhookMemoryManager {
         }
       }
 
-      // 5. Wait a bit for memory to settle
+      // 4. Wait a bit for memory to settle
       await new Promise(resolve => setTimeout(resolve, 5000));
 
-      // 6. Resume processing
+      // 5. Resume processing
       await this.resumeProcessing();
 
       const memAfter = process.memoryUsage().rss / 1024 / 1024;
@@ -148,25 +140,29 @@ export class WebhookMemoryManager {
     const maxWait = 30000;
     const startTime = Date.now();
 
-    while (Date.now() - startTime < maxWait) {
-      // TODO: Uncomment after applying patch to WebhookProcessorOptimizedV2
-      // const activeJobs = await WebhookProcessorOptimizedV2.getActiveJobCount();
-      const activeJobs = 0; // Temporary placeholder
-      if (activeJobs === 0) {
-        break;
-      }
+    const queue = getWebhookPipelineQueue();
+    while (queue.getActiveJobCount() > 0 && Date.now() - startTime < maxWait) {
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
-    // 3. Exit process - Render will automatically restart
+    // 3. Close the queue once idle; jobs still running are picked up again
+    // by another worker when they stall
+    if (queue.getActiveJobCount() === 0) {
+      try {
+        await queue.close();
+      } catch (error) {
+        logger.error('[MEMORY] Failed to close the webhook queue:', error);
+      }
+    }
+
+    // 4. Exit process - Render will automatically restart
     logger.info('[MEMORY] Exiting for restart...');
     process.exit(0);
   }
 
   private async pauseProcessing() {
     try {
-      // TODO: Uncomment after applying patch to WebhookProcessorOptimizedV2
-      // await WebhookProcessorOptimizedV2.pauseQueue();
+      await getWebhookPipelineQueue().pause();
       logger.info('[MEMORY] Processing paused');
     } catch (error) {
       logger.error('[MEMORY] Failed to pause processing:', error);
@@ -175,8 +171,7 @@ export class WebhookMemoryManager {
 
   private async resumeProcessing() {
     try {
-      // TODO: Uncomment after applying patch to WebhookProcessorOptimizedV2
-      // await WebhookProcessorOptimizedV2.resumeQueue();
+      await getWebhookPipelineQueue().resume();
       logger.info('[MEMORY] Processing resumed');
     } catch (error) {
       logger.error('[MEMORY] Failed to resume processing:', error);
@@ -0,0 +1,170 @@
+/**
+ * Per rate/cabin/occupancy pricing rows from Traveltek cruise JSON.
+ *
+ * Traveltek sends prices in two shapes:
+ *   prices.{ratecode}.{cabinid}             → one price entry (standard occupancy)
+ *   prices.{ratecode}.{cabincode}.{occcode} → one price entry per occupancy
+ */
+
+import type { NewPricing } from '../../db/schema';
+
+// Standard 2-adult occupancy, used for the flat shape as the FTP sync did before
+export const DEFAULT_OCCUPANCY_CODE = '101';
+
+const RIVIERA_TRAVEL_LINE_ID = 329;
+
+const PRICE_FIELDS = [
+  'price',
+  'adultprice',
+  'childprice',
+  'infantprice',
+  'singleprice',
+  'thirdadultprice',
+  'fourthadultprice',
+];
+
+function isPriceEntry(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    PRICE_FIELDS.some(field => value[field] !== undefined && typeof value[field] !== 'object')
+  );
+}
+
+function toAmount(value: any, lineId: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  let parsed = parseFloat(String(value));
+  if (isNaN(parsed)) return null;
+
+  // Riviera Travel prices arrive scaled ×1000 from the FTP feed
+  if (lineId === RIVIERA_TRAVEL_LINE_ID) parsed = parsed / 1000;
+  return parsed;
+}
+
+function toDecimal(value: any, lineId: number): string | null {
+  const amount = toAmount(value, lineId);
+  return amount === null ? null : amount.toFixed(2);
+}
+
+// 0.00 for a passenger-type price means that fare is not offered
+function toOfferedDecimal(value: any, lineId: number): string | null {
+  const amount = toAmount(value, lineId);
+  return amount === null || amount <= 0 ? null : amount.toFixed(2);
+}
+
+function cabinCodeFor(key: string, cabins: any): string {
+  const cabin = cabins?.[key];
+  return String(cabin?.cabincode || key).slice(0, 10);
+}
+
+function toPricingRow(
+  cruiseId: string,
+  rateCode: string,
+  cabinCode: string,
+  occupancyCode: string,
+  entry: any,
+  cabinType: string | null,
+  currency: string,
+  lineId: number
+): NewPricing {
+  const basePrice = toAmount(entry.price, lineId);
+  const extras = [entry.taxes, entry.ncf, entry.gratuity].reduce<number>(
+    (sum, value) => sum + (toAmount(value, lineId) || 0),
+    0
+  );
+
+  return {
+    cruiseId,
+    rateCode: rateCode.slice(0, 50),
+    cabinCode,
+    occupancyCode: occupancyCode.slice(0, 10),
+    cabinType: entry.cabintype || cabinType,
+    basePrice: toDecimal(entry.price, lineId),
+    adultPrice: toOfferedDecimal(entry.adultprice, lineId),
+    childPrice: toOfferedDecimal(entry.childprice, lineId),
+    infantPrice: toOfferedDecimal(entry.infantprice, lineId),
+    singlePrice: toOfferedDecimal(entry.singleprice, lineId),
+    thirdAdultPrice: toOfferedDecimal(entry.thirdadultprice, lineId),
+    fourthAdultPrice: toOfferedDecimal(entry.fourthadultprice, lineId),
+    taxes: toDecimal(entry.taxes, lineId),
+    ncf: toDecimal(entry.ncf, lineId),
+    gratuity: toDecimal(entry.gratuity, lineId),
+    fuel: toDecimal(entry.fuel, lineId),
+    nonComm: toDecimal(entry.noncomm, lineId),
+    // Traveltek's price is the fare alone; taxes, NCF and gratuity come on top
+    totalPrice: basePrice === null ? null : (basePrice + extras).toFixed(2),
+    isAvailable: basePrice !== null && basePrice > 0,
+    currency: String(entry.currency || currency).slice(0, 3),
+  };
+}
+
+/**
+ * Flatten the prices tree into pricing rows, one per (rate, cabin, occupancy).
+ * Returns null when the file has no prices block at all, so callers can tell
+ * "no prices sent" apart from "every price was removed".
+ */
+export function extractCabinPricing(
+  data: any,
+  cruiseId: string,
+  lineId: number
+): NewPricing[] | null {
+  const prices = data?.prices;
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) return null;
+
+  const currency = data.currency || 'USD';
+  const rows = new Map<string, NewPricing>();
+
+  const add = (row: NewPricing) => {
+    const key = `${row.rateCode}|${row.cabinCode}|${row.occupancyCode}`;
+    const existing = rows.get(key);
+    // Two cabin ids can share a cabin code; keep the cheaper fare
+    if (!existing || parseFloat(row.basePrice || '0') < parseFloat(existing.basePrice || '0')) {
+      rows.set(key, row);
+    }
+  };
+
+  for (const [rateCode, rateData] of Object.entries<any>(prices)) {
+    if (!rateData || typeof rateData !== 'object') continue;
+
+    for (const [cabinKey, cabinData] of Object.entries<any>(rateData)) {
+      if (!cabinData || typeof cabinData !== 'object') continue;
+
+      const cabinCode = cabinCodeFor(cabinKey, data.cabins);
+      const cabinType = data.cabins?.[cabinKey]?.codtype || null;
+
+      if (isPriceEntry(cabinData)) {
+        add(
+          toPricingRow(
+            cruiseId,
+            rateCode,
+            cabinCode,
+            DEFAULT_OCCUPANCY_CODE,
+            cabinData,
+            cabinType,
+            currency,
+            lineId
+          )
+        );
+        continue;
+      }
+
+      for (const [occupancyCode, entry] of Object.entries<any>(cabinData)) {
+        if (!isPriceEntry(entry)) continue;
+        add(
+          toPricingRow(
+            cruiseId,
+            rateCode,
+            cabinCode,
+            occupancyCode,
+            entry,
+            cabinType,
+            currency,
+            lineId
+          )
+        );
+      }
+    }
+  }
+
+  return [...rows.values()];
+}
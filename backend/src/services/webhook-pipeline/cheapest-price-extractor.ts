@@ -0,0 +1,154 @@
+/**
+ * Cheapest-price extraction from Traveltek cruise JSON.
+ * Pulled out of the webhook processors so every sync path derives the
+ * headline cabin prices the same way.
+ */
+
+import { processNCLPricingData, getNCLCheapestPrice } from '../../utils/ncl-pricing-fix';
+
+export interface CheapestPrices {
+  interiorPrice: number | null;
+  oceanviewPrice: number | null;
+  balconyPrice: number | null;
+  suitePrice: number | null;
+  cheapestPrice: number | null;
+}
+
+// Riviera Travel prices arrive in pence×10 / cents×100 from the FTP feed
+const RIVIERA_TRAVEL_LINE_ID = 329;
+const NCL_LINE_ID = 17;
+
+export function parsePrice(value: any, lineId: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const rawValue = typeof value === 'object' && value.price !== undefined ? value.price : value;
+  let parsed = parseFloat(String(rawValue));
+  if (isNaN(parsed)) return null;
+
+  if (lineId === RIVIERA_TRAVEL_LINE_ID) {
+    parsed = parsed / 1000;
+  }
+
+  return parsed > 0 ? parsed : null;
+}
+
+function withOverallCheapest(prices: Omit<CheapestPrices, 'cheapestPrice'>): CheapestPrices {
+  const values = [
+    prices.interiorPrice,
+    prices.oceanviewPrice,
+    prices.balconyPrice,
+    prices.suitePrice,
+  ].filter((p): p is number => p !== null && p > 0);
+
+  return { ...prices, cheapestPrice: values.length > 0 ? Math.min(...values) : null };
+}
+
+/**
+ * Categorise a Traveltek cabin code / cabin type into one of our four buckets.
+ */
+export function categorizeCabin(
+  cabinCode: string,
+  cabinType = ''
+): 'interior' | 'oceanview' | 'balcony' | 'suite' | null {
+  const code = cabinCode.toUpperCase();
+  const type = cabinType.toLowerCase();
+
+  if (code.startsWith('I') || type.includes('interior') || type.includes('inside')) {
+    return 'interior';
+  }
+  if (code.startsWith('O') || type.includes('ocean') || type.includes('outside')) {
+    return 'oceanview';
+  }
+  if (code.startsWith('B') || type.includes('balcony') || type.includes('verandah')) {
+    return 'balcony';
+  }
+  if (code.startsWith('S') || type.includes('suite') || type.includes('penthouse')) {
+    return 'suite';
+  }
+  return null;
+}
+
+/**
+ * Walk the prices.{ratecode}.{cabincode}.{occupancy} tree and keep the
+ * cheapest price seen for each cabin category.
+ */
+export function extractFromNestedPrices(priceData: any, lineId: number): CheapestPrices {
+  const result = {
+    interiorPrice: null as number | null,
+    oceanviewPrice: null as number | null,
+    balconyPrice: null as number | null,
+    suitePrice: null as number | null,
+  };
+
+  if (!priceData || typeof priceData !== 'object') {
+    return withOverallCheapest(result);
+  }
+
+  const isNCL = lineId === NCL_LINE_ID;
+  const tree = isNCL ? processNCLPricingData(priceData, lineId) : priceData;
+
+  for (const rateCode of Object.keys(tree)) {
+    const cabins = tree[rateCode];
+    if (!cabins || typeof cabins !== 'object') continue;
+
+    for (const cabinCode of Object.keys(cabins)) {
+      const occupancies = cabins[cabinCode];
+      if (!occupancies || typeof occupancies !== 'object') continue;
+
+      let cabinPrice: number | null = null;
+      for (const occupancy of Object.keys(occupancies)) {
+        const priceInfo = occupancies[occupancy];
+        const price = isNCL ? getNCLCheapestPrice(priceInfo) : parsePrice(priceInfo?.price, lineId);
+        if (price && price > 0 && (cabinPrice === null || price < cabinPrice)) {
+          cabinPrice = price;
+        }
+      }
+      if (cabinPrice === null) continue;
+
+      const category = categorizeCabin(cabinCode, occupancies['101']?.cabintype || '');
+      if (!category) continue;
+
+      const key = `${category}Price` as keyof typeof result;
+      if (result[key] === null || cabinPrice < result[key]) {
+        result[key] = cabinPrice;
+      }
+    }
+  }
+
+  return withOverallCheapest(result);
+}
+
+/**
+ * Extract the four headline cabin prices from a Traveltek cruise file.
+ *
+ * Priority: the direct cheapestX fields are authoritative, cheapest.combined
+ * and cheapest.prices may hold stale cached data, and the nested prices tree
+ * is the last resort.
+ */
+export function extractCheapestPrices(data: any, lineId: number): CheapestPrices {
+  if (
+    data.cheapestinside !== undefined ||
+    data.cheapestoutside !== undefined ||
+    data.cheapestbalcony !== undefined ||
+    data.cheapestsuite !== undefined
+  ) {
+    return withOverallCheapest({
+      interiorPrice: parsePrice(data.cheapestinside, lineId),
+      oceanviewPrice: parsePrice(data.cheapestoutside, lineId),
+      balconyPrice: parsePrice(data.cheapestbalcony, lineId),
+      suitePrice: parsePrice(data.cheapestsuite, lineId),
+    });
+  }
+
+  const summary = data.cheapest?.combined || data.cheapest?.prices;
+  if (summary) {
+    return withOverallCheapest({
+      interiorPrice: parsePrice(summary.inside, lineId),
+      oceanviewPrice: parsePrice(summary.outside, lineId),
+      balconyPrice: parsePrice(summary.balcony, lineId),
+      suitePrice: parsePrice(summary.suite, lineId),
+    });
+  }
+
+  return extractFromNestedPrices(data.cachedprices || data.prices, lineId);
+}
@@ -0,0 +1,208 @@
+/**
+ * Field-level change detection between a stored cruise and an incoming
+ * Traveltek file. Pure: callers load the stored state and persist the result.
+ */
+
+import { extractCheapestPrices, type CheapestPrices } from './cheapest-price-extractor';
+
+export type CruiseChangeType =
+  | 'itinerary_changed'
+  | 'sailing_date_moved'
+  | 'ship_swapped'
+  | 'nights_changed'
+  | 'cabin_category_added'
+  | 'cabin_category_removed'
+  | 'price_increased'
+  | 'price_decreased'
+  | 'price_added'
+  | 'price_removed'
+  | 'sailing_withdrawn'
+  | 'sailing_reinstated';
+
+export type CabinType = 'interior' | 'oceanview' | 'balcony' | 'suite';
+
+export interface CruiseChange {
+  changeType: CruiseChangeType;
+  field: string;
+  cabinType?: CabinType;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface CruiseState {
+  shipId: number;
+  sailingDate: string;
+  nights: number | null;
+  raw: any;
+}
+
+export const PRICE_CHANGE_TYPES: CruiseChangeType[] = [
+  'price_increased',
+  'price_decreased',
+  'price_added',
+  'price_removed',
+];
+
+const CABIN_PRICE_FIELDS: Record<CabinType, keyof CheapestPrices> = {
+  interior: 'interiorPrice',
+  oceanview: 'oceanviewPrice',
+  balcony: 'balconyPrice',
+  suite: 'suitePrice',
+};
+
+// Ignore sub-cent noise from price parsing
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Ordered port ids the sailing calls at. The itinerary array is preferred as
+ * it keeps repeat calls and ordering; portids is the fallback.
+ */
+export function itineraryPortIds(raw: any): number[] {
+  if (Array.isArray(raw?.itinerary) && raw.itinerary.length > 0) {
+    return raw.itinerary
+      .map((day: any) => parseInt(day?.portid))
+      .filter((portId: number) => !isNaN(portId) && portId > 0);
+  }
+
+  const portIds = Array.isArray(raw?.portids) ? raw.portids : String(raw?.portids || '').split(',');
+  return portIds.map((id: any) => parseInt(id)).filter((id: number) => !isNaN(id) && id > 0);
+}
+
+function cabinCategories(raw: any): Map<string, string | null> {
+  const categories = new Map<string, string | null>();
+  if (!raw?.cabins || typeof raw.cabins !== 'object') return categories;
+
+  for (const [key, cabin] of Object.entries<any>(raw.cabins)) {
+    categories.set(String(cabin?.cabincode || key), cabin?.name || null);
+  }
+  return categories;
+}
+
+function sameList(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+function detectItineraryChanges(previous: CruiseState, next: CruiseState): CruiseChange[] {
+  const changes: CruiseChange[] = [];
+
+  if (previous.sailingDate !== next.sailingDate) {
+    changes.push({
+      changeType: 'sailing_date_moved',
+      field: 'sailing_date',
+      oldValue: previous.sailingDate,
+      newValue: next.sailingDate,
+    });
+  }
+
+  if (previous.nights !== null && next.nights !== null && previous.nights !== next.nights) {
+    changes.push({
+      changeType: 'nights_changed',
+      field: 'nights',
+      oldValue: previous.nights,
+      newValue: next.nights,
+    });
+  }
+
+  if (previous.shipId && next.shipId && previous.shipId !== next.shipId) {
+    changes.push({
+      changeType: 'ship_swapped',
+      field: 'ship_id',
+      oldValue: { id: previous.shipId, name: previous.raw?.shipcontent?.name || null },
+      newValue: { id: next.shipId, name: next.raw?.shipcontent?.name || null },
+    });
+  }
+
+  const previousPorts = itineraryPortIds(previous.raw);
+  const nextPorts = itineraryPortIds(next.raw);
+  if (previousPorts.length > 0 && nextPorts.length > 0 && !sameList(previousPorts, nextPorts)) {
+    changes.push({
+      changeType: 'itinerary_changed',
+      field: 'itinerary',
+      oldValue: previousPorts,
+      newValue: nextPorts,
+    });
+  }
+
+  return changes;
+}
+
+function detectCabinChanges(previous: CruiseState, next: CruiseState): CruiseChange[] {
+  const before = cabinCategories(previous.raw);
+  const after = cabinCategories(next.raw);
+
+  // Files occasionally arrive without the cabins block; that is not a removal
+  if (before.size === 0 || after.size === 0) return [];
+
+  const changes: CruiseChange[] = [];
+  for (const [code, name] of before) {
+    if (!after.has(code)) {
+      changes.push({
+        changeType: 'cabin_category_removed',
+        field: code,
+        oldValue: { code, name },
+        newValue: null,
+      });
+    }
+  }
+  for (const [code, name] of after) {
+    if (!before.has(code)) {
+      changes.push({
+        changeType: 'cabin_category_added',
+        field: code,
+        oldValue: null,
+        newValue: { code, name },
+      });
+    }
+  }
+  return changes;
+}
+
+function detectPriceChanges(
+  previous: CruiseState,
+  next: CruiseState,
+  lineId: number
+): CruiseChange[] {
+  const before = extractCheapestPrices(previous.raw || {}, lineId);
+  const after = extractCheapestPrices(next.raw || {}, lineId);
+  const changes: CruiseChange[] = [];
+
+  for (const [cabinType, field] of Object.entries(CABIN_PRICE_FIELDS) as [
+    CabinType,
+    keyof CheapestPrices,
+  ][]) {
+    const oldPrice = before[field];
+    const newPrice = after[field];
+
+    let changeType: CruiseChangeType | null = null;
+    if (oldPrice === null && newPrice !== null) {
+      changeType = 'price_added';
+    } else if (oldPrice !== null && newPrice === null) {
+      changeType = 'price_removed';
+    } else if (oldPrice !== null && newPrice !== null) {
+      if (newPrice - oldPrice > PRICE_TOLERANCE) changeType = 'price_increased';
+      if (oldPrice - newPrice > PRICE_TOLERANCE) changeType = 'price_decreased';
+    }
+
+    if (changeType) {
+      changes.push({ changeType, field, cabinType, oldValue: oldPrice, newValue: newPrice });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the stored state of a sailing with the incoming file and return
+ * every meaningful change. An empty list means nothing we track changed.
+ */
+export function detectCruiseChanges(
+  previous: CruiseState,
+  next: CruiseState,
+  lineId: number
+): CruiseChange[] {
+  return [
+    ...detectItineraryChanges(previous, next),
+    ...detectCabinChanges(previous, next),
+    ...detectPriceChanges(previous, next, lineId),
+  ];
+}
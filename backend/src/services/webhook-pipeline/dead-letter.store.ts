@@ -0,0 +1,164 @@
+import { and, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../../db/connection';
+import { webhookDeadLetters, type WebhookDeadLetter } from '../../db/schema/webhook-events';
+import type { PipelineStageName } from './types';
+
+export interface DeadLetterEntry {
+  webhookEventId?: number;
+  lineId: number;
+  filePath?: string;
+  cruiseId?: string;
+  stage: PipelineStageName;
+  errorMessage: string;
+  attempts: number;
+}
+
+export interface DeadLetterFilters {
+  status?: 'dead' | 'resolved';
+  lineId?: number;
+  webhookEventId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Persistence for webhook_dead_letters. A file that keeps failing across
+ * webhooks keeps a single open row rather than one per event.
+ */
+export class WebhookDeadLetterStore {
+  async record(entry: DeadLetterEntry): Promise<number> {
+    if (entry.filePath) {
+      const open = await db
+        .select({ id: webhookDeadLetters.id })
+        .from(webhookDeadLetters)
+        .where(
+          and(
+            eq(webhookDeadLetters.filePath, entry.filePath),
+            eq(webhookDeadLetters.status, 'dead')
+          )
+        )
+        .limit(1);
+
+      if (open.length > 0) {
+        await db
+          .update(webhookDeadLetters)
+          .set({
+            webhookEventId: entry.webhookEventId,
+            stage: entry.stage,
+            errorMessage: entry.errorMessage,
+            attempts: sql`${webhookDeadLetters.attempts} + ${entry.attempts}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(webhookDeadLetters.id, open[0].id));
+        return open[0].id;
+      }
+    }
+
+    const inserted = await db
+      .insert(webhookDeadLetters)
+      .values({
+        webhookEventId: entry.webhookEventId,
+        lineId: entry.lineId,
+        filePath: entry.filePath,
+        cruiseId: entry.cruiseId,
+        stage: entry.stage,
+        errorMessage: entry.errorMessage,
+        attempts: entry.attempts,
+      })
+      .returning({ id: webhookDeadLetters.id });
+    return inserted[0].id;
+  }
+
+  async list(
+    filters: DeadLetterFilters = {}
+  ): Promise<{ deadLetters: WebhookDeadLetter[]; total: number }> {
+    const conditions = [eq(webhookDeadLetters.status, filters.status || 'dead')];
+    if (filters.lineId) conditions.push(eq(webhookDeadLetters.lineId, filters.lineId));
+    if (filters.webhookEventId) {
+      conditions.push(eq(webhookDeadLetters.webhookEventId, filters.webhookEventId));
+    }
+    const where = and(...conditions);
+
+    const [deadLetters, count] = await Promise.all([
+      db
+        .select()
+        .from(webhookDeadLetters)
+        .where(where)
+        .orderBy(desc(webhookDeadLetters.updatedAt))
+        .limit(filters.limit || 50)
+        .offset(filters.offset || 0),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(webhookDeadLetters)
+        .where(where),
+    ]);
+
+    return { deadLetters, total: count[0]?.total || 0 };
+  }
+
+  async get(id: number): Promise<WebhookDeadLetter | null> {
+    const rows = await db
+      .select()
+      .from(webhookDeadLetters)
+      .where(eq(webhookDeadLetters.id, id))
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async markResolved(id: number): Promise<void> {
+    const now = new Date();
+    await db
+      .update(webhookDeadLetters)
+      .set({ status: 'resolved', resolvedAt: now, lastRedrivenAt: now, updatedAt: now })
+      .where(eq(webhookDeadLetters.id, id));
+  }
+
+  async markRedriveFailed(id: number, stage: PipelineStageName, errorMessage: string) {
+    const now = new Date();
+    await db
+      .update(webhookDeadLetters)
+      .set({
+        stage,
+        errorMessage,
+        attempts: sql`${webhookDeadLetters.attempts} + 1`,
+        lastRedrivenAt: now,
+        updatedAt: now,
+      })
+      .where(eq(webhookDeadLetters.id, id));
+  }
+
+  /**
+   * A later webhook processed these files successfully, so their open
+   * dead letters no longer need re-driving.
+   */
+  async resolveFiles(filePaths: string[]): Promise<void> {
+    if (filePaths.length === 0) return;
+
+    const now = new Date();
+    await db
+      .update(webhookDeadLetters)
+      .set({ status: 'resolved', resolvedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(webhookDeadLetters.status, 'dead'),
+          isNotNull(webhookDeadLetters.filePath),
+          inArray(webhookDeadLetters.filePath, filePaths)
+        )
+      );
+  }
+
+  async countOpenForEvent(webhookEventId: number): Promise<number> {
+    const result = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(webhookDeadLetters)
+      .where(
+        and(
+          eq(webhookDeadLetters.webhookEventId, webhookEventId),
+          eq(webhookDeadLetters.status, 'dead')
+        )
+      );
+    return result[0]?.total || 0;
+  }
+}
+
+export const webhookDeadLetterStore = new WebhookDeadLetterStore();
@@ -0,0 +1,89 @@
+import { webhookPipelineConfig, type WebhookPipelineConfig } from '../../config/environment';
+import { FtpClient, type TraveltekFtpClient } from '../traveltek/ftp-client';
+import { LocalFtpClient } from '../traveltek/local-ftp-client';
+import { WebhookPipeline } from './webhook-pipeline';
+import { WebhookPipelineQueue } from './webhook-pipeline.queue';
+import { FtpDiscoverStage } from './stages/discover.stage';
+import { FtpFetchStage } from './stages/fetch.stage';
+import { TraveltekJsonParseStage } from './stages/parse.stage';
+import { AlwaysChangedDiffStage, ChecksumDiffStage, FieldDiffStage } from './stages/diff.stage';
+import { DrizzleUpsertStage } from './stages/upsert.stage';
+import { NoopSnapshotStage, PriceHistorySnapshotStage } from './stages/snapshot.stage';
+import { AlertEventPublishStage, NoopPublishStage } from './stages/publish.stage';
+import { LogNotifyStage, SlackNotifyStage } from './stages/notify.stage';
+import type { DiffStage, PipelineStages } from './types';
+
+export * from './types';
+export { WebhookPipeline, PipelineStageError } from './webhook-pipeline';
+export { WebhookPipelineQueue } from './webhook-pipeline.queue';
+export type { EnqueueResult, RedriveResult } from './webhook-pipeline.queue';
+export { webhookDeadLetterStore } from './dead-letter.store';
+export type { DeadLetterFilters } from './dead-letter.store';
+export * from './webhook-event-lifecycle';
+export * from './cruise-change-detector';
+export * from './price-change-events';
+
+/**
+ * The FTP tree the pipeline reads from: the live server or a local copy.
+ */
+export function createSourceClient(
+  config: WebhookPipelineConfig = webhookPipelineConfig
+): TraveltekFtpClient {
+  if (config.source === 'local') {
+    return new LocalFtpClient(config.localDir);
+  }
+  return new FtpClient({ maxConnections: config.ftpConnections });
+}
+
+function createDiffStage(config: WebhookPipelineConfig): DiffStage {
+  switch (config.diff) {
+    case 'always':
+      return new AlwaysChangedDiffStage();
+    case 'checksum':
+      return new ChecksumDiffStage();
+    default:
+      return new FieldDiffStage();
+  }
+}
+
+/**
+ * Build the default stage set for the given config. Individual stages can be
+ * overridden, which is how tests swap in recorded files or in-memory stores.
+ */
+export function createPipelineStages(
+  config: WebhookPipelineConfig = webhookPipelineConfig,
+  overrides: Partial<PipelineStages> & { client?: TraveltekFtpClient } = {}
+): PipelineStages {
+  const { client: clientOverride, ...stageOverrides } = overrides;
+  const client = clientOverride || createSourceClient(config);
+
+  return {
+    discover: new FtpDiscoverStage(client),
+    fetch: new FtpFetchStage(client),
+    parse: new TraveltekJsonParseStage(),
+    diff: createDiffStage(config),
+    upsert: new DrizzleUpsertStage(),
+    snapshot:
+      config.snapshot === 'none' ? new NoopSnapshotStage() : new PriceHistorySnapshotStage(),
+    publish: config.publish === 'none' ? new NoopPublishStage() : new AlertEventPublishStage(),
+    notify: config.notify === 'log' ? new LogNotifyStage() : new SlackNotifyStage(),
+    ...stageOverrides,
+  };
+}
+
+export function createWebhookPipeline(
+  config: WebhookPipelineConfig = webhookPipelineConfig,
+  overrides: Partial<PipelineStages> & { client?: TraveltekFtpClient } = {}
+): WebhookPipeline {
+  return new WebhookPipeline(createPipelineStages(config, overrides));
+}
+
+// Lazily created so importing the module doesn't open FTP or Redis connections
+let defaultQueue: WebhookPipelineQueue | null = null;
+
+export function getWebhookPipelineQueue(): WebhookPipelineQueue {
+  if (!defaultQueue) {
+    defaultQueue = new WebhookPipelineQueue(createWebhookPipeline());
+  }
+  return defaultQueue;
+}
@@ -0,0 +1,72 @@
+/**
+ * Port calls from the Traveltek itinerary array.
+ *
+ * Each itinerary entry is one day: { day, portid, name, arrivetime, departtime, overnight }.
+ * Sea days carry portid 0 (or none) and are skipped. The first and last port
+ * days are embarkation and disembarkation; a ship that is in the same port on
+ * consecutive days (or flagged overnight) stays there overnight.
+ */
+
+import type { NewCruisePortCall } from '../../db/schema';
+
+export interface PortCallSummary {
+  // Days in port between embarkation and disembarkation
+  portDays: number;
+  seaDays: number;
+}
+
+const isYes = (value: any): boolean => value === true || value === 'Y' || value === 'y';
+
+const toTime = (value: any): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value).slice(0, 10);
+
+/**
+ * Returns null when the file carries no itinerary, so callers can leave
+ * existing rows alone rather than wiping them.
+ */
+export function extractPortCalls(data: any, cruiseId: string): NewCruisePortCall[] | null {
+  if (!Array.isArray(data?.itinerary) || data.itinerary.length === 0) return null;
+
+  const portDays = data.itinerary
+    .map((day: any, index: number) => ({
+      day,
+      dayNumber: parseInt(day?.day) || index + 1,
+      portId: parseInt(day?.portid),
+    }))
+    .filter(entry => !isNaN(entry.portId) && entry.portId > 0);
+
+  return portDays.map((entry, index) => {
+    const next = portDays[index + 1];
+    const isLast = index === portDays.length - 1;
+    const sameNextDay =
+      !!next && next.portId === entry.portId && next.dayNumber === entry.dayNumber + 1;
+
+    return {
+      cruiseId,
+      callOrder: index + 1,
+      dayNumber: entry.dayNumber,
+      portId: entry.portId,
+      portName: entry.day.name || entry.day.itineraryname || null,
+      arrivalTime: toTime(entry.day.arrivetime || entry.day.arrivaltime),
+      departureTime: toTime(entry.day.departtime || entry.day.departuretime),
+      isEmbarkation: index === 0,
+      isDisembarkation: isLast && index > 0,
+      isOvernight: !isLast && (isYes(entry.day.overnight) || sameNextDay),
+      isTender: isYes(entry.day.tender) || isYes(entry.day.istender),
+    };
+  });
+}
+
+/**
+ * Port and sea day counts for a sailing, for the cruises row
+ */
+export function summarizePortCalls(calls: NewCruisePortCall[], nights: number): PortCallSummary {
+  const portDays = new Set(
+    calls.filter(call => !call.isEmbarkation && !call.isDisembarkation).map(call => call.dayNumber)
+  ).size;
+
+  return {
+    portDays,
+    seaDays: Math.max(nights - 1 - portDays, 0),
+  };
+}
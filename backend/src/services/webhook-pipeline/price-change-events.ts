@@ -0,0 +1,89 @@
+/**
+ * "Cruise prices changed" events for the headline cabin prices. Pure: the
+ * pipeline builds them from the diff and hands them to the publish stage.
+ */
+
+import { PRICE_CHANGE_TYPES, type CabinType } from './cruise-change-detector';
+import type {
+  CabinPriceChange,
+  CruisePriceChangedEvent,
+  DiffResult,
+  ParsedCruiseFile,
+  PipelineContext,
+} from './types';
+
+const CHEAPEST_FIELDS: Record<
+  CabinType,
+  'interiorPrice' | 'oceanviewPrice' | 'balconyPrice' | 'suitePrice'
+> = {
+  interior: 'interiorPrice',
+  oceanview: 'oceanviewPrice',
+  balcony: 'balconyPrice',
+  suite: 'suitePrice',
+};
+
+const toPrice = (value: unknown): number | null => {
+  const price = value === null || value === undefined ? NaN : Number(value);
+  return price > 0 ? price : null;
+};
+
+/**
+ * The cabin prices a file changed. A new sailing has every price it arrived
+ * with as added; otherwise the price changes the diff stage found. Diff
+ * stages that don't compare fields give none, leaving those sailings to the
+ * daily alert run.
+ */
+export function cabinPriceChanges(parsed: ParsedCruiseFile, diff: DiffResult): CabinPriceChange[] {
+  if (diff.changes.includes('new_cruise')) {
+    if (!parsed.cheapest) return [];
+
+    return (Object.entries(CHEAPEST_FIELDS) as [CabinType, keyof typeof parsed.cheapest][])
+      .map(([cabinType, field]) => ({
+        cabinType,
+        oldPrice: null,
+        newPrice: toPrice(parsed.cheapest[field]),
+      }))
+      .filter(change => change.newPrice !== null);
+  }
+
+  return (diff.fieldChanges || [])
+    .filter(change => change.cabinType && PRICE_CHANGE_TYPES.includes(change.changeType))
+    .map(change => ({
+      cabinType: change.cabinType,
+      oldPrice: toPrice(change.oldValue),
+      newPrice: toPrice(change.newValue),
+    }));
+}
+
+/**
+ * The event to publish for a written cruise, or null when its headline
+ * prices didn't change
+ */
+export function priceChangedEvent(
+  cruiseId: string,
+  parsed: ParsedCruiseFile,
+  diff: DiffResult,
+  context: PipelineContext
+): CruisePriceChangedEvent | null {
+  const changes = cabinPriceChanges(parsed, diff);
+  if (changes.length === 0) return null;
+
+  return {
+    cruiseId,
+    lineId: context.lineId,
+    runId: context.runId,
+    webhookEventId: context.webhookEventId,
+    changes,
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Changes that can start matching an alert: a price that appeared or went down
+ */
+export function priceDecreases(event: CruisePriceChangedEvent): CabinPriceChange[] {
+  return event.changes.filter(
+    change =>
+      change.newPrice !== null && (change.oldPrice === null || change.newPrice < change.oldPrice)
+  );
+}
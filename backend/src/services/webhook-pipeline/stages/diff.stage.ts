@@ -0,0 +1,180 @@
+import * as crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../../../db/connection';
+import { cruises } from '../../../db/schema/cruises';
+import { detectCruiseChanges, itineraryPortIds, type CruiseState } from '../cruise-change-detector';
+import type { DiffResult, DiffStage, ParsedCruiseFile } from '../types';
+
+/**
+ * Hash of the pricing/availability fields we care about. Everything else in
+ * a Traveltek file changes far less often than prices do.
+ */
+export function pricingChecksum(data: any): string {
+  const relevant = {
+    cheapest: data?.cheapest,
+    prices: data?.prices,
+    cabins: data?.cabins,
+    availabilitystatus: data?.availabilitystatus,
+    soldout: data?.soldout,
+    cheapestinside: data?.cheapestinside,
+    cheapestoutside: data?.cheapestoutside,
+    cheapestbalcony: data?.cheapestbalcony,
+    cheapestsuite: data?.cheapestsuite,
+  };
+
+  return crypto.createHash('md5').update(JSON.stringify(relevant)).digest('hex');
+}
+
+/**
+ * Skips files whose pricing checksum matches what we last stored.
+ * Checksums are cached in memory; on a miss the stored raw_data is hashed.
+ * A changed file's checksum is cached once the pipeline commits it.
+ */
+export class ChecksumDiffStage implements DiffStage {
+  private cache = new Map<string, string>();
+
+  constructor(private maxCacheSize = 50000) {}
+
+  async diff(parsed: ParsedCruiseFile): Promise<DiffResult> {
+    const cruiseId = String(parsed.cruise.id);
+    const incoming = pricingChecksum(parsed.raw);
+
+    let stored = this.cache.get(cruiseId);
+    if (stored === undefined) {
+      const existing = await db
+        .select({ rawData: cruises.rawData })
+        .from(cruises)
+        .where(eq(cruises.id, cruiseId))
+        .limit(1);
+
+      if (existing.length === 0) {
+        return { changed: true, changes: ['new_cruise'], checksum: incoming };
+      }
+      stored = pricingChecksum(existing[0].rawData);
+    }
+
+    if (stored === incoming) {
+      this.remember(cruiseId, incoming);
+      return { changed: false, changes: [] };
+    }
+    return { changed: true, changes: ['data_changed'], checksum: incoming };
+  }
+
+  commit(cruiseId: string, checksum: string): void {
+    this.remember(cruiseId, checksum);
+  }
+
+  private remember(cruiseId: string, checksum: string): void {
+    if (this.cache.size >= this.maxCacheSize) {
+      this.cache.clear();
+    }
+    this.cache.set(cruiseId, checksum);
+  }
+}
+
+/**
+ * Hash of everything FieldDiffStage tracks: pricing plus the itinerary,
+ * ship, sailing date and length.
+ */
+export function trackedChecksum(parsed: ParsedCruiseFile): string {
+  const tracked = {
+    pricing: pricingChecksum(parsed.raw),
+    ports: itineraryPortIds(parsed.raw),
+    shipId: parsed.cruise.shipId,
+    sailingDate: parsed.cruise.sailingDate,
+    nights: parsed.cruise.nights,
+  };
+
+  return crypto.createHash('md5').update(JSON.stringify(tracked)).digest('hex');
+}
+
+/**
+ * Compares incoming files field by field against the stored cruise row so
+ * downstream stages know what actually changed. A tracked checksum is cached
+ * in memory, once the file is stored, so unchanged files don't hit the
+ * database.
+ */
+export class FieldDiffStage implements DiffStage {
+  private cache = new Map<string, string>();
+
+  constructor(private maxCacheSize = 50000) {}
+
+  async diff(parsed: ParsedCruiseFile): Promise<DiffResult> {
+    const cruiseId = String(parsed.cruise.id);
+    const incoming = trackedChecksum(parsed);
+
+    if (this.cache.get(cruiseId) === incoming) {
+      return { changed: false, changes: [] };
+    }
+
+    const existing = await db
+      .select({
+        shipId: cruises.shipId,
+        sailingDate: cruises.sailingDate,
+        nights: cruises.nights,
+        rawData: cruises.rawData,
+      })
+      .from(cruises)
+      .where(eq(cruises.id, cruiseId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return {
+        changed: true,
+        changes: ['new_cruise'],
+        fieldChanges: [],
+        pricingChanged: true,
+        checksum: incoming,
+      };
+    }
+
+    const stored = existing[0];
+    const previous: CruiseState = {
+      shipId: stored.shipId,
+      sailingDate: String(stored.sailingDate),
+      nights: stored.nights,
+      raw: stored.rawData,
+    };
+    const next: CruiseState = {
+      shipId: parsed.cruise.shipId,
+      sailingDate: String(parsed.cruise.sailingDate),
+      nights: parsed.cruise.nights ?? null,
+      raw: parsed.raw,
+    };
+
+    const fieldChanges = detectCruiseChanges(previous, next, parsed.file.lineId);
+    // Prices can move below the cheapest-per-type level (other rate codes),
+    // which still needs the row and price history updated
+    const pricingChanged = pricingChecksum(stored.rawData) !== pricingChecksum(parsed.raw);
+
+    if (fieldChanges.length === 0 && !pricingChanged) {
+      this.remember(cruiseId, incoming);
+      return { changed: false, changes: [] };
+    }
+
+    const changes = [...new Set(fieldChanges.map(change => change.changeType as string))];
+    if (changes.length === 0) changes.push('pricing_detail');
+
+    return { changed: true, changes, fieldChanges, pricingChanged, checksum: incoming };
+  }
+
+  commit(cruiseId: string, checksum: string): void {
+    this.remember(cruiseId, checksum);
+  }
+
+  private remember(cruiseId: string, checksum: string): void {
+    if (this.cache.size >= this.maxCacheSize) {
+      this.cache.clear();
+    }
+    this.cache.set(cruiseId, checksum);
+  }
+}
+
+/**
+ * Treats every file as changed. Useful for forced resyncs.
+ */
+export class AlwaysChangedDiffStage implements DiffStage {
+  async diff(): Promise<DiffResult> {
+    return { changed: true, changes: ['forced'] };
+  }
+}
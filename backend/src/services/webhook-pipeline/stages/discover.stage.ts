@@ -0,0 +1,97 @@
+import logger from '../../../config/logger';
+import type { TraveltekFtpClient } from '../../traveltek/ftp-client';
+import type { DiscoverStage, TraveltekFile } from '../types';
+
+/**
+ * Rebuild a TraveltekFile from its /[year]/[month]/[lineid]/[shipid]/[codetocruiseid].json path.
+ */
+export function parseTraveltekPath(filePath: string): TraveltekFile | null {
+  const match = filePath.match(/(\d{4})\/(\d{2})\/(\d+)\/(\d+)\/([^/]+)\.json$/);
+  if (!match) return null;
+
+  return {
+    path: filePath,
+    year: parseInt(match[1]),
+    month: parseInt(match[2]),
+    lineId: parseInt(match[3]),
+    shipId: parseInt(match[4]),
+    cruiseId: match[5],
+  };
+}
+
+/**
+ * Lists every cruise file for a line from the current month onwards by
+ * walking /[year]/[month]/[lineid]/[shipid]/ on the FTP tree.
+ */
+export class FtpDiscoverStage implements DiscoverStage {
+  constructor(
+    private client: TraveltekFtpClient,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async discover(lineId: number): Promise<TraveltekFile[]> {
+    const today = this.now();
+    const currentYear = today.getFullYear();
+    const currentMonth = today.getMonth() + 1;
+    const files: TraveltekFile[] = [];
+
+    const years = await this.listYears(currentYear);
+
+    for (const year of years) {
+      const startMonth = year === currentYear ? currentMonth : 1;
+
+      for (let month = startMonth; month <= 12; month++) {
+        const linePath = `/${year}/${month.toString().padStart(2, '0')}/${lineId}`;
+
+        let shipDirs;
+        try {
+          shipDirs = await this.client.listFiles(linePath);
+        } catch {
+          // No data for this month
+          continue;
+        }
+
+        for (const shipDir of shipDirs) {
+          if (shipDir.type !== 'directory') continue;
+
+          const shipPath = `${linePath}/${shipDir.name}`;
+          const cruiseFiles = await this.client.listFiles(shipPath);
+
+          for (const entry of cruiseFiles) {
+            if (entry.type !== 'file' || !entry.name.endsWith('.json')) continue;
+
+            files.push({
+              path: `${shipPath}/${entry.name}`,
+              lineId,
+              shipId: parseInt(shipDir.name) || 0,
+              cruiseId: entry.name.replace('.json', ''),
+              year,
+              month,
+              size: entry.size,
+            });
+          }
+        }
+      }
+    }
+
+    logger.info(`[PIPELINE] Discovered ${files.length} files for line ${lineId}`);
+    return files;
+  }
+
+  private async listYears(currentYear: number): Promise<number[]> {
+    try {
+      const entries = await this.client.listFiles('/');
+      const years = entries
+        .filter(entry => entry.type === 'directory')
+        .map(entry => parseInt(entry.name))
+        .filter(year => !isNaN(year) && year >= currentYear)
+        .sort((a, b) => a - b);
+
+      if (years.length > 0) return years;
+    } catch (error) {
+      logger.warn('[PIPELINE] Could not list FTP years, using default range', { error });
+    }
+
+    return [currentYear, currentYear + 1];
+  }
+}
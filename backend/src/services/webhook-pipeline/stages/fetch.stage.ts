@@ -0,0 +1,37 @@
+import logger from '../../../config/logger';
+import type { TraveltekFtpClient } from '../../traveltek/ftp-client';
+import type { FetchStage, TraveltekFile } from '../types';
+
+/**
+ * Downloads a cruise file, retrying when Traveltek hands back an empty or
+ * truncated body (which happens while files are being rewritten).
+ */
+export class FtpFetchStage implements FetchStage {
+  constructor(
+    private client: TraveltekFtpClient,
+    private maxAttempts = 2
+  ) {}
+
+  async fetch(file: TraveltekFile): Promise<string> {
+    let contents = '';
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      contents = await this.client.downloadFile(file.path);
+
+      if (contents.length > 0 && this.looksComplete(contents)) {
+        return contents;
+      }
+
+      logger.warn(
+        `[PIPELINE] Incomplete download for ${file.path} (attempt ${attempt}/${this.maxAttempts})`
+      );
+    }
+
+    // Let the parse stage report the exact problem
+    return contents;
+  }
+
+  private looksComplete(contents: string): boolean {
+    return contents.trimEnd().endsWith('}');
+  }
+}
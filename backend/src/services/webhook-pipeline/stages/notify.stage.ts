@@ -0,0 +1,66 @@
+import logger from '../../../config/logger';
+import { slackService, type WebhookProcessingResult } from '../../slack.service';
+import type { NotifyStage, PipelineContext, PipelineRunSummary } from '../types';
+
+export function toProcessingResult(summary: PipelineRunSummary): WebhookProcessingResult {
+  return {
+    successful: summary.updated,
+    failed: summary.failed,
+    skippedUnchanged: summary.unchanged,
+    errors: summary.outcomes
+      .filter(outcome => outcome.status === 'failed')
+      .map(outcome => ({
+        filePath: outcome.file.path,
+        error: `${outcome.stage}: ${outcome.error}`,
+      })),
+    startTime: summary.context.startTime,
+    endTime: summary.endTime,
+    processingTimeMs: summary.endTime.getTime() - summary.context.startTime.getTime(),
+    totalCruises: summary.totalFiles,
+    priceSnapshotsCreated: summary.snapshots,
+    changeLog: summary.outcomes
+      .filter(outcome => outcome.status === 'updated' && outcome.cruiseId)
+      .slice(0, 20)
+      .map(outcome => ({ cruiseId: outcome.cruiseId, changes: outcome.changes || [] })),
+  };
+}
+
+/**
+ * Posts run start/completion to the Slack webhook channel.
+ */
+export class SlackNotifyStage implements NotifyStage {
+  async started(context: PipelineContext): Promise<void> {
+    await slackService.notifyWebhookProcessingStarted({
+      eventType: 'cruise_line_update',
+      lineId: context.lineId,
+      timestamp: context.startTime.toISOString(),
+    });
+  }
+
+  async completed(summary: PipelineRunSummary): Promise<void> {
+    await slackService.notifyWebhookProcessingCompleted(
+      {
+        eventType: 'cruise_line_update',
+        lineId: summary.context.lineId,
+        timestamp: summary.endTime.toISOString(),
+      },
+      toProcessingResult(summary)
+    );
+  }
+}
+
+/**
+ * Logs run start/completion only. Used offline and in tests.
+ */
+export class LogNotifyStage implements NotifyStage {
+  async started(context: PipelineContext): Promise<void> {
+    logger.info(`[PIPELINE] Run ${context.runId} started for line ${context.lineId}`);
+  }
+
+  async completed(summary: PipelineRunSummary): Promise<void> {
+    logger.info(
+      `[PIPELINE] Run ${summary.context.runId} completed for line ${summary.context.lineId}: ` +
+        `${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`
+    );
+  }
+}
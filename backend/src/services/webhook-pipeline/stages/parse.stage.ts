@@ -0,0 +1,249 @@
+import type { NewCheapestPricing, NewCruise, NewShip } from '../../../db/schema';
+import { extractCabinPricing } from '../cabin-pricing-extractor';
+import { extractCheapestPrices } from '../cheapest-price-extractor';
+import { extractPortCalls } from '../port-call-extractor';
+import type { ParseStage, ParsedCruiseFile, TraveltekFile } from '../types';
+
+export class CruiseFileParseError extends Error {
+  constructor(
+    public filePath: string,
+    message: string
+  ) {
+    super(`${filePath}: ${message}`);
+    this.name = 'CruiseFileParseError';
+  }
+}
+
+const safeParseInt = (value: any, defaultValue: number | null = 0): number | null => {
+  if (value === null || value === undefined || value === '' || value === 'system') {
+    return defaultValue;
+  }
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? defaultValue : parsed;
+};
+
+const toIdList = (value: any): string => {
+  if (Array.isArray(value)) return value.join(',');
+  if (typeof value === 'string') return value;
+  return '';
+};
+
+const toDecimal = (value: number | null): string | null =>
+  value !== null ? value.toString() : null;
+
+/**
+ * Normalise raw_data that was double-encoded as a string or stored as a
+ * character array (the corruption seen in older processors).
+ */
+export function ensureValidRawData(data: any): any {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+
+  if (
+    data &&
+    typeof data === 'object' &&
+    !Array.isArray(data) &&
+    typeof data['0'] === 'string' &&
+    data['0'].length === 1 &&
+    data['1'] !== undefined
+  ) {
+    let jsonString = '';
+    for (let i = 0; data[i.toString()] !== undefined; i++) {
+      jsonString += data[i.toString()];
+    }
+    try {
+      return JSON.parse(jsonString);
+    } catch {
+      return {};
+    }
+  }
+
+  return data;
+}
+
+function extractSailingDate(data: any): string {
+  let sailingDate: string | undefined =
+    data.startdate ||
+    data.saildate ||
+    data.embarkDate ||
+    data.embarkdate ||
+    data.sailingdate ||
+    data.sailing_date;
+
+  if (sailingDate && sailingDate.includes('T')) {
+    sailingDate = sailingDate.split('T')[0];
+  }
+  return sailingDate || new Date().toISOString().split('T')[0];
+}
+
+function mapShip(data: any, file: TraveltekFile, shipId: number): NewShip | null {
+  if (!shipId || shipId <= 0) return null;
+
+  const content = data.shipcontent || {};
+  return {
+    id: shipId,
+    cruiseLineId: file.lineId,
+    name: data.shipname || content.name || `Ship ${shipId}`,
+    code: data.shipcode || null,
+    niceName: content.nicename || null,
+    shortName: content.shortname || null,
+    maxPassengers: safeParseInt(content.maxpassengers, null),
+    crew: safeParseInt(content.crew, null),
+    tonnage: safeParseInt(content.tonnage, null),
+    totalCabins: safeParseInt(content.totalcabins, null),
+    length: content.length || null,
+    beam: content.beam || null,
+    draft: content.draft || null,
+    speed: content.speed || null,
+    registry: content.registry || null,
+    builtYear: safeParseInt(content.builtyear, null),
+    refurbishedYear: safeParseInt(content.refurbishedyear, null),
+    description: content.description || null,
+    starRating: safeParseInt(content.starrating, null),
+    adultsOnly: content.adultsonly === true,
+    highlights: content.highlights || null,
+    shipClass: content.shipclass || null,
+    defaultShipImage: content.defaultshipimage || null,
+    defaultShipImageHd: content.defaultshipimagehd || null,
+    defaultShipImage2k: content.defaultshipimage2k || null,
+    niceUrl: content.niceurl || null,
+    rawShipContent: data.shipcontent || null,
+    isActive: true,
+    updatedAt: new Date(),
+  };
+}
+
+function mapCheapest(data: any, cruiseId: string, lineId: number): NewCheapestPricing | null {
+  const prices = extractCheapestPrices(data, lineId);
+  if (prices.cheapestPrice === null) return null;
+
+  const detail = (source: any, field: string): string | null =>
+    source && typeof source === 'object' && source[field] ? String(source[field]) : null;
+
+  return {
+    cruiseId,
+    cheapestPrice: toDecimal(prices.cheapestPrice),
+
+    interiorPrice: toDecimal(prices.interiorPrice),
+    interiorTaxes: detail(data.cheapestinside, 'taxes'),
+    interiorNcf: detail(data.cheapestinside, 'ncf'),
+    interiorGratuity: detail(data.cheapestinside, 'gratuity'),
+    interiorFuel: detail(data.cheapestinside, 'fuel'),
+    interiorNonComm: detail(data.cheapestinside, 'noncomm'),
+    interiorPriceCode: data.cheapestinsidepricecode || null,
+
+    oceanviewPrice: toDecimal(prices.oceanviewPrice),
+    oceanviewTaxes: detail(data.cheapestoutside, 'taxes'),
+    oceanviewNcf: detail(data.cheapestoutside, 'ncf'),
+    oceanviewGratuity: detail(data.cheapestoutside, 'gratuity'),
+    oceanviewFuel: detail(data.cheapestoutside, 'fuel'),
+    oceanviewNonComm: detail(data.cheapestoutside, 'noncomm'),
+    oceanviewPriceCode: data.cheapestoutsidepricecode || null,
+
+    balconyPrice: toDecimal(prices.balconyPrice),
+    balconyTaxes: detail(data.cheapestbalcony, 'taxes'),
+    balconyNcf: detail(data.cheapestbalcony, 'ncf'),
+    balconyGratuity: detail(data.cheapestbalcony, 'gratuity'),
+    balconyFuel: detail(data.cheapestbalcony, 'fuel'),
+    balconyNonComm: detail(data.cheapestbalcony, 'noncomm'),
+    balconyPriceCode: data.cheapestbalconypricecode || null,
+
+    suitePrice: toDecimal(prices.suitePrice),
+    suiteTaxes: detail(data.cheapestsuite, 'taxes'),
+    suiteNcf: detail(data.cheapestsuite, 'ncf'),
+    suiteGratuity: detail(data.cheapestsuite, 'gratuity'),
+    suiteFuel: detail(data.cheapestsuite, 'fuel'),
+    suiteNonComm: detail(data.cheapestsuite, 'noncomm'),
+    suitePriceCode: data.cheapestsuitepricecode || null,
+
+    currency: data.currency || 'USD',
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * Parses a Traveltek cruise JSON file into the rows we store.
+ * Pure: no database or network access, so it can be tested against recorded files.
+ */
+export class TraveltekJsonParseStage implements ParseStage {
+  parse(file: TraveltekFile, contents: string): ParsedCruiseFile {
+    if (!contents || contents.trim().length === 0) {
+      throw new CruiseFileParseError(file.path, 'empty file');
+    }
+
+    let data: any;
+    try {
+      data = ensureValidRawData(JSON.parse(contents));
+    } catch (error) {
+      throw new CruiseFileParseError(
+        file.path,
+        error instanceof Error ? error.message : 'invalid JSON'
+      );
+    }
+
+    const cruiseId = String(data.codetocruiseid || data.id || file.cruiseId || '');
+    if (!cruiseId) {
+      throw new CruiseFileParseError(file.path, 'no codetocruiseid');
+    }
+
+    const sailingDate = extractSailingDate(data);
+    const nights = safeParseInt(data.nights || data.sailnights, 0);
+
+    let returnDate: string | null = null;
+    if (data.startdate || data.saildate) {
+      const date = new Date(sailingDate);
+      date.setDate(date.getDate() + nights);
+      returnDate = date.toISOString().split('T')[0];
+    }
+
+    const shipId = safeParseInt(data.shipid || file.shipId, 0);
+    const prices = extractCheapestPrices(data, file.lineId);
+
+    const cruise: NewCruise = {
+      id: cruiseId,
+      cruiseId: data.cruiseid ? data.cruiseid.toString() : cruiseId,
+      cruiseLineId: file.lineId,
+      shipId,
+      name: data.name || data.title || 'Unknown Cruise',
+      voyageCode: data.voyagecode || null,
+      itineraryCode: data.itinerarycode || null,
+      sailingDate,
+      returnDate,
+      nights,
+      seaDays: safeParseInt(data.seadays, 0),
+      embarkPortId: safeParseInt(data.startportid || data.embarkportid, 0),
+      disembarkPortId: safeParseInt(data.endportid || data.disembarkportid, 0),
+      portIds: toIdList(data.portids),
+      regionIds: toIdList(data.regionids),
+      marketId: data.marketid ? String(data.marketid) : null,
+      ownerId: data.ownerid ? String(data.ownerid) : null,
+      noFly: data.nofly === 'Y' || data.nofly === true,
+      departUk: data.departuk === true,
+      showCruise: data.showcruise !== false,
+      lastCached: safeParseInt(data.lastcached, null),
+      cachedDate: data.cacheddate || null,
+      interiorPrice: toDecimal(prices.interiorPrice),
+      oceanviewPrice: toDecimal(prices.oceanviewPrice),
+      balconyPrice: toDecimal(prices.balconyPrice),
+      suitePrice: toDecimal(prices.suitePrice),
+      cheapestPrice: toDecimal(prices.cheapestPrice),
+      rawData: data,
+      updatedAt: new Date(),
+    };
+
+    return {
+      file,
+      raw: data,
+      cruise,
+      ship: mapShip(data, file, shipId),
+      cheapest: mapCheapest(data, cruiseId, file.lineId),
+      pricing: extractCabinPricing(data, cruiseId, file.lineId),
+      portCalls: extractPortCalls(data, cruiseId),
+    };
+  }
+}
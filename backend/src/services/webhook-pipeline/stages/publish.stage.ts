@@ -0,0 +1,15 @@
+import { alertEventQueue } from '../../alert-event-queue.service';
+import type { CruisePriceChangedEvent, PublishStage } from '../types';
+
+/**
+ * Queues price changes for price alert matching.
+ */
+export class AlertEventPublishStage implements PublishStage {
+  async publish(event: CruisePriceChangedEvent): Promise<void> {
+    await alertEventQueue.publish(event);
+  }
+}
+
+export class NoopPublishStage implements PublishStage {
+  async publish(): Promise<void> {}
+}
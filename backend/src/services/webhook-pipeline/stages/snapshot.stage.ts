@@ -0,0 +1,32 @@
+import logger from '../../../config/logger';
+import { priceHistoryService } from '../../price-history.service';
+import type { PipelineContext, SnapshotStage, UpsertResult } from '../types';
+
+/**
+ * Records the freshly written cheapest prices in price_history and computes
+ * the change against the previous snapshot.
+ */
+export class PriceHistorySnapshotStage implements SnapshotStage {
+  async snapshot(result: UpsertResult, context: PipelineContext): Promise<boolean> {
+    if (!result.pricingUpdated) return false;
+
+    try {
+      const batchId = await priceHistoryService.captureSnapshot(result.cruiseId, 'webhook_update');
+      await priceHistoryService.calculatePriceChanges(batchId);
+      return true;
+    } catch (error) {
+      // Snapshots are informational; never fail the file because of them
+      logger.error(`[PIPELINE] Snapshot failed for cruise ${result.cruiseId}`, {
+        runId: context.runId,
+        error: error instanceof Error ? error.message : error,
+      });
+      return false;
+    }
+  }
+}
+
+export class NoopSnapshotStage implements SnapshotStage {
+  async snapshot(): Promise<boolean> {
+    return false;
+  }
+}
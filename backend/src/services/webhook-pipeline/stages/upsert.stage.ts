@@ -0,0 +1,159 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../../../db/connection';
+import { cruises } from '../../../db/schema/cruises';
+import { ships } from '../../../db/schema/ships';
+import { cheapestPricing } from '../../../db/schema';
+import logger from '../../../config/logger';
+import { cruiseChangeLogService } from '../../cruise-change-log.service';
+import { cruiseDefinitionService } from '../../cruise-definition.service';
+import { pricingSyncService } from '../../pricing-sync.service';
+import { portCallSyncService } from '../../port-call-sync.service';
+import type {
+  DiffResult,
+  ParsedCruiseFile,
+  PipelineContext,
+  UpsertResult,
+  UpsertStage,
+} from '../types';
+
+type UpsertExecutor = Pick<typeof db, 'insert' | 'execute' | 'delete' | 'update'>;
+
+/**
+ * Writes ships, cruises, cruise definitions/sailings, port calls, pricing and cheapest_pricing rows
+ * with Drizzle upserts, and records any field-level changes the diff stage
+ * found in cruise_change_log.
+ *
+ * Everything after the ship is one transaction: the diff stage compares the
+ * next file against cruises.raw_data, so a cruise row written without its
+ * pricing would make the retry look unchanged and lose the rest.
+ */
+export class DrizzleUpsertStage implements UpsertStage {
+  // Same ship appears in hundreds of files per line; only write it when its image changes
+  private shipImages = new Map<number, string | null>();
+
+  async upsert(
+    parsed: ParsedCruiseFile,
+    diff: DiffResult,
+    context: PipelineContext
+  ): Promise<UpsertResult> {
+    if (parsed.ship) {
+      await this.upsertShip(parsed);
+    }
+
+    return db.transaction(tx => this.upsertCruise(tx, parsed, diff, context));
+  }
+
+  private async upsertCruise(
+    tx: UpsertExecutor,
+    parsed: ParsedCruiseFile,
+    diff: DiffResult,
+    context: PipelineContext
+  ): Promise<UpsertResult> {
+    const cruiseId = await this.resolveCruiseId(tx, parsed);
+    const cruise = { ...parsed.cruise, id: cruiseId };
+    const { id: _id, cruiseLineId: _line, createdAt: _created, ...updatable } = cruise;
+
+    await tx
+      .insert(cruises)
+      .values(cruise)
+      .onConflictDoUpdate({
+        target: cruises.id,
+        // The file is on FTP again, so any pending withdrawal no longer applies
+        set: {
+          ...updatable,
+          isActive: sql`CASE WHEN ${cruises.withdrawnAt} IS NOT NULL THEN true ELSE ${cruises.isActive} END`,
+          missingFromFtpSince: null,
+          withdrawnAt: null,
+          withdrawalReason: null,
+          updatedAt: new Date(),
+        },
+      });
+
+    await cruiseDefinitionService.syncSailing(cruise, { filePath: parsed.file.path }, tx);
+
+    if (parsed.portCalls) {
+      await portCallSyncService.syncCruisePortCalls(cruiseId, parsed.portCalls, cruise.nights, tx);
+    }
+
+    if (diff.fieldChanges?.length) {
+      await cruiseChangeLogService.record(
+        cruiseId,
+        diff.fieldChanges,
+        'webhook',
+        context.webhookEventId,
+        tx
+      );
+    }
+
+    let pricingUpdated = false;
+    if (parsed.cheapest) {
+      const cheapest = { ...parsed.cheapest, cruiseId };
+      await tx
+        .insert(cheapestPricing)
+        .values(cheapest)
+        .onConflictDoUpdate({
+          target: cheapestPricing.cruiseId,
+          set: { ...cheapest, lastUpdated: new Date() },
+        });
+      pricingUpdated = true;
+    }
+
+    // The diff stage already knows when the price tree is untouched
+    if (parsed.pricing && diff.pricingChanged !== false) {
+      await pricingSyncService.syncCruisePricing(cruiseId, parsed.pricing, tx);
+      pricingUpdated = true;
+    }
+
+    return { cruiseId, pricingUpdated };
+  }
+
+  /**
+   * Reuse the id of an existing row for the same line/ship/date/voyage so we
+   * update it instead of tripping idx_cruises_unique_sailing.
+   */
+  private async resolveCruiseId(tx: UpsertExecutor, parsed: ParsedCruiseFile): Promise<string> {
+    const { cruise } = parsed;
+    const existing = await tx.execute(sql`
+      SELECT id FROM cruises
+      WHERE cruise_line_id = ${cruise.cruiseLineId}
+        AND ship_id = ${cruise.shipId}
+        AND sailing_date = ${cruise.sailingDate}
+        AND COALESCE(voyage_code, '') = COALESCE(${cruise.voyageCode}, '')
+      LIMIT 1
+    `);
+
+    if (existing.length > 0 && existing[0].id !== cruise.id) {
+      logger.info(
+        `[PIPELINE] Cruise ${cruise.id} matches existing sailing ${existing[0].id}, updating that row`
+      );
+      return String(existing[0].id);
+    }
+    return String(cruise.id);
+  }
+
+  private async upsertShip(parsed: ParsedCruiseFile): Promise<void> {
+    const ship = parsed.ship;
+    const image = ship.defaultShipImage || null;
+
+    if (this.shipImages.has(ship.id) && this.shipImages.get(ship.id) === image) {
+      return;
+    }
+
+    const { id: _id, cruiseLineId: _line, createdAt: _created, ...updatable } = ship;
+    try {
+      await db
+        .insert(ships)
+        .values(ship)
+        .onConflictDoUpdate({
+          target: ships.id,
+          set: { ...updatable, updatedAt: new Date() },
+        });
+      this.shipImages.set(ship.id, image);
+    } catch (error) {
+      // The cruise insert will fail loudly if the ship really is missing
+      logger.error(`[PIPELINE] Failed to upsert ship ${ship.id}`, {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
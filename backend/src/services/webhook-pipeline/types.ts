@@ -0,0 +1,170 @@
+import type {
+  NewCruise,
+  NewShip,
+  NewCheapestPricing,
+  NewPricing,
+  NewCruisePortCall,
+} from '../../db/schema';
+import type { CabinType, CruiseChange } from './cruise-change-detector';
+
+/**
+ * A cruise file located on the Traveltek FTP tree:
+ * [year]/[month]/[lineid]/[shipid]/[codetocruiseid].json
+ */
+export interface TraveltekFile {
+  path: string;
+  lineId: number;
+  shipId: number;
+  cruiseId: string;
+  year: number;
+  month: number;
+  size?: number;
+}
+
+/**
+ * Shared state for one pipeline run (one webhook for one cruise line).
+ */
+export interface PipelineContext {
+  runId: string;
+  lineId: number;
+  webhookEventId?: number;
+  startTime: Date;
+}
+
+/**
+ * Result of the parse stage: the raw Traveltek JSON plus the rows derived from it.
+ */
+export interface ParsedCruiseFile {
+  file: TraveltekFile;
+  raw: any;
+  cruise: NewCruise;
+  ship: NewShip | null;
+  cheapest: NewCheapestPricing | null;
+  // Per rate/cabin/occupancy rows; null when the file carries no prices block
+  pricing: NewPricing[] | null;
+  // One row per day in port; null when the file carries no itinerary
+  portCalls: NewCruisePortCall[] | null;
+}
+
+export interface DiffResult {
+  changed: boolean;
+  changes: string[];
+  // Field-level changes against the stored row, when the diff stage computes them
+  fieldChanges?: CruiseChange[];
+  // false when only non-pricing fields changed, so no price snapshot is needed
+  pricingChanged?: boolean;
+  // What the diff stage compares against next time, once the file is stored
+  checksum?: string;
+}
+
+export interface UpsertResult {
+  cruiseId: string;
+  pricingUpdated: boolean;
+}
+
+// A headline cabin price before and after the file; null when there was none
+export interface CabinPriceChange {
+  cabinType: CabinType;
+  oldPrice: number | null;
+  newPrice: number | null;
+}
+
+/**
+ * Published once a cruise's new prices are written, so price alerts can be
+ * matched straight away instead of at the next daily run
+ */
+export interface CruisePriceChangedEvent {
+  cruiseId: string;
+  lineId: number;
+  runId: string;
+  webhookEventId?: number;
+  changes: CabinPriceChange[];
+  occurredAt: string;
+}
+
+export type FileOutcomeStatus = 'updated' | 'unchanged' | 'failed';
+
+/**
+ * A file that failed after its upsert went through. The stored row already
+ * matches the file, so a retry finishes from here instead of diffing again.
+ */
+export interface FileResume {
+  diff: DiffResult;
+  result: UpsertResult;
+}
+
+export interface FileOutcome {
+  file: TraveltekFile;
+  status: FileOutcomeStatus;
+  cruiseId?: string;
+  changes?: string[];
+  stage?: PipelineStageName;
+  error?: string;
+  resume?: FileResume;
+}
+
+export interface PipelineRunSummary {
+  context: PipelineContext;
+  endTime: Date;
+  totalFiles: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  snapshots: number;
+  outcomes: FileOutcome[];
+}
+
+export type PipelineStageName =
+  'discover' | 'fetch' | 'parse' | 'diff' | 'upsert' | 'snapshot' | 'publish' | 'notify';
+
+// Stage contracts. Each stage has one job and can be swapped independently.
+
+export interface DiscoverStage {
+  discover(lineId: number): Promise<TraveltekFile[]>;
+}
+
+export interface FetchStage {
+  fetch(file: TraveltekFile): Promise<string>;
+}
+
+export interface ParseStage {
+  parse(file: TraveltekFile, contents: string): ParsedCruiseFile;
+}
+
+export interface DiffStage {
+  diff(parsed: ParsedCruiseFile): Promise<DiffResult>;
+  // Called once a changed file has been upserted
+  commit?(cruiseId: string, checksum: string): void;
+}
+
+export interface UpsertStage {
+  upsert(
+    parsed: ParsedCruiseFile,
+    diff: DiffResult,
+    context: PipelineContext
+  ): Promise<UpsertResult>;
+}
+
+export interface SnapshotStage {
+  snapshot(result: UpsertResult, context: PipelineContext): Promise<boolean>;
+}
+
+export interface PublishStage {
+  publish(event: CruisePriceChangedEvent): Promise<void>;
+}
+
+export interface NotifyStage {
+  started(context: PipelineContext): Promise<void>;
+  completed(summary: PipelineRunSummary): Promise<void>;
+}
+
+export interface PipelineStages {
+  discover: DiscoverStage;
+  fetch: FetchStage;
+  parse: ParseStage;
+  diff: DiffStage;
+  upsert: UpsertStage;
+  snapshot: SnapshotStage;
+  publish: PublishStage;
+  notify: NotifyStage;
+}
@@ -0,0 +1,130 @@
+import { sql } from 'drizzle-orm';
+import logger from '../../config/logger';
+import { db } from '../../db/connection';
+
+export type WebhookEventStatus =
+  | 'received'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'partially_failed'
+  | 'failed'
+  | 'dead_lettered'
+  | 'skipped';
+
+/**
+ * Allowed webhook_events status transitions.
+ *
+ * received → queued → processing → completed | partially_failed | failed,
+ * failed events are retried (→ queued) until they run out of attempts and
+ * become dead_lettered. Dead-lettered events can be re-driven back to queued.
+ * skipped covers throttled and duplicate webhooks.
+ */
+export const WEBHOOK_EVENT_TRANSITIONS: Record<WebhookEventStatus, WebhookEventStatus[]> = {
+  received: ['queued', 'skipped', 'failed'],
+  queued: ['processing', 'skipped', 'failed'],
+  processing: ['completed', 'partially_failed', 'failed'],
+  partially_failed: ['completed'],
+  failed: ['queued', 'dead_lettered'],
+  dead_lettered: ['queued'],
+  completed: [],
+  skipped: [],
+};
+
+const TERMINAL_STATUSES: WebhookEventStatus[] = [
+  'completed',
+  'partially_failed',
+  'failed',
+  'dead_lettered',
+  'skipped',
+];
+
+export function canTransition(from: WebhookEventStatus, to: WebhookEventStatus): boolean {
+  return WEBHOOK_EVENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function allowedSourceStatuses(to: WebhookEventStatus): WebhookEventStatus[] {
+  return (Object.keys(WEBHOOK_EVENT_TRANSITIONS) as WebhookEventStatus[]).filter(from =>
+    canTransition(from, to)
+  );
+}
+
+/**
+ * Exponential backoff for retry attempt N (1-based), capped at maxMs.
+ */
+export function retryDelay(attempt: number, baseMs: number, maxMs = 30 * 60 * 1000): number {
+  return Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), maxMs);
+}
+
+export interface TransitionDetails {
+  errorMessage?: string;
+  metadata?: Record<string, unknown>;
+  incrementRetry?: boolean;
+}
+
+/**
+ * Moves webhook_events rows through the lifecycle. Transitions are applied
+ * with a guarded UPDATE so two workers can't both move the same event.
+ */
+export class WebhookEventLifecycle {
+  async getStatus(
+    webhookEventId: number
+  ): Promise<{ status: WebhookEventStatus; retryCount: number } | null> {
+    const result = await db.execute(sql`
+      SELECT status, retry_count FROM webhook_events WHERE id = ${webhookEventId}
+    `);
+    if (result.length === 0) return null;
+    return {
+      status: result[0].status as WebhookEventStatus,
+      retryCount: Number(result[0].retry_count) || 0,
+    };
+  }
+
+  /**
+   * Apply a transition. Returns false (and logs) when the event is not in a
+   * state that allows it, rather than throwing inside queue workers.
+   */
+  async transition(
+    webhookEventId: number | undefined,
+    to: WebhookEventStatus,
+    details: TransitionDetails = {}
+  ): Promise<boolean> {
+    if (!webhookEventId) return false;
+
+    const from = allowedSourceStatuses(to);
+    const metadata = JSON.stringify(details.metadata || {});
+    const isTerminal = TERMINAL_STATUSES.includes(to);
+
+    try {
+      const result = await db.execute(sql`
+        UPDATE webhook_events
+        SET status = ${to},
+            processed_at = ${isTerminal ? sql`NOW()` : sql`processed_at`},
+            error_message = ${details.errorMessage !== undefined ? details.errorMessage : sql`error_message`},
+            retry_count = COALESCE(retry_count, 0) + ${details.incrementRetry ? 1 : 0},
+            metadata = CASE
+              WHEN metadata IS NULL OR jsonb_typeof(metadata) != 'object'
+              THEN ${metadata}::jsonb
+              ELSE metadata || ${metadata}::jsonb
+            END
+        WHERE id = ${webhookEventId}
+          AND status IN (${sql.join(
+            from.map(status => sql`${status}`),
+            sql`, `
+          )})
+        RETURNING id
+      `);
+
+      if (result.length === 0) {
+        logger.warn(`[WEBHOOK-EVENT] Ignored transition of event ${webhookEventId} to ${to}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      logger.error(`[WEBHOOK-EVENT] Failed to move event ${webhookEventId} to ${to}`, { error });
+      return false;
+    }
+  }
+}
+
+export const webhookEventLifecycle = new WebhookEventLifecycle();
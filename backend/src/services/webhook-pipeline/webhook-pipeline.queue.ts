@@ -0,0 +1,673 @@
+import { Queue, Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { sql } from 'drizzle-orm';
+import { env, webhookPipelineConfig } from '../../config/environment';
+import logger from '../../config/logger';
+import { db } from '../../db/connection';
+import type { WebhookDeadLetter } from '../../db/schema/webhook-events';
+import type { WebhookPipeline } from './webhook-pipeline';
+import { parseTraveltekPath } from './stages/discover.stage';
+import { webhookDeadLetterStore, type WebhookDeadLetterStore } from './dead-letter.store';
+import {
+  retryDelay,
+  webhookEventLifecycle,
+  type WebhookEventLifecycle,
+  type WebhookEventStatus,
+} from './webhook-event-lifecycle';
+import type {
+  FileOutcome,
+  FileResume,
+  PipelineContext,
+  PipelineRunSummary,
+  PipelineStageName,
+  TraveltekFile,
+} from './types';
+
+export interface EnqueueResult {
+  status: 'queued' | 'completed' | 'skipped' | 'failed';
+  jobId?: string;
+  message: string;
+}
+
+export interface RedriveResult {
+  deadLetterId: number;
+  status: 'resolved' | 'requeued' | 'failed' | 'not_found' | 'already_resolved';
+  message: string;
+}
+
+type SerializedContext = Omit<PipelineContext, 'startTime'> & { startTime: string };
+
+interface BatchJobData {
+  context: SerializedContext;
+  files: TraveltekFile[];
+  batchNumber: number;
+  totalBatches: number;
+  totalFiles: number;
+}
+
+interface FileRetryJobData {
+  context: SerializedContext;
+  file: TraveltekFile;
+  resume?: FileResume;
+  attempt: number;
+  totalBatches: number;
+  totalFiles: number;
+}
+
+interface EventRetryJobData {
+  lineId: number;
+  webhookEventId: number;
+  attempt: number;
+}
+
+type PipelineJobData = BatchJobData | FileRetryJobData | EventRetryJobData;
+
+const QUEUE_NAME = 'webhook-pipeline';
+const RUN_KEY_PREFIX = 'webhook:pipeline:run:';
+const THROTTLE_MINUTES = 15;
+const MAX_TRACKED_OUTCOMES = 50;
+
+// Parse failures are deterministic, retrying the same bytes won't help
+const NON_RETRYABLE_STAGES: PipelineStageName[] = ['parse'];
+
+/**
+ * Fans a line's files out over BullMQ jobs and runs each batch through the
+ * WebhookPipeline. Run totals live in Redis so completion can be detected
+ * regardless of which worker finishes the last batch or retry.
+ *
+ * Failed files are retried with exponential backoff and dead-lettered once
+ * they run out of attempts; the webhook event follows the lifecycle in
+ * webhook-event-lifecycle.ts.
+ */
+export class WebhookPipelineQueue {
+  private queue: Queue<PipelineJobData> | null = null;
+  private worker: Worker<PipelineJobData> | null = null;
+  private redis: Redis | null = null;
+  // Jobs this process's worker is running
+  private activeJobs = 0;
+
+  constructor(
+    private pipeline: WebhookPipeline,
+    private config = webhookPipelineConfig,
+    private events: WebhookEventLifecycle = webhookEventLifecycle,
+    private deadLetters: WebhookDeadLetterStore = webhookDeadLetterStore
+  ) {}
+
+  get isEnabled(): boolean {
+    // env.REDIS_HOST defaults to localhost, so only a host that was set counts
+    return !!(env.REDIS_URL || process.env.REDIS_HOST);
+  }
+
+  initialize(): void {
+    if (this.queue || !this.isEnabled) {
+      return;
+    }
+
+    const options = {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+      retryStrategy: (times: number) => Math.min(times * 100, 3000),
+    };
+    // Without a URL, connect to REDIS_HOST and REDIS_PORT
+    this.redis = env.REDIS_URL
+      ? new Redis(env.REDIS_URL, options)
+      : new Redis({
+          host: env.REDIS_HOST,
+          port: env.REDIS_PORT,
+          password: env.REDIS_PASSWORD,
+          ...options,
+        });
+
+    this.queue = new Queue<PipelineJobData>(QUEUE_NAME, {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: { count: 200, age: 7200 },
+        removeOnFail: { count: 100, age: 86400 },
+        // Retries are scheduled per file by this class, BullMQ retries would double-count
+        attempts: 1,
+      },
+    });
+
+    this.worker = new Worker<PipelineJobData>(QUEUE_NAME, job => this.processJob(job), {
+      connection: this.redis,
+      concurrency: 8,
+      stalledInterval: 30000,
+    });
+
+    this.worker.on('failed', (job, error) => {
+      logger.error(`[PIPELINE-QUEUE] Job ${job?.id} failed`, { error: error.message });
+    });
+    this.worker.on('error', error => {
+      logger.error('[PIPELINE-QUEUE] Worker error', { error: error.message });
+    });
+
+    logger.info('[PIPELINE-QUEUE] Queue and worker initialized');
+  }
+
+  /**
+   * Discover a line's files and queue them for processing.
+   * `force` skips the recent-run throttle, used for retries and re-drives.
+   * `currentJobId` is the job calling this, which doesn't count as the line
+   * already being processed.
+   */
+  async enqueueLine(
+    lineId: number,
+    webhookEventId?: number,
+    options: { force?: boolean; currentJobId?: string } = {}
+  ): Promise<EnqueueResult> {
+    this.initialize();
+    if (!this.queue) {
+      const message = 'Redis is not configured, webhook processing disabled';
+      await this.events.transition(webhookEventId, 'failed', { errorMessage: message });
+      return { status: 'failed', message };
+    }
+
+    try {
+      if (!options.force) {
+        const minutesAgo = await this.minutesSinceLastRun(lineId);
+        if (minutesAgo !== null) {
+          const message = `Recently processed ${minutesAgo} minutes ago`;
+          await this.events.transition(webhookEventId, 'skipped', {
+            metadata: { skipped_reason: message },
+          });
+          return { status: 'skipped', message };
+        }
+      }
+
+      const activeJobs = await this.queue.getJobs(['active']);
+      if (
+        activeJobs.some(
+          job => job.id !== options.currentJobId && this.jobLineId(job.data) === lineId
+        )
+      ) {
+        const message = `Active jobs already processing for line ${lineId}`;
+        await this.events.transition(webhookEventId, 'skipped', {
+          metadata: { skipped_reason: message },
+        });
+        return { status: 'skipped', message };
+      }
+
+      await this.events.transition(webhookEventId, 'queued');
+
+      const context = this.pipeline.createContext(lineId, { webhookEventId });
+      await this.pipeline.notifyStarted(context);
+
+      let files: TraveltekFile[];
+      try {
+        files = await this.pipeline.discover(lineId);
+      } catch (error) {
+        return this.failEvent(lineId, webhookEventId, 'discover', error);
+      }
+
+      if (files.length === 0) {
+        await this.events.transition(webhookEventId, 'processing');
+        await this.events.transition(webhookEventId, 'completed', { metadata: { files: 0 } });
+        return { status: 'completed', message: `No files found for line ${lineId}` };
+      }
+
+      const batches: TraveltekFile[][] = [];
+      for (let i = 0; i < files.length; i += this.config.filesPerJob) {
+        batches.push(files.slice(i, i + this.config.filesPerJob));
+      }
+
+      const runKey = `${RUN_KEY_PREFIX}${context.runId}`;
+      await this.redis.hset(runKey, {
+        totalBatches: batches.length,
+        completedBatches: 0,
+        pendingRetries: 0,
+        retried: 0,
+        updated: 0,
+        unchanged: 0,
+        failed: 0,
+        snapshots: 0,
+      });
+      await this.redis.expire(runKey, 86400);
+
+      const jobIds: string[] = [];
+      for (let i = 0; i < batches.length; i++) {
+        const job = await this.queue.add(
+          'batch',
+          {
+            context: this.serializeContext(context),
+            files: batches[i],
+            batchNumber: i + 1,
+            totalBatches: batches.length,
+            totalFiles: files.length,
+          },
+          {
+            priority: batches.length - i,
+            delay: i * 2000,
+            jobId: `${context.runId}-batch-${i + 1}`,
+          }
+        );
+        jobIds.push(job.id);
+      }
+
+      await this.events.transition(webhookEventId, 'processing', {
+        metadata: { run_id: context.runId, job_ids: jobIds, files: files.length },
+      });
+
+      return {
+        status: 'queued',
+        jobId: jobIds[0],
+        message: `Queued ${batches.length} jobs to process ${files.length} files for line ${lineId}`,
+      };
+    } catch (error) {
+      logger.error(`[PIPELINE-QUEUE] Failed to enqueue line ${lineId}`, { error });
+      return this.failEvent(lineId, webhookEventId, 'discover', error);
+    }
+  }
+
+  /**
+   * Re-run a dead-lettered file (or re-queue a dead-lettered event) now.
+   */
+  async redrive(deadLetterId: number): Promise<RedriveResult> {
+    const deadLetter = await this.deadLetters.get(deadLetterId);
+    if (!deadLetter) {
+      return { deadLetterId, status: 'not_found', message: 'Dead letter not found' };
+    }
+    if (deadLetter.status === 'resolved') {
+      return { deadLetterId, status: 'already_resolved', message: 'Already resolved' };
+    }
+
+    if (!deadLetter.filePath) {
+      return this.redriveEvent(deadLetter);
+    }
+
+    const file = parseTraveltekPath(deadLetter.filePath);
+    if (!file) {
+      return {
+        deadLetterId,
+        status: 'failed',
+        message: `Unrecognised path ${deadLetter.filePath}`,
+      };
+    }
+
+    const context = this.pipeline.createContext(deadLetter.lineId, {
+      webhookEventId: deadLetter.webhookEventId || undefined,
+    });
+    const outcome = await this.pipeline.processFile(file, context);
+
+    if (outcome.status === 'failed') {
+      await this.deadLetters.markRedriveFailed(deadLetterId, outcome.stage, outcome.error);
+      return { deadLetterId, status: 'failed', message: `${outcome.stage}: ${outcome.error}` };
+    }
+
+    await this.deadLetters.markResolved(deadLetterId);
+    if (
+      deadLetter.webhookEventId &&
+      (await this.deadLetters.countOpenForEvent(deadLetter.webhookEventId)) === 0
+    ) {
+      await this.events.transition(deadLetter.webhookEventId, 'completed', {
+        metadata: { redriven: true },
+      });
+    }
+
+    return { deadLetterId, status: 'resolved', message: `File ${outcome.status}` };
+  }
+
+  async getStatus(): Promise<Record<string, unknown>> {
+    if (!this.queue) {
+      return { initialized: false, workerInitialized: false };
+    }
+
+    const [waiting, active, completed, failed, delayed, paused] = await Promise.all([
+      this.queue.getWaitingCount(),
+      this.queue.getActiveCount(),
+      this.queue.getCompletedCount(),
+      this.queue.getFailedCount(),
+      this.queue.getDelayedCount(),
+      this.queue.isPaused(),
+    ]);
+
+    return {
+      initialized: true,
+      name: QUEUE_NAME,
+      counts: { waiting, active, completed, failed, delayed },
+      isPaused: paused,
+      worker: this.worker ? { isRunning: this.worker.isRunning() } : null,
+    };
+  }
+
+  /**
+   * Stop this process's worker taking new jobs. Jobs already running carry
+   * on; getActiveJobCount tells when they are done. Other workers are
+   * unaffected.
+   */
+  async pause(): Promise<void> {
+    await this.worker?.pause(true);
+  }
+
+  async resume(): Promise<void> {
+    this.worker?.resume();
+  }
+
+  /**
+   * Jobs this process's worker is running right now
+   */
+  getActiveJobCount(): number {
+    return this.activeJobs;
+  }
+
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queue?.close();
+    this.redis?.disconnect();
+  }
+
+  private async processJob(job: Job<PipelineJobData>): Promise<Record<string, unknown>> {
+    this.activeJobs++;
+    try {
+      switch (job.name) {
+        case 'retry-file':
+          return await this.processFileRetry(job.data as FileRetryJobData);
+        case 'retry-event':
+          return await this.processEventRetry(job.data as EventRetryJobData, job.id);
+        default:
+          return await this.processBatch(job.data as BatchJobData);
+      }
+    } finally {
+      this.activeJobs--;
+    }
+  }
+
+  private async processBatch(data: BatchJobData): Promise<Record<string, number>> {
+    const { files, batchNumber, totalBatches } = data;
+    const context = this.deserializeContext(data.context);
+    const runKey = `${RUN_KEY_PREFIX}${context.runId}`;
+
+    const outcomes = await this.pipeline.processFiles(files, context, this.config.concurrency);
+    const summary = this.pipeline.summarize(context, files.length, outcomes);
+
+    await this.redis.hincrby(runKey, 'updated', summary.updated);
+    await this.redis.hincrby(runKey, 'unchanged', summary.unchanged);
+    await this.redis.hincrby(runKey, 'snapshots', summary.snapshots);
+    await this.resolveSucceeded(outcomes);
+
+    for (const outcome of outcomes.filter(outcome => outcome.status === 'failed')) {
+      await this.handleFailedFile(context, outcome, 1, totalBatches, data.totalFiles);
+    }
+
+    logger.info(
+      `[PIPELINE-QUEUE] Batch ${batchNumber}/${totalBatches} for line ${context.lineId}: ` +
+        `${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`
+    );
+
+    await this.redis.hincrby(runKey, 'completedBatches', 1);
+    await this.completeRunIfDone(context, totalBatches, data.totalFiles);
+
+    return { updated: summary.updated, unchanged: summary.unchanged, failed: summary.failed };
+  }
+
+  private async processFileRetry(data: FileRetryJobData): Promise<Record<string, unknown>> {
+    const context = this.deserializeContext(data.context);
+    const runKey = `${RUN_KEY_PREFIX}${context.runId}`;
+    const outcome = await this.pipeline.processFile(data.file, context, data.resume);
+
+    if (outcome.status === 'failed') {
+      await this.handleFailedFile(
+        context,
+        outcome,
+        data.attempt,
+        data.totalBatches,
+        data.totalFiles
+      );
+    } else {
+      await this.redis.hincrby(runKey, outcome.status, 1);
+      if (outcome.changes?.includes('price_snapshot')) {
+        await this.redis.hincrby(runKey, 'snapshots', 1);
+      }
+      await this.resolveSucceeded([outcome]);
+    }
+
+    await this.redis.hincrby(runKey, 'pendingRetries', -1);
+    await this.completeRunIfDone(context, data.totalBatches, data.totalFiles);
+
+    return { file: data.file.path, attempt: data.attempt, status: outcome.status };
+  }
+
+  private async processEventRetry(
+    data: EventRetryJobData,
+    jobId: string
+  ): Promise<Record<string, unknown>> {
+    logger.info(
+      `[PIPELINE-QUEUE] Retrying webhook event ${data.webhookEventId} for line ${data.lineId} ` +
+        `(attempt ${data.attempt})`
+    );
+    const result = await this.enqueueLine(data.lineId, data.webhookEventId, {
+      force: true,
+      currentJobId: jobId,
+    });
+    return { ...result };
+  }
+
+  /**
+   * Schedule another attempt for a failed file, or dead-letter it once it
+   * is out of attempts (or failed in a stage where retrying is pointless).
+   */
+  private async handleFailedFile(
+    context: PipelineContext,
+    outcome: FileOutcome,
+    attempt: number,
+    totalBatches: number,
+    totalFiles: number
+  ): Promise<void> {
+    const runKey = `${RUN_KEY_PREFIX}${context.runId}`;
+    const retryable = !NON_RETRYABLE_STAGES.includes(outcome.stage);
+
+    if (retryable && attempt < this.config.fileAttempts) {
+      await this.redis.hincrby(runKey, 'pendingRetries', 1);
+      await this.redis.hincrby(runKey, 'retried', 1);
+      await this.queue.add(
+        'retry-file',
+        {
+          context: this.serializeContext(context),
+          file: outcome.file,
+          resume: outcome.resume,
+          attempt: attempt + 1,
+          totalBatches,
+          totalFiles,
+        },
+        {
+          delay: retryDelay(attempt, this.config.retryBaseMs),
+          jobId: `${context.runId}-retry-${outcome.file.cruiseId}-${attempt + 1}`,
+        }
+      );
+      return;
+    }
+
+    await this.redis.hincrby(runKey, 'failed', 1);
+    await this.trackOutcomes(runKey, [outcome]);
+    try {
+      await this.deadLetters.record({
+        webhookEventId: context.webhookEventId,
+        lineId: context.lineId,
+        filePath: outcome.file.path,
+        cruiseId: outcome.file.cruiseId,
+        stage: outcome.stage,
+        errorMessage: outcome.error,
+        attempts: attempt,
+      });
+    } catch (error) {
+      logger.error(`[PIPELINE-QUEUE] Failed to dead-letter ${outcome.file.path}`, { error });
+    }
+  }
+
+  private async resolveSucceeded(outcomes: FileOutcome[]): Promise<void> {
+    const paths = outcomes
+      .filter(outcome => outcome.status !== 'failed')
+      .map(outcome => outcome.file.path);
+
+    try {
+      await this.deadLetters.resolveFiles(paths);
+    } catch (error) {
+      logger.error('[PIPELINE-QUEUE] Failed to resolve dead letters', { error });
+    }
+  }
+
+  /**
+   * Mark the event failed and schedule a retry of the whole line, or
+   * dead-letter the event once it is out of attempts. The event stays
+   * 'failed' until the retry job moves it back to queued.
+   */
+  private async failEvent(
+    lineId: number,
+    webhookEventId: number | undefined,
+    stage: PipelineStageName,
+    error: unknown
+  ): Promise<EnqueueResult> {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[PIPELINE-QUEUE] ${stage} failed for line ${lineId}`, { error: message });
+
+    if (!webhookEventId) {
+      return { status: 'failed', message };
+    }
+
+    const event = await this.events.getStatus(webhookEventId);
+    const attempt = (event?.retryCount || 0) + 1;
+    const willRetry = !!this.queue && attempt < this.config.eventAttempts;
+
+    await this.events.transition(webhookEventId, 'failed', {
+      errorMessage: message,
+      incrementRetry: willRetry,
+      metadata: { failed_stage: stage },
+    });
+
+    if (willRetry) {
+      await this.queue.add(
+        'retry-event',
+        { lineId, webhookEventId, attempt: attempt + 1 },
+        {
+          delay: retryDelay(attempt, this.config.retryBaseMs),
+          jobId: `event-${webhookEventId}-retry-${attempt + 1}`,
+        }
+      );
+      return { status: 'failed', message: `${message} (retry ${attempt + 1} scheduled)` };
+    }
+
+    await this.events.transition(webhookEventId, 'dead_lettered');
+    await this.deadLetters.record({
+      webhookEventId,
+      lineId,
+      stage,
+      errorMessage: message,
+      attempts: attempt,
+    });
+    return { status: 'failed', message: `${message} (dead-lettered)` };
+  }
+
+  private async redriveEvent(deadLetter: WebhookDeadLetter): Promise<RedriveResult> {
+    const result = await this.enqueueLine(deadLetter.lineId, deadLetter.webhookEventId, {
+      force: true,
+    });
+
+    if (result.status === 'failed') {
+      await this.deadLetters.markRedriveFailed(deadLetter.id, 'discover', result.message);
+      return { deadLetterId: deadLetter.id, status: 'failed', message: result.message };
+    }
+
+    // Any new failure from the re-queued run gets its own dead letter
+    await this.deadLetters.markResolved(deadLetter.id);
+    return { deadLetterId: deadLetter.id, status: 'requeued', message: result.message };
+  }
+
+  private async trackOutcomes(runKey: string, outcomes: FileOutcome[]): Promise<void> {
+    if (outcomes.length === 0) return;
+
+    await this.redis.rpush(
+      `${runKey}:outcomes`,
+      ...outcomes.map(outcome => JSON.stringify(outcome))
+    );
+    await this.redis.ltrim(`${runKey}:outcomes`, 0, MAX_TRACKED_OUTCOMES - 1);
+    await this.redis.expire(`${runKey}:outcomes`, 86400);
+  }
+
+  private async completeRunIfDone(
+    context: PipelineContext,
+    totalBatches: number,
+    totalFiles: number
+  ): Promise<void> {
+    const runKey = `${RUN_KEY_PREFIX}${context.runId}`;
+    const totals = await this.redis.hgetall(runKey);
+
+    const completedBatches = parseInt(totals.completedBatches || '0', 10);
+    const pendingRetries = parseInt(totals.pendingRetries || '0', 10);
+    if (completedBatches < totalBatches || pendingRetries > 0) {
+      return;
+    }
+
+    // Only the worker that sets this flag finishes the run
+    const claimed = await this.redis.hsetnx(runKey, 'completed', '1');
+    if (!claimed) return;
+
+    const outcomes = (await this.redis.lrange(`${runKey}:outcomes`, 0, -1)).map(
+      entry => JSON.parse(entry) as FileOutcome
+    );
+
+    const summary: PipelineRunSummary = {
+      context,
+      endTime: new Date(),
+      totalFiles,
+      updated: parseInt(totals.updated || '0', 10),
+      unchanged: parseInt(totals.unchanged || '0', 10),
+      failed: parseInt(totals.failed || '0', 10),
+      snapshots: parseInt(totals.snapshots || '0', 10),
+      outcomes,
+    };
+
+    const finalStatus: WebhookEventStatus =
+      summary.failed === 0
+        ? 'completed'
+        : summary.failed < totalFiles
+          ? 'partially_failed'
+          : 'failed';
+
+    await this.pipeline.notifyCompleted(summary);
+    await this.redis.del(runKey, `${runKey}:outcomes`);
+
+    if (finalStatus === 'failed') {
+      await this.failEvent(
+        context.lineId,
+        context.webhookEventId,
+        outcomes[0]?.stage || 'fetch',
+        new Error(`All ${totalFiles} files failed`)
+      );
+      return;
+    }
+
+    await this.events.transition(context.webhookEventId, finalStatus, {
+      errorMessage: summary.failed > 0 ? `${summary.failed} files dead-lettered` : undefined,
+      metadata: {
+        updated: summary.updated,
+        unchanged: summary.unchanged,
+        failed: summary.failed,
+        retried: parseInt(totals.retried || '0', 10),
+      },
+    });
+  }
+
+  private async minutesSinceLastRun(lineId: number): Promise<number | null> {
+    const recent = await db.execute(sql`
+      SELECT MAX(processed_at) as last_processed
+      FROM webhook_events
+      WHERE line_id = ${lineId}
+        AND status = 'completed'
+        AND processed_at > NOW() - make_interval(mins => ${THROTTLE_MINUTES})
+    `);
+
+    if (!recent[0]?.last_processed) return null;
+    return Math.round((Date.now() - new Date(recent[0].last_processed).getTime()) / 60000);
+  }
+
+  private jobLineId(data: PipelineJobData): number | undefined {
+    return 'context' in data ? data.context?.lineId : data.lineId;
+  }
+
+  private serializeContext(context: PipelineContext): SerializedContext {
+    return { ...context, startTime: context.startTime.toISOString() };
+  }
+
+  private deserializeContext(context: SerializedContext): PipelineContext {
+    return { ...context, startTime: new Date(context.startTime) };
+  }
+}
@@ -0,0 +1,195 @@
+import logger from '../../config/logger';
+import { priceChangedEvent } from './price-change-events';
+import type {
+  FileOutcome,
+  FileResume,
+  PipelineContext,
+  PipelineRunSummary,
+  PipelineStageName,
+  PipelineStages,
+  TraveltekFile,
+} from './types';
+
+export class PipelineStageError extends Error {
+  constructor(
+    public stage: PipelineStageName,
+    public originalError: unknown
+  ) {
+    super(originalError instanceof Error ? originalError.message : String(originalError));
+    this.name = 'PipelineStageError';
+  }
+}
+
+export interface PipelineRunOptions {
+  webhookEventId?: number;
+  runId?: string;
+  concurrency?: number;
+}
+
+/**
+ * Traveltek webhook processing as explicit stages:
+ * discover → fetch → parse → diff → upsert → snapshot → publish → notify.
+ *
+ * The pipeline only sequences stages and collects outcomes; what each stage
+ * actually does is decided by the implementations passed in.
+ */
+export class WebhookPipeline {
+  constructor(private stages: PipelineStages) {}
+
+  createContext(lineId: number, options: PipelineRunOptions = {}): PipelineContext {
+    return {
+      runId: options.runId || `${lineId}-${Date.now()}`,
+      lineId,
+      webhookEventId: options.webhookEventId,
+      startTime: new Date(),
+    };
+  }
+
+  async discover(lineId: number): Promise<TraveltekFile[]> {
+    return this.stages.discover.discover(lineId);
+  }
+
+  /**
+   * Process a whole line in-process: discover, process every file, notify.
+   */
+  async run(lineId: number, options: PipelineRunOptions = {}): Promise<PipelineRunSummary> {
+    const context = this.createContext(lineId, options);
+    await this.notifyStarted(context);
+
+    const files = await this.discover(lineId);
+    const outcomes = await this.processFiles(files, context, options.concurrency);
+    const summary = this.summarize(context, files.length, outcomes);
+
+    await this.notifyCompleted(summary);
+    return summary;
+  }
+
+  async processFiles(
+    files: TraveltekFile[],
+    context: PipelineContext,
+    concurrency = 10
+  ): Promise<FileOutcome[]> {
+    const outcomes: FileOutcome[] = [];
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const batch = files.slice(i, i + concurrency);
+      outcomes.push(...(await Promise.all(batch.map(file => this.processFile(file, context)))));
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Run a single file through fetch → parse → diff → upsert → snapshot → publish.
+   * Never throws: failures are reported as a 'failed' outcome naming the stage,
+   * with what a retry needs to resume when the upsert already went through.
+   */
+  async processFile(
+    file: TraveltekFile,
+    context: PipelineContext,
+    resume?: FileResume
+  ): Promise<FileOutcome> {
+    let written = resume;
+    try {
+      const contents = await this.stage('fetch', () => this.stages.fetch.fetch(file));
+      const parsed = await this.stage('parse', async () => this.stages.parse.parse(file, contents));
+      const diff = written?.diff ?? (await this.stage('diff', () => this.stages.diff.diff(parsed)));
+
+      if (!diff.changed) {
+        return { file, status: 'unchanged', cruiseId: String(parsed.cruise.id) };
+      }
+
+      if (!written) {
+        const upserted = await this.stage('upsert', () =>
+          this.stages.upsert.upsert(parsed, diff, context)
+        );
+        written = { diff, result: upserted };
+      }
+      const { result } = written;
+
+      const snapshotted =
+        diff.pricingChanged === false
+          ? false
+          : await this.stage('snapshot', () => this.stages.snapshot.snapshot(result, context));
+
+      await this.stage('publish', async () => {
+        const event = priceChangedEvent(result.cruiseId, parsed, diff, context);
+        if (event) {
+          await this.stages.publish.publish(event);
+        }
+      });
+
+      // Only now is the file what the diff stage should compare against; a
+      // file that failed on the way has to look changed when it is retried
+      if (diff.checksum) {
+        this.stages.diff.commit?.(String(parsed.cruise.id), diff.checksum);
+      }
+
+      return {
+        file,
+        status: 'updated',
+        cruiseId: result.cruiseId,
+        changes: snapshotted ? [...diff.changes, 'price_snapshot'] : diff.changes,
+      };
+    } catch (error) {
+      const stageError =
+        error instanceof PipelineStageError ? error : new PipelineStageError('fetch', error);
+
+      logger.error(`[PIPELINE] ${stageError.stage} failed for ${file.path}`, {
+        runId: context.runId,
+        error: stageError.message,
+      });
+
+      return {
+        file,
+        status: 'failed',
+        stage: stageError.stage,
+        error: stageError.message,
+        ...(written && { resume: written }),
+      };
+    }
+  }
+
+  summarize(
+    context: PipelineContext,
+    totalFiles: number,
+    outcomes: FileOutcome[]
+  ): PipelineRunSummary {
+    return {
+      context,
+      endTime: new Date(),
+      totalFiles,
+      updated: outcomes.filter(outcome => outcome.status === 'updated').length,
+      unchanged: outcomes.filter(outcome => outcome.status === 'unchanged').length,
+      failed: outcomes.filter(outcome => outcome.status === 'failed').length,
+      snapshots: outcomes.filter(outcome => outcome.changes?.includes('price_snapshot')).length,
+      outcomes,
+    };
+  }
+
+  async notifyStarted(context: PipelineContext): Promise<void> {
+    await this.safeNotify(() => this.stages.notify.started(context));
+  }
+
+  async notifyCompleted(summary: PipelineRunSummary): Promise<void> {
+    await this.safeNotify(() => this.stages.notify.completed(summary));
+  }
+
+  private async stage<T>(name: PipelineStageName, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw new PipelineStageError(name, error);
+    }
+  }
+
+  private async safeNotify(fn: () => Promise<void>): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      logger.error('[PIPELINE] Notify stage failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
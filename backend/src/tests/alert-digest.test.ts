@@ -0,0 +1,167 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import {
+  AlertDigestService,
+  isAlertDue,
+  isQuietTime,
+  rankDigest,
+} from '../services/alert-digest.service';
+import { alertMatches } from '../db/schema';
+import { createAlertLinkToken, verifyAlertLinkToken } from '../utils/alert-link-token';
+
+const mockUpdates: Array<{ table: unknown; where: SQL }> = [];
+
+// One user with two pending matches; updates are recorded
+jest.mock('../db/connection', () => {
+  const pending = (matchId: string, event: string, currentPrice: string | null) => ({
+    match_id: matchId,
+    alert_id: 'alert-1',
+    cruise_id: '123',
+    cabin_type: 'interior',
+    price: currentPrice || '899.00',
+    current_price: currentPrice,
+    last_notified_price: '899.00',
+    pending_notification: event,
+    alert_name: 'Caribbean',
+    alert_frequency: 'daily',
+    last_notified: null,
+    max_budget: '1000.00',
+  });
+  const update = (table: unknown) => {
+    const query = {
+      set: () => query,
+      where: (where: SQL) => {
+        mockUpdates.push({ table, where });
+        return query;
+      },
+      returning: async () => [{ id: 'match-1' }],
+      then: (resolve: (value: unknown) => void) => resolve(undefined),
+    };
+    return query;
+  };
+  return {
+    db: {
+      query: { users: { findFirst: async () => ({ id: 'user-1', email: 'a@example.com' }) } },
+      execute: async () => [
+        pending('match-1', 'price_drop', '799.00'),
+        pending('match-2', 'sold_out', null),
+      ],
+      update,
+    },
+  };
+});
+jest.mock('../services/alert-email.service', () => ({
+  alertEmailService: { sendDailyAlertEmail: async () => true },
+}));
+
+const now = new Date('2026-01-10T14:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+describe('alert frequency', () => {
+  test('an alert never emailed is due', () => {
+    expect(isAlertDue('weekly', null, now)).toBe(true);
+  });
+
+  test('waits out the frequency, allowing for the hourly run', () => {
+    expect(isAlertDue('daily', hoursAgo(23), now)).toBe(true);
+    expect(isAlertDue('daily', hoursAgo(12), now)).toBe(false);
+    expect(isAlertDue('weekly', hoursAgo(6 * 24), now)).toBe(false);
+    expect(isAlertDue('weekly', hoursAgo(7 * 24), now)).toBe(true);
+    expect(isAlertDue('monthly', hoursAgo(20 * 24), now)).toBe(false);
+  });
+});
+
+describe('quiet hours', () => {
+  const quiet = (start: string, end: string, timezone?: string) => ({
+    timezone,
+    notifications: {
+      email: true,
+      sms: false,
+      deals: true,
+      reminders: true,
+      quietHours: { start, end },
+    },
+  });
+
+  test('are read in the user timezone', () => {
+    // 14:00 UTC is 09:00 in New York (EST)
+    expect(isQuietTime(quiet('08:00', '10:00', 'America/New_York'), now)).toBe(true);
+    expect(isQuietTime(quiet('08:00', '10:00'), now)).toBe(false);
+  });
+
+  test('can run past midnight', () => {
+    expect(isQuietTime(quiet('22:00', '07:00', 'Asia/Tokyo'), now)).toBe(true); // 23:00
+    expect(isQuietTime(quiet('22:00', '07:00', 'Europe/London'), now)).toBe(false); // 14:00
+  });
+
+  test('without quiet hours any time is fine', () => {
+    expect(isQuietTime({}, now)).toBe(false);
+    expect(isQuietTime(null, now)).toBe(false);
+  });
+});
+
+describe('digest ranking', () => {
+  const match = (price: number, extra = {}) => ({
+    cruiseId: `c-${price}`,
+    cabinType: 'interior' as const,
+    price,
+    cruise: {},
+    ...extra,
+  });
+
+  test('puts the biggest savings first', () => {
+    const ranked = rankDigest([
+      {
+        alertId: 'a',
+        alertName: 'Caribbean',
+        maxBudget: 1000,
+        matches: [match(900), match(1200, { event: 'expired' }), match(600)],
+      },
+      {
+        alertId: 'b',
+        alertName: 'Alaska',
+        maxBudget: 2000,
+        matches: [match(1500, { event: 'price_drop', previousPrice: 2100 })],
+      },
+    ]);
+
+    expect(ranked.map(section => section.alertId)).toEqual(['b', 'a']);
+    expect(ranked[1].matches.map(m => m.price)).toEqual([600, 900, 1200]);
+  });
+});
+
+describe('sending a digest', () => {
+  test('clears only matches still pending with the price that was emailed', async () => {
+    expect(await new AlertDigestService().sendDigest('user-1', now)).toBe(true);
+
+    const update = mockUpdates.find(({ table }) => table === alertMatches)!;
+    const { sql, params } = new PgDialect().sqlToQuery(update.where);
+
+    expect(sql).toContain('"pending_notification" = $');
+    expect(sql).toContain('"current_price" = $');
+    expect(sql).toContain('"current_price" is null');
+    expect(params).toEqual(['match-1', 'price_drop', '799.00', 'match-2', 'sold_out']);
+  });
+});
+
+describe('alert link tokens', () => {
+  const secret = 'a-test-secret-of-some-length';
+
+  test('round-trips a signed payload', () => {
+    const payload = { action: 'pause' as const, userId: 'user-1', alertId: 'alert-1' };
+    expect(verifyAlertLinkToken(createAlertLinkToken(payload, secret), secret)).toEqual(payload);
+  });
+
+  test('rejects tampered or foreign tokens', () => {
+    const token = createAlertLinkToken({ action: 'unsubscribe', userId: 'user-1' }, secret);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ action: 'unsubscribe', userId: 'user-2' })
+    ).toString('base64url');
+
+    expect(verifyAlertLinkToken(`${forged}.${signature}`, secret)).toBeNull();
+    expect(verifyAlertLinkToken(token, 'another-secret-entirely')).toBeNull();
+    expect(verifyAlertLinkToken('not-a-token', secret)).toBeNull();
+  });
+});
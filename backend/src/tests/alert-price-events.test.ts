@@ -0,0 +1,269 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import {
+  cabinPriceChanges,
+  priceChangedEvent,
+  priceDecreases,
+} from '../services/webhook-pipeline/price-change-events';
+import type {
+  CruisePriceChangedEvent,
+  DiffResult,
+  ParsedCruiseFile,
+} from '../services/webhook-pipeline/types';
+import {
+  AlertMatchingService,
+  alertParty,
+  budgetPrice,
+  couldMatchCruise,
+  evaluateMatch,
+  type CruiseFacts,
+} from '../services/alert-matching.service';
+import { searchService } from '../services/search';
+
+const mockAlerts = [
+  {
+    id: 'alert-1',
+    name: 'Royal Caribbean in March',
+    userId: 'user-1',
+    searchCriteria: { cruiseLineIds: [22], departureMonth: '2026-03' },
+    alertEnabled: true,
+    isActive: true,
+    maxBudget: '500.00',
+    budgetType: 'per_person',
+    cabinTypes: null,
+    adults: 2,
+    children: 0,
+    childAges: [],
+    infants: 0,
+  },
+];
+let mockAlertLoads = 0;
+
+// No alert matches the cruise yet; loading every alert is counted
+jest.mock('../db/connection', () => {
+  const select = (fields?: unknown) => {
+    const query = {
+      from: () => query,
+      innerJoin: () => query,
+      where: async () => {
+        if (fields) return [];
+        mockAlertLoads++;
+        return mockAlerts;
+      },
+    };
+    return query;
+  };
+  const cruise = {
+    id: '123',
+    name: 'Western Caribbean',
+    cruise_line_id: 22,
+    sailing_date: '2026-03-08',
+    nights: 7,
+    region_ids: [4, 12],
+    is_active: true,
+    interior_price: '499.00',
+  };
+  const query = {
+    savedSearches: {
+      findFirst: async () => ({ ...mockAlerts[0], children: 1, childAges: [8] }),
+    },
+  };
+  return { db: { select, execute: async () => [cruise], query } };
+});
+
+const parsed = {
+  cheapest: { interiorPrice: '499.00', oceanviewPrice: null, balconyPrice: '899.00' },
+} as unknown as ParsedCruiseFile;
+
+const context = { runId: 'run-1', lineId: 22, startTime: new Date() };
+
+const cruise: CruiseFacts = {
+  cruiseLineId: 22,
+  sailingDate: '2026-03-08',
+  nights: 7,
+  regionIds: [4, 12],
+};
+
+describe('price change events', () => {
+  test('a new sailing has every price it arrived with as added', () => {
+    const diff: DiffResult = { changed: true, changes: ['new_cruise'], fieldChanges: [] };
+
+    expect(cabinPriceChanges(parsed, diff)).toEqual([
+      { cabinType: 'interior', oldPrice: null, newPrice: 499 },
+      { cabinType: 'balcony', oldPrice: null, newPrice: 899 },
+    ]);
+  });
+
+  test('an existing sailing publishes only the price changes the diff found', () => {
+    const diff: DiffResult = {
+      changed: true,
+      changes: ['price_decreased', 'itinerary_changed'],
+      fieldChanges: [
+        { changeType: 'itinerary_changed', field: 'itinerary', oldValue: [1], newValue: [2] },
+        {
+          changeType: 'price_decreased',
+          field: 'interiorPrice',
+          cabinType: 'interior',
+          oldValue: 549,
+          newValue: 499,
+        },
+        {
+          changeType: 'price_increased',
+          field: 'suitePrice',
+          cabinType: 'suite',
+          oldValue: 1999,
+          newValue: 2199,
+        },
+      ],
+    };
+
+    const event = priceChangedEvent('123', parsed, diff, context);
+    expect(event).toMatchObject({ cruiseId: '123', lineId: 22, runId: 'run-1' });
+    expect(event.changes).toHaveLength(2);
+    expect(priceDecreases(event)).toEqual([
+      { cabinType: 'interior', oldPrice: 549, newPrice: 499 },
+    ]);
+  });
+
+  test('no event when the headline prices did not change', () => {
+    const diff: DiffResult = { changed: true, changes: ['data_changed'] };
+    expect(priceChangedEvent('123', parsed, diff, context)).toBeNull();
+  });
+});
+
+describe('alert criteria against a cruise', () => {
+  test('an alert without criteria could match anything', () => {
+    expect(couldMatchCruise({}, cruise)).toBe(true);
+  });
+
+  test('checks month, line, region and length', () => {
+    expect(couldMatchCruise({ departureMonths: ['2026-03', '2026-04'] }, cruise)).toBe(true);
+    expect(couldMatchCruise({ departureMonths: ['2026-04'] }, cruise)).toBe(false);
+    expect(couldMatchCruise({ cruiseLineIds: [8] }, cruise)).toBe(false);
+    expect(couldMatchCruise({ regionIds: [12, 30] }, cruise)).toBe(true);
+    expect(couldMatchCruise({ regionIds: [30] }, cruise)).toBe(false);
+    expect(couldMatchCruise({ minNights: 5, maxNights: 7 }, cruise)).toBe(true);
+    expect(couldMatchCruise({ minNights: 8 }, cruise)).toBe(false);
+  });
+});
+
+describe('alerts for a price change', () => {
+  const event = (runId: string): CruisePriceChangedEvent => ({
+    cruiseId: '123',
+    lineId: 22,
+    runId,
+    changes: [{ cabinType: 'interior', oldPrice: 549, newPrice: 499 }],
+    occurredAt: '2026-01-10T08:00:00.000Z',
+  });
+
+  test('matches alerts whose criteria fit the cruise', async () => {
+    const groups = await new AlertMatchingService().findMatchesForPriceChange(event('run-1'));
+
+    expect(groups).toEqual([
+      expect.objectContaining({
+        alertId: 'alert-1',
+        matches: [expect.objectContaining({ cabinType: 'interior', price: 499, event: 'matched' })],
+      }),
+    ]);
+  });
+
+  test('loads the alerts once for all the price changes of a run', async () => {
+    const service = new AlertMatchingService();
+    const loadsBefore = mockAlertLoads;
+
+    await service.findMatchesForPriceChange(event('run-1'));
+    await service.findMatchesForPriceChange(event('run-1'));
+    expect(mockAlertLoads - loadsBefore).toBe(1);
+
+    await service.findMatchesForPriceChange(event('run-2'));
+    expect(mockAlertLoads - loadsBefore).toBe(2);
+  });
+});
+
+describe('match changes', () => {
+  const rules = { maxBudget: 1000, renotifyDropAmount: 100 };
+  const emailed = { state: 'active', currentPrice: 900, lastNotifiedPrice: 900 };
+
+  test('a price within budget starts or restarts a match', () => {
+    expect(evaluateMatch(null, 900, rules)).toEqual({ event: 'matched', notify: true });
+    expect(evaluateMatch(null, 1100, rules)).toBeNull();
+    expect(evaluateMatch({ ...emailed, state: 'expired' }, 950, rules)).toEqual({
+      event: 'matched',
+      notify: true,
+    });
+  });
+
+  test('emails again only once the drop reaches the threshold', () => {
+    expect(evaluateMatch(emailed, 850, rules)).toBeNull();
+    expect(evaluateMatch(emailed, 800, rules)).toEqual({ event: 'price_drop', notify: true });
+  });
+
+  test('ends matches over budget or sold out, emailing only when asked', () => {
+    expect(evaluateMatch(emailed, 1100, rules)).toEqual({ event: 'expired', notify: false });
+    expect(evaluateMatch(emailed, null, { ...rules, notifyOnExpiry: true })).toEqual({
+      event: 'sold_out',
+      notify: true,
+    });
+    expect(
+      evaluateMatch({ ...emailed, lastNotifiedPrice: null }, null, {
+        ...rules,
+        notifyOnExpiry: true,
+      })
+    ).toEqual({ event: 'sold_out', notify: false });
+    expect(evaluateMatch({ ...emailed, state: 'sold_out' }, null, rules)).toBeNull();
+  });
+});
+
+describe('alert party pricing', () => {
+  test('prices infants as children aged 0', () => {
+    expect(alertParty({ adults: 2, children: 1, childAges: [8], infants: 1 })).toEqual({
+      adults: 2,
+      children: 2,
+      childAges: [8, 0],
+    });
+    expect(alertParty({ adults: 2, children: 0, childAges: [], infants: 0 })).toEqual({
+      adults: 2,
+      children: 0,
+    });
+  });
+
+  test('prices children without ages as children', () => {
+    expect(alertParty({ adults: 1, children: 2, childAges: null, infants: 0 }).childAges).toEqual([
+      17, 17,
+    ]);
+  });
+
+  test('compares a total budget with the whole party', () => {
+    const party = { adults: 2, children: 1, childAges: [8] };
+    expect(budgetPrice(450.5, party, 'total')).toBe(1351.5);
+    expect(budgetPrice(450.5, party, 'per_person')).toBe(450.5);
+    expect(budgetPrice(null, party, 'total')).toBeNull();
+  });
+
+  test("matches search results on the party's prices, not the two-adult headline", async () => {
+    const pricing = { interior: 400, oceanview: null, balcony: 800, suite: null };
+    jest.spyOn(searchService, 'search').mockResolvedValueOnce({
+      results: [
+        {
+          id: '123',
+          pricing: {
+            ...pricing,
+            party: {
+              priced: true,
+              perPerson: { interior: 450, oceanview: null, balcony: 480, suite: null },
+            },
+          },
+        },
+        { id: '456', pricing: { ...pricing, party: { priced: false } } },
+      ],
+    } as any);
+
+    const matches = await new AlertMatchingService().getAllMatches('alert-1');
+
+    expect(
+      matches.map(({ cruiseId, cabinType, price }) => ({ cruiseId, cabinType, price }))
+    ).toEqual([
+      { cruiseId: '123', cabinType: 'interior', price: 450 },
+      { cruiseId: '123', cabinType: 'balcony', price: 480 },
+    ]);
+  });
+});
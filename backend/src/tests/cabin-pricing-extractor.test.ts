@@ -0,0 +1,78 @@
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractCabinPricing } from '../services/webhook-pipeline/cabin-pricing-extractor';
+
+const FIXTURES_DIR = path.join(__dirname, '../../tests/fixtures/traveltek');
+const LINE_ID = 22;
+
+function loadFixture(relativePath: string): any {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, relativePath), 'utf8'));
+}
+
+describe('extractCabinPricing', () => {
+  const raw = loadFixture('2025/10/22/5457/2144014.json');
+
+  test('maps flat rate/cabin prices to cabin codes at standard occupancy', () => {
+    const rows = extractCabinPricing(raw, '2144014', LINE_ID);
+    const inside = rows.find(row => row.rateCode === 'FT383133' && row.cabinCode === '2S');
+
+    expect(inside).toMatchObject({
+      cruiseId: '2144014',
+      occupancyCode: '101',
+      cabinType: 'inside',
+      basePrice: '587.29',
+      adultPrice: '336.00',
+      singlePrice: '336.00',
+      childPrice: null,
+      taxes: '131.29',
+      ncf: '120.00',
+      totalPrice: '912.58',
+      isAvailable: true,
+    });
+  });
+
+  test('keeps one row per occupancy for the nested format', () => {
+    const rows = extractCabinPricing(
+      {
+        prices: {
+          BESTFARE: {
+            IB: {
+              '101': { price: '900.00', adultprice: '900.00', cabintype: 'Interior' },
+              '201': { price: '1200.00', adultprice: '600.00', childprice: '0.00' },
+            },
+          },
+        },
+      },
+      '1',
+      LINE_ID
+    );
+
+    expect(rows.map(row => [row.cabinCode, row.occupancyCode, row.basePrice])).toEqual([
+      ['IB', '101', '900.00'],
+      ['IB', '201', '1200.00'],
+    ]);
+    expect(rows[1].childPrice).toBeNull();
+  });
+
+  test('adds taxes, NCF and gratuity to the fare for the total', () => {
+    const [row] = extractCabinPricing(
+      {
+        prices: {
+          BESTFARE: {
+            IB: { price: '900.00', taxes: '120.50', ncf: '80.00', gratuity: '112.00' },
+          },
+        },
+      },
+      '1',
+      LINE_ID
+    );
+
+    expect(row.basePrice).toBe('900.00');
+    expect(row.totalPrice).toBe('1212.50');
+  });
+
+  test('returns null when the file has no prices block', () => {
+    expect(extractCabinPricing({ ...raw, prices: undefined }, '2144014', LINE_ID)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  detectCruiseChanges,
+  type CruiseState,
+} from '../services/webhook-pipeline/cruise-change-detector';
+
+const FIXTURES_DIR = path.join(__dirname, '../../tests/fixtures/traveltek');
+const LINE_ID = 22;
+
+function loadState(relativePath: string): CruiseState {
+  const raw = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, relativePath), 'utf8'));
+  return { shipId: Number(raw.shipid), sailingDate: raw.startdate, nights: raw.nights, raw };
+}
+
+describe('detectCruiseChanges', () => {
+  const stored = loadState('2025/10/22/5457/2144014.json');
+
+  test('reports nothing for an identical file', () => {
+    expect(detectCruiseChanges(stored, loadState('2025/10/22/5457/2144014.json'), LINE_ID)).toEqual(
+      []
+    );
+  });
+
+  test('reports per-cabin-type price increases', () => {
+    const next = loadState('2025/10/22/5457/2144014.json');
+    next.raw.cheapestinside = String(Number(stored.raw.cheapestinside) + 25);
+
+    expect(detectCruiseChanges(stored, next, LINE_ID)).toEqual([
+      {
+        changeType: 'price_increased',
+        field: 'interiorPrice',
+        cabinType: 'interior',
+        oldValue: 459.29,
+        newValue: 484.29,
+      },
+    ]);
+  });
+
+  test('reports itinerary, date, ship and cabin category changes', () => {
+    const next = loadState('2025/10/22/5457/2144014.json');
+    next.sailingDate = '2025-10-13';
+    next.shipId = 9999;
+    next.raw.itinerary = [...next.raw.itinerary].reverse();
+    const [removedKey] = Object.keys(next.raw.cabins);
+    const removedCode = next.raw.cabins[removedKey].cabincode || removedKey;
+    delete next.raw.cabins[removedKey];
+
+    const changes = detectCruiseChanges(stored, next, LINE_ID);
+    const types = changes.map(change => change.changeType);
+
+    expect(types).toEqual(
+      expect.arrayContaining([
+        'sailing_date_moved',
+        'ship_swapped',
+        'itinerary_changed',
+        'cabin_category_removed',
+      ])
+    );
+    expect(changes.find(change => change.changeType === 'cabin_category_removed')?.field).toBe(
+      removedCode
+    );
+  });
+});
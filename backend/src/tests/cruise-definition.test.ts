@@ -0,0 +1,213 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { CruiseDefinitionService } from '../services/cruise-definition.service';
+import { cruiseService } from '../services/cruise.service';
+import type { NewCruise } from '../db/schema';
+
+// Statements run on the shared connection, and the rows it returns
+const mockExecuted: SQL[] = [];
+let mockRows: any[] = [];
+
+jest.mock('../db/connection', () => ({
+  db: {
+    execute: async (query: SQL) => {
+      mockExecuted.push(query);
+      return mockRows;
+    },
+  },
+}));
+
+const toQuery = (query: SQL) => new PgDialect().sqlToQuery(query);
+
+// Runs statements like a transaction would, returning ids for the upserts
+const recordingExecutor = () => {
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+  return {
+    queries,
+    execute: async (query: SQL) => {
+      queries.push(toQuery(query));
+      return [{ id: queries.length === 1 ? 'definition-1' : 'sailing-1' }];
+    },
+  };
+};
+
+const sailing: NewCruise = {
+  id: '2144014',
+  cruiseId: '354279',
+  cruiseLineId: 22,
+  shipId: 5457,
+  name: 'Bahamas & Perfect Day Cruise',
+  voyageCode: 'WN4BH275',
+  sailingDate: '2025-10-06',
+  returnDate: '2025-10-10',
+  nights: 4,
+  embarkPortId: 410,
+  disembarkPortId: 410,
+  portIds: '410,371,202,410',
+  regionIds: '2',
+  marketId: '9',
+  ownerId: 'system',
+};
+
+// The arguments of cruise_itinerary_key(), which lead the definition upsert
+const itineraryKeyArgs = async (cruise: NewCruise) => {
+  const executor = recordingExecutor();
+  await new CruiseDefinitionService().syncSailing(cruise, {}, executor);
+  return executor.queries[0].params.slice(0, 6);
+};
+
+beforeEach(() => {
+  mockExecuted.length = 0;
+  mockRows = [];
+});
+
+describe('syncSailing', () => {
+  test('upserts the definition and sailing through the given executor and links the cruise', async () => {
+    const executor = recordingExecutor();
+
+    const link = await new CruiseDefinitionService().syncSailing(
+      sailing,
+      { filePath: '/2025/10/22/5457/2144014.json' },
+      executor
+    );
+
+    expect(link).toEqual({ cruiseDefinitionId: 'definition-1', cruiseSailingId: 'sailing-1' });
+    expect(mockExecuted).toHaveLength(0);
+
+    const [definition, sailingRow, cruiseLink] = executor.queries;
+    expect(definition.sql).toContain('INSERT INTO cruise_definitions');
+    expect(definition.sql).toContain('ON CONFLICT (itinerary_key)');
+    expect(definition.params).toEqual(
+      expect.arrayContaining([354279, 'WN4BH275', '[2]', '[410,371,202,410]', 9, null])
+    );
+
+    expect(sailingRow.sql).toContain('ON CONFLICT (code_to_cruise_id)');
+    expect(sailingRow.params).toEqual([
+      'definition-1',
+      2144014,
+      '2025-10-06',
+      '2025-10-10',
+      '/2025/10/22/5457/2144014.json',
+      true,
+    ]);
+
+    expect(cruiseLink.sql).toContain('UPDATE cruises SET cruise_definition_id');
+    expect(cruiseLink.params).toEqual(['definition-1', '2144014', 'definition-1']);
+  });
+
+  test('keys other dates of the same itinerary to the same definition', async () => {
+    const key = await itineraryKeyArgs(sailing);
+
+    expect(key).toEqual([22, 5457, 4, 410, 410, '410,371,202,410']);
+    expect(
+      await itineraryKeyArgs({
+        ...sailing,
+        id: '2144015',
+        cruiseId: '354280',
+        voyageCode: 'WN4BH276',
+        sailingDate: '2025-10-10',
+        returnDate: '2025-10-14',
+      })
+    ).toEqual(key);
+  });
+
+  test('keys a different route, length or ship to a different definition', async () => {
+    const key = await itineraryKeyArgs(sailing);
+
+    expect(await itineraryKeyArgs({ ...sailing, portIds: '410,202,410' })).not.toEqual(key);
+    expect(await itineraryKeyArgs({ ...sailing, nights: 5 })).not.toEqual(key);
+    expect(await itineraryKeyArgs({ ...sailing, shipId: 5458 })).not.toEqual(key);
+  });
+
+  test('is keyed the same way as the migration backfill', () => {
+    const migration = fs.readFileSync(
+      path.join(__dirname, '../db/migrations/0021_cruise_definition_backfill.sql'),
+      'utf8'
+    );
+    const backfillKeys = migration.match(/cruise_itinerary_key\(\s*c\.[^)]*\)/g) || [];
+
+    // Both backfill statements pass the columns syncSailing passes, in its order
+    expect(backfillKeys).toHaveLength(2);
+    for (const key of backfillKeys) {
+      expect(key.replace(/\s+/g, '')).toBe(
+        'cruise_itinerary_key(c.cruise_line_id,c.ship_id,c.nights,c.embarkation_port_id,' +
+          'c.disembarkation_port_id,c.port_ids)'
+      );
+    }
+  });
+
+  test('rejects a cruise id that is not a codetocruiseid', async () => {
+    await expect(
+      new CruiseDefinitionService().syncSailing(
+        { ...sailing, id: 'manual-1' },
+        {},
+        recordingExecutor()
+      )
+    ).rejects.toThrow('not a Traveltek codetocruiseid');
+  });
+});
+
+describe('setSailingActive', () => {
+  test('mirrors the flag onto the sailing by codetocruiseid', async () => {
+    await new CruiseDefinitionService().setSailingActive('2144014', false);
+
+    const { sql, params } = toQuery(mockExecuted[0]);
+    expect(sql).toContain('UPDATE cruise_sailings SET is_active');
+    expect(params).toEqual([false, 2144014]);
+  });
+
+  test('leaves cruises without a codetocruiseid alone', async () => {
+    await new CruiseDefinitionService().setSailingActive('manual-1', true);
+
+    expect(mockExecuted).toHaveLength(0);
+  });
+});
+
+describe('getAlternativeSailings', () => {
+  test('lists upcoming active sailings of the same cruise definition', async () => {
+    mockRows = [
+      {
+        sailing_id: 'sailing-2',
+        code_to_cruise_id: 2144015,
+        sailing_date: '2025-10-10',
+        cheapest_price: '479.29',
+        created_at: '2025-09-21T00:00:00.000Z',
+      },
+      {
+        sailing_id: 'sailing-3',
+        code_to_cruise_id: 2144180,
+        sailing_date: '2025-11-03',
+        cheapest_price: null,
+        created_at: '2025-09-21T00:00:00.000Z',
+      },
+    ];
+
+    const alternatives = await cruiseService.getAlternativeSailings(2144014);
+
+    const { sql, params } = toQuery(mockExecuted[0]);
+    expect(sql).toContain('cs.cruise_definition_id = base.cruise_definition_id');
+    expect(sql).toContain('cs.is_active = true');
+    expect(sql).toContain('cs.sailing_date >= CURRENT_DATE');
+    expect(params).toEqual(['2144014']);
+
+    expect(alternatives).toEqual([
+      {
+        id: 'sailing-2',
+        alternativeCruiseId: 2144015,
+        sailingDate: '2025-10-10',
+        price: 479.29,
+        createdAt: '2025-09-21T00:00:00.000Z',
+      },
+      {
+        id: 'sailing-3',
+        alternativeCruiseId: 2144180,
+        sailingDate: '2025-11-03',
+        price: undefined,
+        createdAt: '2025-09-21T00:00:00.000Z',
+      },
+    ]);
+  });
+});
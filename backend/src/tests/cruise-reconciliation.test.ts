@@ -0,0 +1,71 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  planMonthReconciliation,
+  type ReconciliationCruise,
+} from '../services/cruise-reconciliation.service';
+
+const NOW = new Date('2025-10-10T05:00:00Z');
+const CONFIG = { gracePeriodHours: 48, maxMissingRatio: 0.5 };
+
+function cruise(id: string, overrides: Partial<ReconciliationCruise> = {}): ReconciliationCruise {
+  return { id, missingFromFtpSince: null, withdrawnAt: null, ...overrides };
+}
+
+describe('planMonthReconciliation', () => {
+  test('starts the grace period for newly missing sailings', () => {
+    const plan = planMonthReconciliation(
+      [cruise('1'), cruise('2'), cruise('3')],
+      new Set(['1', '2']),
+      NOW,
+      CONFIG
+    );
+
+    expect(plan.markMissing).toEqual(['3']);
+    expect(plan.withdraw).toEqual([]);
+  });
+
+  test('withdraws only once the grace period has passed', () => {
+    const plan = planMonthReconciliation(
+      [
+        cruise('1'),
+        cruise('2'),
+        cruise('3', { missingFromFtpSince: new Date('2025-10-07T00:00:00Z') }),
+        cruise('4', { missingFromFtpSince: new Date('2025-10-09T00:00:00Z') }),
+      ],
+      new Set(['1', '2']),
+      NOW,
+      CONFIG
+    );
+
+    expect(plan.withdraw).toEqual(['3']);
+    expect(plan.markMissing).toEqual([]);
+  });
+
+  test('clears and reinstates sailings that are listed again', () => {
+    const plan = planMonthReconciliation(
+      [
+        cruise('1', { missingFromFtpSince: new Date('2025-10-09T00:00:00Z') }),
+        cruise('2', { withdrawnAt: new Date('2025-10-01T00:00:00Z') }),
+        cruise('3'),
+      ],
+      new Set(['1', '2', '3']),
+      NOW,
+      CONFIG
+    );
+
+    expect(plan.clearMissing).toEqual(['1']);
+    expect(plan.reinstate).toEqual(['2']);
+  });
+
+  test('skips a directory where most sailings vanished at once', () => {
+    const plan = planMonthReconciliation(
+      [cruise('1'), cruise('2'), cruise('3')],
+      new Set(['1']),
+      NOW,
+      CONFIG
+    );
+
+    expect(plan.skipped).toBe('2 of 3 sailings missing');
+    expect(plan.markMissing).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  flexibleDateWindow,
+  periodEnd,
+  periodStart,
+  validateFlexibleDate,
+} from '../utils/date-window';
+
+describe('flexible date window', () => {
+  test('spans flexDays either side of the target, across month ends', () => {
+    expect(flexibleDateWindow('2026-03-02', 5)).toEqual({
+      startDate: '2026-02-25',
+      endDate: '2026-03-07',
+    });
+  });
+
+  test('rejects malformed dates and out-of-range flexibility', () => {
+    expect(validateFlexibleDate('2026-03-02', 7)).toBeNull();
+    expect(validateFlexibleDate('03/02/2026', 7)).toMatch(/YYYY-MM-DD/);
+    expect(validateFlexibleDate('2026-03-02', 120)).toMatch(/between 0 and 90/);
+  });
+});
+
+describe('calendar periods', () => {
+  test('weeks start on Monday and months on the 1st', () => {
+    // 2026-03-05 is a Thursday
+    expect(periodStart('2026-03-05', 'week')).toBe('2026-03-02');
+    expect(periodEnd('2026-03-02', 'week')).toBe('2026-03-08');
+    expect(periodStart('2026-02-17', 'month')).toBe('2026-02-01');
+    expect(periodEnd('2026-02-01', 'month')).toBe('2026-02-28');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect, afterEach, jest } from '@jest/globals';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertAmount } from '../services/exchange-rate.service';
+import {
+  HttpRateProvider,
+  StaticFileRateProvider,
+  normalizeRates,
+} from '../services/exchange-rates';
+
+const rates = { USD: 1, GBP: 0.75, EUR: 0.86 };
+
+describe('convertAmount', () => {
+  test('converts through USD and rounds to cents', () => {
+    expect(convertAmount(100, 'USD', 'GBP', rates)).toBe(75);
+    expect(convertAmount(75, 'GBP', 'USD', rates)).toBe(100);
+    expect(convertAmount(100, 'GBP', 'EUR', rates)).toBe(114.67);
+  });
+
+  test('treats currency codes case-insensitively and a missing one as USD', () => {
+    expect(convertAmount(100, 'gbp', 'usd', rates)).toBe(133.33);
+    expect(convertAmount(100, null, 'GBP', rates)).toBe(75);
+    expect(convertAmount(42.5, 'EUR', 'EUR', {})).toBe(42.5);
+  });
+
+  test('returns null without an amount or a rate', () => {
+    expect(convertAmount(null, 'USD', 'GBP', rates)).toBeNull();
+    expect(convertAmount(Number.NaN, 'USD', 'GBP', rates)).toBeNull();
+    expect(convertAmount(100, 'USD', 'JPY', rates)).toBeNull();
+  });
+});
+
+describe('exchange rate providers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps well-formed codes with positive rates, USD always 1', () => {
+    expect(normalizeRates({ gbp: '0.75', EUR: 0.86, USD: 2, XX: 1, JPY: 0, CAD: 'n/a' })).toEqual({
+      USD: 1,
+      GBP: 0.75,
+      EUR: 0.86,
+    });
+  });
+
+  test('reads USD-based rates from a static file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rates-'));
+    const usdFile = path.join(dir, 'usd.json');
+    const eurFile = path.join(dir, 'eur.json');
+    await fs.writeFile(usdFile, JSON.stringify({ base: 'USD', rates: { GBP: 0.75 } }));
+    await fs.writeFile(eurFile, JSON.stringify({ base: 'EUR', rates: { GBP: 0.87 } }));
+
+    try {
+      expect(await new StaticFileRateProvider(usdFile).fetchRates()).toEqual({ USD: 1, GBP: 0.75 });
+      await expect(new StaticFileRateProvider(eurFile).fetchRates()).rejects.toThrow(
+        'rates must be based on USD, got EUR'
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reads rates from an HTTP API, rejecting other bases', async () => {
+    const get = jest.spyOn(axios, 'get');
+    const provider = new HttpRateProvider('https://rates.example.com/latest', 'key');
+
+    get.mockResolvedValueOnce({ data: { base: 'USD', rates: { GBP: 0.75, EUR: 0.86 } } });
+    expect(await provider.fetchRates()).toEqual({ USD: 1, GBP: 0.75, EUR: 0.86 });
+    expect(get).toHaveBeenCalledWith('https://rates.example.com/latest', {
+      params: { base: 'USD', app_id: 'key' },
+      timeout: 15000,
+    });
+
+    get.mockResolvedValueOnce({ data: { base: 'EUR', rates: { GBP: 0.87 } } });
+    await expect(provider.fetchRates()).rejects.toThrow('returned EUR-based rates');
+
+    get.mockResolvedValueOnce({ data: { base: 'USD' } });
+    await expect(provider.fetchRates()).rejects.toThrow('has no rates');
+  });
+});
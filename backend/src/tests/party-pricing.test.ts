@@ -0,0 +1,68 @@
+import { describe, test, expect } from '@jest/globals';
+import { calculatePartyPrice, parsePartyParams, validateParty } from '../utils/party-pricing';
+
+const FARES = {
+  adultPrice: 336,
+  singlePrice: 500,
+  thirdAdultPrice: 150,
+  fourthAdultPrice: null,
+  childPrice: 99,
+  infantPrice: null,
+  taxes: 131.29,
+  ncf: 120,
+  gratuity: 74,
+};
+
+describe('calculatePartyPrice', () => {
+  test('prices two adults on the double-occupancy fare', () => {
+    const price = calculatePartyPrice(FARES, { adults: 2, children: 0 });
+
+    expect(price.total).toBe(1322.58);
+    expect(price.perPerson).toBe(661.29);
+    expect(price.estimated).toBe(false);
+  });
+
+  test('uses the single fare for a solo traveller', () => {
+    const price = calculatePartyPrice(FARES, { adults: 1, children: 0 });
+
+    expect(price.guests.map(guest => guest.basis)).toEqual(['single']);
+    expect(price.total).toBe(825.29);
+  });
+
+  test('prices third and fourth berths on their own fares', () => {
+    const price = calculatePartyPrice(FARES, { adults: 3, children: 1, childAges: [1] });
+
+    // No infant fare is published, so the infant in berth 4 pays the child fare
+    expect(price.guests.map(guest => guest.basis)).toEqual([
+      'adult',
+      'adult',
+      'third_adult',
+      'child',
+    ]);
+    expect(price.fare).toBe(921);
+  });
+
+  test('falls back to the adult fare and flags the estimate', () => {
+    const price = calculatePartyPrice(FARES, { adults: 4, children: 0 });
+
+    expect(price.guests[3].basis).toBe('adult_fallback');
+    expect(price.estimated).toBe(true);
+  });
+});
+
+describe('party params', () => {
+  test('parses adults, children and child ages', () => {
+    expect(parsePartyParams({ adults: '2', childAges: '4,9' })).toEqual({
+      adults: 2,
+      children: 2,
+      childAges: [4, 9],
+    });
+    expect(parsePartyParams({ passengers: '3' })).toEqual({ adults: 3, children: 0 });
+    expect(parsePartyParams({})).toBeNull();
+  });
+
+  test('rejects parties that do not fit one cabin', () => {
+    expect(validateParty({ adults: 3, children: 2 })).toBe('A cabin holds at most 4 guests');
+    expect(validateParty({ adults: 0, children: 1 })).toBe('At least one adult is required');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  extractPortCalls,
+  summarizePortCalls,
+} from '../services/webhook-pipeline/port-call-extractor';
+
+const itinerary = [
+  { day: 1, portid: 100, name: 'Miami', departtime: '16:00' },
+  { day: 2, portid: 0, name: 'At Sea' },
+  { day: 3, portid: 200, name: 'Cozumel', arrivetime: '08:00', tender: 'N' },
+  { day: 4, portid: 300, name: 'Roatan', arrivetime: '09:00' },
+  { day: 5, portid: 300, name: 'Roatan', departtime: '17:00' },
+  { day: 6, portid: 400, name: 'Costa Maya', tender: 'Y' },
+  { day: 7, portid: 0, name: 'At Sea' },
+  { day: 8, portid: 100, name: 'Miami', arrivetime: '07:00' },
+];
+
+describe('extractPortCalls', () => {
+  test('keeps port days in order and skips sea days', () => {
+    const calls = extractPortCalls({ itinerary }, '2143102');
+
+    expect(calls.map(call => [call.callOrder, call.dayNumber, call.portId])).toEqual([
+      [1, 1, 100],
+      [2, 3, 200],
+      [3, 4, 300],
+      [4, 5, 300],
+      [5, 6, 400],
+      [6, 8, 100],
+    ]);
+    expect(calls[0].isEmbarkation).toBe(true);
+    expect(calls[5].isDisembarkation).toBe(true);
+  });
+
+  test('flags overnights and tender ports', () => {
+    const calls = extractPortCalls({ itinerary }, '2143102');
+
+    expect(calls.filter(call => call.isOvernight).map(call => call.dayNumber)).toEqual([4]);
+    expect(calls.filter(call => call.isTender).map(call => call.portId)).toEqual([400]);
+  });
+
+  test('returns null without an itinerary and counts port and sea days', () => {
+    expect(extractPortCalls({ portids: '100,200' }, '2143102')).toBeNull();
+
+    const calls = extractPortCalls({ itinerary }, '2143102');
+    expect(summarizePortCalls(calls, 7)).toEqual({ portDays: 4, seaDays: 2 });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { findLooseDate } from '../utils/date-window';
+import {
+  parseSailingLookup,
+  rankSailings,
+  type SailingRow,
+} from '../services/sailing-resolver.service';
+
+const TODAY = '2026-01-15';
+
+const sailing = (overrides: Partial<SailingRow>): SailingRow => ({
+  id: '1',
+  name: '7 Night Western Caribbean',
+  sailing_date: '2026-03-08',
+  nights: 7,
+  ship_id: 1,
+  ship_name: 'Wonder of the Seas',
+  cruise_line_id: 22,
+  cruise_line_name: 'Royal Caribbean',
+  embark_port: 'Port Canaveral',
+  ...overrides,
+});
+
+describe('loose dates', () => {
+  test('reads the formats people paste', () => {
+    expect(findLooseDate('March 8 2026', TODAY)?.date).toBe('2026-03-08');
+    expect(findLooseDate('Sun, Mar 8th, 2026', TODAY)?.date).toBe('2026-03-08');
+    expect(findLooseDate('8 March 2026', TODAY)?.date).toBe('2026-03-08');
+    expect(findLooseDate('3/8/26', TODAY)?.date).toBe('2026-03-08');
+    expect(findLooseDate('2026-03-08', TODAY)?.date).toBe('2026-03-08');
+  });
+
+  test('takes the next occurrence when the year is missing and rejects impossible days', () => {
+    expect(findLooseDate('Jan 10', TODAY)?.date).toBe('2027-01-10');
+    expect(findLooseDate('Feb 30 2026', TODAY)).toBeNull();
+  });
+});
+
+describe('sailing lookup', () => {
+  test('splits pasted text into ship name, date and nights', () => {
+    expect(
+      parseSailingLookup({ q: 'Wonder of the Seas, Sunday March 8 2026 - 7 nights' }, TODAY)
+    ).toEqual({
+      shipName: 'wonder of the seas',
+      date: '2026-03-08',
+      nights: 7,
+      flexDays: 3,
+      limit: 5,
+    });
+  });
+
+  test('lists every problem', () => {
+    expect(() => parseSailingLookup({ q: 'next spring', flexDays: '30' }, TODAY)).toThrow(
+      expect.objectContaining({
+        details: [
+          'Give an approximate sailing date, in date or q',
+          'flexDays must be a whole number between 0 and 14',
+        ],
+      })
+    );
+  });
+
+  test('ranks the closest date on the matching ship first', () => {
+    const lookup = parseSailingLookup({ q: 'royal caribbean wonder OTS march 9 2026' }, TODAY);
+    const candidates = rankSailings(
+      [
+        sailing({ id: '1', sailing_date: '2026-03-08' }),
+        sailing({ id: '2', sailing_date: '2026-03-11', nights: 4 }),
+        sailing({ id: '3', ship_id: 2, ship_name: 'Harmony of the Seas' }),
+        sailing({ id: '4', ship_id: 3, ship_name: 'Mardi Gras', cruise_line_id: 8 }),
+      ],
+      lookup
+    );
+
+    // Other ships only share "of the seas" and don't match
+    expect(candidates.map(candidate => candidate.cruiseId)).toEqual(['1', '2']);
+    expect(candidates[0]).toMatchObject({ matchedAlias: 'Wonder OTS', scores: { ship: 0.9 } });
+    expect(candidates[0].confidence).toBeGreaterThan(0.8);
+    expect(candidates[1].confidence).toBeLessThan(candidates[0].confidence);
+  });
+});
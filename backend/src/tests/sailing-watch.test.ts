@@ -0,0 +1,230 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { isNotifiableDrop, sailingWatchService } from '../services/sailing-watch.service';
+import { priceHistoryService } from '../services/price-history.service';
+
+// Raw statements run, and the rows each returns in turn
+const mockExecuted: SQL[] = [];
+let mockResults: any[][] = [];
+// Every update's values, and the rows inserted
+const mockUpdates: Record<string, unknown>[] = [];
+const mockInserted: any[] = [];
+// What the query builder selects read: the cheapest_pricing row, then the
+// pricing rates of watched cabin codes
+let mockCheapest: any[] = [];
+let mockRates: any[] = [];
+let mockRatesWhere: SQL | undefined;
+let mockEmailSent = true;
+
+jest.mock('../db/connection', () => {
+  const { QueryBuilder } =
+    jest.requireActual<typeof import('drizzle-orm/pg-core')>('drizzle-orm/pg-core');
+  const { getTableName } = jest.requireActual<typeof import('drizzle-orm')>('drizzle-orm');
+
+  const select = () => {
+    let table = '';
+    const query: any = {
+      from: (from: any) => {
+        table = getTableName(from);
+        return query;
+      },
+      where: (condition: SQL) => {
+        if (table === 'pricing') mockRatesWhere = condition;
+        return query;
+      },
+      limit: async () => (table === 'cheapest_pricing' ? mockCheapest : [{ id: '2144014' }]),
+      orderBy: async () => mockRates,
+    };
+    return query;
+  };
+
+  return {
+    db: {
+      execute: async (query: SQL) => {
+        mockExecuted.push(query);
+        return mockResults.shift() || [];
+      },
+      select,
+      selectDistinct: (fields: any) => new QueryBuilder().selectDistinct(fields),
+      insert: () => ({
+        values: async (rows: any[]) => {
+          mockInserted.push(...rows);
+        },
+      }),
+      update: () => {
+        const query: any = {
+          set: (values: Record<string, unknown>) => {
+            mockUpdates.push(values);
+            return query;
+          },
+          where: async () => undefined,
+        };
+        return query;
+      },
+      query: {
+        users: {
+          findFirst: async () => ({ id: 'user-1', email: 'sam@example.com', firstName: 'Sam' }),
+        },
+      },
+    },
+  };
+});
+jest.mock('../services/alert-email.service', () => ({
+  alertEmailService: {
+    sendPriceDropEmail: async () => mockEmailSent,
+  },
+}));
+
+const toQuery = (query: SQL) => new PgDialect().sqlToQuery(query);
+
+const watchRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'watch-1',
+  user_id: 'user-1',
+  cruise_id: '2144014',
+  cabin_type: 'balcony',
+  cabin_code: '4D',
+  drop_amount: null,
+  drop_percent: null,
+  last_notified_price: '1000.00',
+  new_price: '900.00',
+  checked_at: '2026-10-19T06:00:00.000Z',
+  price: '900.00',
+  cruise_name: 'Bahamas & Perfect Day Cruise',
+  sailing_date: '2026-11-02',
+  nights: 4,
+  ship_name: 'Wonder of the Seas',
+  ...overrides,
+});
+
+beforeEach(() => {
+  mockExecuted.length = 0;
+  mockResults = [];
+  mockUpdates.length = 0;
+  mockInserted.length = 0;
+  mockCheapest = [];
+  mockRates = [];
+  mockRatesWhere = undefined;
+  mockEmailSent = true;
+});
+
+describe('sailing watch drops', () => {
+  test('uses the default percentage when no threshold is set', () => {
+    expect(isNotifiableDrop(1000, 950, {})).toBe(true);
+    expect(isNotifiableDrop(1000, 960, {})).toBe(false);
+  });
+
+  test('notifies on whichever threshold is crossed', () => {
+    const thresholds = { dropAmount: 100, dropPercent: 20 };
+    expect(isNotifiableDrop(1000, 900, thresholds)).toBe(true);
+    expect(isNotifiableDrop(400, 320, thresholds)).toBe(true);
+    expect(isNotifiableDrop(1000, 901, thresholds)).toBe(false);
+  });
+
+  test('an amount alone does not fall back to the default percentage', () => {
+    expect(isNotifiableDrop(1000, 900, { dropAmount: 150 })).toBe(false);
+  });
+
+  test('needs a reference price and an actual drop', () => {
+    expect(isNotifiableDrop(null, 500, {})).toBe(false);
+    expect(isNotifiableDrop(1000, 1000, { dropAmount: 1 })).toBe(false);
+    expect(isNotifiableDrop(1000, 1100, {})).toBe(false);
+  });
+});
+
+describe('processing price changes', () => {
+  test('reads the latest snapshot rows for the cabin code or category of each watch', async () => {
+    await sailingWatchService.processPriceChanges();
+
+    const { sql } = toQuery(mockExecuted[1]);
+    expect(sql).toContain('ph.cabin_code = COALESCE(w.cabin_code, UPPER(w.cabin_type))');
+    expect(sql).toContain('ph.created_at > COALESCE(w.last_checked_at, w.created_at)');
+    expect(sql).toContain('MIN(ph.base_price) AS price');
+    expect(sql).toContain('np.watch_id IS NOT NULL OR w.last_price < w.last_notified_price');
+  });
+
+  test('records the new price and emails the drop', async () => {
+    mockResults = [[{ id: 'watch-9' }], [watchRow()]];
+
+    const run = await sailingWatchService.processPriceChanges();
+
+    expect(run).toMatchObject({ watchesChecked: 1, drops: 1, emailsSent: 1, expired: 1 });
+    expect(mockUpdates).toEqual([
+      { lastPrice: '900.00', lastCheckedAt: '2026-10-19T06:00:00.000Z' },
+      { lastNotifiedPrice: '900.00', lastNotifiedAt: expect.any(Date) },
+    ]);
+  });
+
+  test('keeps a drop pending when its email fails', async () => {
+    mockResults = [[], [watchRow()]];
+    mockEmailSent = false;
+
+    const run = await sailingWatchService.processPriceChanges();
+
+    expect(run).toMatchObject({ drops: 1, emailsSent: 0 });
+    expect(mockUpdates).toEqual([
+      { lastPrice: '900.00', lastCheckedAt: '2026-10-19T06:00:00.000Z' },
+    ]);
+  });
+
+  test('re-sends a pending drop without a new snapshot', async () => {
+    // last_price is below last_notified_price, but nothing was written since
+    mockResults = [[], [watchRow({ new_price: null, checked_at: null })]];
+
+    const run = await sailingWatchService.processPriceChanges();
+
+    expect(run).toMatchObject({ watchesChecked: 1, drops: 1, emailsSent: 1 });
+    expect(mockUpdates).toEqual([
+      { lastNotifiedPrice: '900.00', lastNotifiedAt: expect.any(Date) },
+    ]);
+  });
+
+  test('starts a watch created before pricing from its first price', async () => {
+    mockResults = [[], [watchRow({ last_notified_price: null })]];
+
+    const run = await sailingWatchService.processPriceChanges();
+
+    expect(run).toMatchObject({ drops: 0, emailsSent: 0 });
+    expect(mockUpdates).toEqual([
+      {
+        lastPrice: '900.00',
+        lastCheckedAt: '2026-10-19T06:00:00.000Z',
+        lastNotifiedPrice: '900.00',
+      },
+    ]);
+  });
+});
+
+describe('price snapshots for watched cabin codes', () => {
+  const rate = (cabinCode: string, basePrice: string) => ({
+    id: `pricing-${cabinCode}-${basePrice}`,
+    rateCode: 'BESTRATE',
+    cabinCode,
+    occupancyCode: '101',
+    cabinType: 'balcony',
+    basePrice,
+    isAvailable: true,
+    currency: 'USD',
+  });
+
+  test('adds the cheapest double-occupancy rate of each watched cabin code', async () => {
+    mockCheapest = [{ id: 'cheapest-1', balconyPrice: '1099.00', currency: 'USD' }];
+    // Ordered by cabin code, then price
+    mockRates = [rate('4D', '1149.00'), rate('4D', '1199.00'), rate('4N', '1249.00')];
+
+    await priceHistoryService.captureSnapshot('2144014', 'webhook', 'batch-1');
+
+    expect(
+      mockInserted.map(row => [row.cabinCode, row.occupancyCode, row.basePrice, row.batchId])
+    ).toEqual([
+      ['BALCONY', '2', '1099.00', 'batch-1'],
+      ['4D', '101', '1149.00', 'batch-1'],
+      ['4N', '101', '1249.00', 'batch-1'],
+    ]);
+
+    const { sql, params } = toQuery(mockRatesWhere as SQL);
+    expect(sql).toContain('"pricing"."cabin_code" in (select distinct "cabin_code"');
+    expect(sql).toContain('"pricing"."occupancy_code" = $');
+    expect(params).toEqual(expect.arrayContaining(['2144014', '101']));
+  });
+});
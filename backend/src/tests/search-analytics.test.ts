@@ -0,0 +1,46 @@
+import { describe, test, expect } from '@jest/globals';
+import { normalizeSearchFilters } from '../services/search-analytics.service';
+import { filtersFingerprint } from '../services/search/search-cursor';
+
+describe('normalizeSearchFilters', () => {
+  test('lowercases and collapses text', () => {
+    expect(
+      normalizeSearchFilters({ q: '  Royal   CARIBBEAN ', shipName: 'Wonder Of The Seas' })
+    ).toEqual({ q: 'royal caribbean', shipName: 'wonder of the seas' });
+  });
+
+  test('sorts and de-duplicates lists', () => {
+    expect(
+      normalizeSearchFilters({
+        cruiseLineIds: [22, 8, 22],
+        regionIds: [3, 1],
+        departureMonths: ['2026-04', '2026-03'],
+      })
+    ).toEqual({
+      cruiseLineIds: [8, 22],
+      regionIds: [1, 3],
+      departureMonths: ['2026-03', '2026-04'],
+    });
+  });
+
+  test('drops empty values and leaves the rest alone', () => {
+    expect(normalizeSearchFilters({ q: '', minNights: 5, shipName: undefined })).toEqual({
+      minNights: 5,
+    });
+    expect(normalizeSearchFilters({ q: '   ', maxPrice: 2000 })).toEqual({ maxPrice: 2000 });
+  });
+
+  test('gives searches differing only in order and case the same fingerprint', () => {
+    const a = normalizeSearchFilters({ q: 'Alaska', cruiseLineIds: [8, 22] });
+    const b = normalizeSearchFilters({ q: 'alaska ', cruiseLineIds: [22, 8] });
+
+    expect(filtersFingerprint(a)).toBe(filtersFingerprint(b));
+  });
+
+  test("doesn't change the filters it was given", () => {
+    const filters = { cruiseLineIds: [22, 8] };
+    normalizeSearchFilters(filters);
+
+    expect(filters.cruiseLineIds).toEqual([22, 8]);
+  });
+});
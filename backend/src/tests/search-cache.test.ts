@@ -0,0 +1,61 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { cacheManager } from '../cache/cache-manager';
+import { cacheWarmingService } from '../cache/cache-warming.service';
+import {
+  createSearchQuery,
+  parseSearchParams,
+  searchService,
+  type SearchQuery,
+} from '../services/search';
+import {
+  normalizeSearchFilters,
+  searchAnalyticsService,
+} from '../services/search-analytics.service';
+
+const cachedResponse = {
+  results: [],
+  pagination: { page: 1, limit: 20, total: 0, totalPages: 0, hasMore: false },
+  meta: { searchTime: 0, cacheHit: false, filters: [] },
+};
+
+describe('search cache', () => {
+  const cacheKeyFor = async (params: Record<string, unknown> | SearchQuery) => {
+    const get = jest.spyOn(cacheManager, 'get').mockResolvedValue(cachedResponse);
+    const response = await searchService.search(
+      'filters' in params ? (params as SearchQuery) : parseSearchParams(params)
+    );
+
+    expect(response.meta.cacheHit).toBe(true);
+    return get.mock.lastCall?.[0];
+  };
+
+  test('shares an entry between searches differing only in case and selection order', async () => {
+    const key = await cacheKeyFor({ q: 'Alaska', cruiseLineId: '22,8', sortBy: 'price' });
+
+    expect(await cacheKeyFor({ q: 'alaska ', cruiseLineId: '8,22', sortBy: 'price' })).toBe(key);
+  });
+
+  test('keeps pages, sorts and page sizes apart', async () => {
+    const key = await cacheKeyFor({ q: 'alaska', sortBy: 'price' });
+
+    expect(await cacheKeyFor({ q: 'alaska', sortBy: 'price', page: 2 })).not.toBe(key);
+    expect(await cacheKeyFor({ q: 'alaska', sortBy: 'date' })).not.toBe(key);
+    expect(await cacheKeyFor({ q: 'alaska', sortBy: 'price', limit: 50 })).not.toBe(key);
+  });
+
+  test('warms the entry the same search from the site reads', async () => {
+    const params = { q: 'Alaska', cruiseLineId: '22,8', sortBy: 'price' };
+    // Search events record normalized filters, which popular searches replay
+    const popular = createSearchQuery(normalizeSearchFilters(parseSearchParams(params).filters), {
+      sortBy: 'price',
+    });
+    jest.spyOn(searchAnalyticsService, 'getPopularQueries').mockResolvedValue([popular]);
+    const search = jest.spyOn(searchService, 'search').mockResolvedValueOnce(cachedResponse as any);
+
+    await cacheWarmingService.warmOnDemand({ popularSearches: true });
+
+    expect(search).toHaveBeenCalledWith(popular, { refresh: true, ttl: 15 * 60 });
+    search.mockRestore();
+    expect(await cacheKeyFor(popular)).toBe(await cacheKeyFor(params));
+  });
+});
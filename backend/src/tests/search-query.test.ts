@@ -0,0 +1,194 @@
+import { describe, test, expect } from '@jest/globals';
+import { parseSearchParams } from '../services/search/search-params';
+import { validateSearchQuery } from '../services/search/search-query';
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  filtersFingerprint,
+} from '../services/search/search-cursor';
+import { distanceMiles, lookupPlace } from '../utils/geo';
+import { toScoreBreakdown } from '../services/search/recommendation';
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  getRecommendationWeights,
+} from '../config/recommendation-weights';
+
+describe('parseSearchParams', () => {
+  test('maps legacy parameter names onto the canonical filters', () => {
+    const query = parseSearchParams({
+      cruiseLineId: ['22', '8'],
+      months: '2026-03,2026-04',
+      regionId: '3',
+      departureDate: '2026-03-14',
+      nightRange: ['3-5', '6-8'],
+      offset: '40',
+      limit: '20',
+    });
+
+    expect(query.filters).toEqual({
+      cruiseLineIds: [22, 8],
+      departureMonths: ['2026-03', '2026-04'],
+      regionIds: [3],
+      sailingDate: '2026-03-14',
+      minNights: 3,
+      maxNights: 8,
+    });
+    expect(query).toMatchObject({ page: 3, limit: 20, sortBy: 'date', sortOrder: 'asc' });
+  });
+
+  test('flattens the nested ranges of the legacy POST body', () => {
+    const { filters } = parseSearchParams({
+      nights: { min: 7, max: 10 },
+      price: { max: 1500, currency: 'gbp' },
+      sailingDate: { from: '2026-05-01', to: '2026-06-30' },
+      ports: [200, 201],
+    });
+
+    expect(filters).toEqual({
+      minNights: 7,
+      maxNights: 10,
+      maxPrice: 1500,
+      displayCurrency: 'GBP',
+      startDate: '2026-05-01',
+      endDate: '2026-06-30',
+      visitsPortIds: [200, 201],
+      visitsPortMatch: 'any',
+    });
+  });
+
+  test('intersects requested cruise lines with the instant booking lines', () => {
+    const restrict = { restrictCruiseLineIds: [22, 17] };
+
+    expect(parseSearchParams({ cruiseLines: '22,8' }, restrict).filters.cruiseLineIds).toEqual([
+      22,
+    ]);
+    expect(parseSearchParams({ cruiseLines: '8' }, restrict).filters.cruiseLineIds).toEqual([]);
+    expect(parseSearchParams({}, restrict).filters.cruiseLineIds).toEqual([22, 17]);
+  });
+});
+
+describe('validateSearchQuery', () => {
+  test('accepts a parsed frontend query', () => {
+    expect(
+      validateSearchQuery(
+        parseSearchParams({ cruiseLineId: '22', maxPrice: '2000', sortBy: 'price' })
+      )
+    ).toEqual([]);
+  });
+
+  test('reports every problem', () => {
+    const problems = validateSearchQuery(
+      parseSearchParams({
+        shipId: 'abc',
+        startDate: '2026-07-01',
+        endDate: '2026-06-01',
+        sortBy: 'rating',
+      })
+    );
+
+    expect(problems).toEqual([
+      'startDate must not be after endDate',
+      'shipIds must be positive whole numbers',
+      'sortBy must be one of date, price, nights, popularity, recommended',
+    ]);
+  });
+});
+
+describe('search cursors', () => {
+  const query = parseSearchParams({ cruiseLineId: '22', sortBy: 'price' });
+  const cursor = encodeSearchCursor({
+    sortBy: 'price',
+    sortOrder: 'asc',
+    filters: filtersFingerprint(query.filters),
+    keys: [899.5, '2026-03-02', '2143102'],
+  });
+
+  test('round-trip and reject anything else', () => {
+    expect(decodeSearchCursor(cursor)?.keys).toEqual([899.5, '2026-03-02', '2143102']);
+    expect(decodeSearchCursor('not-a-cursor')).toBeNull();
+  });
+
+  test('only continue the search they were issued for', () => {
+    expect(validateSearchQuery({ ...query, cursor })).toEqual([]);
+    expect(validateSearchQuery({ ...query, sortOrder: 'desc', cursor })).toEqual([
+      'cursor was issued for a different sort',
+    ]);
+    expect(
+      validateSearchQuery({ ...query, filters: { ...query.filters, maxNights: 7 }, cursor })
+    ).toEqual(['cursor was issued for different filters']);
+  });
+
+  test('reject sort key values that do not fit the sort', () => {
+    const withKeys = (keys: Array<string | number | boolean>) =>
+      encodeSearchCursor({
+        sortBy: 'price',
+        sortOrder: 'asc',
+        filters: filtersFingerprint(query.filters),
+        keys,
+      });
+
+    expect(validateSearchQuery({ ...query, cursor: withKeys(['2143102']) })).toEqual([
+      'cursor is not a valid search cursor',
+    ]);
+    expect(
+      validateSearchQuery({ ...query, cursor: withKeys(['899.5', '2026-03-02', '2143102']) })
+    ).toEqual(['cursor is not a valid search cursor']);
+  });
+});
+
+describe('recommended sort', () => {
+  test('reads weight overrides and ignores invalid ones', () => {
+    expect(getRecommendationWeights('{"price": 0.5, "conversion": -1, "hype": 1}')).toEqual({
+      ...DEFAULT_RECOMMENDATION_WEIGHTS,
+      price: 0.5,
+    });
+    expect(getRecommendationWeights('not json')).toEqual(DEFAULT_RECOMMENDATION_WEIGHTS);
+  });
+
+  test('breaks the score down into weighted factors', () => {
+    const weights = { price: 2, onboardCredit: 0, daysToSail: 1, starRating: 1, conversion: 0 };
+    const breakdown = toScoreBreakdown(
+      0.75,
+      { price: 1, onboardCredit: 0.3, daysToSail: 0.5, starRating: 0.5, conversion: 0 },
+      weights
+    );
+
+    expect(breakdown.score).toBe(0.75);
+    expect(breakdown.factors.price).toEqual({ score: 1, weight: 0.5, contribution: 0.5 });
+    expect(breakdown.factors.onboardCredit).toEqual({ score: 0.3, weight: 0, contribution: 0 });
+    expect(
+      Object.values(breakdown.factors).reduce((sum, factor) => sum + factor.contribution, 0)
+    ).toBe(0.75);
+  });
+});
+
+describe('near-me search', () => {
+  test('resolves a ZIP code or city to coordinates', () => {
+    expect(parseSearchParams({ zip: '33139', radiusMiles: '200' }).filters).toMatchObject({
+      near: '33139',
+      nearLat: 25.7617,
+      nearLng: -80.1918,
+      radiusMiles: 200,
+    });
+    expect(lookupPlace('st louis, mo')?.name).toBe('St. Louis');
+    expect(lookupPlace('Atlantis')).toBeNull();
+  });
+
+  test('rejects places and radii it cannot use', () => {
+    expect(validateSearchQuery(parseSearchParams({ near: 'Atlantis' }))).toEqual([
+      'near "Atlantis" is not a US ZIP code or city we can locate',
+    ]);
+    expect(
+      validateSearchQuery(parseSearchParams({ nearLat: '29.3', radiusMiles: '5000' }))
+    ).toEqual([
+      'nearLat and nearLng must be given together',
+      'radiusMiles must be more than 0 and at most 1500',
+    ]);
+  });
+
+  test('measures great-circle miles', () => {
+    const houston = lookupPlace('Houston');
+    const galveston = lookupPlace('Galveston, TX');
+    expect(Math.round(distanceMiles(houston, galveston))).toBe(47);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from '@jest/globals';
+import { getCruiseLineAliases } from '../config/cruise-line-mapping';
+import { rankSuggestions, toSuggestionEntry } from '../services/suggestion-index.service';
+
+const entries = [
+  toSuggestionEntry(
+    {
+      type: 'cruise_line',
+      id: 17,
+      name: 'Norwegian Cruise Line',
+      subtitle: 'Cruise line',
+      href: '/cruises?cruiseLines=17',
+      sailings: 900,
+    },
+    getCruiseLineAliases(17)
+  ),
+  toSuggestionEntry(
+    {
+      type: 'cruise_line',
+      id: 22,
+      name: 'Royal Caribbean',
+      subtitle: 'Cruise line',
+      href: '/cruises?cruiseLines=22',
+      sailings: 1200,
+    },
+    getCruiseLineAliases(22)
+  ),
+  toSuggestionEntry({
+    type: 'cruise_line',
+    id: 8,
+    name: 'Carnival Cruise Line',
+    subtitle: 'Cruise line',
+    href: '/cruises?cruiseLines=8',
+    sailings: 1500,
+  }),
+  toSuggestionEntry({
+    type: 'port',
+    id: 200,
+    name: 'Cozumel',
+    subtitle: 'Mexico',
+    href: '/cruises?ports=200',
+    sailings: 700,
+  }),
+  toSuggestionEntry({
+    type: 'ship',
+    id: 410,
+    name: 'Carnival Jubilee',
+    subtitle: 'Carnival Cruise Line',
+    href: '/cruises?ships=410',
+    sailings: 80,
+  }),
+];
+
+describe('rankSuggestions', () => {
+  test('matches regardless of case and ranks the broader suggestion first', () => {
+    const results = rankSuggestions(entries, 'carnival', 5);
+
+    expect(results.map(result => result.name)).toEqual([
+      'Carnival Cruise Line',
+      'Carnival Jubilee',
+    ]);
+  });
+
+  test('tolerates typos', () => {
+    const [first] = rankSuggestions(entries, 'cozumell', 5);
+
+    expect(first.name).toBe('Cozumel');
+    expect(first.href).toBe('/cruises?ports=200');
+  });
+
+  test('resolves cruise line aliases', () => {
+    expect(rankSuggestions(entries, 'NCL', 1)[0]).toMatchObject({
+      name: 'Norwegian Cruise Line',
+      matchedAlias: 'NCL',
+    });
+    expect(rankSuggestions(entries, 'royal', 1)[0].name).toBe('Royal Caribbean');
+  });
+
+  test('ignores queries shorter than two characters', () => {
+    expect(rankSuggestions(entries, 'c', 5)).toEqual([]);
+  });
+});
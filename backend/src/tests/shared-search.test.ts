@@ -0,0 +1,76 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { generateShareCode, sharedSearchService } from '../services/shared-search.service';
+import { alertSearchQuery } from '../services/alert-matching.service';
+import { parseSearchParams } from '../services/search';
+
+// Inserts return the row they were given
+jest.mock('../db/connection', () => {
+  const insert = () => {
+    let row: Record<string, unknown> = {};
+    const query = {
+      values: (values: Record<string, unknown>) => {
+        row = { id: 'saved-1', viewCount: 0, createdAt: new Date(0), ...values };
+        return query;
+      },
+      onConflictDoNothing: () => query,
+      returning: async () => [row],
+    };
+    return query;
+  };
+  return { db: { insert } };
+});
+
+describe('share codes', () => {
+  test('are base62 of the requested length', () => {
+    expect(generateShareCode()).toMatch(/^[0-9A-Za-z]{8}$/);
+    expect(generateShareCode(12)).toMatch(/^[0-9A-Za-z]{12}$/);
+  });
+
+  test('differ between calls', () => {
+    const codes = new Set(Array.from({ length: 50 }, () => generateShareCode()));
+    expect(codes.size).toBe(50);
+  });
+});
+
+describe('shared searches', () => {
+  const query = parseSearchParams({
+    q: 'Alaska',
+    cruiseLineId: '22,8',
+    departureMonth: '2026-07',
+    regionId: 4,
+    minNights: 7,
+    adults: 2,
+    children: 1,
+    childAges: '9',
+    sortBy: 'price',
+    limit: 24,
+    page: 3,
+  });
+
+  test('run the search they were shared from, normalized and from the first page', async () => {
+    const shared = await sharedSearchService.share(query);
+
+    expect(sharedSearchService.toSearchQuery(shared)).toEqual({
+      ...query,
+      filters: { ...query.filters, q: 'alaska', cruiseLineIds: [8, 22] },
+      page: 1,
+    });
+    expect(sharedSearchService.toSearchQuery(shared, { page: 2 }).page).toBe(2);
+  });
+
+  test('saved for a user, match alerts on the same criteria', async () => {
+    const shared = await sharedSearchService.share(query);
+    const saved = await sharedSearchService.saveForUser(shared, 'user-1');
+
+    const { filters } = alertSearchQuery({ ...saved, maxBudget: null, budgetType: null });
+
+    expect(filters).toMatchObject({
+      q: 'alaska',
+      cruiseLineIds: [8, 22],
+      departureMonths: ['2026-07'],
+      regionIds: [4],
+      minNights: 7,
+      party: { adults: 2, children: 1, childAges: [9] },
+    });
+  });
+});
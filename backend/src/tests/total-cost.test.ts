@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { totalCostService } from '../services/total-cost.service';
+import { cruiseService } from '../services/cruise.service';
+import { exchangeRateService, convertAmount } from '../services/exchange-rate.service';
+
+jest.mock('../db/connection', () => {
+  const { getTableName } = jest.requireActual<typeof import('drizzle-orm')>('drizzle-orm');
+  const rows: Record<string, unknown[]> = {
+    cruises: [{ id: '2144014', cruiseLineId: 22, nights: 7, regionIds: '1', currency: 'GBP' }],
+    // The balcony fare below as the headline price for two adults
+    cheapest_pricing: [
+      { balconyPrice: '1000.00', balconyTaxes: '50.00', balconyNcf: '100.00', currency: 'GBP' },
+    ],
+  };
+  const select = () => {
+    let table = '';
+    const query = {
+      from: (from: any) => {
+        table = getTableName(from);
+        return query;
+      },
+      where: () => query,
+      limit: async () => rows[table] || [],
+    };
+    return query;
+  };
+  return { db: { select } };
+});
+jest.mock('../services/cruise.service', () => ({
+  cruiseService: { getQuoteEstimate: jest.fn() },
+}));
+jest.mock('../services/promotion.service', () => ({
+  promotionService: { getBestPromotionForCruise: async () => null },
+}));
+
+const rates: Record<string, number> = { USD: 1, GBP: 0.8 };
+
+const balcony = (gratuity: number) => ({
+  currency: 'GBP',
+  cheapestByCategory: {
+    balcony: {
+      guests: [{ fare: 1000 }, { fare: 1000 }],
+      taxes: 100,
+      ncf: 200,
+      gratuity,
+      rateCode: 'BESTRATE',
+      cabinCode: '4D',
+      estimated: false,
+    },
+  },
+});
+
+describe('total cost line items', () => {
+  const party = { adults: 2, children: 0 };
+
+  beforeEach(() => {
+    jest
+      .spyOn(exchangeRateService, 'convert')
+      .mockImplementation(async (amount, from, to) => convertAmount(amount, from, to, rates));
+  });
+
+  test('adds daily gratuities in the fare currency to what is due onboard', async () => {
+    (cruiseService.getQuoteEstimate as jest.Mock<any>).mockResolvedValue(balcony(0));
+
+    const cost = await totalCostService.calculate('2144014', 'balcony', party);
+
+    expect(cost.lineItems.map(item => [item.code, item.amount, item.due])).toEqual([
+      ['fare', 2000, 'booking'],
+      ['taxes', 100, 'booking'],
+      ['ncf', 200, 'booking'],
+      ['gratuities', 201.6, 'onboard'],
+      ['zipsea_obc', -200, 'onboard'],
+    ]);
+    // Royal Caribbean's $18 a night is £14.40
+    expect(cost.lineItems[3].note).toBe(
+      '£14.40 per guest per night, added to your onboard account'
+    );
+    expect(cost.dueAtBooking).toBe(2300);
+    expect(cost.dueOnboard).toBe(201.6);
+    expect(cost.allInTotal).toBe(2501.6);
+    expect(cost.perPerson).toBe(1250.8);
+    expect(cost.onboardCredit).toBe(200);
+  });
+
+  test('uses a prepaid gratuity on the fare instead of the line policy', async () => {
+    (cruiseService.getQuoteEstimate as jest.Mock<any>).mockResolvedValue(balcony(250));
+
+    const cost = await totalCostService.calculate('2144014', 'balcony', party);
+
+    expect(cost.lineItems.find(item => item.code === 'gratuities')).toEqual({
+      code: 'gratuities',
+      kind: 'gratuity',
+      label: 'Prepaid gratuities',
+      amount: 250,
+      due: 'booking',
+    });
+    expect(cost.dueAtBooking).toBe(2550);
+    expect(cost.dueOnboard).toBe(0);
+  });
+
+  test('totals the headline price the same way as the party fares', async () => {
+    (cruiseService.getQuoteEstimate as jest.Mock<any>).mockResolvedValue(balcony(0));
+    const fromPricing = await totalCostService.calculate('2144014', 'balcony', party);
+
+    (cruiseService.getQuoteEstimate as jest.Mock<any>).mockResolvedValue({
+      currency: 'GBP',
+      cheapestByCategory: {},
+    });
+    const fromHeadline = await totalCostService.calculate('2144014', 'balcony', party);
+
+    expect(fromHeadline.source).toBe('cheapest_pricing');
+    expect(fromPricing.source).toBe('pricing');
+    expect(fromHeadline.lineItems.slice(0, 3)).toEqual(fromPricing.lineItems.slice(0, 3));
+    expect(fromHeadline.dueAtBooking).toBe(fromPricing.dueAtBooking);
+    expect(fromHeadline.allInTotal).toBe(fromPricing.allInTotal);
+  });
+
+  test('flags the estimate when the gratuity rate cannot be converted', async () => {
+    (cruiseService.getQuoteEstimate as jest.Mock<any>).mockResolvedValue({
+      ...balcony(0),
+      currency: 'XYZ',
+    });
+
+    const cost = await totalCostService.calculate('2144014', 'balcony', party);
+
+    expect(cost.lineItems[3].note).toBe('Estimated at $18.00 per guest per night');
+    expect(cost.estimated).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  allowedSourceStatuses,
+  canTransition,
+  retryDelay,
+  type WebhookEventLifecycle,
+  type WebhookEventStatus,
+} from '../services/webhook-pipeline/webhook-event-lifecycle';
+import { parseTraveltekPath } from '../services/webhook-pipeline/stages/discover.stage';
+import { webhookPipelineConfig } from '../config/environment';
+import { WebhookPipelineQueue } from '../services/webhook-pipeline/webhook-pipeline.queue';
+import type { WebhookPipeline } from '../services/webhook-pipeline';
+
+describe('webhook event lifecycle', () => {
+  test('follows received → queued → processing → completed', () => {
+    expect(canTransition('received', 'queued')).toBe(true);
+    expect(canTransition('queued', 'processing')).toBe(true);
+    expect(canTransition('processing', 'completed')).toBe(true);
+    expect(canTransition('processing', 'partially_failed')).toBe(true);
+  });
+
+  test('only failed events can be dead-lettered, and only dead letters re-driven', () => {
+    expect(allowedSourceStatuses('dead_lettered')).toEqual(['failed']);
+    expect(canTransition('dead_lettered', 'queued')).toBe(true);
+    expect(canTransition('completed', 'queued')).toBe(false);
+    expect(canTransition('received', 'completed')).toBe(false);
+  });
+
+  test('backs off exponentially up to the cap', () => {
+    expect(retryDelay(1, 30000)).toBe(30000);
+    expect(retryDelay(2, 30000)).toBe(60000);
+    expect(retryDelay(3, 30000)).toBe(120000);
+    expect(retryDelay(20, 30000)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe('parseTraveltekPath', () => {
+  test('rebuilds a file from its FTP path', () => {
+    expect(parseTraveltekPath('/2025/10/22/5457/2144014.json')).toEqual({
+      path: '/2025/10/22/5457/2144014.json',
+      year: 2025,
+      month: 10,
+      lineId: 22,
+      shipId: 5457,
+      cruiseId: '2144014',
+    });
+    expect(parseTraveltekPath('/2025/10/22/readme.txt')).toBeNull();
+  });
+});
+
+describe('webhook event retries', () => {
+  const file = parseTraveltekPath('/2025/10/22/5457/2144014.json');
+
+  // Applies transitions the way the guarded UPDATE does
+  const eventAt = (status: WebhookEventStatus) => {
+    const event = { status, transitions: [] as WebhookEventStatus[] };
+    const lifecycle = {
+      transition: async (_id: number, to: WebhookEventStatus) => {
+        if (!canTransition(event.status, to)) return false;
+        event.status = to;
+        event.transitions.push(to);
+        return true;
+      },
+    };
+    return { event, lifecycle: lifecycle as unknown as WebhookEventLifecycle };
+  };
+
+  const queueWithActive = (lifecycle: WebhookEventLifecycle, activeJobs: unknown[]) => {
+    const pipeline = {
+      createContext: (lineId: number) => ({ runId: 'run-1', lineId, startTime: new Date() }),
+      notifyStarted: async () => {},
+      discover: async () => [file],
+    } as unknown as WebhookPipeline;
+    const queue = new WebhookPipelineQueue(
+      pipeline,
+      { ...webhookPipelineConfig, filesPerJob: 10 },
+      lifecycle
+    );
+    Object.assign(queue, {
+      queue: {
+        getJobs: async () => activeJobs,
+        add: async (_name: string, _data: unknown, options: { jobId: string }) => ({
+          id: options.jobId,
+        }),
+      },
+      redis: { hset: async () => 0, expire: async () => 1 },
+    });
+    return queue;
+  };
+
+  const retryJob = {
+    id: 'event-7-retry-2',
+    name: 'retry-event',
+    data: { lineId: 22, webhookEventId: 7, attempt: 2 },
+  };
+
+  test('queues a failed event again despite the retry job itself being active', async () => {
+    const { event, lifecycle } = eventAt('failed');
+    const queue = queueWithActive(lifecycle, [retryJob]);
+
+    const result = await (queue as any).processJob(retryJob);
+
+    expect(result.status).toBe('queued');
+    expect(event.transitions).toEqual(['queued', 'processing']);
+  });
+
+  test('still skips a line other jobs are processing', async () => {
+    const { event, lifecycle } = eventAt('failed');
+    const batch = { id: 'run-0-batch-1', data: { context: { lineId: 22 } } };
+    const queue = queueWithActive(lifecycle, [retryJob, batch]);
+
+    const result = await (queue as any).processJob(retryJob);
+
+    expect(result.status).toBe('skipped');
+    expect(event.status).toBe('failed');
+  });
+});
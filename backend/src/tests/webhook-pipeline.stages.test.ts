@@ -0,0 +1,265 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CruiseFileParseError,
+  TraveltekJsonParseStage,
+} from '../services/webhook-pipeline/stages/parse.stage';
+import { FieldDiffStage } from '../services/webhook-pipeline/stages/diff.stage';
+import { DrizzleUpsertStage } from '../services/webhook-pipeline/stages/upsert.stage';
+import type { DiffResult, TraveltekFile } from '../services/webhook-pipeline';
+
+// Every write in order, prefixed with the executor it went through ('db' or 'tx')
+const mockWrites: string[] = [];
+// The stored cruise row the diff stage reads, and how often it was read
+let mockStored: any[] = [];
+let mockSelects = 0;
+// Rows the same-sailing lookup in the upsert stage finds
+let mockSameSailing: any[] = [];
+
+jest.mock('../db/connection', () => {
+  const { getTableName } = jest.requireActual<typeof import('drizzle-orm')>('drizzle-orm');
+
+  const executor = (label: string) => {
+    const statement = (): any => {
+      const query: any = new Proxy(
+        {},
+        {
+          get: (_target, method) =>
+            method === 'then' ? (resolve: (rows: unknown[]) => void) => resolve([]) : () => query,
+        }
+      );
+      return query;
+    };
+    return {
+      label,
+      insert: (table: any) => {
+        mockWrites.push(`${label}:${getTableName(table)}`);
+        return statement();
+      },
+      update: statement,
+      delete: statement,
+      execute: async () => mockSameSailing,
+    };
+  };
+  const stored = {
+    from: () => stored,
+    where: () => stored,
+    limit: async () => {
+      mockSelects++;
+      return mockStored;
+    },
+  };
+
+  return {
+    db: {
+      ...executor('db'),
+      select: () => stored,
+      transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(executor('tx')),
+    },
+  };
+});
+jest.mock('../services/cruise-definition.service', () => ({
+  cruiseDefinitionService: {
+    syncSailing: async (cruise: any, _source: unknown, tx: any) => {
+      mockWrites.push(`${tx.label}:sailing ${cruise.id}`);
+    },
+  },
+}));
+jest.mock('../services/port-call-sync.service', () => ({
+  portCallSyncService: {
+    syncCruisePortCalls: async (cruiseId: string, _calls: unknown, _nights: unknown, tx: any) => {
+      mockWrites.push(`${tx.label}:port calls ${cruiseId}`);
+    },
+  },
+}));
+jest.mock('../services/cruise-change-log.service', () => ({
+  cruiseChangeLogService: {
+    record: async (cruiseId: string, changes: unknown[], ...rest: any[]) => {
+      mockWrites.push(`${rest[2].label}:change log ${cruiseId} (${changes.length})`);
+    },
+  },
+}));
+jest.mock('../services/pricing-sync.service', () => ({
+  pricingSyncService: {
+    syncCruisePricing: async (cruiseId: string, _pricing: unknown, tx: any) => {
+      mockWrites.push(`${tx.label}:pricing ${cruiseId}`);
+    },
+  },
+}));
+
+const FIXTURE = path.join(__dirname, '../../tests/fixtures/traveltek/2025/10/22/5457/2144014.json');
+const contents = fs.readFileSync(FIXTURE, 'utf8');
+
+const file: TraveltekFile = {
+  path: '/2025/10/22/5457/2144014.json',
+  lineId: 22,
+  shipId: 5457,
+  cruiseId: '2144014',
+  year: 2025,
+  month: 10,
+};
+
+const context = { runId: 'run-1', lineId: 22, webhookEventId: 7, startTime: new Date() };
+
+const parse = (json = contents) => new TraveltekJsonParseStage().parse(file, json);
+
+// The stored row for the recorded file, as the upsert stage would have written it
+const storedRow = (raw: any = JSON.parse(contents)) => ({
+  shipId: 5457,
+  sailingDate: '2025-10-06',
+  nights: 4,
+  rawData: raw,
+});
+
+beforeEach(() => {
+  mockWrites.length = 0;
+  mockStored = [];
+  mockSelects = 0;
+  mockSameSailing = [];
+});
+
+describe('parse stage on a recorded Traveltek file', () => {
+  test('maps the sailing, ship and headline prices', () => {
+    const parsed = parse();
+
+    expect(parsed.cruise).toMatchObject({
+      id: '2144014',
+      cruiseId: '354279',
+      cruiseLineId: 22,
+      shipId: 5457,
+      voyageCode: 'WN4BH275',
+      sailingDate: '2025-10-06',
+      returnDate: '2025-10-10',
+      nights: 4,
+      embarkPortId: 410,
+      portIds: '410,371,202,410',
+    });
+    expect(parsed.ship).toMatchObject({ id: 5457, name: 'Wonder of the Seas' });
+    // The direct cheapestX fields win over the stale cached summaries
+    expect(parsed.cheapest).toMatchObject({
+      interiorPrice: '459.29',
+      oceanviewPrice: '544.29',
+      balconyPrice: '594.29',
+      suitePrice: '2054.29',
+      cheapestPrice: '459.29',
+    });
+    expect(parsed.pricing?.length).toBeGreaterThan(0);
+    expect(parsed.portCalls?.length).toBeGreaterThan(0);
+  });
+
+  test('rejects empty and truncated files with the file path', () => {
+    expect(() => parse('')).toThrow(CruiseFileParseError);
+    expect(() => parse(contents.slice(0, contents.length / 2))).toThrow(file.path);
+  });
+});
+
+describe('field diff stage on a recorded Traveltek file', () => {
+  test('reports a cruise without a stored row as new', async () => {
+    const diff = await new FieldDiffStage().diff(parse());
+
+    expect(diff).toMatchObject({ changed: true, changes: ['new_cruise'], pricingChanged: true });
+    expect(diff.checksum).toBeDefined();
+  });
+
+  test('reports the price change against the stored file', async () => {
+    mockStored = [storedRow({ ...JSON.parse(contents), cheapestinside: '499.29' })];
+
+    const diff = await new FieldDiffStage().diff(parse());
+
+    expect(diff.changes).toEqual(['price_decreased']);
+    expect(diff.fieldChanges).toEqual([
+      {
+        changeType: 'price_decreased',
+        field: 'interiorPrice',
+        cabinType: 'interior',
+        oldValue: 499.29,
+        newValue: 459.29,
+      },
+    ]);
+    expect(diff.pricingChanged).toBe(true);
+  });
+
+  test('skips the database once an unchanged file has been seen', async () => {
+    mockStored = [storedRow()];
+    const stage = new FieldDiffStage();
+
+    expect(await stage.diff(parse())).toEqual({ changed: false, changes: [] });
+    expect(await stage.diff(parse())).toEqual({ changed: false, changes: [] });
+    expect(mockSelects).toBe(1);
+  });
+
+  test('reports a ship swap without a pricing change', async () => {
+    mockStored = [{ ...storedRow(), shipId: 1234 }];
+
+    const diff = await new FieldDiffStage().diff(parse());
+
+    expect(diff.changes).toEqual(['ship_swapped']);
+    expect(diff.pricingChanged).toBe(false);
+  });
+});
+
+describe('upsert stage on a recorded Traveltek file', () => {
+  const changed: DiffResult = {
+    changed: true,
+    changes: ['price_decreased'],
+    fieldChanges: [
+      {
+        changeType: 'price_decreased',
+        field: 'interiorPrice',
+        cabinType: 'interior',
+        oldValue: 499.29,
+        newValue: 459.29,
+      },
+    ],
+    pricingChanged: true,
+  };
+
+  test('writes the ship, then the cruise and everything derived from it in one transaction', async () => {
+    const result = await new DrizzleUpsertStage().upsert(parse(), changed, context);
+
+    expect(result).toEqual({ cruiseId: '2144014', pricingUpdated: true });
+    expect(mockWrites).toEqual([
+      'db:ships',
+      'tx:cruises',
+      'tx:sailing 2144014',
+      'tx:port calls 2144014',
+      'tx:change log 2144014 (1)',
+      'tx:cheapest_pricing',
+      'tx:pricing 2144014',
+    ]);
+  });
+
+  test('writes the ship only when its image changes', async () => {
+    const stage = new DrizzleUpsertStage();
+    await stage.upsert(parse(), changed, context);
+    mockWrites.length = 0;
+
+    await stage.upsert(parse(), changed, context);
+
+    expect(mockWrites[0]).toBe('tx:cruises');
+  });
+
+  test('leaves pricing rows alone when the price tree is unchanged', async () => {
+    const shipSwap: DiffResult = {
+      changed: true,
+      changes: ['ship_swapped'],
+      pricingChanged: false,
+    };
+
+    await new DrizzleUpsertStage().upsert(parse(), shipSwap, context);
+
+    expect(mockWrites).not.toContain('tx:pricing 2144014');
+    expect(mockWrites).not.toContainEqual(expect.stringContaining('change log'));
+  });
+
+  test('updates the stored row for the same sailing under its id', async () => {
+    mockSameSailing = [{ id: '2100001' }];
+
+    const result = await new DrizzleUpsertStage().upsert(parse(), changed, context);
+
+    expect(result.cruiseId).toBe('2100001');
+    expect(mockWrites).toContain('tx:sailing 2100001');
+    expect(mockWrites).toContain('tx:pricing 2100001');
+  });
+});
@@ -314,7 +314,13 @@ export interface UserPreferences {
     sms: boolean;
     deals: boolean;
     reminders: boolean;
+    // Price alert digests wait until these end, in the user's timezone
+    quietHours?: {
+      start: string; // HH:MM
+      end: string; // HH:MM
+    };
   };
+  timezone?: string; // IANA name, e.g. America/New_York
 }
 
 export interface SavedSearch {
@@ -353,4 +359,4 @@ export interface ServiceHealth {
   error?: string;
 }
 
-// Remove default export that references types as values
\ No newline at end of file
+// Remove default export that references types as values
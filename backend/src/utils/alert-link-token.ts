@@ -0,0 +1,49 @@
+/**
+ * Signed tokens for the links in price alert emails, so a recipient can
+ * pause an alert or unsubscribe from all of them without signing in.
+ *
+ * A token is the base64url JSON payload and its HMAC-SHA256, joined by a
+ * dot. Tokens don't expire: an unsubscribe link has to keep working for as
+ * long as the email sits in someone's inbox.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type AlertLinkAction = 'pause' | 'unsubscribe';
+
+export interface AlertLinkPayload {
+  action: AlertLinkAction;
+  userId: string;
+  alertId?: string; // Required to pause; unsubscribing covers every alert
+}
+
+const sign = (encoded: string, secret: string): string =>
+  createHmac('sha256', secret).update(encoded).digest('base64url');
+
+export function createAlertLinkToken(payload: AlertLinkPayload, secret: string): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/**
+ * The payload of a token signed with this secret, or null when it is
+ * malformed or the signature doesn't match
+ */
+export function verifyAlertLinkToken(token: string, secret: string): AlertLinkPayload | null {
+  const [encoded, signature, ...rest] = (token || '').split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (payload.action !== 'pause' && payload.action !== 'unsubscribe') return null;
+    if (typeof payload.userId !== 'string') return null;
+    if (payload.action === 'pause' && typeof payload.alertId !== 'string') return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
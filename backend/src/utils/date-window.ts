@@ -0,0 +1,133 @@
+/**
+ * Flexible-date helpers for "around this date" and calendar searches.
+ * Dates are YYYY-MM-DD strings and all arithmetic is done in UTC so a
+ * sailing date never shifts with the server's timezone.
+ */
+
+export const DEFAULT_FLEX_DAYS = 3;
+export const MAX_FLEX_DAYS = 90;
+
+export type CalendarGranularity = 'week' | 'month';
+
+export interface DateWindow {
+  startDate: string;
+  endDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toUtc = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+const formatUtc = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+export function isIsoDate(value: string | undefined | null): boolean {
+  return !!value && DATE_PATTERN.test(value) && !isNaN(toUtc(value));
+}
+
+export function addDays(date: string, days: number): string {
+  return formatUtc(toUtc(date) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+/**
+ * Returns a validation message, or null when the target date and flexibility are usable
+ */
+export function validateFlexibleDate(targetDate: string, flexDays: number): string | null {
+  if (!isIsoDate(targetDate)) return 'targetDate must be a date in YYYY-MM-DD format';
+  if (!Number.isInteger(flexDays) || flexDays < 0 || flexDays > MAX_FLEX_DAYS) {
+    return `flexDays must be a whole number between 0 and ${MAX_FLEX_DAYS}`;
+  }
+  return null;
+}
+
+/**
+ * targetDate ± flexDays
+ */
+export function flexibleDateWindow(targetDate: string, flexDays = DEFAULT_FLEX_DAYS): DateWindow {
+  return {
+    startDate: addDays(targetDate, -flexDays),
+    endDate: addDays(targetDate, flexDays),
+  };
+}
+
+/**
+ * First day of the week (Monday) or month containing the date, matching
+ * Postgres date_trunc
+ */
+export function periodStart(date: string, granularity: CalendarGranularity): string {
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+
+  const weekday = new Date(toUtc(date)).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/**
+ * Last day of the period starting at periodStart
+ */
+export function periodEnd(start: string, granularity: CalendarGranularity): string {
+  if (granularity === 'week') return addDays(start, 6);
+
+  const [year, month] = start.split('-').map(Number);
+  return formatUtc(Date.UTC(year, month, 0));
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(?:,?\\s+(\\d{4}))?';
+
+// Tried in order; each yields [year, month, day] from its match
+const LOOSE_DATE_FORMATS: { pattern: RegExp; parts: (m: RegExpExecArray) => string[] }[] = [
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, parts: m => [m[1], m[2], m[3]] },
+  // US order: 3/8/2026, 03/08/26, 3/8
+  { pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/, parts: m => [m[3], m[1], m[2]] },
+  {
+    pattern: new RegExp(`\\b${MONTH_NAME}\\s+${DAY}\\b${YEAR}`, 'i'),
+    parts: m => [m[3], m[1], m[2]],
+  },
+  {
+    pattern: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH_NAME}${YEAR}`, 'i'),
+    parts: m => [m[3], m[2], m[1]],
+  },
+];
+
+export interface LooseDate {
+  date: string;
+  // The text the date was read from
+  matched: string;
+}
+
+/**
+ * Find a date written the way people paste them ("March 8 2026", "8th Mar",
+ * "3/8/26", "2026-03-08") anywhere in the text. A date without a year is
+ * taken as its next occurrence on or after today.
+ */
+export function findLooseDate(text: string, today = formatUtc(Date.now())): LooseDate | null {
+  for (const { pattern, parts } of LOOSE_DATE_FORMATS) {
+    const match = pattern.exec(text || '');
+    if (!match) continue;
+
+    const [yearText, monthText, dayText] = parts(match);
+    const month = /^\d+$/.test(monthText)
+      ? parseInt(monthText)
+      : MONTHS.indexOf(monthText.slice(0, 3).toLowerCase()) + 1;
+    const day = parseInt(dayText);
+    let year = yearText ? parseInt(yearText) : parseInt(today.slice(0, 4));
+    if (yearText && yearText.length === 2) year += 2000;
+
+    const toDate = (y: number) =>
+      `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    let date = toDate(year);
+    if (!yearText && date < today) date = toDate(year + 1);
+
+    // Rejects 2/30 and the like, which Date would roll into the next month
+    if (!isIsoDate(date) || formatUtc(toUtc(date)) !== date) continue;
+    return { date, matched: match[0] };
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Typo-tolerant text matching for autocomplete
+ *
+ * Scores are 0-1. Exact, prefix and substring matches score highest; anything
+ * else falls back to trigram similarity (the same measure as pg_trgm) against
+ * the whole text and each of its words, so "cozumell" still finds "Cozumel".
+ */
+
+export const MIN_MATCH_SCORE = 0.35;
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+export function trigramSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Text prepared once so scoring a query against it stays cheap
+ */
+export interface MatchTarget {
+  text: string;
+  words: string[];
+  grams: Set<string>;
+  wordGrams: Set<string>[];
+}
+
+export function toMatchTarget(text: string): MatchTarget {
+  const normalized = normalizeText(text);
+  const words = normalized.split(' ').filter(Boolean);
+  return {
+    text: normalized,
+    words,
+    grams: trigrams(normalized),
+    wordGrams: words.map(trigrams),
+  };
+}
+
+/**
+ * How well a normalized query matches a prepared target, 0-1
+ */
+export function matchScore(query: string, target: MatchTarget): number {
+  if (!query || !target.text) return 0;
+
+  if (target.text === query) return 1;
+  if (target.text.startsWith(query)) return 0.95;
+  if (target.words.some(word => word.startsWith(query))) return 0.9;
+  if (target.text.includes(query)) return 0.8;
+
+  // Fuzzy matches never outrank a literal one
+  const queryGrams = trigrams(query);
+  const best = Math.max(
+    trigramSimilarity(queryGrams, target.grams),
+    ...target.wordGrams.map(grams => trigramSimilarity(queryGrams, grams))
+  );
+  return Math.round(best * 0.75 * 1000) / 1000;
+}
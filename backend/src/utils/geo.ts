@@ -0,0 +1,151 @@
+/**
+ * Distances and place lookup for "cruises departing near me" searches
+ *
+ * The gazetteer is deliberately small: the cities people drive to a cruise
+ * from, with the 3-digit ZIP prefixes that belong to each. A 5-digit ZIP
+ * resolves to its prefix's city, which is close enough for a drive radius
+ * measured in hundreds of miles.
+ */
+
+import { normalizeText } from './fuzzy-match';
+
+export const EARTH_RADIUS_MILES = 3958.8;
+export const DEFAULT_RADIUS_MILES = 250;
+export const MAX_RADIUS_MILES = 1500;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Place extends GeoPoint {
+  name: string;
+  region: string; // US state or Canadian province code
+  zipPrefixes?: string[];
+}
+
+export const GAZETTEER: Place[] = [
+  {
+    name: 'New York',
+    region: 'NY',
+    lat: 40.7128,
+    lng: -74.006,
+    zipPrefixes: ['100', '101', '102', '103', '104', '112', '113', '114'],
+  },
+  { name: 'Newark', region: 'NJ', lat: 40.7357, lng: -74.1724, zipPrefixes: ['070', '071'] },
+  { name: 'Philadelphia', region: 'PA', lat: 39.9526, lng: -75.1652, zipPrefixes: ['190', '191'] },
+  {
+    name: 'Pittsburgh',
+    region: 'PA',
+    lat: 40.4406,
+    lng: -79.9959,
+    zipPrefixes: ['150', '151', '152'],
+  },
+  {
+    name: 'Baltimore',
+    region: 'MD',
+    lat: 39.2904,
+    lng: -76.6122,
+    zipPrefixes: ['210', '211', '212'],
+  },
+  {
+    name: 'Washington',
+    region: 'DC',
+    lat: 38.9072,
+    lng: -77.0369,
+    zipPrefixes: ['200', '202', '203', '204', '205'],
+  },
+  { name: 'Boston', region: 'MA', lat: 42.3601, lng: -71.0589, zipPrefixes: ['021', '022'] },
+  { name: 'Richmond', region: 'VA', lat: 37.5407, lng: -77.436, zipPrefixes: ['232'] },
+  { name: 'Norfolk', region: 'VA', lat: 36.8508, lng: -76.2859, zipPrefixes: ['235'] },
+  { name: 'Raleigh', region: 'NC', lat: 35.7796, lng: -78.6382, zipPrefixes: ['276'] },
+  { name: 'Charlotte', region: 'NC', lat: 35.2271, lng: -80.8431, zipPrefixes: ['282'] },
+  { name: 'Charleston', region: 'SC', lat: 32.7765, lng: -79.9311, zipPrefixes: ['294'] },
+  { name: 'Atlanta', region: 'GA', lat: 33.749, lng: -84.388, zipPrefixes: ['303'] },
+  { name: 'Jacksonville', region: 'FL', lat: 30.3322, lng: -81.6557, zipPrefixes: ['322'] },
+  { name: 'Orlando', region: 'FL', lat: 28.5383, lng: -81.3792, zipPrefixes: ['328'] },
+  { name: 'Tampa', region: 'FL', lat: 27.9506, lng: -82.4572, zipPrefixes: ['336'] },
+  { name: 'Miami', region: 'FL', lat: 25.7617, lng: -80.1918, zipPrefixes: ['331'] },
+  { name: 'Fort Lauderdale', region: 'FL', lat: 26.1224, lng: -80.1373, zipPrefixes: ['333'] },
+  { name: 'West Palm Beach', region: 'FL', lat: 26.7153, lng: -80.0534, zipPrefixes: ['334'] },
+  { name: 'Birmingham', region: 'AL', lat: 33.5186, lng: -86.8104, zipPrefixes: ['352'] },
+  { name: 'Mobile', region: 'AL', lat: 30.6954, lng: -88.0399, zipPrefixes: ['366'] },
+  { name: 'Nashville', region: 'TN', lat: 36.1627, lng: -86.7816, zipPrefixes: ['372'] },
+  { name: 'Memphis', region: 'TN', lat: 35.1495, lng: -90.049, zipPrefixes: ['381'] },
+  { name: 'New Orleans', region: 'LA', lat: 29.9511, lng: -90.0715, zipPrefixes: ['701'] },
+  { name: 'Baton Rouge', region: 'LA', lat: 30.4515, lng: -91.1871, zipPrefixes: ['708'] },
+  { name: 'Houston', region: 'TX', lat: 29.7604, lng: -95.3698, zipPrefixes: ['770'] },
+  { name: 'Galveston', region: 'TX', lat: 29.3013, lng: -94.7977, zipPrefixes: ['775'] },
+  { name: 'Dallas', region: 'TX', lat: 32.7767, lng: -96.797, zipPrefixes: ['752'] },
+  { name: 'Fort Worth', region: 'TX', lat: 32.7555, lng: -97.3308, zipPrefixes: ['761'] },
+  { name: 'Austin', region: 'TX', lat: 30.2672, lng: -97.7431, zipPrefixes: ['787'] },
+  { name: 'San Antonio', region: 'TX', lat: 29.4241, lng: -98.4936, zipPrefixes: ['782'] },
+  { name: 'Oklahoma City', region: 'OK', lat: 35.4676, lng: -97.5164, zipPrefixes: ['731'] },
+  { name: 'Kansas City', region: 'MO', lat: 39.0997, lng: -94.5786, zipPrefixes: ['641'] },
+  { name: 'St. Louis', region: 'MO', lat: 38.627, lng: -90.1994, zipPrefixes: ['631'] },
+  { name: 'Chicago', region: 'IL', lat: 41.8781, lng: -87.6298, zipPrefixes: ['606'] },
+  { name: 'Indianapolis', region: 'IN', lat: 39.7684, lng: -86.1581, zipPrefixes: ['462'] },
+  { name: 'Detroit', region: 'MI', lat: 42.3314, lng: -83.0458, zipPrefixes: ['482'] },
+  { name: 'Cleveland', region: 'OH', lat: 41.4993, lng: -81.6944, zipPrefixes: ['441'] },
+  { name: 'Columbus', region: 'OH', lat: 39.9612, lng: -82.9988, zipPrefixes: ['432'] },
+  { name: 'Cincinnati', region: 'OH', lat: 39.1031, lng: -84.512, zipPrefixes: ['452'] },
+  { name: 'Minneapolis', region: 'MN', lat: 44.9778, lng: -93.265, zipPrefixes: ['554'] },
+  { name: 'Denver', region: 'CO', lat: 39.7392, lng: -104.9903, zipPrefixes: ['802'] },
+  { name: 'Salt Lake City', region: 'UT', lat: 40.7608, lng: -111.891, zipPrefixes: ['841'] },
+  { name: 'Phoenix', region: 'AZ', lat: 33.4484, lng: -112.074, zipPrefixes: ['850'] },
+  { name: 'Las Vegas', region: 'NV', lat: 36.1699, lng: -115.1398, zipPrefixes: ['891'] },
+  { name: 'San Diego', region: 'CA', lat: 32.7157, lng: -117.1611, zipPrefixes: ['921'] },
+  { name: 'Los Angeles', region: 'CA', lat: 34.0522, lng: -118.2437, zipPrefixes: ['900'] },
+  { name: 'Long Beach', region: 'CA', lat: 33.7701, lng: -118.1937, zipPrefixes: ['908'] },
+  { name: 'San Francisco', region: 'CA', lat: 37.7749, lng: -122.4194, zipPrefixes: ['941'] },
+  { name: 'San Jose', region: 'CA', lat: 37.3382, lng: -121.8863, zipPrefixes: ['951'] },
+  { name: 'Sacramento', region: 'CA', lat: 38.5816, lng: -121.4944, zipPrefixes: ['958'] },
+  { name: 'Portland', region: 'OR', lat: 45.5152, lng: -122.6784, zipPrefixes: ['972'] },
+  { name: 'Seattle', region: 'WA', lat: 47.6062, lng: -122.3321, zipPrefixes: ['981'] },
+  { name: 'Anchorage', region: 'AK', lat: 61.2181, lng: -149.9003, zipPrefixes: ['995'] },
+  { name: 'Honolulu', region: 'HI', lat: 21.3069, lng: -157.8583, zipPrefixes: ['968'] },
+  { name: 'San Juan', region: 'PR', lat: 18.4655, lng: -66.1057, zipPrefixes: ['009'] },
+  { name: 'Vancouver', region: 'BC', lat: 49.2827, lng: -123.1207 },
+  { name: 'Toronto', region: 'ON', lat: 43.6532, lng: -79.3832 },
+  { name: 'Montreal', region: 'QC', lat: 45.5017, lng: -73.5673 },
+  { name: 'Quebec City', region: 'QC', lat: 46.8139, lng: -71.208 },
+];
+
+const ZIP_PATTERN = /^(\d{3})\d{2}(-\d{4})?$/;
+
+/**
+ * Find a place by US ZIP code, "City", "City, ST" or "City ST". Null when it
+ * isn't in the gazetteer.
+ */
+export function lookupPlace(query: string): Place | null {
+  const trimmed = (query || '').trim();
+
+  const zip = ZIP_PATTERN.exec(trimmed);
+  if (zip) {
+    return GAZETTEER.find(place => place.zipPrefixes?.includes(zip[1])) || null;
+  }
+
+  const normalized = normalizeText(trimmed);
+  if (!normalized) return null;
+  return (
+    GAZETTEER.find(
+      place =>
+        normalizeText(place.name) === normalized ||
+        normalizeText(`${place.name} ${place.region}`) === normalized
+    ) || null
+  );
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in miles
+ */
+export function distanceMiles(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
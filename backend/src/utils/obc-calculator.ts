@@ -50,7 +50,14 @@ export function calculateObcFromBreakdown(breakdownData: any): number {
     }
   });
 
-  // Calculate total OBC (10% of net commissionable fares per guest, rounded down to nearest $10)
+  return calculateObcFromGuestFares(Array.from(guestCommissionableFares.values()));
+}
+
+/**
+ * Calculate total OBC from per-guest commissionable fares
+ * (10% of each guest's fare, rounded down to the nearest $10)
+ */
+export function calculateObcFromGuestFares(guestCommissionableFares: number[]): number {
   let totalObc = 0;
   guestCommissionableFares.forEach((commissionableFare) => {
     if (commissionableFare > 0) {
@@ -0,0 +1,236 @@
+/**
+ * Party-size pricing from Traveltek per-guest fares
+ *
+ * Traveltek fares are per person. The first two guests in a cabin pay the
+ * adult fare (or the single fare when travelling alone), the third and fourth
+ * berths have their own reduced fares, and children in those berths pay the
+ * child fare. Taxes, NCF and gratuities are charged per guest.
+ */
+
+export const MAX_GUESTS_PER_CABIN = 4;
+export const CHILD_MAX_AGE = 17;
+export const INFANT_MAX_AGE = 1;
+
+export interface PartyComposition {
+  adults: number;
+  children: number;
+  // One age per child; missing ages are treated as children, not infants
+  childAges?: number[];
+}
+
+export type CabinCategory = 'interior' | 'oceanview' | 'balcony' | 'suite';
+
+export type FareBasis =
+  | 'single'
+  | 'adult'
+  | 'third_adult'
+  | 'fourth_adult'
+  | 'child'
+  | 'infant'
+  // The berth-specific fare wasn't published, so the adult fare was used
+  | 'adult_fallback';
+
+/**
+ * The per-guest fare fields of a pricing row, as numbers
+ */
+export interface GuestFares {
+  adultPrice?: number | null;
+  childPrice?: number | null;
+  infantPrice?: number | null;
+  singlePrice?: number | null;
+  thirdAdultPrice?: number | null;
+  fourthAdultPrice?: number | null;
+  taxes?: number | null;
+  ncf?: number | null;
+  gratuity?: number | null;
+}
+
+export interface GuestPrice {
+  guest: number;
+  type: 'adult' | 'child' | 'infant';
+  basis: FareBasis;
+  fare: number;
+  taxes: number;
+  ncf: number;
+  gratuity: number;
+  total: number;
+}
+
+export interface PartyPrice {
+  guests: GuestPrice[];
+  fare: number;
+  taxes: number;
+  ncf: number;
+  gratuity: number;
+  total: number;
+  perPerson: number;
+  // True when any guest was priced on a fallback fare
+  estimated: boolean;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const positive = (value: number | null | undefined): number | null =>
+  value !== null && value !== undefined && value > 0 ? value : null;
+
+export function partySize(party: PartyComposition): number {
+  return party.adults + party.children;
+}
+
+/**
+ * Returns a validation message, or null when the party can share one cabin
+ */
+export function validateParty(party: PartyComposition): string | null {
+  if (!Number.isInteger(party.adults) || party.adults < 1) {
+    return 'At least one adult is required';
+  }
+  if (!Number.isInteger(party.children) || party.children < 0) {
+    return 'children must be zero or more';
+  }
+  if (partySize(party) > MAX_GUESTS_PER_CABIN) {
+    return `A cabin holds at most ${MAX_GUESTS_PER_CABIN} guests`;
+  }
+  if (party.childAges?.length && party.childAges.length !== party.children) {
+    return 'childAges must have one age per child';
+  }
+  if (party.childAges?.some(age => !Number.isInteger(age) || age < 0 || age > CHILD_MAX_AGE)) {
+    return `childAges must be whole numbers between 0 and ${CHILD_MAX_AGE}`;
+  }
+  return null;
+}
+
+/**
+ * Read adults/children/childAges (comma-separated) from query params, falling
+ * back to passengers as a count of adults. Returns null when none are given.
+ */
+export function parsePartyParams(query: Record<string, any>): PartyComposition | null {
+  const hasParty =
+    query.adults !== undefined || query.children !== undefined || query.childAges !== undefined;
+
+  if (!hasParty) {
+    if (query.passengers === undefined) return null;
+    return { adults: Number(query.passengers), children: 0 };
+  }
+
+  const childAges = query.childAges
+    ? String(query.childAges)
+        .split(',')
+        .filter(age => age.trim() !== '')
+        .map(age => Number(age.trim()))
+    : undefined;
+
+  return {
+    adults: query.adults !== undefined ? Number(query.adults) : 2,
+    children:
+      query.children !== undefined ? Number(query.children) : childAges ? childAges.length : 0,
+    ...(childAges && { childAges }),
+  };
+}
+
+/**
+ * The standard party the cheapest_price columns are quoted for
+ */
+export function isDoubleOccupancy(party: PartyComposition): boolean {
+  return party.adults === 2 && party.children === 0;
+}
+
+/**
+ * Map a Traveltek cabin type (inside, outside, balcony, suite, ...) to our
+ * four headline categories
+ */
+export function toCabinCategory(cabinType: string | null | undefined): CabinCategory | null {
+  const type = (cabinType || '').toLowerCase();
+  if (type.includes('inside') || type.includes('interior')) return 'interior';
+  if (type.includes('outside') || type.includes('ocean')) return 'oceanview';
+  if (type.includes('balcony') || type.includes('veranda')) return 'balcony';
+  if (type.includes('suite')) return 'suite';
+  return null;
+}
+
+function berthFare(
+  fares: GuestFares,
+  berth: number,
+  type: GuestPrice['type'],
+  soloTraveller: boolean
+): { fare: number; basis: FareBasis } | null {
+  const adult = positive(fares.adultPrice);
+
+  if (soloTraveller) {
+    const single = positive(fares.singlePrice);
+    return single !== null ? { fare: single, basis: 'single' } : null;
+  }
+
+  // The first two berths pay the full fare whoever sleeps in them
+  if (berth <= 2) {
+    return adult !== null ? { fare: adult, basis: 'adult' } : null;
+  }
+
+  if (type === 'infant' && positive(fares.infantPrice) !== null) {
+    return { fare: positive(fares.infantPrice), basis: 'infant' };
+  }
+  if (type !== 'adult' && positive(fares.childPrice) !== null) {
+    return { fare: positive(fares.childPrice), basis: 'child' };
+  }
+
+  const berthSpecific =
+    berth === 3 ? positive(fares.thirdAdultPrice) : positive(fares.fourthAdultPrice);
+  if (berthSpecific !== null) {
+    return { fare: berthSpecific, basis: berth === 3 ? 'third_adult' : 'fourth_adult' };
+  }
+
+  return adult !== null ? { fare: adult, basis: 'adult_fallback' } : null;
+}
+
+/**
+ * Price a whole party in one cabin. Returns null when the row lacks a fare
+ * the party needs (e.g. no single fare for a solo traveller).
+ */
+export function calculatePartyPrice(fares: GuestFares, party: PartyComposition): PartyPrice | null {
+  if (validateParty(party) !== null) return null;
+
+  const guestTypes: GuestPrice['type'][] = [
+    ...Array.from({ length: party.adults }, () => 'adult' as const),
+    ...Array.from({ length: party.children }, (_, i) =>
+      party.childAges?.[i] !== undefined && party.childAges[i] <= INFANT_MAX_AGE
+        ? ('infant' as const)
+        : ('child' as const)
+    ),
+  ];
+  const soloTraveller = guestTypes.length === 1;
+
+  const guests: GuestPrice[] = [];
+  for (const [index, type] of guestTypes.entries()) {
+    const berth = index + 1;
+    const priced = berthFare(fares, berth, type, soloTraveller);
+    if (!priced) return null;
+
+    const taxes = fares.taxes || 0;
+    const ncf = fares.ncf || 0;
+    const gratuity = fares.gratuity || 0;
+    guests.push({
+      guest: berth,
+      type,
+      basis: priced.basis,
+      fare: round(priced.fare),
+      taxes: round(taxes),
+      ncf: round(ncf),
+      gratuity: round(gratuity),
+      total: round(priced.fare + taxes + ncf + gratuity),
+    });
+  }
+
+  const sum = (field: keyof Pick<GuestPrice, 'fare' | 'taxes' | 'ncf' | 'gratuity' | 'total'>) =>
+    round(guests.reduce((acc, guest) => acc + guest[field], 0));
+  const total = sum('total');
+
+  return {
+    guests,
+    fare: sum('fare'),
+    taxes: sum('taxes'),
+    ncf: sum('ncf'),
+    gratuity: sum('gratuity'),
+    total,
+    perPerson: round(total / guests.length),
+    estimated: guests.some(guest => guest.basis === 'adult_fallback'),
+  };
+}
@@ -39,9 +39,54 @@ interface Alert {
   id: string;
   name: string;
   maxBudget: string;
+  budgetType: "per_person" | "total";
   cabinTypes: string[];
 }
 
+interface MatchEvent {
+  eventType: "matched" | "price_drop" | "expired" | "sold_out";
+  price: number | null;
+  previousPrice: number | null;
+  createdAt: string;
+}
+
+interface MatchHistory {
+  id: string;
+  cruiseId: string;
+  cabinType: string;
+  cruise: {
+    name: string;
+    sailingDate: string;
+    nights: number;
+    shipName: string | null;
+    cruiseLineName: string | null;
+  };
+  currentPrice: number | null;
+  lastNotifiedPrice: number | null;
+  state: "active" | "expired" | "sold_out";
+  notifiedAt: string | null;
+  events: MatchEvent[];
+}
+
+const STATE_LABELS: Record<MatchHistory["state"], string> = {
+  active: "Active",
+  expired: "Over budget",
+  sold_out: "Sold out",
+};
+
+const STATE_STYLES: Record<MatchHistory["state"], string> = {
+  active: "bg-green-50 text-green-800 border-green-200",
+  expired: "bg-yellow-50 text-yellow-800 border-yellow-200",
+  sold_out: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const EVENT_LABELS: Record<MatchEvent["eventType"], string> = {
+  matched: "Matched",
+  price_drop: "Price dropped",
+  expired: "Went over budget",
+  sold_out: "Sold out",
+};
+
 export default function AlertMatchesPage() {
   const router = useRouter();
   const params = useParams();
@@ -50,6 +95,7 @@ export default function AlertMatchesPage() {
 
   const [alert, setAlert] = useState<Alert | null>(null);
   const [matches, setMatches] = useState<AlertMatch[]>([]);
+  const [history, setHistory] = useState<MatchHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
@@ -68,25 +114,8 @@ export default function AlertMatchesPage() {
     try {
       const token = await getToken();
 
-      // Load alert details
-      const alertResponse = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/alerts/${alertId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        },
-      );
-
-      if (!alertResponse.ok) {
-        throw new Error("Failed to load alert");
-      }
-
-      const alertData = await alertResponse.json();
-      setAlert(alertData);
-
-      // Load matches
-      const matchesResponse = await fetch(
+      // Load the alert with its matches and notification history
+      const response = await fetch(
         `${process.env.NEXT_PUBLIC_API_URL}/alerts/${alertId}/matches`,
         {
           headers: {
@@ -95,12 +124,14 @@ export default function AlertMatchesPage() {
         },
       );
 
-      if (!matchesResponse.ok) {
+      if (!response.ok) {
         throw new Error("Failed to load matches");
       }
 
-      const matchesData = await matchesResponse.json();
-      setMatches(matchesData);
+      const { data } = await response.json();
+      setAlert(data.alert);
+      setMatches(data.matches || []);
+      setHistory(data.history || []);
     } catch (err) {
       console.error("Failed to load data", err);
       setError("Failed to load alert matches");
@@ -171,7 +202,10 @@ export default function AlertMatchesPage() {
 
           <h1 className="text-3xl font-bold mb-2">{alert.name}</h1>
           <div className="flex flex-wrap gap-4 text-sm text-gray-600">
-            <span>Budget: Up to ${alert.maxBudget} per person</span>
+            <span>
+              Budget: Up to ${alert.maxBudget}{" "}
+              {alert.budgetType === "total" ? "total" : "per person"}
+            </span>
             <span>•</span>
             <span>
               Cabin Types:{" "}
@@ -287,6 +321,72 @@ export default function AlertMatchesPage() {
             </div>
           </>
         )}
+
+        {/* Notification History */}
+        {history.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold mb-4">Notification history</h2>
+            <div className="space-y-4">
+              {history.map((item) => (
+                <div
+                  key={item.id}
+                  className="border border-gray-200 rounded-lg p-4"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <div className="text-xs text-gray-500 mb-1">
+                        {item.cruise.cruiseLineName}
+                      </div>
+                      <h3 className="font-semibold">{item.cruise.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {item.cabinType.charAt(0).toUpperCase() +
+                          item.cabinType.slice(1)}{" "}
+                        • {item.cruise.nights} Nights • Departs{" "}
+                        {new Date(item.cruise.sailingDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      <span
+                        className={`inline-block px-2 py-1 rounded border text-xs font-medium ${STATE_STYLES[item.state]}`}
+                      >
+                        {STATE_LABELS[item.state]}
+                      </span>
+                      <p className="mt-2 text-gray-600">
+                        Current:{" "}
+                        {item.currentPrice !== null
+                          ? formatPrice(item.currentPrice)
+                          : "Unavailable"}
+                      </p>
+                      {item.lastNotifiedPrice !== null && (
+                        <p className="text-gray-600">
+                          Last emailed: {formatPrice(item.lastNotifiedPrice)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <ul className="mt-3 border-t border-gray-100 pt-3 space-y-1 text-sm text-gray-600">
+                    {item.events.map((event, index) => (
+                      <li key={index} className="flex justify-between gap-4">
+                        <span>
+                          {EVENT_LABELS[event.eventType]}
+                          {event.price !== null &&
+                            ` at ${formatPrice(event.price)}`}
+                          {event.eventType === "price_drop" &&
+                            event.previousPrice !== null &&
+                            ` (was ${formatPrice(event.previousPrice)})`}
+                        </span>
+                        <span className="text-gray-400">
+                          {new Date(event.createdAt).toLocaleDateString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
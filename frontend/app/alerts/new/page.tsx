@@ -21,7 +21,11 @@ function AlertFormContent() {
   const [selectedCruiseLines, setSelectedCruiseLines] = useState<number[]>([]);
   const [selectedMonths, setSelectedMonths] = useState<string[]>([]);
   const [maxBudget, setMaxBudget] = useState("");
+  const [budgetType, setBudgetType] = useState<"per_person" | "total">(
+    "per_person",
+  );
   const [selectedCabinTypes, setSelectedCabinTypes] = useState<string[]>([]);
+  const [alertFrequency, setAlertFrequency] = useState("daily");
   const [regionId, setRegionId] = useState<number | null>(null);
 
   // Passenger information
@@ -188,7 +192,9 @@ function AlertFormContent() {
               regionId: regionId || undefined,
             },
             maxBudget: parseFloat(maxBudget),
+            budgetType,
             cabinTypes: selectedCabinTypes,
+            alertFrequency,
             adults,
             children,
             childAges,
@@ -327,8 +333,30 @@ function AlertFormContent() {
           {/* Max Budget */}
           <div>
             <label className="block text-sm font-medium mb-2">
-              Maximum Budget (per person) *
+              Maximum Budget ({budgetType === "total" ? "total" : "per person"})
+              *
             </label>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              {(
+                [
+                  ["per_person", "Per person"],
+                  ["total", "Total for all passengers"],
+                ] as const
+              ).map(([type, label]) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setBudgetType(type)}
+                  className={`px-4 py-2 rounded-lg border transition-colors ${
+                    budgetType === type
+                      ? "bg-blue-500 text-white border-blue-500"
+                      : "bg-white text-gray-700 border-gray-300 hover:border-blue-500"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="relative">
               <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">
                 $
@@ -344,7 +372,8 @@ function AlertFormContent() {
               />
             </div>
             <p className="text-sm text-gray-500 mt-1">
-              You'll be notified when cruises fall below this price
+              You'll be notified when cruises fall below this price, priced for
+              the passengers below
             </p>
           </div>
 
@@ -371,6 +400,26 @@ function AlertFormContent() {
             </div>
           </div>
 
+          {/* Email Frequency */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Email Frequency
+            </label>
+            <select
+              value={alertFrequency}
+              onChange={(e) => setAlertFrequency(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+            <p className="text-sm text-gray-500 mt-1">
+              Everything we find for your alerts comes in one email, at most
+              this often
+            </p>
+          </div>
+
           {/* Passenger Information */}
           <div className="border-t pt-6">
             <h3 className="text-lg font-medium mb-4">Passenger Information</h3>
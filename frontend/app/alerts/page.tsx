@@ -15,6 +15,7 @@ interface Alert {
     regionId?: number;
   };
   maxBudget: string;
+  budgetType: "per_person" | "total";
   cabinTypes: string[];
   alertEnabled: boolean;
   lastChecked: string | null;
@@ -237,7 +238,8 @@ export default function AlertsPage() {
                     <div className="space-y-1 text-sm text-gray-600 mb-4">
                       <p>
                         <span className="font-medium">Budget:</span> Up to $
-                        {alert.maxBudget} per person
+                        {alert.maxBudget}{" "}
+                        {alert.budgetType === "total" ? "total" : "per person"}
                       </p>
                       <p>
                         <span className="font-medium">Cabin Types:</span>{" "}
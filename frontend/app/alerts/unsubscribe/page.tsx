@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import Navigation from "../../components/Navigation";
+
+interface UnsubscribeLink {
+  action: "pause" | "unsubscribe";
+  alertName: string | null;
+}
+
+/**
+ * Where the pause and unsubscribe links in alert emails land. The signed
+ * token identifies the user, so this works without signing in; the change
+ * is only made once confirmed, since mail scanners open links too.
+ */
+function UnsubscribeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [link, setLink] = useState<UnsubscribeLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadLink = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/alerts/unsubscribe?token=${encodeURIComponent(token)}`,
+        );
+
+        if (!response.ok) {
+          throw new Error("Invalid link");
+        }
+
+        const { data } = await response.json();
+        setLink(data);
+      } catch (err) {
+        console.error("Failed to read unsubscribe link", err);
+        setError("This link is invalid or the alert no longer exists.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadLink();
+    } else {
+      setError("This link is missing its token.");
+      setLoading(false);
+    }
+  }, [token]);
+
+  const confirm = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/alerts/unsubscribe`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ token }),
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to update alerts");
+      }
+
+      setDone(true);
+    } catch (err) {
+      console.error("Failed to update alerts", err);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isPause = link?.action === "pause";
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-xl mx-auto px-4 py-8 mt-16 text-center">
+        {loading ? (
+          <div className="py-12">Loading...</div>
+        ) : error ? (
+          <div className="py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <Link href="/alerts" className="text-blue-600 hover:underline">
+              Manage your alerts
+            </Link>
+          </div>
+        ) : done ? (
+          <div className="py-12">
+            <h1 className="text-3xl font-bold mb-4">
+              {isPause ? "Alert paused" : "You're unsubscribed"}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {isPause
+                ? `We won't email you about "${link?.alertName}" until you resume it.`
+                : "We won't email you about any of your price alerts until you turn them back on."}
+            </p>
+            <Link href="/alerts" className="text-blue-600 hover:underline">
+              Manage your alerts
+            </Link>
+          </div>
+        ) : (
+          <div className="py-12">
+            <h1 className="text-3xl font-bold mb-4">
+              {isPause ? "Pause this alert?" : "Unsubscribe from price alerts?"}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {isPause
+                ? `You'll stop getting emails for "${link?.alertName}". Your other alerts keep running.`
+                : "You'll stop getting emails for all of your price alerts."}
+            </p>
+            <button
+              onClick={confirm}
+              disabled={saving}
+              className="bg-blue-600 text-white px-8 py-3 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {saving ? "Saving..." : isPause ? "Pause Alert" : "Unsubscribe"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-white">
+          <Navigation />
+          <div className="max-w-xl mx-auto px-4 py-8 mt-16">
+            <div className="text-center py-12">Loading...</div>
+          </div>
+        </div>
+      }
+    >
+      <UnsubscribeContent />
+    </Suspense>
+  );
+}
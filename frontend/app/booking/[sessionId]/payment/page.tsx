@@ -5,6 +5,8 @@ import { useParams, useRouter } from "next/navigation";
 import { useBooking } from "../../../context/BookingContext";
 import BookingSummary from "../../../components/BookingSummary";
 import PricingSummary from "../../../components/PricingSummary";
+import TotalCostBreakdown from "../../../components/TotalCostBreakdown";
+import type { CabinCategory } from "../../../../lib/api";
 import {
   detectCardType,
   formatCardNumber,
@@ -54,6 +56,10 @@ export default function BookingPaymentPage() {
     string | null
   >(null);
   const [cruiseLineName, setCruiseLineName] = useState<string>("");
+  const [sessionCruise, setSessionCruise] = useState<{
+    cruiseId: string;
+    cabinType?: CabinCategory;
+  } | null>(null);
   const [basketData, setBasketData] = useState<any>(null);
   const [isLoadingBasket, setIsLoadingBasket] = useState(true);
 
@@ -114,6 +120,10 @@ export default function BookingPaymentPage() {
 
         const sessionData = await sessionResponse.json();
         if (!sessionData.cruiseId) return;
+        setSessionCruise({
+          cruiseId: sessionData.cruiseId,
+          cabinType: sessionData.cabinType || undefined,
+        });
 
         // Get cruise data to get cruise line ID
         const cruiseResponse = await fetch(
@@ -643,6 +653,16 @@ export default function BookingPaymentPage() {
               <p className="font-geograph text-[12px] text-gray-600 text-center">
                 Your payment is secure and encrypted
               </p>
+
+              {/* Estimate from the cruise page, with gratuities and onboard costs */}
+              {sessionCruise?.cabinType && (
+                <TotalCostBreakdown
+                  cruiseId={sessionCruise.cruiseId}
+                  cabinType={sessionCruise.cabinType}
+                  party={passengerCount}
+                  title="Estimated all-in cost"
+                />
+              )}
             </div>
           </div>
         </div>
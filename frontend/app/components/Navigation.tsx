@@ -8,6 +8,8 @@ import {
   fetchAvailableSailingDates,
   AvailableSailingDate,
   searchCruises,
+  fetchSearchSuggestions,
+  SearchSuggestion,
 } from "../../lib/api";
 import { useAlert } from "../../components/GlobalAlertProvider";
 import { useUser } from "../hooks/useClerkHooks";
@@ -69,6 +71,8 @@ export default function Navigation({
     : 0;
   const [ships, setShips] = useState<Ship[]>([]);
   const [filteredShips, setFilteredShips] = useState<Ship[]>([]);
+  // Ports, regions, lines and cruises matching the search box (ships are listed above)
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
 
@@ -208,6 +212,30 @@ export default function Navigation({
     setHighlightedIndex(-1);
   }, [searchValue, internalSearchValue, ships]);
 
+  // Fetch typo-tolerant suggestions for everything other than ships
+  useEffect(() => {
+    const query = getCurrentSearchValue().trim();
+    if (query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await fetchSearchSuggestions(query);
+      if (!cancelled) {
+        setSuggestions(
+          results.filter((suggestion) => suggestion.type !== "ship"),
+        );
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchValue, internalSearchValue]);
+
   // Helper functions to get current values (props or internal state)
   const getCurrentSearchValue = () => searchValue || internalSearchValue;
   const getCurrentSelectedShip = () => selectedShip || internalSelectedShip;
@@ -804,11 +832,29 @@ export default function Navigation({
                   </div>
                 </div>
               ))
-            ) : (
+            ) : suggestions.length === 0 ? (
               <div className="px-6 py-3 font-geograph text-[18px] text-gray-500 font-normal">
                 No ships found
               </div>
-            )}
+            ) : null}
+            {suggestions.map((suggestion) => (
+              <div
+                key={`${suggestion.type}-${suggestion.id}`}
+                onClick={() => {
+                  setIsDropdownOpen(false);
+                  router.push(suggestion.href);
+                }}
+                className="px-6 py-3 cursor-pointer font-geograph text-dark-blue dropdown-item-hover hover:bg-light-blue hover:bg-opacity-10"
+                style={{ letterSpacing: "-0.02em" }}
+              >
+                <div className="font-normal text-[18px]">{suggestion.name}</div>
+                {suggestion.subtitle && (
+                  <div className="font-normal text-[14px] text-gray-500 mt-0.5">
+                    {suggestion.subtitle}
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
         </div>
       )}
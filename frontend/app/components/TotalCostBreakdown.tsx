@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  fetchTotalCost,
+  type CabinCategory,
+  type TotalCost,
+  type TotalCostParty,
+} from "../../lib/api";
+
+const CABIN_TYPES: { value: CabinCategory; label: string }[] = [
+  { value: "interior", label: "Interior" },
+  { value: "oceanview", label: "Oceanview" },
+  { value: "balcony", label: "Balcony" },
+  { value: "suite", label: "Suite" },
+];
+
+const DUE_LABELS: Record<TotalCost["lineItems"][number]["due"], string> = {
+  booking: "Due at booking",
+  onboard: "Paid onboard",
+  included: "Included",
+};
+
+interface TotalCostBreakdownProps {
+  cruiseId: string | number;
+  party: TotalCostParty;
+  // A fixed cabin category; without one the reader picks from tabs
+  cabinType?: CabinCategory;
+  title?: string;
+  className?: string;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Line-itemized all-in cost from the total-cost API: fare, taxes and fees,
+ * gratuities and onboard credit, with what is due at booking and onboard
+ */
+export default function TotalCostBreakdown({
+  cruiseId,
+  party,
+  cabinType,
+  title = "What your cruise costs all-in",
+  className = "",
+}: TotalCostBreakdownProps) {
+  const [selectedCabinType, setSelectedCabinType] = useState<CabinCategory>(
+    cabinType || "interior",
+  );
+  const [totalCost, setTotalCost] = useState<TotalCost | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const category = cabinType || selectedCabinType;
+  const childAges = (party.childAges || []).join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTotalCost = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const cost = await fetchTotalCost(cruiseId, category, {
+          adults: party.adults,
+          children: party.children,
+          childAges: childAges ? childAges.split(",").map(Number) : [],
+        });
+        if (!cancelled) setTotalCost(cost);
+      } catch (err) {
+        console.error("Error fetching total cost:", err);
+        if (!cancelled) {
+          setTotalCost(null);
+          setError("We couldn't work out the total for this cabin");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTotalCost();
+    return () => {
+      cancelled = true;
+    };
+  }, [cruiseId, category, party.adults, party.children, childAges]);
+
+  return (
+    <div
+      className={`bg-white rounded-lg border border-gray-200 p-4 md:p-6 ${className}`}
+    >
+      <h3 className="font-geograph font-medium text-[18px] text-dark-blue mb-3">
+        {title}
+      </h3>
+
+      {!cabinType && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {CABIN_TYPES.map((type) => (
+            <button
+              key={type.value}
+              onClick={() => setSelectedCabinType(type.value)}
+              className={`font-geograph text-[14px] px-4 py-2 rounded-[5px] transition-colors ${
+                selectedCabinType === type.value
+                  ? "bg-[#2f7ddd] text-white"
+                  : "bg-gray-100 text-dark-blue hover:bg-gray-200"
+              }`}
+            >
+              {type.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <div
+              key={i}
+              className="h-5 bg-gray-200 rounded animate-pulse"
+            ></div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="font-geograph text-[14px] text-gray-600">{error}</p>
+      ) : !totalCost ? (
+        <p className="font-geograph text-[14px] text-gray-600">
+          No pricing is available for this cabin type
+        </p>
+      ) : (
+        <div className="font-geograph text-[14px] text-dark-blue">
+          <div className="space-y-2">
+            {totalCost.lineItems.map((item) => (
+              <div key={item.code} className="flex justify-between gap-4">
+                <div>
+                  <div>{item.label}</div>
+                  <div className="text-[12px] text-gray-600">
+                    {item.note || DUE_LABELS[item.due]}
+                  </div>
+                </div>
+                <div
+                  className={
+                    item.kind === "credit" ? "text-green-600" : undefined
+                  }
+                >
+                  {item.due === "included" && item.amount === 0
+                    ? "Included"
+                    : formatMoney(item.amount, totalCost.currency)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-200 mt-4 pt-4 space-y-1">
+            <div className="flex justify-between">
+              <span>Due at booking</span>
+              <span>
+                {formatMoney(totalCost.dueAtBooking, totalCost.currency)}
+              </span>
+            </div>
+            {totalCost.dueOnboard > 0 && (
+              <div className="flex justify-between">
+                <span>Paid onboard</span>
+                <span>
+                  {formatMoney(totalCost.dueOnboard, totalCost.currency)}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold text-[16px]">
+              <span>All-in total</span>
+              <span>
+                {formatMoney(totalCost.allInTotal, totalCost.currency)}
+              </span>
+            </div>
+            <div className="flex justify-between text-[12px] text-gray-600">
+              <span>Per person</span>
+              <span>
+                {formatMoney(totalCost.perPerson, totalCost.currency)}
+              </span>
+            </div>
+          </div>
+
+          {totalCost.estimated && (
+            <p className="text-[12px] text-gray-600 mt-3">
+              Some fares are estimates; the cruise line confirms the final price
+              when you book.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuth } from "@clerk/nextjs";
+import { useAlert } from "../../components/GlobalAlertProvider";
+
+const CABIN_TYPES = [
+  { value: "interior", label: "Interior" },
+  { value: "oceanview", label: "Oceanview" },
+  { value: "balcony", label: "Balcony" },
+  { value: "suite", label: "Suite" },
+];
+
+interface WatchPriceButtonProps {
+  cruiseId: string;
+}
+
+/**
+ * "Watch this sailing": emails the user when the chosen cabin type (or cabin
+ * code) drops in price by their threshold
+ */
+export default function WatchPriceButton({ cruiseId }: WatchPriceButtonProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isSignedIn, getToken } = useAuth();
+  const { showAlert } = useAlert();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [cabinType, setCabinType] = useState("interior");
+  const [cabinCode, setCabinCode] = useState("");
+  const [thresholdType, setThresholdType] = useState<"percent" | "amount">(
+    "percent",
+  );
+  const [threshold, setThreshold] = useState("5");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openWatch = () => {
+    if (!isSignedIn) {
+      router.push(`/sign-in?redirect_url=${encodeURIComponent(pathname)}`);
+      return;
+    }
+    setIsOpen(true);
+  };
+
+  const saveWatch = async () => {
+    const value = parseFloat(threshold);
+    if (!(value > 0) || (thresholdType === "percent" && value > 100)) {
+      showAlert("Enter a drop above 0 (and at most 100%)");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/alerts/watches`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            cruiseId,
+            cabinType,
+            ...(cabinCode.trim() && { cabinCode: cabinCode.trim() }),
+            ...(thresholdType === "percent"
+              ? { dropPercent: value }
+              : { dropAmount: value }),
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to create watch");
+      }
+
+      setIsOpen(false);
+      showAlert("We'll email you when this price drops");
+    } catch (err) {
+      console.error("Failed to create watch", err);
+      showAlert("Failed to watch this sailing. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={openWatch}
+        className="font-geograph text-[16px] text-dark-blue border border-dark-blue rounded-full px-5 py-2 hover:bg-dark-blue hover:text-white transition-colors"
+        style={{ letterSpacing: "-0.02em" }}
+      >
+        Watch price
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-[10px] p-5 max-w-md">
+      <p
+        className="font-geograph font-bold text-[18px] text-dark-blue mb-4"
+        style={{ letterSpacing: "-0.02em" }}
+      >
+        Email me when the price drops
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <select
+          value={cabinType}
+          onChange={(e) => setCabinType(e.target.value)}
+          className="font-geograph text-[16px] border border-gray-300 rounded-[10px] px-3 py-2"
+        >
+          {CABIN_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={cabinCode}
+          onChange={(e) => setCabinCode(e.target.value.toUpperCase())}
+          placeholder="Cabin code (optional)"
+          maxLength={10}
+          className="font-geograph text-[16px] border border-gray-300 rounded-[10px] px-3 py-2"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <select
+          value={thresholdType}
+          onChange={(e) =>
+            setThresholdType(e.target.value as "percent" | "amount")
+          }
+          className="font-geograph text-[16px] border border-gray-300 rounded-[10px] px-3 py-2"
+        >
+          <option value="percent">Drops by %</option>
+          <option value="amount">Drops by $</option>
+        </select>
+        <input
+          type="number"
+          min="1"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          className="font-geograph text-[16px] border border-gray-300 rounded-[10px] px-3 py-2"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={saveWatch}
+          disabled={isSaving}
+          className="font-geograph text-[16px] bg-dark-blue text-white rounded-full px-5 py-2 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Watch price"}
+        </button>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="font-geograph text-[16px] text-dark-blue underline"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import { useBooking } from "../../context/BookingContext";
 import SpecificCabinModal from "../../components/SpecificCabinModal";
 import PassengerSelector from "../../components/PassengerSelector";
 import HoldBookingModal from "../../components/HoldBookingModal";
+import WatchPriceButton from "../../components/WatchPriceButton";
+import TotalCostBreakdown from "../../components/TotalCostBreakdown";
 import dynamic from "next/dynamic";
 
 const PriceHistoryChart = dynamic(
@@ -1737,6 +1739,12 @@ export default function CruiseDetailPage({}: CruiseDetailPageProps) {
 
           {/* Additional cruise details can be added here */}
 
+          {cruise?.id && (
+            <div className="mt-6">
+              <WatchPriceButton cruiseId={cruise.id.toString()} />
+            </div>
+          )}
+
           {/* Admin-Only Price History Chart */}
           {!adminLoading && isAdmin && cruise?.id && (
             <div className="mt-8">
@@ -2711,6 +2719,15 @@ export default function CruiseDetailPage({}: CruiseDetailPageProps) {
                 </div>
               </div>
             )}
+
+            {/* All-in cost, the same numbers quote emails and checkout show */}
+            {cruise?.id && (
+              <TotalCostBreakdown
+                cruiseId={cruise.id}
+                party={localPassengerCount}
+                className="mt-6 mx-4 md:mx-0"
+              />
+            )}
           </div>
         </div>
       )}
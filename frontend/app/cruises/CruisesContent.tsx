@@ -93,6 +93,14 @@ export default function CruisesContent() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const requestCounterRef = useRef(0);
 
+  // Cursor to request each page with, issued by the page before it. Reset
+  // whenever the filters or sort change, since cursors only fit one search.
+  const pageCursorsRef = useRef<Record<number, string>>({});
+  const cursorSearchRef = useRef("");
+
+  // Search analytics id of the results on screen, sent back when one is opened
+  const searchIdRef = useRef<string | null>(null);
+
   // Filter states - support multi-select
   const [selectedCruiseLines, setSelectedCruiseLines] = useState<number[]>([]);
   const [selectedMonths, setSelectedMonths] = useState<string[]>([]);
@@ -279,6 +287,22 @@ export default function CruisesContent() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Record a result opened from this page for search click-through analytics
+  const recordResultClick = (cruiseId: string, index: number) => {
+    if (!searchIdRef.current) return;
+
+    fetch(`${process.env.NEXT_PUBLIC_API_URL}/search/click`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        searchId: searchIdRef.current,
+        cruiseId,
+        position: (page - 1) * ITEMS_PER_PAGE + index + 1,
+      }),
+      keepalive: true,
+    }).catch(() => {});
+  };
+
   // Fetch cruises based on filters
   const fetchCruises = async () => {
     if (abortControllerRef.current) {
@@ -299,9 +323,6 @@ export default function CruisesContent() {
     try {
       const params = new URLSearchParams();
 
-      params.append("limit", ITEMS_PER_PAGE.toString());
-      params.append("offset", ((page - 1) * ITEMS_PER_PAGE).toString());
-
       selectedCruiseLines.forEach((id) =>
         params.append("cruiseLineId", id.toString()),
       );
@@ -351,6 +372,23 @@ export default function CruisesContent() {
           params.append("sortBy", "nights");
           params.append("sortOrder", "desc");
           break;
+        case "recommended":
+          params.append("sortBy", "recommended");
+          break;
+      }
+
+      const searchKey = params.toString();
+      if (cursorSearchRef.current !== searchKey) {
+        cursorSearchRef.current = searchKey;
+        pageCursorsRef.current = {};
+      }
+
+      params.append("limit", ITEMS_PER_PAGE.toString());
+      const cursor = pageCursorsRef.current[page];
+      if (page > 1 && cursor) {
+        params.append("cursor", cursor);
+      } else {
+        params.append("offset", ((page - 1) * ITEMS_PER_PAGE).toString());
       }
 
       params.append("_t", Date.now().toString());
@@ -404,6 +442,12 @@ export default function CruisesContent() {
         `About to call setCruises with ${cruisesData.length} cruises`,
       );
 
+      if (data.pagination?.nextCursor) {
+        pageCursorsRef.current[page + 1] = data.pagination.nextCursor;
+      }
+
+      searchIdRef.current = data.meta?.searchId || null;
+
       setCruises(cruisesData);
       console.log(`setCruises called successfully`);
       setTotalCount(data.pagination?.total || data.total || cruisesData.length);
@@ -1507,15 +1551,17 @@ export default function CruisesContent() {
                   >
                     <span className="font-geograph font-medium text-[16px] text-dark-blue">
                       Sort:{" "}
-                      {sortBy === "soonest"
-                        ? "Soonest"
-                        : sortBy === "lowest_price"
-                          ? "Lowest price"
-                          : sortBy === "highest_price"
-                            ? "Highest price"
-                            : sortBy === "shortest"
-                              ? "Shortest"
-                              : "Longest"}
+                      {sortBy === "recommended"
+                        ? "Recommended"
+                        : sortBy === "soonest"
+                          ? "Soonest"
+                          : sortBy === "lowest_price"
+                            ? "Lowest price"
+                            : sortBy === "highest_price"
+                              ? "Highest price"
+                              : sortBy === "shortest"
+                                ? "Shortest"
+                                : "Longest"}
                     </span>
                     <Image
                       src="/images/arrow-down.svg"
@@ -1528,6 +1574,7 @@ export default function CruisesContent() {
                   {isSortDropdownOpen && (
                     <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-lg border border-[#d9d9d9] z-50">
                       {[
+                        "recommended",
                         "soonest",
                         "lowest_price",
                         "highest_price",
@@ -1545,15 +1592,17 @@ export default function CruisesContent() {
                           }}
                           className="w-full text-left px-4 py-2 hover:bg-gray-50 transition-colors font-geograph text-[16px] text-dark-blue"
                         >
-                          {option === "soonest"
-                            ? "Soonest"
-                            : option === "lowest_price"
-                              ? "Lowest price"
-                              : option === "highest_price"
-                                ? "Highest price"
-                                : option === "shortest"
-                                  ? "Shortest cruises"
-                                  : "Longest cruises"}
+                          {option === "recommended"
+                            ? "Recommended"
+                            : option === "soonest"
+                              ? "Soonest"
+                              : option === "lowest_price"
+                                ? "Lowest price"
+                                : option === "highest_price"
+                                  ? "Highest price"
+                                  : option === "shortest"
+                                    ? "Shortest cruises"
+                                    : "Longest cruises"}
                         </button>
                       ))}
                     </div>
@@ -1593,7 +1642,7 @@ export default function CruisesContent() {
                   );
                   return null;
                 })()}
-                {cruises.map((cruise) => {
+                {cruises.map((cruise, index) => {
                   const slug = createSlugFromCruise({
                     id: cruise.id,
                     shipName: cruise.ship?.name || "unknown",
@@ -1607,7 +1656,10 @@ export default function CruisesContent() {
                   return (
                     <div
                       key={cruise.id}
-                      onClick={() => router.push(`/cruise/${slug}`)}
+                      onClick={() => {
+                        recordResultClick(cruise.id, index);
+                        router.push(`/cruise/${slug}`);
+                      }}
                       className="bg-white rounded-lg overflow-hidden cursor-pointer border border-[#d9d9d9]"
                     >
                       {/* Mobile Layout */}
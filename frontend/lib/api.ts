@@ -143,6 +143,46 @@ export async function searchShips(searchTerm: string): Promise<Ship[]> {
   }
 }
 
+export type SearchSuggestionType =
+  "cruise_line" | "ship" | "port" | "region" | "cruise";
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  id: number | string;
+  name: string;
+  subtitle: string | null;
+  href: string;
+  sailings: number;
+  score: number;
+  matchedAlias?: string;
+}
+
+export async function fetchSearchSuggestions(
+  query: string,
+  limit = 8,
+): Promise<SearchSuggestion[]> {
+  try {
+    const url = new URL(`${API_BASE_URL}/search/comprehensive/suggestions`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("limit", String(limit));
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    return [];
+  }
+}
+
 export async function searchCruises(
   params: CruiseSearchParams,
 ): Promise<Cruise[]> {
@@ -679,3 +719,73 @@ export async function fetchAvailableSailingDates(
     return []; // Return empty array instead of throwing
   }
 }
+
+export type CabinCategory = "interior" | "oceanview" | "balcony" | "suite";
+
+export interface TotalCostParty {
+  adults: number;
+  children: number;
+  childAges?: number[];
+}
+
+export interface CostLineItem {
+  code: string;
+  kind: "fare" | "tax" | "fee" | "gratuity" | "credit";
+  label: string;
+  // Credits are negative; they don't reduce what is paid
+  amount: number;
+  due: "booking" | "onboard" | "included";
+  note?: string;
+}
+
+export interface TotalCost {
+  cruiseId: string;
+  cabinType: CabinCategory;
+  party: TotalCostParty;
+  currency: string;
+  nights: number;
+  lineItems: CostLineItem[];
+  dueAtBooking: number;
+  dueOnboard: number;
+  allInTotal: number;
+  perPerson: number;
+  onboardCredit: number;
+  estimated: boolean;
+  source: "pricing" | "cheapest_pricing";
+}
+
+/**
+ * All-in cost of a cruise for a party in one cabin category, line by line.
+ * The cruise page, quote emails and the payment page estimate all read it, so
+ * they agree. Null when the cabin category has no pricing.
+ */
+export async function fetchTotalCost(
+  cruiseId: string | number,
+  cabinType: CabinCategory,
+  party: TotalCostParty,
+): Promise<TotalCost | null> {
+  const url = new URL(`${API_BASE_URL}/cruises/${cruiseId}/total-cost`);
+  url.searchParams.set("cabinType", cabinType);
+  url.searchParams.set("adults", String(party.adults));
+  url.searchParams.set("children", String(party.children));
+  if (party.childAges?.length) {
+    url.searchParams.set("childAges", party.childAges.join(","));
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const result: ApiResponse<TotalCost> = await response.json();
+  return result.data;
+}
@@ -9,6 +9,7 @@ const isPublicRoute = createRouteMatcher([
   "/cruise/(.*)",
   "/booking/(.*)", // Allow guest checkout - authentication not required for booking flow
   "/alerts/new", // Allow users to fill out alert form before signing in
+  "/alerts/unsubscribe", // Pause/unsubscribe links in alert emails carry a signed token
   "/top-destinations",
   "/cruise-lines",
   "/departure-ports",